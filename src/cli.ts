@@ -124,7 +124,15 @@ async function main(): Promise<void> {
                   logForDebugging(
                     `Config updated from control fd: ${JSON.stringify(newConfig)}`,
                   )
-                  SandboxManager.updateConfig(newConfig)
+                  try {
+                    SandboxManager.updateConfig(newConfig)
+                  } catch (err) {
+                    // e.g. a domain list file that can't be read
+                    logForDebugging(
+                      `Config update from control fd failed (ignored): ${err instanceof Error ? err.message : String(err)}`,
+                      { level: 'error' },
+                    )
+                  }
                 } else if (line.trim()) {
                   // Only log non-empty lines that failed to parse
                   logForDebugging(
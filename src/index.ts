@@ -1,13 +1,25 @@
 // Library exports
 export { SandboxManager } from './sandbox/sandbox-manager.js'
 export { SandboxViolationStore } from './sandbox/sandbox-violation-store.js'
+export { NetworkAuditLog } from './sandbox/network-audit-log.js'
+export { AskDecisionCache } from './sandbox/ask-decision-cache.js'
+export { BridgeSupervisor } from './sandbox/bridge-supervisor.js'
+export type { AskDecisionCacheEntry } from './sandbox/ask-decision-cache.js'
 
 // Configuration types and schemas
 export type {
   SandboxRuntimeConfig,
+  SandboxCommandConfig,
   NetworkConfig,
   FilesystemConfig,
   IgnoreViolationsConfig,
+  NetworkAuditLogConfig,
+  NetworkLimitsConfig,
+  AskPolicyConfig,
+  UpstreamProxyConfig,
+  MitmRouteConfig,
+  TlsInterceptionConfig,
+  HttpRuleConfig,
 } from './sandbox/sandbox-config.js'
 
 export {
@@ -18,15 +30,32 @@ export {
   RipgrepConfigSchema,
 } from './sandbox/sandbox-config.js'
 
+export { NETWORK_PRESETS } from './sandbox/network-presets.js'
+export type { NetworkPresetName } from './sandbox/network-presets.js'
+
 // Schema types and utilities
 export type {
   SandboxAskCallback,
+  SandboxAskDecision,
+  SandboxAskScope,
   FsReadRestrictionConfig,
   FsReadDenyOnlyConfig,
   FsReadAllowOnlyConfig,
   FsWriteRestrictionConfig,
   NetworkRestrictionConfig,
   NetworkHostPattern,
+  NetworkFilterDecision,
+  NetworkProtocol,
+  NetworkRequestContext,
+  SandboxAskContext,
+  SandboxInvocation,
+  MitmRoute,
+  NetworkAuditEvent,
+  NetworkAuditSink,
+  NetworkViolation,
+  ActiveConnection,
+  BridgeHealth,
+  BridgeEvent,
 } from './sandbox/sandbox-schemas.js'
 
 export {
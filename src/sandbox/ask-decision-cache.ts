@@ -0,0 +1,183 @@
+import { logForDebugging } from '../utils/debug.js'
+import type {
+  SandboxAskCallback,
+  SandboxAskContext,
+  SandboxAskScope,
+} from './sandbox-schemas.js'
+
+/**
+ * A remembered ask-callback decision for one host:port
+ */
+export interface AskDecisionCacheEntry {
+  host: string
+  port: number
+  /** Invocation the decision is limited to, if it was asked for one */
+  invocationId?: string
+  allowed: boolean
+  /** Epoch milliseconds when the callback answered */
+  decidedAt: number
+  /** Epoch milliseconds when the decision expires, or undefined for the session */
+  expiresAt: number | undefined
+}
+
+export interface AskDecisionOptions {
+  /** Give up waiting for the callback after this many milliseconds */
+  timeoutMs?: number
+  /** Decision applied when the callback times out */
+  timeoutDecision: boolean
+  /** Scope used when the callback returns a plain boolean or omits the scope */
+  defaultScope: SandboxAskScope
+  /**
+   * Keep the decision to this invocation, e.g. one wrapped with its own
+   * network policy, whose answers must not apply to other commands
+   */
+  invocationId?: string
+}
+
+/**
+ * Where a decision came from: a cached answer, a fresh callback answer, the
+ * timeout default, or a callback that threw.
+ */
+export type AskDecisionSource = 'cache' | 'callback' | 'timeout' | 'error'
+
+export interface AskDecisionOutcome {
+  allowed: boolean
+  source: AskDecisionSource
+}
+
+function cacheKey(
+  host: string,
+  port: number,
+  invocationId: string | undefined,
+): string {
+  const key = `${host.toLowerCase()}:${port}`
+  return invocationId === undefined ? key : `${invocationId}/${key}`
+}
+
+/**
+ * Caches ask-callback decisions per host:port and coalesces concurrent asks
+ * for the same host:port into a single callback invocation. Decisions asked
+ * for a single invocation are cached and coalesced apart from the others.
+ */
+export class AskDecisionCache {
+  private decisions: Map<string, AskDecisionCacheEntry> = new Map()
+  private pending: Map<string, Promise<AskDecisionOutcome>> = new Map()
+  // Bumped by clear() so answers to asks started before it are not cached
+  private generation = 0
+
+  decide(
+    params: SandboxAskContext & { port: number },
+    callback: SandboxAskCallback,
+    options: AskDecisionOptions,
+  ): Promise<AskDecisionOutcome> {
+    const key = cacheKey(params.host, params.port, options.invocationId)
+
+    const cached = this.lookup(key)
+    if (cached) {
+      return Promise.resolve({ allowed: cached.allowed, source: 'cache' })
+    }
+
+    const pending = this.pending.get(key)
+    if (pending) {
+      logForDebugging(`Joining pending permission request for ${key}`)
+      return pending
+    }
+
+    const ask = this.ask(params, callback, options).finally(() => {
+      this.pending.delete(key)
+    })
+    this.pending.set(key, ask)
+    return ask
+  }
+
+  getEntries(): AskDecisionCacheEntry[] {
+    for (const key of [...this.decisions.keys()]) {
+      this.lookup(key)
+    }
+    return [...this.decisions.values()].map(entry => ({ ...entry }))
+  }
+
+  /**
+   * Forget cached decisions. With no arguments everything is cleared; with a
+   * host, only that host (optionally only one port of it).
+   */
+  clear(host?: string, port?: number): void {
+    this.generation++
+    if (host === undefined) {
+      this.decisions.clear()
+      return
+    }
+    for (const [key, entry] of this.decisions) {
+      if (
+        entry.host === host.toLowerCase() &&
+        (port === undefined || entry.port === port)
+      ) {
+        this.decisions.delete(key)
+      }
+    }
+  }
+
+  private lookup(key: string): AskDecisionCacheEntry | undefined {
+    const entry = this.decisions.get(key)
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.decisions.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  private async ask(
+    params: SandboxAskContext & { port: number },
+    callback: SandboxAskCallback,
+    options: AskDecisionOptions,
+  ): Promise<AskDecisionOutcome> {
+    const { host, port } = params
+    const generation = this.generation
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout =
+      options.timeoutMs === undefined
+        ? undefined
+        : new Promise<'timeout'>(resolve => {
+            timer = setTimeout(() => resolve('timeout'), options.timeoutMs)
+          })
+
+    try {
+      const answer = callback(params)
+      const result = await (timeout ? Promise.race([answer, timeout]) : answer)
+      if (result === 'timeout') {
+        logForDebugging(
+          `Permission request for ${host}:${port} timed out after ${options.timeoutMs}ms`,
+          { level: 'warn' },
+        )
+        return { allowed: options.timeoutDecision, source: 'timeout' }
+      }
+
+      const decision =
+        typeof result === 'boolean' ? { allowed: result } : result
+      const scope = decision.scope ?? options.defaultScope
+      if (scope !== 'once' && generation === this.generation) {
+        const decidedAt = Date.now()
+        const { invocationId } = options
+        this.decisions.set(cacheKey(host, port, invocationId), {
+          host: host.toLowerCase(),
+          port,
+          ...(invocationId !== undefined && { invocationId }),
+          allowed: decision.allowed,
+          decidedAt,
+          expiresAt:
+            scope === 'session'
+              ? undefined
+              : decidedAt + scope.minutes * 60_000,
+        })
+      }
+      return { allowed: decision.allowed, source: 'callback' }
+    } catch (error) {
+      logForDebugging(`Error in permission callback: ${error}`, {
+        level: 'error',
+      })
+      return { allowed: false, source: 'error' }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
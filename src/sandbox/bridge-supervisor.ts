@@ -0,0 +1,160 @@
+import { logForDebugging } from '../utils/debug.js'
+import type { BridgeEvent, BridgeHealth } from './sandbox-schemas.js'
+import type { Bridge } from './unix-socket-bridge.js'
+
+interface BridgeState {
+  bridge: Bridge
+  healthy: boolean
+  restarts: number
+  lastRestartAt?: number
+  lastError?: string
+}
+
+/**
+ * Watches the Linux network bridges and restarts any that stopped accepting
+ * connections, on the same socket path, so sandboxes that are already
+ * running reconnect. Bridges are checked periodically and before each
+ * command is wrapped. Subscribers are told when a bridge goes down and
+ * whether it came back.
+ */
+export class BridgeSupervisor {
+  private bridges: BridgeState[] = []
+  private listeners: Set<(event: BridgeEvent) => void> = new Set()
+  private timer: NodeJS.Timeout | undefined
+  private pending: Promise<boolean> | undefined
+
+  constructor(private readonly intervalMs = 5000) {}
+
+  /** Start supervising the bridges of a session */
+  watch(bridges: Bridge[]): void {
+    clearInterval(this.timer)
+    this.bridges = bridges.map(bridge => ({
+      bridge,
+      healthy: true,
+      restarts: 0,
+    }))
+    this.timer = setInterval(() => void this.check(), this.intervalMs)
+    this.timer.unref()
+  }
+
+  /** Supervise bridges started later in the session */
+  add(bridges: Bridge[]): void {
+    for (const bridge of bridges) {
+      this.bridges.push({ bridge, healthy: true, restarts: 0 })
+    }
+  }
+
+  /** Stop supervising bridges that were closed, such as a sandbox's */
+  remove(bridges: Bridge[]): void {
+    this.bridges = this.bridges.filter(state => !bridges.includes(state.bridge))
+  }
+
+  /**
+   * Stop supervising, waiting for a check in progress so that no bridge is
+   * restarted after this resolves
+   */
+  async unwatch(): Promise<void> {
+    clearInterval(this.timer)
+    this.timer = undefined
+    this.bridges = []
+    await this.pending
+  }
+
+  /**
+   * Check every bridge and restart the ones that are down. Concurrent calls
+   * share one check. Resolves to whether all bridges are healthy afterwards.
+   */
+  check(): Promise<boolean> {
+    this.pending ??= this.checkBridges().finally(() => {
+      this.pending = undefined
+    })
+    return this.pending
+  }
+
+  getHealth(): BridgeHealth[] {
+    return this.bridges.map(state => ({
+      name: state.bridge.name,
+      socketPath: state.bridge.socketPath,
+      healthy: state.healthy,
+      restarts: state.restarts,
+      lastRestartAt:
+        state.lastRestartAt !== undefined
+          ? new Date(state.lastRestartAt).toISOString()
+          : undefined,
+      lastError: state.lastError,
+    }))
+  }
+
+  subscribe(listener: (event: BridgeEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async checkBridges(): Promise<boolean> {
+    const bridges = this.bridges
+    let healthy = true
+    for (const state of bridges) {
+      const { bridge } = state
+      if (bridge.isHealthy()) {
+        state.healthy = true
+        continue
+      }
+      if (state.healthy) {
+        state.healthy = false
+        logForDebugging(`${bridge.name} bridge is down, restarting`, {
+          level: 'error',
+        })
+        this.emit('down', bridge)
+      }
+
+      try {
+        await bridge.restart()
+      } catch (error) {
+        state.lastError = error instanceof Error ? error.message : String(error)
+        logForDebugging(
+          `Failed to restart ${bridge.name} bridge: ${state.lastError}`,
+          { level: 'error' },
+        )
+        this.emit('restart-failed', bridge, state.lastError)
+        healthy = false
+        continue
+      }
+      // Sessions that ended meanwhile close their own bridges
+      if (this.bridges !== bridges) {
+        return false
+      }
+      state.healthy = true
+      state.restarts++
+      state.lastRestartAt = Date.now()
+      state.lastError = undefined
+      logForDebugging(`${bridge.name} bridge restarted on ${bridge.socketPath}`)
+      this.emit('restarted', bridge)
+    }
+    return healthy
+  }
+
+  private emit(
+    type: BridgeEvent['type'],
+    bridge: Bridge,
+    error?: string,
+  ): void {
+    const event: BridgeEvent = {
+      type,
+      timestamp: new Date().toISOString(),
+      bridge: bridge.name,
+      socketPath: bridge.socketPath,
+      error,
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (err) {
+        logForDebugging(`Bridge event listener threw: ${err}`, {
+          level: 'error',
+        })
+      }
+    }
+  }
+}
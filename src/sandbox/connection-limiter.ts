@@ -0,0 +1,399 @@
+import { randomUUID } from 'node:crypto'
+import type { Socket } from 'node:net'
+import { Transform, type Writable } from 'node:stream'
+import { logForDebugging } from '../utils/debug.js'
+import type { NetworkLimitsConfig } from './sandbox-config.js'
+import type {
+  ActiveConnection,
+  NetworkAuditEvent,
+  NetworkFilterDecision,
+} from './sandbox-schemas.js'
+
+/** `up` is from the sandbox to the destination, `down` the reverse */
+export type TransferDirection = 'up' | 'down'
+
+/** What a lease is for: the connection's destination, owner and the rule that allowed it */
+export type ConnectionTarget = Pick<
+  ActiveConnection,
+  'protocol' | 'host' | 'port' | 'rule' | 'invocation'
+>
+
+function limitRule(limit: keyof NetworkLimitsConfig): string {
+  return `limits:${limit}`
+}
+
+/**
+ * Paces transfers in one direction to a rate shared by all connections.
+ * Each chunk is scheduled after the chunks before it have drained.
+ */
+class BandwidthSchedule {
+  private nextFreeAt = 0
+
+  /** Milliseconds to hold `bytes` back so the rate is not exceeded */
+  reserve(bytes: number, bytesPerSecond: number): number {
+    const now = Date.now()
+    const startAt = Math.max(this.nextFreeAt, now)
+    this.nextFreeAt = startAt + (bytes * 1000) / bytesPerSecond
+    return startAt - now
+  }
+}
+
+/**
+ * Enforces `network.limits` for the proxies. One limiter is shared by the
+ * HTTP and SOCKS proxies, so session byte caps, bandwidth and per-host
+ * connection counts cover both. Limits are read on every use, so config
+ * updates apply to open connections. The limiter also keeps the leases of
+ * open connections, so they can be listed and closed.
+ */
+export class ConnectionLimiter {
+  private openConnections: Map<string, number> = new Map()
+  private leases: Set<ConnectionLease> = new Set()
+  private sessionBytes = 0
+  private schedules: Record<TransferDirection, BandwidthSchedule> = {
+    up: new BandwidthSchedule(),
+    down: new BandwidthSchedule(),
+  }
+
+  constructor(
+    private readonly getLimits: () => NetworkLimitsConfig | undefined,
+  ) {}
+
+  get limits(): NetworkLimitsConfig {
+    return this.getLimits() ?? {}
+  }
+
+  /**
+   * Open a lease for a new connection, or return the decision refusing it if
+   * the host or session is at its limit. The lease must be released when the
+   * connection closes.
+   */
+  acquire(target: ConnectionTarget): ConnectionLease | NetworkFilterDecision {
+    const { maxConnectionsPerHost, maxBytesPerSession } = this.limits
+    const key = target.host.toLowerCase()
+    const open = this.openConnections.get(key) ?? 0
+
+    if (
+      maxBytesPerSession !== undefined &&
+      this.sessionBytes >= maxBytesPerSession
+    ) {
+      return { allowed: false, rule: limitRule('maxBytesPerSession') }
+    }
+    if (maxConnectionsPerHost !== undefined && open >= maxConnectionsPerHost) {
+      return { allowed: false, rule: limitRule('maxConnectionsPerHost') }
+    }
+
+    this.openConnections.set(key, open + 1)
+    const lease = new ConnectionLease(this, target)
+    this.leases.add(lease)
+    return lease
+  }
+
+  /** Number of open connections per host */
+  getOpenConnections(): Map<string, number> {
+    return new Map(this.openConnections)
+  }
+
+  /** Connections holding a lease, oldest first */
+  getActiveConnections(): ActiveConnection[] {
+    return [...this.leases].map(lease => lease.describe())
+  }
+
+  /**
+   * Close the open connections for which `getRule` returns a rule, reporting
+   * them as denied by it. Returns the number of connections closed.
+   */
+  revoke(getRule: (target: ConnectionTarget) => string | undefined): number {
+    let closed = 0
+    for (const lease of [...this.leases]) {
+      const rule = getRule(lease.target)
+      if (rule !== undefined && lease.revoke(rule)) {
+        closed++
+      }
+    }
+    return closed
+  }
+
+  /** Start a new session: forget transferred bytes and bandwidth schedules */
+  reset(): void {
+    this.sessionBytes = 0
+    this.schedules = {
+      up: new BandwidthSchedule(),
+      down: new BandwidthSchedule(),
+    }
+  }
+
+  /** @internal Called by ConnectionLease.release */
+  releaseConnection(lease: ConnectionLease, key: string): void {
+    this.leases.delete(lease)
+    const open = (this.openConnections.get(key) ?? 1) - 1
+    if (open > 0) {
+      this.openConnections.set(key, open)
+    } else {
+      this.openConnections.delete(key)
+    }
+  }
+
+  /**
+   * @internal Count bytes against the session. Returns the rule of the cap
+   * they would exceed, without counting them, or undefined.
+   */
+  addSessionBytes(bytes: number): string | undefined {
+    const { maxBytesPerSession } = this.limits
+    if (
+      maxBytesPerSession !== undefined &&
+      this.sessionBytes + bytes > maxBytesPerSession
+    ) {
+      return limitRule('maxBytesPerSession')
+    }
+    this.sessionBytes += bytes
+    return undefined
+  }
+
+  /** @internal Milliseconds to hold a chunk back for the bandwidth limits */
+  schedule(direction: TransferDirection, bytes: number): number {
+    const limits = this.limits
+    const bytesPerSecond =
+      direction === 'up'
+        ? limits.uploadBytesPerSecond
+        : limits.downloadBytesPerSecond
+    return bytesPerSecond === undefined
+      ? 0
+      : this.schedules[direction].reserve(bytes, bytesPerSecond)
+  }
+}
+
+/**
+ * The limits of one proxied connection. Data is passed through `meter()`
+ * streams, which count bytes, pace them and watch for idleness. When a limit
+ * is hit, or the connection is revoked, the connection's limit handlers are
+ * called to close it.
+ */
+export class ConnectionLease {
+  readonly id = randomUUID()
+  readonly openedAt = Date.now()
+  /** Rule of the limit or revocation that closed the connection, if one did */
+  exceeded: string | undefined
+  private bytes: Record<TransferDirection, number> = { up: 0, down: 0 }
+  private released = false
+  private idleTimer: NodeJS.Timeout | undefined
+  private limitHandlers: Set<(rule: string) => void> = new Set()
+
+  constructor(
+    private readonly limiter: ConnectionLimiter,
+    readonly target: ConnectionTarget,
+  ) {
+    this.touch()
+  }
+
+  /**
+   * Call `handler` when a limit closes the connection, right away if one
+   * already has. Returns a function that removes the handler.
+   */
+  onLimit(handler: (rule: string) => void): () => void {
+    if (this.exceeded && !this.released) {
+      handler(this.exceeded)
+      return () => {}
+    }
+    this.limitHandlers.add(handler)
+    return () => {
+      this.limitHandlers.delete(handler)
+    }
+  }
+
+  /**
+   * Stream that passes data in one direction while enforcing the limits.
+   * Data after a limit was hit is dropped.
+   */
+  meter(direction: TransferDirection): Transform {
+    return new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        const delay = this.admit(direction, chunk.length)
+        if (delay === undefined) {
+          callback()
+        } else if (delay > 0) {
+          setTimeout(() => callback(null, chunk), delay)
+        } else {
+          callback(null, chunk)
+        }
+      },
+    })
+  }
+
+  /**
+   * Pass a datagram of `bytes` in one direction while enforcing the limits:
+   * `send` is called once the bandwidth limits allow it. Returns false, and
+   * drops the datagram, once a limit was hit.
+   */
+  meterDatagram(
+    direction: TransferDirection,
+    bytes: number,
+    send: () => void,
+  ): boolean {
+    const delay = this.admit(direction, bytes)
+    if (delay === undefined) {
+      return false
+    }
+    if (delay > 0) {
+      setTimeout(send, delay)
+    } else {
+      send()
+    }
+    return true
+  }
+
+  /**
+   * Fail a connection attempt that takes longer than `connectTimeoutMs`.
+   * Sockets that are already connected are left alone.
+   */
+  watchConnect(socket: Socket): void {
+    const { connectTimeoutMs } = this.limiter.limits
+    if (connectTimeoutMs === undefined || !socket.connecting) {
+      return
+    }
+    const timer = setTimeout(() => {
+      this.exceeded = limitRule('connectTimeoutMs')
+      logForDebugging(
+        `Connection to ${this.target.host} timed out after ${connectTimeoutMs}ms`,
+        { level: 'error' },
+      )
+      socket.destroy(
+        Object.assign(
+          new Error(`Connection timed out after ${connectTimeoutMs}ms`),
+          { code: 'ETIMEDOUT' },
+        ),
+      )
+    }, connectTimeoutMs)
+    socket.once('connect', () => clearTimeout(timer))
+    socket.once('close', () => clearTimeout(timer))
+  }
+
+  /**
+   * Close the connection because it is no longer permitted, reporting it as
+   * denied by `rule`. Returns false if it was already closed.
+   */
+  revoke(rule: string): boolean {
+    if (this.exceeded || this.released) {
+      return false
+    }
+    this.hit(rule)
+    return true
+  }
+
+  /** The connection as listed by getActiveConnections */
+  describe(): ActiveConnection {
+    return {
+      id: this.id,
+      ...this.target,
+      openedAt: new Date(this.openedAt).toISOString(),
+      ageMs: Date.now() - this.openedAt,
+      bytesUp: this.bytes.up,
+      bytesDown: this.bytes.down,
+    }
+  }
+
+  /** Return the connection slot. Safe to call more than once. */
+  release(): void {
+    if (this.released) {
+      return
+    }
+    this.released = true
+    clearTimeout(this.idleTimer)
+    this.limitHandlers.clear()
+    this.limiter.releaseConnection(this, this.target.host.toLowerCase())
+  }
+
+  /**
+   * Count bytes passing in one direction. Returns how long to hold them back,
+   * or undefined if they must be dropped because a limit was hit.
+   */
+  private admit(
+    direction: TransferDirection,
+    bytes: number,
+  ): number | undefined {
+    if (this.exceeded) {
+      return undefined
+    }
+    const rule = this.count(direction, bytes)
+    if (rule) {
+      this.hit(rule)
+      return undefined
+    }
+    this.touch()
+    return this.limiter.schedule(direction, bytes)
+  }
+
+  private count(
+    direction: TransferDirection,
+    bytes: number,
+  ): string | undefined {
+    const { maxBytesPerConnection } = this.limiter.limits
+    if (
+      maxBytesPerConnection !== undefined &&
+      this.bytes.up + this.bytes.down + bytes > maxBytesPerConnection
+    ) {
+      return limitRule('maxBytesPerConnection')
+    }
+    const sessionRule = this.limiter.addSessionBytes(bytes)
+    if (!sessionRule) {
+      this.bytes[direction] += bytes
+    }
+    return sessionRule
+  }
+
+  private touch(): void {
+    clearTimeout(this.idleTimer)
+    const { idleTimeoutMs } = this.limiter.limits
+    if (idleTimeoutMs === undefined || this.released) {
+      return
+    }
+    this.idleTimer = setTimeout(
+      () => this.hit(limitRule('idleTimeoutMs')),
+      idleTimeoutMs,
+    )
+    this.idleTimer.unref()
+  }
+
+  private hit(rule: string): void {
+    if (this.exceeded || this.released) {
+      return
+    }
+    this.exceeded = rule
+    clearTimeout(this.idleTimer)
+    logForDebugging(`Connection to ${this.target.host} closed by ${rule}`, {
+      level: 'error',
+    })
+    for (const handler of [...this.limitHandlers]) {
+      handler(rule)
+    }
+  }
+}
+
+/**
+ * Stream to write to instead of `destination`: the lease's meter piped into
+ * it, or the destination itself when there is no lease
+ */
+export function meteredDestination(
+  destination: Writable,
+  lease: ConnectionLease | undefined,
+  direction: TransferDirection,
+): Writable {
+  if (!lease) {
+    return destination
+  }
+  const meter = lease.meter(direction)
+  meter.pipe(destination)
+  return meter
+}
+
+/**
+ * Decision and rule to report for a closed connection: a denial by the limit
+ * that closed it, otherwise the rule that allowed it
+ */
+export function getClosedConnectionDecision(
+  rule: string,
+  lease: ConnectionLease | undefined,
+): Pick<NetworkAuditEvent, 'decision' | 'rule'> {
+  return lease?.exceeded
+    ? { decision: 'deny', rule: lease.exceeded }
+    : { decision: 'allow', rule }
+}
@@ -0,0 +1,70 @@
+import * as fs from 'fs'
+import { domainPatternSchema } from './sandbox-config.js'
+import { isIpAddress } from './ip-address.js'
+import { normalizePathForSandbox } from './sandbox-utils.js'
+
+/**
+ * Names that hosts files map to the local machine in their header. Blocking
+ * or allowing them is never what a downloaded list means.
+ */
+const HOSTS_FILE_LOCAL_NAMES = new Set([
+  'localhost',
+  'localhost.localdomain',
+  'local',
+  'broadcasthost',
+  'ip6-localhost',
+  'ip6-loopback',
+  'ip6-localnet',
+  'ip6-mcastprefix',
+  'ip6-allnodes',
+  'ip6-allrouters',
+  'ip6-allhosts',
+  '0.0.0.0',
+])
+
+/**
+ * Parse a domain list: one rule per line, or hosts-file lines
+ * (`0.0.0.0 ads.example.com`) whose names are taken as exact rules.
+ * `#` starts a comment. Every rule is checked with the config schema, and
+ * an invalid one fails the whole list.
+ */
+export function parseDomainList(content: string, source: string): string[] {
+  const rules: string[] = []
+  content.split(/\r?\n/).forEach((line, index) => {
+    const fields = line.replace(/#.*/, '').trim().split(/\s+/).filter(Boolean)
+    const isHostsLine = fields.length > 1 && isIpAddress(fields[0]!)
+    if (fields.length > 1 && !isHostsLine) {
+      throw new Error(`Invalid line in domain list ${source}:${index + 1}`)
+    }
+    const entries = isHostsLine
+      ? fields.slice(1).filter(name => !HOSTS_FILE_LOCAL_NAMES.has(name))
+      : fields
+    for (const entry of entries) {
+      if (!domainPatternSchema.safeParse(entry).success) {
+        throw new Error(
+          `Invalid domain rule "${entry}" in domain list ${source}:${index + 1}`,
+        )
+      }
+      rules.push(entry)
+    }
+  })
+  return rules
+}
+
+/**
+ * Read and parse the domain list files named by `allowedDomainsFiles` or
+ * `deniedDomainsFiles`, in order
+ */
+export function loadDomainListFiles(paths: readonly string[]): string[] {
+  return paths.flatMap(filePath => {
+    let content: string
+    try {
+      content = fs.readFileSync(normalizePathForSandbox(filePath), 'utf-8')
+    } catch (error) {
+      throw new Error(
+        `Cannot read domain list ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+    return parseDomainList(content, filePath)
+  })
+}
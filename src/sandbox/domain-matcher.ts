@@ -0,0 +1,198 @@
+import {
+  matchesParsedDomainPattern,
+  parseDomainPattern,
+  type ParsedDomainPattern,
+  type PortRange,
+} from './domain-pattern.js'
+import { normalizeHostname } from './hostname.js'
+
+interface RuleEntry {
+  /** Position of the rule in its list; the earliest matching rule wins */
+  index: number
+  pattern: string
+  ports: PortRange | undefined
+  /** Whether the rule names `localhost` or IP addresses rather than a domain */
+  namesAddress: boolean
+}
+
+/**
+ * Trie node for one label of a host, reached from the root by the labels to
+ * its right (`com` -> `example` for `example.com`)
+ */
+interface LabelNode {
+  children: Map<string, LabelNode>
+  /** Rules matching the host that ends at this node */
+  exact: RuleEntry[]
+  /** Rules matching hosts strictly below this node */
+  subdomains: RuleEntry[]
+}
+
+function createNode(): LabelNode {
+  return { children: new Map(), exact: [], subdomains: [] }
+}
+
+/** Which rules a lookup accepts, by their port restriction */
+type RuleFilter = (
+  ports: PortRange | undefined,
+  namesAddress: boolean,
+) => boolean
+
+/** Allow and deny lists compiled for filtering */
+export interface CompiledDomainRules {
+  allowed: DomainMatcher
+  denied: DomainMatcher
+}
+
+/**
+ * A list of domain rules compiled for fast matching. Host rules are stored
+ * in a trie of reversed labels, so a lookup walks the labels of the host
+ * instead of testing every rule. `*` and IP rules, which are rarely numerous,
+ * are tested in order.
+ *
+ * `match` returns the same rule as scanning the list in order with
+ * matchesDomainPattern, including for rules that don't parse.
+ */
+export class DomainMatcher {
+  private readonly root = createNode()
+  private readonly scanned: Array<{
+    index: number
+    pattern: string
+    parsed: ParsedDomainPattern
+    namesAddress: boolean
+  }> = []
+
+  constructor(readonly patterns: readonly string[]) {
+    patterns.forEach((pattern, index) => this.add(pattern, index))
+  }
+
+  /**
+   * The first rule in the list that matches the host and port, or undefined
+   */
+  match(hostname: string, port: number): string | undefined {
+    return this.find(
+      hostname,
+      ports => !ports || (port >= ports.from && port <= ports.to),
+    )
+  }
+
+  /**
+   * The first rule that matches the host on some port, for lookups made
+   * before the port is known
+   */
+  matchAnyPort(hostname: string): string | undefined {
+    return this.find(hostname, () => true)
+  }
+
+  /** The first rule that matches the host on every port */
+  matchEveryPort(hostname: string): string | undefined {
+    return this.find(hostname, ports => !ports)
+  }
+
+  /**
+   * The first `localhost` or IP rule that matches the host and port. These
+   * name addresses rather than a domain, whose DNS answers can change.
+   */
+  matchAddressRule(hostname: string, port: number): string | undefined {
+    return this.find(
+      hostname,
+      (ports, namesAddress) =>
+        namesAddress && (!ports || (port >= ports.from && port <= ports.to)),
+    )
+  }
+
+  private find(hostname: string, accepts: RuleFilter): string | undefined {
+    const host = normalizeHostname(hostname)
+    if (host === undefined) {
+      return undefined
+    }
+
+    let best: RuleEntry | undefined
+    const consider = (entries: RuleEntry[]) => {
+      for (const entry of entries) {
+        if (
+          (!best || entry.index < best.index) &&
+          accepts(entry.ports, entry.namesAddress)
+        ) {
+          best = entry
+        }
+      }
+    }
+
+    const labels = host.split('.')
+    let node: LabelNode | undefined = this.root
+    for (let i = labels.length - 1; i >= 0 && node; i--) {
+      node = node.children.get(labels[i]!)
+      if (node) {
+        consider(i === 0 ? node.exact : node.subdomains)
+      }
+    }
+
+    for (const rule of this.scanned) {
+      if (best && best.index < rule.index) {
+        break
+      }
+      // Ports are checked by accepts, so pass one the rule covers
+      if (
+        accepts(rule.parsed.ports, rule.namesAddress) &&
+        matchesParsedDomainPattern(
+          host,
+          rule.parsed.ports?.from ?? 0,
+          rule.parsed,
+        )
+      ) {
+        return rule.pattern
+      }
+    }
+    return best?.pattern
+  }
+
+  private add(pattern: string, index: number): void {
+    const parsed = parseDomainPattern(pattern)
+    if (parsed?.kind === 'any' || parsed?.kind === 'ipRange') {
+      this.scanned.push({
+        index,
+        pattern,
+        parsed,
+        namesAddress: parsed.kind === 'ipRange',
+      })
+      return
+    }
+
+    // Rules that don't parse match their own canonical host exactly
+    const host = parsed ? parsed.host : normalizeHostname(pattern)
+    if (host === undefined) {
+      return
+    }
+    const entry: RuleEntry = {
+      index,
+      pattern,
+      ports: parsed?.ports,
+      namesAddress: parsed?.kind === 'exact' && host === 'localhost',
+    }
+    const node = this.getNode(host)
+    switch (parsed?.kind) {
+      case 'subdomains':
+        node.subdomains.push(entry)
+        break
+      case 'apexAndSubdomains':
+        node.exact.push(entry)
+        node.subdomains.push(entry)
+        break
+      default:
+        node.exact.push(entry)
+    }
+  }
+
+  private getNode(host: string): LabelNode {
+    let node = this.root
+    for (const label of host.split('.').reverse()) {
+      let child = node.children.get(label)
+      if (!child) {
+        child = createNode()
+        node.children.set(label, child)
+      }
+      node = child
+    }
+    return node
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Domain rule grammar shared by the config schema and the network filter.
+ *
+ * A rule is a host part optionally followed by a port constraint:
+ *
+ * - `*`                    - any host
+ * - `example.com`          - exactly this host
+ * - `*.example.com`        - any subdomain of example.com (not the apex)
+ * - `**.example.com`       - example.com itself and any of its subdomains
+ * - `10.0.0.5`, `2001:db8::1` - this IP address
+ * - `10.0.0.0/8`, `2001:db8::/32` - any IP address in this prefix
+ * - `<host>:443`           - any of the above, restricted to a single port
+ * - `<host>:8080-8090`     - any of the above, restricted to a port range
+ *
+ * IPv6 literals and prefixes must be bracketed to add a port constraint
+ * (`[2001:db8::1]:443`, `[2001:db8::]/32:443`). IP rules only match
+ * destinations given as IP literals, in any spelling of the address.
+ *
+ * Rules without a port constraint match every port.
+ *
+ * Hosts in rules and destinations are compared in their canonical form (see
+ * normalizeHostname), so `GitHub.com.` and `github.com` are the same rule and
+ * `0x7f.1` is an IP rule for `127.0.0.1`. Rules whose host is ambiguous are
+ * invalid, and destinations whose host is ambiguous match no rule.
+ */
+
+import { normalizeHostname } from './hostname.js'
+import {
+  isAddressInParsedCidr,
+  parseCidr,
+  parseIpAddress,
+  type ParsedCidr,
+} from './ip-address.js'
+
+export type DomainPatternKind =
+  | 'any'
+  | 'exact'
+  | 'subdomains'
+  | 'apexAndSubdomains'
+  | 'ipRange'
+
+export interface PortRange {
+  from: number
+  to: number
+}
+
+export interface ParsedDomainPattern {
+  kind: DomainPatternKind
+  /**
+   * Canonical host, the base domain for wildcard kinds ('' for `any`), or
+   * the address or prefix as written for `ipRange`
+   */
+  host: string
+  /** Port constraint, or undefined to match every port */
+  ports: PortRange | undefined
+  /** Addresses matched by an `ipRange` rule */
+  range?: ParsedCidr
+}
+
+const PORT_SPEC_REGEX = /^(\d{1,5})(?:-(\d{1,5}))?$/
+
+function parsePortSpec(spec: string): PortRange | undefined {
+  const match = spec.match(PORT_SPEC_REGEX)
+  if (!match) {
+    return undefined
+  }
+
+  const from = parseInt(match[1]!, 10)
+  const to = match[2] === undefined ? from : parseInt(match[2], 10)
+  if (from < 1 || to > 65535 || from > to) {
+    return undefined
+  }
+
+  return { from, to }
+}
+
+/**
+ * Validate a wildcard base domain (the part after `*.` or `**.`).
+ * Requires at least two labels so that e.g. `*.com` is rejected as too broad.
+ */
+function isValidWildcardBase(domain: string): boolean {
+  if (domain.includes('*')) {
+    return false
+  }
+  const parts = domain.split('.')
+  return parts.length >= 2 && parts.every(p => p.length > 0)
+}
+
+function isValidExactHost(host: string): boolean {
+  if (host === 'localhost') {
+    return true
+  }
+  if (host.includes('*')) {
+    return false
+  }
+  // Regular domains must have at least one dot and no empty labels at the ends
+  return host.includes('.') && !host.startsWith('.') && !host.endsWith('.')
+}
+
+/**
+ * Split a rule into its host part and port spec. Bracketed hosts must be
+ * IPv6 literals or prefixes; bare IPv6 ones have no port spec.
+ */
+function splitHostAndPort(
+  pattern: string,
+):
+  | { hostPart: string; portSpec: string | undefined; ipv6: boolean }
+  | undefined {
+  if (pattern.startsWith('[')) {
+    const match = pattern.match(/^\[([^\]]+)\](\/\d+)?(?::(.*))?$/)
+    return match
+      ? {
+          hostPart: match[1]! + (match[2] ?? ''),
+          portSpec: match[3],
+          ipv6: true,
+        }
+      : undefined
+  }
+  // More than one colon can only be an IPv6 literal or prefix
+  if (pattern.indexOf(':') !== pattern.lastIndexOf(':')) {
+    return { hostPart: pattern, portSpec: undefined, ipv6: true }
+  }
+  const colonIndex = pattern.indexOf(':')
+  return colonIndex === -1
+    ? { hostPart: pattern, portSpec: undefined, ipv6: false }
+    : {
+        hostPart: pattern.slice(0, colonIndex),
+        portSpec: pattern.slice(colonIndex + 1),
+        ipv6: false,
+      }
+}
+
+/**
+ * Parse an IP literal or prefix rule, checking that bracketed and bare IPv6
+ * rules really are IPv6
+ */
+function parseIpRange(host: string, ipv6: boolean): ParsedCidr | undefined {
+  const address = host.split('/')[0]!
+  if (ipv6 !== address.includes(':')) {
+    return undefined
+  }
+  return parseIpAddress(address) ? parseCidr(host) : undefined
+}
+
+/**
+ * Parse a domain rule into its host and port components.
+ * Returns undefined if the rule is not valid.
+ */
+export function parseDomainPattern(
+  pattern: string,
+): ParsedDomainPattern | undefined {
+  // Reject protocols outright
+  if (pattern.includes('://')) {
+    return undefined
+  }
+
+  const split = splitHostAndPort(pattern)
+  if (!split) {
+    return undefined
+  }
+  let ports: PortRange | undefined
+  if (split.portSpec !== undefined) {
+    ports = parsePortSpec(split.portSpec)
+    if (!ports) {
+      return undefined
+    }
+  }
+
+  const hostPart = split.hostPart.toLowerCase()
+  if (split.ipv6 || hostPart.includes('/')) {
+    // IP prefixes, and IPv6 rules that must be IP literals
+    const range = parseIpRange(hostPart, split.ipv6)
+    return range ? { kind: 'ipRange', host: hostPart, ports, range } : undefined
+  }
+
+  if (hostPart === '*') {
+    return { kind: 'any', host: '', ports }
+  }
+
+  const wildcard = hostPart.startsWith('**.')
+    ? 'apexAndSubdomains'
+    : hostPart.startsWith('*.')
+      ? 'subdomains'
+      : undefined
+  const host = normalizeHostname(
+    hostPart.slice(wildcard === 'apexAndSubdomains' ? 3 : wildcard ? 2 : 0),
+  )
+  if (host === undefined) {
+    return undefined
+  }
+
+  if (wildcard) {
+    return isValidWildcardBase(host)
+      ? { kind: wildcard, host, ports }
+      : undefined
+  }
+
+  // Alternate IPv4 notations normalize to dotted-quad literals
+  const range = parseIpRange(host, false)
+  if (range) {
+    return { kind: 'ipRange', host, ports, range }
+  }
+  return isValidExactHost(host) ? { kind: 'exact', host, ports } : undefined
+}
+
+export function isValidDomainPattern(pattern: string): boolean {
+  return parseDomainPattern(pattern) !== undefined
+}
+
+/**
+ * Check whether a parsed rule matches a hostname and port.
+ */
+export function matchesParsedDomainPattern(
+  hostname: string,
+  port: number,
+  pattern: ParsedDomainPattern,
+): boolean {
+  if (pattern.ports && (port < pattern.ports.from || port > pattern.ports.to)) {
+    return false
+  }
+
+  const host = normalizeHostname(hostname)
+  if (host === undefined) {
+    return false
+  }
+
+  switch (pattern.kind) {
+    case 'ipRange': {
+      const address = parseIpAddress(host)
+      return (
+        address !== undefined &&
+        pattern.range !== undefined &&
+        isAddressInParsedCidr(address, pattern.range)
+      )
+    }
+    case 'any':
+      return true
+    case 'exact':
+      return host === pattern.host
+    case 'subdomains':
+      return host.endsWith('.' + pattern.host)
+    case 'apexAndSubdomains':
+      return host === pattern.host || host.endsWith('.' + pattern.host)
+  }
+}
+
+/**
+ * Check whether a domain rule string matches a hostname and port.
+ * Rules that don't parse (e.g. from a config that skipped schema validation)
+ * fall back to an exact comparison of the canonical hostname.
+ */
+export function matchesDomainPattern(
+  hostname: string,
+  port: number,
+  pattern: string,
+): boolean {
+  const parsed = parseDomainPattern(pattern)
+  if (!parsed) {
+    const host = normalizeHostname(hostname)
+    return host !== undefined && host === normalizeHostname(pattern)
+  }
+  return matchesParsedDomainPattern(hostname, port, parsed)
+}
@@ -0,0 +1,142 @@
+import { once } from 'node:events'
+import { connect, createServer, type Server, type Socket } from 'node:net'
+import { join } from 'node:path'
+import { logForDebugging } from '../utils/debug.js'
+
+/**
+ * Socket through which a Linux sandbox serves one of its exposed ports. A
+ * listener started inside the sandbox creates it in the sandbox's exposed
+ * directory, which is bound writable into that sandbox only.
+ */
+export function getExposedPortSocketPath(
+  socketDirectory: string,
+  port: number,
+): string {
+  return join(socketDirectory, `expose-${port}.sock`)
+}
+
+function closeServer(server: Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()))
+}
+
+/**
+ * Listens on host ports exposed by Linux sandboxes and relays each
+ * connection to the sandbox through its exposed-port socket. Connections
+ * made while no sandbox serves the port are closed.
+ *
+ * A port is listened on while some running command exposes it: when several
+ * do, the most recently started one serves it, and the listener is closed
+ * once the last one is released.
+ */
+export class ExposedPortForwarder {
+  private servers: Map<number, Server> = new Map()
+  /** Exposed directories of the sandboxes exposing each port, latest last */
+  private sandboxes: Map<number, string[]> = new Map()
+  private connections: Set<Socket> = new Set()
+
+  /** Ports currently listened on */
+  get ports(): number[] {
+    return [...this.servers.keys()]
+  }
+
+  /**
+   * Relay the ports to the sandbox with this exposed directory, listening on
+   * 127.0.0.1 for each port not listened on yet. Rejects if a port is taken
+   * on the host.
+   */
+  async expose(
+    ports: readonly number[],
+    socketDirectory: string,
+  ): Promise<void> {
+    for (const port of new Set(ports)) {
+      if (!this.servers.has(port)) {
+        await this.listen(port)
+      }
+      this.sandboxes.set(port, [
+        ...(this.sandboxes.get(port) ?? []),
+        socketDirectory,
+      ])
+    }
+  }
+
+  /**
+   * Stop relaying to the sandbox with this exposed directory, and stop
+   * listening on the ports no other sandbox exposes
+   */
+  async release(socketDirectory: string): Promise<void> {
+    const unused: Server[] = []
+    for (const [port, directories] of this.sandboxes) {
+      const remaining = directories.filter(dir => dir !== socketDirectory)
+      if (remaining.length > 0) {
+        this.sandboxes.set(port, remaining)
+        continue
+      }
+      this.sandboxes.delete(port)
+      const server = this.servers.get(port)
+      if (server) {
+        this.servers.delete(port)
+        unused.push(server)
+        logForDebugging(`No sandbox exposes port ${port}, closing it`)
+      }
+    }
+    await Promise.all(unused.map(closeServer))
+  }
+
+  /** Stop listening and drop open connections */
+  async close(): Promise<void> {
+    const servers = [...this.servers.values()]
+    this.servers.clear()
+    this.sandboxes.clear()
+    for (const socket of this.connections) {
+      socket.destroy()
+    }
+    await Promise.all(servers.map(closeServer))
+  }
+
+  private async listen(port: number): Promise<void> {
+    const server = createServer({ allowHalfOpen: true }, socket =>
+      this.relay(socket, port),
+    )
+    server.on('error', err => {
+      logForDebugging(`Exposed port ${port} error: ${err.message}`, {
+        level: 'error',
+      })
+    })
+    try {
+      server.listen(port, '127.0.0.1')
+      await once(server, 'listening')
+    } catch (error) {
+      server.close()
+      throw new Error(
+        `Cannot expose port ${port}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+    server.unref()
+    this.servers.set(port, server)
+    logForDebugging(`Exposing sandbox port ${port} on 127.0.0.1:${port}`)
+  }
+
+  private relay(socket: Socket, port: number): void {
+    const directories = this.sandboxes.get(port) ?? []
+    const socketDirectory = directories[directories.length - 1]
+    if (socketDirectory === undefined) {
+      logForDebugging(`No sandbox is serving exposed port ${port}`)
+      socket.destroy()
+      return
+    }
+    const upstream = connect(getExposedPortSocketPath(socketDirectory, port))
+    this.connections.add(socket)
+    socket.once('close', () => this.connections.delete(socket))
+    upstream.on('error', err => {
+      logForDebugging(
+        `No sandbox is serving exposed port ${port}: ${err.message}`,
+      )
+      socket.destroy()
+    })
+    socket.on('error', () => upstream.destroy())
+    upstream.on('close', () => socket.destroy())
+    socket.on('close', () => upstream.destroy())
+    socket.pipe(upstream)
+    upstream.pipe(socket)
+  }
+}
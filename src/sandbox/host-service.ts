@@ -0,0 +1,162 @@
+import { connect, isIP } from 'node:net'
+import { join } from 'node:path'
+import { logForDebugging } from '../utils/debug.js'
+import {
+  ConnectionLease,
+  getClosedConnectionDecision,
+  meteredDestination,
+  type ConnectionLimiter,
+} from './connection-limiter.js'
+import {
+  formatHostForAuthority,
+  isAddressInCidrs,
+  parseAuthority,
+} from './ip-address.js'
+import { createNetworkAuditReporter } from './network-audit-log.js'
+import type {
+  NetworkAuditSink,
+  NetworkFilterDecision,
+  SandboxInvocation,
+} from './sandbox-schemas.js'
+import type { BridgeConnectionHandler } from './unix-socket-bridge.js'
+
+/** A service listening on the host's loopback that sandboxes may reach */
+export interface HostService {
+  /** `localhost`, an IPv4 loopback address or `::1` */
+  host: string
+  port: number
+}
+
+/**
+ * Parse a host service such as `127.0.0.1:5432`, `localhost:8080` or
+ * `[::1]:6379`. Returns undefined unless the host is a loopback address.
+ */
+export function parseHostService(spec: string): HostService | undefined {
+  const authority = parseAuthority(spec)
+  if (!authority) {
+    return undefined
+  }
+  const host = authority.host.toLowerCase()
+  const isLoopback =
+    host === 'localhost' ||
+    host === '::1' ||
+    (isIP(host) === 4 && isAddressInCidrs(host, ['127.0.0.0/8']))
+  return isLoopback ? { host, port: authority.port } : undefined
+}
+
+/** Parse host services, skipping the specs that aren't valid */
+export function parseHostServices(
+  specs: readonly string[] | undefined,
+): HostService[] {
+  return (specs ?? [])
+    .map(parseHostService)
+    .filter(service => service !== undefined)
+}
+
+export function isValidHostService(spec: string): boolean {
+  return parseHostService(spec) !== undefined
+}
+
+export function formatHostService(service: HostService): string {
+  return `${formatHostForAuthority(service.host)}:${service.port}`
+}
+
+/**
+ * Socket in the Linux bridge directory through which sandboxes reach a host
+ * service. The name only uses characters socat accepts in an address.
+ */
+export function getHostServiceSocketPath(
+  socketDirectory: string,
+  service: HostService,
+): string {
+  const host = service.host.replace(/[^a-z0-9.]/g, '_')
+  return join(socketDirectory, `host-${host}-${service.port}.sock`)
+}
+
+export interface HostServiceRelayOptions {
+  /** Decide whether the command may connect to the service now */
+  filter(
+    service: HostService,
+    invocation: SandboxInvocation,
+  ): NetworkFilterDecision
+
+  /** Optional byte caps, bandwidth limits, connection limits and timeouts */
+  limiter?: ConnectionLimiter
+
+  /** Optional sink for audit events, one per connection */
+  onAuditEvent?: NetworkAuditSink
+}
+
+/**
+ * Connection handler of a Linux sandbox's bridge to a host service. Like the
+ * proxies' connections, each connection is checked with the filter, holds a
+ * lease of the limiter, so it can be revoked, and is recorded in the audit
+ * log.
+ */
+export function relayToHostService(
+  service: HostService,
+  invocation: SandboxInvocation,
+  options: HostServiceRelayOptions,
+): BridgeConnectionHandler {
+  const { host, port } = service
+  return socket => {
+    const report = createNetworkAuditReporter(options.onAuditEvent, {
+      protocol: 'HOST_SERVICE',
+      host,
+      port,
+      invocation,
+    })
+    const deny = (rule: string) => {
+      logForDebugging(
+        `Connection to host service ${formatHostService(service)} denied by ${rule}`,
+        { level: 'error' },
+      )
+      report({ decision: 'deny', rule })
+      socket.destroy()
+    }
+
+    const { allowed, rule } = options.filter(service, invocation)
+    if (!allowed) {
+      deny(rule)
+      return
+    }
+    const lease = options.limiter?.acquire({
+      protocol: 'HOST_SERVICE',
+      host,
+      port,
+      rule,
+      invocation,
+    })
+    if (lease && !(lease instanceof ConnectionLease)) {
+      deny(lease.rule)
+      return
+    }
+
+    const upstream = connect({ host, port })
+    lease?.watchConnect(upstream)
+    let upstreamError: string | undefined
+    upstream.on('error', err => {
+      upstreamError = err.message
+      logForDebugging(
+        `Connection to host service ${formatHostService(service)} failed: ${err.message}`,
+        { level: 'error' },
+      )
+      socket.destroy()
+    })
+    socket.on('error', () => upstream.destroy())
+    upstream.on('close', () => socket.destroy())
+    socket.on('close', () => {
+      upstream.destroy()
+      lease?.release()
+      report({
+        ...getClosedConnectionDecision(rule, lease),
+        bytesUp: upstream.bytesWritten,
+        bytesDown: upstream.bytesRead,
+        error: upstreamError,
+      })
+    })
+    lease?.onLimit(() => socket.destroy())
+    socket.pipe(meteredDestination(upstream, lease, 'up'))
+    upstream.pipe(meteredDestination(socket, lease, 'down'))
+  }
+}
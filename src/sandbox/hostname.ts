@@ -0,0 +1,69 @@
+import { isIP } from 'node:net'
+import { normalizeIpv6Host } from './ip-address.js'
+
+/**
+ * Canonical hostnames for the network filter, the MITM routes and the config
+ * schema. Every spelling of a host is reduced to one form before it is
+ * compared with a rule, so a host can't slip past a deny rule (or miss an
+ * allow rule) by being written differently:
+ *
+ * - `GitHub.com`                        -> `github.com`
+ * - `github.com.` (trailing dot)        -> `github.com`
+ * - `git%68ub.com` (percent-encoding)   -> `github.com`
+ * - `bücher.de` (IDN)                   -> `xn--bcher-kva.de`
+ * - `0x7f.1`, `2130706433`, `0177.0.0.1` -> `127.0.0.1`
+ * - `[0:0::1]`                          -> `::1`
+ */
+
+/** Lowercase LDH names, which are already canonical unless the last label is a number */
+const PLAIN_HOSTNAME_REGEX = /^[a-z0-9_-]+(?:\.[a-z0-9_-]+)*$/
+
+/** Labels the URL parser reads as part of an IPv4 address */
+const NUMERIC_LABEL_REGEX = /^(?:\d+|0x[0-9a-f]*)$/i
+
+/** Characters that end a host in a URL or authority, so can't be part of one */
+const FORBIDDEN_HOST_CHARACTERS_REGEX = /[\s/\\?#@:[\]]/
+
+/**
+ * Write a hostname or IP literal in its canonical form, using the WHATWG URL
+ * host parser for IDNA, percent-decoding and IPv4 notations. Returns
+ * undefined for ambiguous hosts: ones that don't parse, contain empty labels
+ * (`a..com`, `.com`), more than one trailing dot, or characters that would
+ * end the host in a URL.
+ */
+export function normalizeHostname(host: string): string | undefined {
+  if (host.startsWith('[') || host.includes(':')) {
+    const ipv6 = normalizeIpv6Host(host)
+    return isIP(ipv6.split('%')[0]!) === 6 ? ipv6 : undefined
+  }
+  if (isIP(host) === 4) {
+    return host
+  }
+
+  const lower = host.toLowerCase()
+  if (
+    PLAIN_HOSTNAME_REGEX.test(lower) &&
+    !lower.startsWith('xn--') &&
+    !lower.includes('.xn--') &&
+    !NUMERIC_LABEL_REGEX.test(lower.slice(lower.lastIndexOf('.') + 1))
+  ) {
+    return lower
+  }
+
+  const withoutDot = host.endsWith('.') ? host.slice(0, -1) : host
+  if (withoutDot === '' || FORBIDDEN_HOST_CHARACTERS_REGEX.test(withoutDot)) {
+    return undefined
+  }
+
+  let hostname: string
+  try {
+    hostname = new URL(`http://${withoutDot}/`).hostname
+  } catch {
+    return undefined
+  }
+  // Checked after parsing, since percent-decoding can produce dots
+  if (hostname.split('.').includes('')) {
+    return undefined
+  }
+  return hostname
+}
@@ -1,54 +1,1379 @@
 import type { Socket, Server } from 'node:net'
 import type { Duplex } from 'node:stream'
-import { Agent, createServer } from 'node:http'
+import type {
+  IncomingMessage,
+  OutgoingHttpHeaders,
+  RequestOptions,
+} from 'node:http'
+import { createServer, ServerResponse, STATUS_CODES } from 'node:http'
 import { request as httpRequest } from 'node:http'
 import { request as httpsRequest } from 'node:https'
-import { connect } from 'node:net'
+import { connect, isIP } from 'node:net'
+import { once } from 'node:events'
+import { TLSSocket, type SecureContext } from 'node:tls'
 import { URL } from 'node:url'
 import { logForDebugging } from '../utils/debug.js'
+import {
+  peekTlsClientHello,
+  type ClientHelloPeekResult,
+} from './tls-client-hello.js'
+import {
+  toNetworkFilterDecision,
+  type NetworkAuditSink,
+  type NetworkFilterDecision,
+  type MitmRoute,
+  type NetworkRequestContext,
+  type SandboxInvocation,
+} from './sandbox-schemas.js'
+import type { ProxyCredentials } from './sandbox-utils.js'
+import {
+  connectToMitmProxy,
+  describeMitmRoute,
+  getUpstreamRequestOptions,
+  openMitmTunnel,
+  openUpstreamTunnel,
+  type UpstreamProxy,
+} from './upstream-proxy.js'
+import {
+  createNetworkAuditReporter,
+  type NetworkAuditReporter,
+} from './network-audit-log.js'
+import {
+  ConnectionLease,
+  getClosedConnectionDecision,
+  meteredDestination,
+  type ConnectionLimiter,
+} from './connection-limiter.js'
+import {
+  formatHostForAuthority,
+  normalizeIpv6Host,
+  parseAuthority,
+} from './ip-address.js'
+
+/**
+ * Checks that stop a client from authorizing one host and then talking to
+ * another through the same connection (domain fronting).
+ */
+export interface DomainFrontingPolicy {
+  /** Reject CONNECT tunnels whose TLS SNI names a different host than the CONNECT target */
+  verifyTlsSni: boolean
+  /** Reject CONNECT tunnels to port 443 whose first bytes are not a TLS ClientHello */
+  requireTlsOnPort443: boolean
+  /** Reject plain HTTP requests whose Host header doesn't match the request URL */
+  verifyHostHeader: boolean
+}
+
+/**
+ * How to intercept TLS for one host
+ */
+export interface TlsInterception {
+  /** Server context presenting a certificate for the host, signed by the local CA */
+  secureContext: SecureContext
+  /** Headers to set on each decrypted request, replacing the client's */
+  headers: OutgoingHttpHeaders
+}
 
 export interface HttpProxyServerOptions {
   filter(
     port: number,
     host: string,
     socket: Socket | Duplex,
-  ): Promise<boolean> | boolean
+    context: NetworkRequestContext,
+  ): Promise<boolean | NetworkFilterDecision> | boolean | NetworkFilterDecision
+
+  /**
+   * Optional function to get the MITM proxy route for a given host and port.
+   * If it returns a route, the request will be routed through that MITM proxy.
+   * If it returns undefined, the request will be handled directly.
+   */
+  getMitmRoute?(host: string, port: number): MitmRoute | undefined
+
+  /**
+   * Optional function returning how to intercept TLS for a given host and
+   * port. If it returns an interception, CONNECT tunnels to the host are
+   * decrypted with its certificate and each request is forwarded with its
+   * headers set. Hosts with a MITM route are not intercepted.
+   */
+  getTlsInterception?(host: string, port: number): TlsInterception | undefined
+
+  /**
+   * Optional function applying method and path rules to a plain HTTP or
+   * decrypted HTTPS request. Returns undefined if no rule covers the host.
+   */
+  filterHttpRequest?(
+    host: string,
+    port: number,
+    method: string,
+    path: string,
+  ): NetworkFilterDecision | undefined
+
+  /**
+   * Optional function reporting whether method and path rules cover a host.
+   * CONNECT tunnels to such hosts are refused unless they are intercepted,
+   * since their requests could not be checked.
+   */
+  hasHttpRules?(host: string, port: number): boolean
+
+  /**
+   * Optional function to resolve an allowed host to the address to connect to.
+   * The proxy connects to the returned address instead of resolving the host
+   * again, so the address that was checked is the address that is used.
+   * Returning undefined blocks the connection; rejecting means the host could
+   * not be resolved. The invocation's own address rules apply, if it has any.
+   */
+  resolveDestination?(
+    host: string,
+    port: number,
+    invocation: SandboxInvocation | undefined,
+  ): Promise<string | undefined>
+
+  /**
+   * Optional function returning the parent proxy to forward a permitted
+   * connection through. The host is still checked with resolveDestination
+   * first, but sent to the parent by name, which resolves it again. A host
+   * this machine can't resolve is left to the parent to resolve.
+   */
+  getUpstreamProxy?(host: string, port: number): UpstreamProxy | undefined
+
+  /**
+   * Optional function returning the domain-fronting checks to apply.
+   * Called per connection so that config updates take effect immediately.
+   * If not provided, no checks are applied.
+   */
+  getDomainFrontingPolicy?(): DomainFrontingPolicy
+
+  /**
+   * Optional function to identify the sandboxed invocation that sent the
+   * given Proxy-Authorization credentials.
+   */
+  getInvocation?(credentials: ProxyCredentials): SandboxInvocation | undefined
+
+  /**
+   * Optional byte caps, bandwidth limits, connection limits and timeouts.
+   * Each CONNECT tunnel, each plain HTTP request and each upgraded
+   * connection is one connection.
+   */
+  limiter?: ConnectionLimiter
 
   /**
-   * Optional function to get the MITM proxy socket path for a given host.
-   * If returns a socket path, the request will be routed through that MITM proxy.
-   * If returns undefined, the request will be handled directly.
+   * Optional sink for audit events, one per connection or request.
    */
-  getMitmSocketPath?(host: string): string | undefined
+  onAuditEvent?: NetworkAuditSink
+}
+
+/**
+ * State shared by the stages of one CONNECT tunnel.
+ */
+interface TunnelContext {
+  hostname: string
+  port: number
+  /** Bytes the client sent after the CONNECT request headers */
+  head: Buffer
+  /** Rule that allowed the tunnel */
+  rule: string
+  /** Description of the MITM route the tunnel went through, if any */
+  mitmRoute: string | undefined
+  report: NetworkAuditReporter
+  lease: ConnectionLease | undefined
+  /** Invocation that opened the tunnel, if its proxy credentials were sent */
+  invocation: SandboxInvocation | undefined
+  /** Upstream byte counters when relaying started, to exclude proxy handshakes */
+  baseline?: { bytesRead: number; bytesWritten: number }
+}
+
+/**
+ * A CONNECT tunnel decrypted by built-in TLS interception
+ */
+interface InterceptedTunnel {
+  hostname: string
+  port: number
+  /** Rule that allowed the tunnel */
+  rule: string
+  interception: TlsInterception
+  lease: ConnectionLease | undefined
+  /** Invocation that opened the tunnel, if its proxy credentials were sent */
+  invocation: SandboxInvocation | undefined
+}
+
+/**
+ * Where to answer a request: its response, or the client socket itself for
+ * Upgrade requests, which have no response object
+ */
+type ClientResponse = ServerResponse | Duplex
+
+const ADDRESS_BLOCKED_RESPONSE =
+  'HTTP/1.1 403 Forbidden\r\n' +
+  'Content-Type: text/plain\r\n' +
+  'X-Proxy-Error: blocked-by-address-policy\r\n' +
+  '\r\n' +
+  'Connection blocked by network address policy'
+
+/** A connect timeout is answered as a gateway timeout, other limits as 429 */
+function limitStatusCode(rule: string): number {
+  return rule === 'limits:connectTimeoutMs' ? 504 : 429
+}
+
+function rawResponse(
+  status: number,
+  headers: Record<string, string>,
+  body: string,
+): string {
+  return (
+    `HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\n` +
+    Object.entries(headers)
+      .map(([name, value]) => `${name}: ${value}\r\n`)
+      .join('') +
+    '\r\n' +
+    body
+  )
+}
+
+/**
+ * Answer a request with a plain text body and end the response
+ */
+function sendResponse(
+  res: ClientResponse,
+  status: number,
+  headers: Record<string, string>,
+  body: string,
+): void {
+  const allHeaders = { 'Content-Type': 'text/plain', ...headers }
+  if (res instanceof ServerResponse) {
+    res.writeHead(status, allHeaders)
+    res.end(body)
+  } else {
+    res.end(rawResponse(status, allHeaders, body))
+  }
+}
+
+function writeLimitResponse(res: ClientResponse, rule: string): void {
+  sendResponse(
+    res,
+    limitStatusCode(rule),
+    { 'X-Proxy-Error': 'blocked-by-limit', 'X-Proxy-Rule': rule },
+    `Request blocked by network limit ${rule}`,
+  )
+}
+
+function limitExceededResponse(rule: string): string {
+  return rawResponse(
+    limitStatusCode(rule),
+    {
+      'Content-Type': 'text/plain',
+      'X-Proxy-Error': 'blocked-by-limit',
+      'X-Proxy-Rule': rule,
+    },
+    `Connection blocked by network limit ${rule}`,
+  )
+}
+
+/**
+ * Parse a `Proxy-Authorization: Basic ...` header
+ */
+function parseProxyAuthorization(
+  header: string | undefined,
+): ProxyCredentials | undefined {
+  const match = header?.match(/^Basic\s+([A-Za-z0-9+/=]+)$/i)
+  if (!match) {
+    return undefined
+  }
+  const decoded = Buffer.from(match[1]!, 'base64').toString('utf8')
+  const separator = decoded.indexOf(':')
+  if (separator === -1) {
+    return undefined
+  }
+  return {
+    username: decoded.slice(0, separator),
+    password: decoded.slice(separator + 1),
+  }
+}
+
+function getRequestInvocation(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+): SandboxInvocation | undefined {
+  const credentials = parseProxyAuthorization(
+    req.headers['proxy-authorization'],
+  )
+  return credentials && options.getInvocation?.(credentials)
+}
+
+/**
+ * Headers to forward upstream. The proxy credentials identify the sandboxed
+ * invocation to this proxy only and must not leak to the destination.
+ */
+function getForwardedHeaders(
+  req: IncomingMessage,
+  url: URL,
+): OutgoingHttpHeaders {
+  const headers: OutgoingHttpHeaders = { ...req.headers, host: url.host }
+  delete headers['proxy-authorization']
+  return headers
+}
+
+function normalizeHostForComparison(host: string): string {
+  return host.toLowerCase().replace(/\.$/, '')
+}
+
+/**
+ * How long a client may take to send its first bytes, or to finish its
+ * ClientHello, through a tunnel whose first bytes are checked
+ */
+const CLIENT_HELLO_TIMEOUT_MS = 10_000
+
+/**
+ * Read the client's first bytes from a CONNECT tunnel until they can be
+ * classified as a TLS ClientHello or not. Resolves with the bytes read (which
+ * still have to be forwarded upstream), 'timeout' if they didn't come in
+ * time, or undefined if the client went away.
+ */
+function peekTunnelClientHello(
+  socket: Duplex,
+  head: Buffer,
+): Promise<
+  | {
+      data: Buffer
+      hello: Exclude<ClientHelloPeekResult, { status: 'incomplete' }>
+    }
+  | 'timeout'
+  | undefined
+> {
+  return new Promise(resolve => {
+    let data = head
+
+    const cleanup = () => {
+      clearTimeout(timer)
+      socket.removeListener('data', onData)
+      socket.removeListener('close', onClose)
+      socket.pause()
+    }
+
+    const check = (): boolean => {
+      const hello = peekTlsClientHello(data)
+      if (hello.status === 'incomplete') {
+        return false
+      }
+      cleanup()
+      resolve({ data, hello })
+      return true
+    }
+
+    const onData = (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk])
+      check()
+    }
+
+    const onClose = () => {
+      cleanup()
+      resolve(undefined)
+    }
+
+    const timer = setTimeout(() => {
+      cleanup()
+      resolve('timeout')
+    }, CLIENT_HELLO_TIMEOUT_MS)
+
+    if (!check()) {
+      socket.on('data', onData)
+      socket.once('close', onClose)
+    }
+  })
+}
+
+/**
+ * Check whether the first bytes of a tunnel are consistent with the host
+ * that was authorized by the CONNECT request. Returns the name of the
+ * violated check, or undefined if the tunnel may proceed.
+ */
+function getTunnelClientHelloViolation(
+  hello: Exclude<ClientHelloPeekResult, { status: 'incomplete' }>,
+  hostname: string,
+  port: number,
+  policy: DomainFrontingPolicy,
+): string | undefined {
+  switch (hello.status) {
+    case 'not-tls':
+      if (policy.requireTlsOnPort443 && port === 443) {
+        logForDebugging(
+          `Tunnel to ${hostname}:${port} blocked: first bytes are not a TLS ClientHello`,
+          { level: 'error' },
+        )
+        return 'non-tls-on-port-443'
+      }
+      return undefined
+    case 'malformed':
+      logForDebugging(
+        `Tunnel to ${hostname}:${port} blocked: malformed TLS ClientHello`,
+        { level: 'error' },
+      )
+      return 'tls-client-hello-malformed'
+    case 'parsed':
+      if (
+        policy.verifyTlsSni &&
+        hello.serverName !== undefined &&
+        normalizeHostForComparison(hello.serverName) !==
+          normalizeHostForComparison(hostname)
+      ) {
+        logForDebugging(
+          `Tunnel to ${hostname}:${port} blocked: TLS SNI ${hello.serverName} does not match`,
+          { level: 'error' },
+        )
+        return 'tls-sni-mismatch'
+      }
+      return undefined
+  }
+}
+
+/**
+ * Report an allowed tunnel to the audit log once its upstream side closes.
+ */
+function trackTunnelUpstream(upstream: Socket, tunnel: TunnelContext): void {
+  let error: string | undefined
+  upstream.on('error', err => {
+    error = err.message
+  })
+  upstream.on('close', () => {
+    const { baseline } = tunnel
+    tunnel.report({
+      ...getClosedConnectionDecision(tunnel.rule, tunnel.lease),
+      mitmRoute: tunnel.mitmRoute,
+      bytesUp: baseline ? upstream.bytesWritten - baseline.bytesWritten : 0,
+      bytesDown: baseline ? upstream.bytesRead - baseline.bytesRead : 0,
+      error,
+    })
+  })
+}
+
+/**
+ * Open the upstream side of an allowed CONNECT tunnel: through the MITM route
+ * if there is one, otherwise through the parent proxy or directly to the
+ * resolved, policy-checked address. On failure the client is answered and
+ * undefined is returned.
+ */
+async function openTunnelUpstream(
+  options: HttpProxyServerOptions,
+  socket: Duplex,
+  tunnel: TunnelContext,
+  mitmRoute: MitmRoute | undefined,
+): Promise<Socket | undefined> {
+  const { hostname, port, rule, report, invocation } = tunnel
+
+  if (mitmRoute) {
+    const description = describeMitmRoute(mitmRoute)
+    logForDebugging(
+      `Routing CONNECT ${hostname}:${port} through MITM proxy at ${description}`,
+    )
+
+    let mitmSocket: Socket | undefined
+    try {
+      mitmSocket = await connectToMitmProxy(mitmRoute)
+    } catch (err) {
+      if (mitmRoute.onFailure !== 'direct') {
+        logForDebugging(`MITM proxy connection failed: ${err}`, {
+          level: 'error',
+        })
+        report({
+          decision: 'allow',
+          rule,
+          mitmRoute: description,
+          error: `${err}`,
+        })
+        socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+        return undefined
+      }
+      logForDebugging(
+        `MITM proxy at ${description} unreachable, connecting ${hostname}:${port} without it: ${err}`,
+        { level: 'warn' },
+      )
+    }
+
+    if (mitmSocket) {
+      try {
+        await openMitmTunnel(mitmSocket, mitmRoute, hostname, port)
+      } catch (err) {
+        logForDebugging(`MITM proxy rejected CONNECT: ${err}`, {
+          level: 'error',
+        })
+        report({
+          decision: 'allow',
+          rule,
+          mitmRoute: description,
+          error: `${err}`,
+        })
+        socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+        return undefined
+      }
+      tunnel.mitmRoute = description
+      return mitmSocket
+    }
+  }
+
+  // Check the resolved address even when the parent proxy connects, so
+  // address rules hold for every route. The parent may resolve names this
+  // machine can't, so only a direct connection needs the lookup to succeed.
+  const upstreamProxy = options.getUpstreamProxy?.(hostname, port)
+  let address = hostname
+  if (options.resolveDestination) {
+    let resolved: string | undefined
+    try {
+      resolved = await options.resolveDestination(hostname, port, invocation)
+    } catch (err) {
+      if (!upstreamProxy) {
+        logForDebugging(`Failed to resolve ${hostname}: ${err}`, {
+          level: 'error',
+        })
+        report({ decision: 'allow', rule, error: `${err}` })
+        socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+        return undefined
+      }
+      logForDebugging(
+        `Failed to resolve ${hostname}, leaving it to the upstream proxy: ${err}`,
+      )
+      resolved = hostname
+    }
+    if (!resolved) {
+      logForDebugging(
+        `Connection blocked to ${hostname}:${port} by address policy`,
+        { level: 'error' },
+      )
+      report({ decision: 'deny', rule: 'address-policy' })
+      socket.end(ADDRESS_BLOCKED_RESPONSE)
+      return undefined
+    }
+    address = resolved
+  }
+
+  if (upstreamProxy) {
+    // Tunnel through the parent proxy
+    logForDebugging(
+      `Routing CONNECT ${hostname}:${port} through upstream proxy ${upstreamProxy.host}:${upstreamProxy.port}`,
+    )
+    try {
+      return await openUpstreamTunnel(upstreamProxy, hostname, port)
+    } catch (err) {
+      logForDebugging(`Upstream proxy tunnel failed: ${err}`, {
+        level: 'error',
+      })
+      report({ decision: 'allow', rule, error: `${err}` })
+      socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+      return undefined
+    }
+  }
+
+  // Direct connection to the resolved, policy-checked address
+  const serverSocket = connect(port, address)
+  tunnel.lease?.watchConnect(serverSocket)
+  try {
+    await once(serverSocket, 'connect')
+  } catch (err) {
+    serverSocket.destroy()
+    const limitRule = tunnel.lease?.exceeded
+    if (limitRule) {
+      report({ decision: 'deny', rule: limitRule, error: `${err}` })
+      socket.end(limitExceededResponse(limitRule))
+      return undefined
+    }
+    logForDebugging(`CONNECT tunnel failed: ${err}`, { level: 'error' })
+    report({ decision: 'allow', rule, error: `${err}` })
+    socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+    return undefined
+  }
+  return serverSocket
+}
+
+/**
+ * Relay an established CONNECT tunnel. Upstream-to-client data flows
+ * immediately; client-to-upstream data is held until the client's first
+ * bytes pass the domain-fronting checks. Both directions pass through the
+ * tunnel's limits.
+ */
+async function relayTunnel(
+  options: HttpProxyServerOptions,
+  socket: Duplex,
+  upstream: Socket,
+  tunnel: TunnelContext,
+): Promise<void> {
+  const { hostname, port, lease } = tunnel
+  tunnel.baseline = {
+    bytesRead: upstream.bytesRead,
+    bytesWritten: upstream.bytesWritten,
+  }
+  lease?.onLimit(() => {
+    upstream.destroy()
+    socket.destroy()
+  })
+  const toClient = meteredDestination(socket, lease, 'down')
+  const toUpstream = meteredDestination(upstream, lease, 'up')
+  socket.on('end', () => toUpstream.end())
+  upstream.on('end', () => toClient.end())
+  upstream.pipe(toClient)
+
+  const policy = options.getDomainFrontingPolicy?.()
+  let initialData = tunnel.head
+  if (
+    policy &&
+    (policy.verifyTlsSni || (policy.requireTlsOnPort443 && port === 443))
+  ) {
+    const peeked = await peekTunnelClientHello(socket, tunnel.head)
+    const violation =
+      peeked === 'timeout'
+        ? 'tls-client-hello-timeout'
+        : peeked &&
+          getTunnelClientHelloViolation(peeked.hello, hostname, port, policy)
+    if (violation) {
+      tunnel.report({ decision: 'deny', rule: violation })
+    }
+    if (!peeked || peeked === 'timeout' || violation) {
+      upstream.destroy()
+      socket.destroy()
+      return
+    }
+    initialData = peeked.data
+  }
+
+  if (initialData.length > 0) {
+    toUpstream.write(initialData)
+  }
+  socket.pipe(toUpstream)
+}
+
+/**
+ * Check that a plain HTTP request's Host header names the same authority as
+ * its absolute request URL. Requests without a Host header are accepted.
+ */
+function isHostHeaderConsistent(
+  hostHeader: string | undefined,
+  url: URL,
+): boolean {
+  if (hostHeader === undefined) {
+    return true
+  }
+  try {
+    // Parse with the request's scheme so default ports compare equal
+    const headerUrl = new URL(`${url.protocol}//${hostHeader}`)
+    return (
+      normalizeHostForComparison(headerUrl.hostname) ===
+        normalizeHostForComparison(url.hostname) && headerUrl.port === url.port
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Answer 403 if the policy requires the Host header to match the request URL
+ * and it doesn't. Returns whether the request was rejected.
+ */
+function rejectHostHeaderMismatch(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+  res: ClientResponse,
+  url: URL,
+  report: NetworkAuditReporter,
+): boolean {
+  if (
+    !options.getDomainFrontingPolicy?.().verifyHostHeader ||
+    isHostHeaderConsistent(req.headers.host, url)
+  ) {
+    return false
+  }
+  logForDebugging(
+    `HTTP request blocked: Host header ${req.headers.host} does not match ${url.host}`,
+    { level: 'error' },
+  )
+  report({ decision: 'deny', rule: 'host-header-mismatch' })
+  sendResponse(
+    res,
+    403,
+    { 'X-Proxy-Error': 'host-header-mismatch' },
+    'Host header does not match request URL',
+  )
+  return true
+}
+
+/**
+ * Answer 403 if a method or path rule blocks the request. Returns the rule
+ * that allowed it, or undefined if the request was rejected.
+ */
+function checkHttpRules(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+  res: ClientResponse,
+  url: URL,
+  port: number,
+  allowedBy: string,
+  report: NetworkAuditReporter,
+): string | undefined {
+  const decision = options.filterHttpRequest?.(
+    normalizeIpv6Host(url.hostname),
+    port,
+    req.method ?? 'GET',
+    url.pathname,
+  )
+  if (!decision) {
+    return allowedBy
+  }
+  if (decision.allowed) {
+    return decision.rule
+  }
+  logForDebugging(
+    `HTTP ${req.method} ${url.host}${url.pathname} blocked by ${decision.rule}`,
+    { level: 'error' },
+  )
+  report({ decision: 'deny', rule: decision.rule })
+  sendResponse(
+    res,
+    403,
+    { 'X-Proxy-Error': 'blocked-by-http-rule', 'X-Proxy-Rule': decision.rule },
+    `Request blocked by network rule ${decision.rule}`,
+  )
+  return undefined
+}
+
+/**
+ * A permitted plain HTTP or intercepted HTTPS request and where to send it
+ */
+interface ForwardTarget {
+  url: URL
+  port: number
+  /** Rule that allowed the request */
+  rule: string
+  report: NetworkAuditReporter
+  mitmRoute?: MitmRoute
+  /** Description of the MITM route the request went through, if any */
+  routedMitmRoute?: string
+  /** Headers to set on the forwarded request, replacing the client's */
+  headers?: OutgoingHttpHeaders
+  /** Whether the request was decrypted by built-in TLS interception */
+  intercepted?: boolean
+  /** Limits of the request, or of the intercepted tunnel it came through */
+  lease?: ConnectionLease
+  /** Invocation that sent the request, if its proxy credentials were sent */
+  invocation?: SandboxInvocation
+}
+
+/**
+ * Where to send a permitted request, or why it can't be sent
+ */
+type RequestDestination =
+  | {
+      status: 'ready'
+      options: RequestOptions
+      request: typeof httpRequest | typeof httpsRequest
+    }
+  | { status: 'failed'; error: unknown }
+  | { status: 'address-blocked' }
+
+/**
+ * Choose where to send a permitted request: its MITM route, the parent proxy
+ * or the resolved, policy-checked address. Sets the target's routedMitmRoute
+ * when it goes through a MITM route.
+ */
+async function resolveRequestDestination(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+  target: ForwardTarget,
+): Promise<RequestDestination> {
+  const { url, port, mitmRoute, invocation } = target
+  const hostname = normalizeIpv6Host(url.hostname)
+
+  if (mitmRoute) {
+    // MITM proxies receive every request in absolute form over plain HTTP
+    const description = describeMitmRoute(mitmRoute)
+    logForDebugging(
+      `Routing HTTP ${req.method} ${hostname}:${port} through MITM proxy at ${description}`,
+    )
+    try {
+      const mitmSocket = await connectToMitmProxy(mitmRoute)
+      target.routedMitmRoute = description
+      return {
+        status: 'ready',
+        request: httpRequest,
+        options: {
+          createConnection: () => mitmSocket,
+          // For proxy requests, path should be the full URL
+          path: req.url,
+          ...(mitmRoute.proxyAuthorization && {
+            headers: { 'proxy-authorization': mitmRoute.proxyAuthorization },
+          }),
+        },
+      }
+    } catch (err) {
+      if (mitmRoute.onFailure !== 'direct') {
+        logForDebugging(`MITM proxy connection failed: ${err}`, {
+          level: 'error',
+        })
+        target.routedMitmRoute = description
+        return { status: 'failed', error: err }
+      }
+      logForDebugging(
+        `MITM proxy at ${description} unreachable, sending HTTP ${req.method} ${hostname}:${port} without it: ${err}`,
+        { level: 'warn' },
+      )
+    }
+  }
+
+  // Choose http or https module
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest
+
+  // Check the resolved address even when the parent proxy connects, which
+  // may resolve names this machine can't
+  const upstreamProxy = options.getUpstreamProxy?.(hostname, port)
+  let address = hostname
+  if (options.resolveDestination) {
+    let resolved: string | undefined
+    try {
+      resolved = await options.resolveDestination(hostname, port, invocation)
+    } catch (err) {
+      if (!upstreamProxy) {
+        logForDebugging(`Failed to resolve ${hostname}: ${err}`, {
+          level: 'error',
+        })
+        return { status: 'failed', error: err }
+      }
+      logForDebugging(
+        `Failed to resolve ${hostname}, leaving it to the upstream proxy: ${err}`,
+      )
+      resolved = hostname
+    }
+    if (!resolved) {
+      logForDebugging(
+        `HTTP request blocked to ${hostname}:${port} by address policy`,
+        { level: 'error' },
+      )
+      return { status: 'address-blocked' }
+    }
+    address = resolved
+  }
+
+  if (upstreamProxy) {
+    logForDebugging(
+      `Routing HTTP ${req.method} ${hostname}:${port} through upstream proxy ${upstreamProxy.host}:${upstreamProxy.port}`,
+    )
+    try {
+      return {
+        status: 'ready',
+        request,
+        options: await getUpstreamRequestOptions(upstreamProxy, url, port),
+      }
+    } catch (err) {
+      logForDebugging(`Upstream proxy tunnel failed: ${err}`, {
+        level: 'error',
+      })
+      return { status: 'failed', error: err }
+    }
+  }
+
+  return {
+    status: 'ready',
+    request,
+    options: {
+      hostname: address,
+      // Keep TLS SNI and certificate checks bound to the original host
+      ...(isIP(hostname) === 0 && { servername: hostname }),
+      port,
+      path: url.pathname + url.search,
+    },
+  }
+}
+
+/**
+ * Forward a permitted request through its MITM route, the parent proxy or
+ * directly to the resolved, policy-checked address, and relay the response.
+ */
+async function forwardRequest(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+  res: ServerResponse,
+  target: ForwardTarget,
+): Promise<void> {
+  const { url, rule, report, lease } = target
+
+  // Count body bytes in both directions for the audit log
+  let bytesUp = 0
+  let bytesDown = 0
+  let requestError: string | undefined
+  // Aborts the upstream request when a limit closes the connection
+  const limitAbort = new AbortController()
+  const removeLimitHandler = lease?.onLimit(limitRule => {
+    limitAbort.abort()
+    if (res.headersSent) {
+      res.destroy()
+    } else {
+      writeLimitResponse(res, limitRule)
+    }
+  })
+  res.on('close', () => {
+    removeLimitHandler?.()
+    report({
+      ...getClosedConnectionDecision(rule, lease),
+      mitmRoute: target.routedMitmRoute,
+      intercepted: target.intercepted,
+      bytesUp,
+      bytesDown,
+      error: requestError,
+    })
+  })
+
+  const destination = await resolveRequestDestination(options, req, target)
+  if (destination.status === 'failed') {
+    requestError = `${destination.error}`
+    res.writeHead(502, { 'Content-Type': 'text/plain' })
+    res.end('Bad Gateway')
+    return
+  }
+  if (destination.status === 'address-blocked') {
+    report({ decision: 'deny', rule: 'address-policy' })
+    res.writeHead(403, {
+      'Content-Type': 'text/plain',
+      'X-Proxy-Error': 'blocked-by-address-policy',
+    })
+    res.end('Connection blocked by network address policy')
+    return
+  }
+
+  const proxyReq = destination.request(
+    {
+      ...destination.options,
+      method: req.method,
+      signal: limitAbort.signal,
+      headers: {
+        ...getForwardedHeaders(req, url),
+        ...target.headers,
+        ...destination.options.headers,
+      },
+    },
+    proxyRes => {
+      res.writeHead(proxyRes.statusCode!, proxyRes.headers)
+      proxyRes.on('data', (chunk: Buffer) => (bytesDown += chunk.length))
+      proxyRes.pipe(meteredDestination(res, lease, 'down'))
+    },
+  )
+
+  proxyReq.on('socket', socket => lease?.watchConnect(socket))
+  proxyReq.on('error', err => {
+    logForDebugging(`Proxy request failed: ${err.message}`, {
+      level: 'error',
+    })
+    requestError = err.message
+    if (!res.headersSent) {
+      if (lease?.exceeded) {
+        writeLimitResponse(res, lease.exceeded)
+      } else {
+        res.writeHead(502, { 'Content-Type': 'text/plain' })
+        res.end('Bad Gateway')
+      }
+    }
+  })
+
+  req.on('data', (chunk: Buffer) => (bytesUp += chunk.length))
+  req.pipe(meteredDestination(proxyReq, lease, 'up'))
+}
+
+/**
+ * Status line and headers of a destination's response, to write to a client
+ * socket. Headers named in `omit` are left out and `extra` lines appended.
+ */
+function formatResponseHead(
+  res: IncomingMessage,
+  omit: string[] = [],
+  extra: string[] = [],
+): string {
+  const lines = [`HTTP/1.1 ${res.statusCode} ${res.statusMessage}`]
+  for (let i = 0; i < res.rawHeaders.length; i += 2) {
+    const name = res.rawHeaders[i]!
+    if (!omit.includes(name.toLowerCase())) {
+      lines.push(`${name}: ${res.rawHeaders[i + 1]}`)
+    }
+  }
+  return [...lines, ...extra, '', ''].join('\r\n')
+}
+
+/**
+ * Forward a permitted Upgrade request (e.g. a WebSocket handshake) the same
+ * way as forwardRequest. If the destination switches protocols, the client
+ * socket and the destination's connection are relayed in both directions
+ * through the request's limits. Otherwise the destination's response is
+ * relayed and the client connection closed.
+ */
+async function forwardUpgrade(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  target: ForwardTarget,
+): Promise<void> {
+  const { url, rule, report, lease } = target
+
+  let bytesUp = 0
+  let bytesDown = 0
+  let upgradeError: string | undefined
+  let responded = false
+  let upstream: Duplex | undefined
+  const limitAbort = new AbortController()
+  const removeLimitHandler = lease?.onLimit(limitRule => {
+    limitAbort.abort()
+    if (responded) {
+      upstream?.destroy()
+      socket.destroy()
+    } else {
+      responded = true
+      writeLimitResponse(socket, limitRule)
+    }
+  })
+  socket.on('close', () => {
+    removeLimitHandler?.()
+    upstream?.destroy()
+    report({
+      ...getClosedConnectionDecision(rule, lease),
+      mitmRoute: target.routedMitmRoute,
+      intercepted: target.intercepted,
+      bytesUp,
+      bytesDown,
+      error: upgradeError,
+    })
+  })
+
+  const destination = await resolveRequestDestination(options, req, target)
+  if (destination.status === 'failed') {
+    upgradeError = `${destination.error}`
+    socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+    return
+  }
+  if (destination.status === 'address-blocked') {
+    report({ decision: 'deny', rule: 'address-policy' })
+    socket.end(ADDRESS_BLOCKED_RESPONSE)
+    return
+  }
+
+  const proxyReq = destination.request({
+    ...destination.options,
+    method: req.method,
+    signal: limitAbort.signal,
+    headers: {
+      ...getForwardedHeaders(req, url),
+      ...target.headers,
+      ...destination.options.headers,
+    },
+  })
+
+  proxyReq.on('upgrade', (proxyRes, proxySocket: Socket, proxyHead) => {
+    responded = true
+    upstream = proxySocket
+    proxySocket.on('error', err => {
+      logForDebugging(`Upgraded connection error: ${err.message}`, {
+        level: 'error',
+      })
+      upgradeError = err.message
+      socket.destroy()
+    })
+    socket.on('error', () => proxySocket.destroy())
+
+    socket.write(formatResponseHead(proxyRes))
+    const toClient = meteredDestination(socket, lease, 'down')
+    const toUpstream = meteredDestination(proxySocket, lease, 'up')
+    socket.on('end', () => toUpstream.end())
+    proxySocket.on('end', () => toClient.end())
+    socket.on('data', (chunk: Buffer) => (bytesUp += chunk.length))
+    proxySocket.on('data', (chunk: Buffer) => (bytesDown += chunk.length))
+    if (proxyHead.length > 0) {
+      bytesDown += proxyHead.length
+      toClient.write(proxyHead)
+    }
+    if (head.length > 0) {
+      bytesUp += head.length
+      toUpstream.write(head)
+    }
+    proxySocket.pipe(toClient)
+    socket.pipe(toUpstream)
+  })
+
+  proxyReq.on('response', proxyRes => {
+    // The destination answered without switching protocols. The body is
+    // relayed decoded, so the client reads it until the connection closes.
+    responded = true
+    socket.write(
+      formatResponseHead(
+        proxyRes,
+        ['connection', 'keep-alive', 'transfer-encoding'],
+        ['Connection: close'],
+      ),
+    )
+    proxyRes.on('data', (chunk: Buffer) => (bytesDown += chunk.length))
+    proxyRes.pipe(meteredDestination(socket, lease, 'down'))
+  })
+
+  proxyReq.on('socket', proxySocket => lease?.watchConnect(proxySocket))
+  proxyReq.on('error', err => {
+    logForDebugging(`Upgrade request failed: ${err.message}`, {
+      level: 'error',
+    })
+    upgradeError = err.message
+    if (responded) {
+      socket.destroy()
+    } else if (lease?.exceeded) {
+      responded = true
+      writeLimitResponse(socket, lease.exceeded)
+    } else {
+      responded = true
+      socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+    }
+  })
+
+  proxyReq.end()
+}
+
+/**
+ * Forward a permitted request, as an upgraded connection if it came with the
+ * client socket instead of a response
+ */
+function forwardClientRequest(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+  res: ClientResponse,
+  head: Buffer,
+  target: ForwardTarget,
+): Promise<void> {
+  return res instanceof ServerResponse
+    ? forwardRequest(options, req, res, target)
+    : forwardUpgrade(options, req, res, head, target)
+}
+
+/**
+ * Handle a request decrypted from an intercepted CONNECT tunnel. Requests are
+ * only ever forwarded to the tunnel's host.
+ */
+async function handleInterceptedRequest(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+  res: ClientResponse,
+  head: Buffer,
+  tunnel: InterceptedTunnel,
+): Promise<void> {
+  const { hostname, port, rule, interception, lease, invocation } = tunnel
+  const report = createNetworkAuditReporter(options.onAuditEvent, {
+    protocol: 'HTTP',
+    host: hostname,
+    port,
+    method: req.method,
+    invocation,
+  })
+
+  if (!req.url?.startsWith('/')) {
+    sendResponse(res, 400, {}, 'Bad Request')
+    return
+  }
+  const url = new URL(
+    req.url,
+    `https://${formatHostForAuthority(hostname)}:${port}`,
+  )
+
+  if (rejectHostHeaderMismatch(options, req, res, url, report)) {
+    return
+  }
+
+  const allowedBy = checkHttpRules(options, req, res, url, port, rule, report)
+  if (!allowedBy) {
+    return
+  }
+
+  await forwardClientRequest(options, req, res, head, {
+    url,
+    port,
+    rule: allowedBy,
+    report,
+    headers: interception.headers,
+    intercepted: true,
+    lease,
+    invocation,
+  })
+}
+
+/**
+ * Handle a plain HTTP request, or an Upgrade request sent in absolute form
+ * (e.g. a ws:// WebSocket handshake)
+ */
+async function handleProxyRequest(
+  options: HttpProxyServerOptions,
+  req: IncomingMessage,
+  res: ClientResponse,
+  head: Buffer,
+): Promise<void> {
+  const url = new URL(req.url!)
+  // WebSocket clients may name the ws: and wss: schemes
+  if (url.protocol === 'ws:') {
+    url.protocol = 'http:'
+  } else if (url.protocol === 'wss:') {
+    url.protocol = 'https:'
+  }
+  const hostname = normalizeIpv6Host(url.hostname)
+  const port = url.port
+    ? parseInt(url.port, 10)
+    : url.protocol === 'https:'
+      ? 443
+      : 80
+
+  const invocation = getRequestInvocation(options, req)
+  const report = createNetworkAuditReporter(options.onAuditEvent, {
+    protocol: 'HTTP',
+    host: hostname,
+    port,
+    method: req.method,
+    invocation,
+  })
+
+  if (rejectHostHeaderMismatch(options, req, res, url, report)) {
+    return
+  }
+
+  // Check if this host should be routed through a MITM proxy
+  const mitmRoute = options.getMitmRoute?.(hostname, port)
+
+  const decision = toNetworkFilterDecision(
+    await options.filter(port, hostname, req.socket, {
+      protocol: 'HTTP',
+      method: req.method,
+      url: url.href,
+      invocation,
+      mitmRoute,
+    }),
+  )
+  if (!decision.allowed) {
+    logForDebugging(`HTTP request blocked to ${hostname}:${port}`, {
+      level: 'error',
+    })
+    report({ decision: 'deny', rule: decision.rule })
+    sendResponse(
+      res,
+      403,
+      { 'X-Proxy-Error': 'blocked-by-allowlist' },
+      'Connection blocked by network allowlist',
+    )
+    return
+  }
+
+  const rule = checkHttpRules(
+    options,
+    req,
+    res,
+    url,
+    port,
+    decision.rule,
+    report,
+  )
+  if (!rule) {
+    return
+  }
+
+  const lease = options.limiter?.acquire({
+    protocol: 'HTTP',
+    host: hostname,
+    port,
+    rule: decision.rule,
+    invocation,
+  })
+  if (lease && !(lease instanceof ConnectionLease)) {
+    logForDebugging(
+      `HTTP request to ${hostname}:${port} refused by ${lease.rule}`,
+      { level: 'error' },
+    )
+    report({ decision: 'deny', rule: lease.rule })
+    writeLimitResponse(res, lease.rule)
+    return
+  }
+  res.on('close', () => lease?.release())
+
+  await forwardClientRequest(options, req, res, head, {
+    url,
+    port,
+    rule,
+    report,
+    mitmRoute,
+    lease,
+    invocation,
+  })
 }
 
 export function createHttpProxyServer(options: HttpProxyServerOptions): Server {
   const server = createServer()
 
+  // Serves requests decrypted from intercepted CONNECT tunnels
+  const interceptedTunnels = new WeakMap<Duplex, InterceptedTunnel>()
+  const interceptServer = createServer((req, res) => {
+    const tunnel = interceptedTunnels.get(req.socket)
+    if (!tunnel) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' })
+      res.end('Internal Server Error')
+      return
+    }
+    handleInterceptedRequest(options, req, res, Buffer.alloc(0), tunnel).catch(
+      err => {
+        logForDebugging(`Error handling intercepted request: ${err}`, {
+          level: 'error',
+        })
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'text/plain' })
+        }
+        res.end('Internal Server Error')
+      },
+    )
+  })
+  // WebSocket and other Upgrade requests decrypted from intercepted tunnels
+  interceptServer.on('upgrade', (req, socket: Duplex, head: Buffer) => {
+    const tunnel = interceptedTunnels.get(req.socket)
+    if (!tunnel) {
+      socket.destroy()
+      return
+    }
+    handleInterceptedRequest(options, req, socket, head, tunnel).catch(err => {
+      logForDebugging(`Error handling intercepted upgrade: ${err}`, {
+        level: 'error',
+      })
+      socket.destroy()
+    })
+  })
+
   // Handle CONNECT requests for HTTPS traffic
-  server.on('connect', async (req, socket) => {
+  server.on('connect', async (req, socket, head) => {
     // Attach error handler immediately to prevent unhandled errors
     socket.on('error', err => {
       logForDebugging(`Client socket error: ${err.message}`, { level: 'error' })
     })
 
     try {
-      const [hostname, portStr] = req.url!.split(':')
-      const port = portStr === undefined ? undefined : parseInt(portStr, 10)
-
-      if (!hostname || !port) {
+      const authority = parseAuthority(req.url ?? '')
+      if (!authority) {
         logForDebugging(`Invalid CONNECT request: ${req.url}`, {
           level: 'error',
         })
         socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
         return
       }
+      const { host: hostname, port } = authority
 
-      const allowed = await options.filter(port, hostname, socket)
-      if (!allowed) {
+      const invocation = getRequestInvocation(options, req)
+      const report = createNetworkAuditReporter(options.onAuditEvent, {
+        protocol: 'CONNECT',
+        host: hostname,
+        port,
+        invocation,
+      })
+
+      // Check if this host should be routed through a MITM proxy
+      const mitmRoute = options.getMitmRoute?.(hostname, port)
+
+      const decision = toNetworkFilterDecision(
+        await options.filter(port, hostname, socket, {
+          protocol: 'CONNECT',
+          invocation,
+          mitmRoute,
+        }),
+      )
+      if (!decision.allowed) {
         logForDebugging(`Connection blocked to ${hostname}:${port}`, {
           level: 'error',
         })
+        report({ decision: 'deny', rule: decision.rule })
         socket.end(
           'HTTP/1.1 403 Forbidden\r\n' +
             'Content-Type: text/plain\r\n' +
@@ -59,106 +1384,118 @@ export function createHttpProxyServer(options: HttpProxyServerOptions): Server {
         return
       }
 
-      // Check if this host should be routed through a MITM proxy
-      const mitmSocketPath = options.getMitmSocketPath?.(hostname)
-
-      if (mitmSocketPath) {
-        // Route through MITM proxy via Unix socket
+      const lease = options.limiter?.acquire({
+        protocol: 'CONNECT',
+        host: hostname,
+        port,
+        rule: decision.rule,
+        invocation,
+      })
+      if (lease && !(lease instanceof ConnectionLease)) {
         logForDebugging(
-          `Routing CONNECT ${hostname}:${port} through MITM proxy at ${mitmSocketPath}`,
+          `Connection to ${hostname}:${port} refused by ${lease.rule}`,
+          { level: 'error' },
         )
+        report({ decision: 'deny', rule: lease.rule })
+        socket.end(limitExceededResponse(lease.rule))
+        return
+      }
+      socket.once('close', () => lease?.release())
 
-        const mitmSocket = connect({ path: mitmSocketPath }, () => {
-          // Send CONNECT request to the MITM proxy
-          mitmSocket.write(
-            `CONNECT ${hostname}:${port} HTTP/1.1\r\n` +
-              `Host: ${hostname}:${port}\r\n` +
-              '\r\n',
-          )
-        })
+      const tunnel: TunnelContext = {
+        hostname,
+        port,
+        head,
+        rule: decision.rule,
+        mitmRoute: undefined,
+        report,
+        lease,
+        invocation,
+      }
 
-        // Buffer to accumulate the MITM proxy's response
-        let responseBuffer = ''
-
-        const onMitmData = (chunk: Buffer) => {
-          responseBuffer += chunk.toString()
-
-          // Check if we've received the full HTTP response headers
-          const headerEndIndex = responseBuffer.indexOf('\r\n\r\n')
-          if (headerEndIndex !== -1) {
-            // Remove data listener, we're done parsing the response
-            mitmSocket.removeListener('data', onMitmData)
-
-            // Check if MITM proxy accepted the connection
-            const statusLine = responseBuffer.substring(
-              0,
-              responseBuffer.indexOf('\r\n'),
-            )
-            if (statusLine.includes(' 200 ')) {
-              // Connection established, now pipe data between client and MITM
-              socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
-
-              // If there's any data after the headers, write it to the client
-              const remainingData = responseBuffer.substring(headerEndIndex + 4)
-              if (remainingData.length > 0) {
-                socket.write(remainingData)
-              }
-
-              mitmSocket.pipe(socket)
-              socket.pipe(mitmSocket)
-            } else {
-              logForDebugging(`MITM proxy rejected CONNECT: ${statusLine}`, {
-                level: 'error',
-              })
-              socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
-              mitmSocket.destroy()
-            }
-          }
+      const interception = mitmRoute
+        ? undefined
+        : options.getTlsInterception?.(hostname, port)
+      if (interception) {
+        logForDebugging(`Intercepting TLS for ${hostname}:${port}`)
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+        // Bytes the client sent early are read by the TLS socket
+        if (head.length > 0) {
+          socket.unshift(head)
         }
-
-        mitmSocket.on('data', onMitmData)
-
-        mitmSocket.on('error', err => {
-          logForDebugging(`MITM proxy connection failed: ${err.message}`, {
-            level: 'error',
-          })
-          socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+        const tlsSocket = new TLSSocket(socket, {
+          isServer: true,
+          secureContext: interception.secureContext,
+          ALPNProtocols: ['http/1.1'],
         })
-
-        socket.on('error', err => {
-          logForDebugging(`Client socket error: ${err.message}`, {
-            level: 'error',
+        let tlsError: string | undefined
+        tlsSocket.on('error', err => {
+          logForDebugging(
+            `Intercepted TLS connection to ${hostname}:${port} failed: ${err.message}`,
+            { level: 'error' },
+          )
+          tlsError = err.message
+          socket.destroy()
+        })
+        tlsSocket.on('close', () => {
+          report({
+            ...getClosedConnectionDecision(decision.rule, lease),
+            intercepted: true,
+            error: tlsError,
           })
-          mitmSocket.destroy()
         })
-
-        socket.on('end', () => mitmSocket.end())
-        mitmSocket.on('end', () => socket.end())
-      } else {
-        // Direct connection (original behavior)
-        const serverSocket = connect(port, hostname, () => {
-          socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
-          serverSocket.pipe(socket)
-          socket.pipe(serverSocket)
+        lease?.onLimit(() => socket.destroy())
+        interceptedTunnels.set(tlsSocket, {
+          hostname,
+          port,
+          rule: decision.rule,
+          interception,
+          invocation,
+          lease,
         })
+        interceptServer.emit('connection', tlsSocket)
+        return
+      }
 
-        serverSocket.on('error', err => {
-          logForDebugging(`CONNECT tunnel failed: ${err.message}`, {
-            level: 'error',
-          })
-          socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
-        })
+      if (options.hasHttpRules?.(hostname, port)) {
+        const rule = 'httpRules:requires-interception'
+        logForDebugging(
+          `Tunnel to ${hostname}:${port} blocked: method and path rules apply but the tunnel is not intercepted`,
+          { level: 'error' },
+        )
+        report({ decision: 'deny', rule })
+        socket.end(
+          'HTTP/1.1 403 Forbidden\r\n' +
+            'Content-Type: text/plain\r\n' +
+            'X-Proxy-Error: blocked-by-http-rule\r\n' +
+            `X-Proxy-Rule: ${rule}\r\n` +
+            '\r\n' +
+            'HTTPS requests to this host must be intercepted to check method and path rules',
+        )
+        return
+      }
 
-        socket.on('error', err => {
-          logForDebugging(`Client socket error: ${err.message}`, {
-            level: 'error',
-          })
-          serverSocket.destroy()
+      const upstream = await openTunnelUpstream(
+        options,
+        socket,
+        tunnel,
+        mitmRoute,
+      )
+      if (!upstream) {
+        return
+      }
+      trackTunnelUpstream(upstream, tunnel)
+
+      upstream.on('error', err => {
+        logForDebugging(`CONNECT tunnel error: ${err.message}`, {
+          level: 'error',
         })
+        socket.destroy()
+      })
+      socket.on('error', () => upstream.destroy())
 
-        socket.on('end', () => serverSocket.end())
-        serverSocket.on('end', () => socket.end())
-      }
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+      void relayTunnel(options, socket, upstream, tunnel)
     } catch (err) {
       logForDebugging(`Error handling CONNECT: ${err}`, { level: 'error' })
       socket.end('HTTP/1.1 500 Internal Server Error\r\n\r\n')
@@ -168,105 +1505,7 @@ export function createHttpProxyServer(options: HttpProxyServerOptions): Server {
   // Handle regular HTTP requests
   server.on('request', async (req, res) => {
     try {
-      const url = new URL(req.url!)
-      const hostname = url.hostname
-      const port = url.port
-        ? parseInt(url.port, 10)
-        : url.protocol === 'https:'
-          ? 443
-          : 80
-
-      const allowed = await options.filter(port, hostname, req.socket)
-      if (!allowed) {
-        logForDebugging(`HTTP request blocked to ${hostname}:${port}`, {
-          level: 'error',
-        })
-        res.writeHead(403, {
-          'Content-Type': 'text/plain',
-          'X-Proxy-Error': 'blocked-by-allowlist',
-        })
-        res.end('Connection blocked by network allowlist')
-        return
-      }
-
-      // Check if this host should be routed through a MITM proxy
-      const mitmSocketPath = options.getMitmSocketPath?.(hostname)
-
-      if (mitmSocketPath) {
-        // Route through MITM proxy via Unix socket
-        // Use an agent that connects via the Unix socket
-        logForDebugging(
-          `Routing HTTP ${req.method} ${hostname}:${port} through MITM proxy at ${mitmSocketPath}`,
-        )
-
-        const mitmAgent = new Agent({
-          // @ts-expect-error - socketPath is valid but not in types
-          socketPath: mitmSocketPath,
-        })
-
-        // Send request to MITM proxy with full URL (proxy-style request)
-        const proxyReq = httpRequest(
-          {
-            agent: mitmAgent,
-            // For proxy requests, path should be the full URL
-            path: req.url,
-            method: req.method,
-            headers: {
-              ...req.headers,
-              host: url.host,
-            },
-          },
-          proxyRes => {
-            res.writeHead(proxyRes.statusCode!, proxyRes.headers)
-            proxyRes.pipe(res)
-          },
-        )
-
-        proxyReq.on('error', err => {
-          logForDebugging(`MITM proxy request failed: ${err.message}`, {
-            level: 'error',
-          })
-          if (!res.headersSent) {
-            res.writeHead(502, { 'Content-Type': 'text/plain' })
-            res.end('Bad Gateway')
-          }
-        })
-
-        req.pipe(proxyReq)
-      } else {
-        // Direct request (original behavior)
-        // Choose http or https module
-        const requestFn = url.protocol === 'https:' ? httpsRequest : httpRequest
-
-        const proxyReq = requestFn(
-          {
-            hostname,
-            port,
-            path: url.pathname + url.search,
-            method: req.method,
-            headers: {
-              ...req.headers,
-              host: url.host,
-            },
-          },
-          proxyRes => {
-            res.writeHead(proxyRes.statusCode!, proxyRes.headers)
-            proxyRes.pipe(res)
-          },
-        )
-
-        proxyReq.on('error', err => {
-          logForDebugging(`Proxy request failed: ${err.message}`, {
-            level: 'error',
-          })
-          if (!res.headersSent) {
-            res.writeHead(502, { 'Content-Type': 'text/plain' })
-            res.end('Bad Gateway')
-          }
-        })
-
-        req.pipe(proxyReq)
-      }
+      await handleProxyRequest(options, req, res, Buffer.alloc(0))
     } catch (err) {
       logForDebugging(`Error handling HTTP request: ${err}`, { level: 'error' })
       res.writeHead(500, { 'Content-Type': 'text/plain' })
@@ -274,5 +1513,22 @@ export function createHttpProxyServer(options: HttpProxyServerOptions): Server {
     }
   })
 
+  // Handle WebSocket and other Upgrade requests
+  server.on('upgrade', async (req, socket: Duplex, head: Buffer) => {
+    // Attach error handler immediately to prevent unhandled errors
+    socket.on('error', err => {
+      logForDebugging(`Client socket error: ${err.message}`, { level: 'error' })
+    })
+
+    try {
+      await handleProxyRequest(options, req, socket, head)
+    } catch (err) {
+      logForDebugging(`Error handling upgrade request: ${err}`, {
+        level: 'error',
+      })
+      socket.end('HTTP/1.1 500 Internal Server Error\r\n\r\n')
+    }
+  })
+
   return server
 }
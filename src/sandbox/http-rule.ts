@@ -0,0 +1,167 @@
+/**
+ * Method and path rules for HTTP requests, shared by the config schema and
+ * the HTTP proxy.
+ *
+ * Path patterns are matched against the request's path without the query
+ * string, after normalizing it the way servers will read it: escaped
+ * unreserved characters (`%61` for `a`) are decoded, other escapes are
+ * uppercased and `.` and `..` segments are removed.
+ *
+ * - `/api/v1/read/*`  - one path segment under /api/v1/read/
+ * - `/api/v1/read/**` - anything under /api/v1/read/
+ * - `/packages/*.tgz`  - `*` may also match part of a segment
+ *
+ * Deny rules are checked first. If any allow rule covers the host, a request
+ * must match one of them; hosts no rule covers are left to the domain rules.
+ */
+
+import { matchesDomainPattern } from './domain-pattern.js'
+import type { HttpRuleConfig } from './sandbox-config.js'
+import type { NetworkFilterDecision } from './sandbox-schemas.js'
+
+const compiledPathPatterns: Map<string, RegExp> = new Map()
+
+export function isValidPathPattern(pattern: string): boolean {
+  return pattern.startsWith('/') && !/[\s?#]/.test(pattern)
+}
+
+function compilePathPattern(pattern: string): RegExp {
+  const cached = compiledPathPatterns.get(pattern)
+  if (cached) {
+    return cached
+  }
+  const source = pattern
+    .split(/(\*\*|\*)/)
+    .map(part =>
+      part === '**'
+        ? '.*'
+        : part === '*'
+          ? '[^/]*'
+          : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'),
+    )
+    .join('')
+  const compiled = new RegExp(`^${source}$`)
+  compiledPathPatterns.set(pattern, compiled)
+  return compiled
+}
+
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  return compilePathPattern(pattern).test(path)
+}
+
+const UNRESERVED_CHARACTER = /^[A-Za-z0-9\-._~]$/
+
+/**
+ * Remove `.` and `..` segments from an absolute path as RFC 3986 does
+ */
+function removeDotSegments(path: string): string {
+  const output: string[] = []
+  const segments = path.split('/').slice(1)
+  for (const segment of segments) {
+    if (segment === '..') {
+      output.pop()
+    } else if (segment !== '.') {
+      output.push(segment)
+    }
+  }
+  const last = segments[segments.length - 1]
+  if (last === '.' || last === '..') {
+    output.push('')
+  }
+  return `/${output.join('/')}`
+}
+
+/**
+ * Decode escaped unreserved characters, uppercase the remaining escapes and
+ * remove dot segments
+ */
+export function normalizeRequestPath(path: string): string {
+  return removeDotSegments(
+    path.replace(/%([0-9a-fA-F]{2})/g, (escape, hex: string) => {
+      const char = String.fromCharCode(parseInt(hex, 16))
+      return UNRESERVED_CHARACTER.test(char) ? char : escape.toUpperCase()
+    }),
+  )
+}
+
+function ruleName(rule: HttpRuleConfig, index: number): string {
+  return `httpRules:${rule.name ?? index}`
+}
+
+function coversHost(rule: HttpRuleConfig, host: string, port: number): boolean {
+  return rule.domains.some(pattern => matchesDomainPattern(host, port, pattern))
+}
+
+function matchesRequest(
+  rule: HttpRuleConfig,
+  method: string,
+  path: string,
+): boolean {
+  return (
+    (!rule.methods ||
+      rule.methods.some(m => m.toUpperCase() === method.toUpperCase())) &&
+    (!rule.paths ||
+      rule.paths.some(pattern => matchesPathPattern(path, pattern)))
+  )
+}
+
+/**
+ * Whether any rule covers the host, i.e. its requests must be inspected
+ */
+export function hasHttpRules(
+  rules: HttpRuleConfig[],
+  host: string,
+  port: number,
+): boolean {
+  return rules.some(rule => coversHost(rule, host, port))
+}
+
+/**
+ * Evaluate the rules for one request. Returns undefined if no rule covers
+ * the host.
+ *
+ * Servers differ on whether an escaped `/` or `\` separates segments, so
+ * deny rules are also matched as if it did, and paths where it would form a
+ * `.` or `..` segment are refused as ambiguous.
+ */
+export function evaluateHttpRules(
+  rules: HttpRuleConfig[],
+  host: string,
+  port: number,
+  method: string,
+  path: string,
+): NetworkFilterDecision | undefined {
+  const covering = rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => coversHost(rule, host, port))
+  if (covering.length === 0) {
+    return undefined
+  }
+
+  const normalized = normalizeRequestPath(path)
+  const separated = normalized.replace(/%2F|%5C/g, '/')
+  if (removeDotSegments(separated) !== separated) {
+    return { allowed: false, rule: 'httpRules:ambiguous-path' }
+  }
+
+  for (const { rule, index } of covering) {
+    if (
+      rule.action === 'deny' &&
+      (matchesRequest(rule, method, normalized) ||
+        matchesRequest(rule, method, separated))
+    ) {
+      return { allowed: false, rule: ruleName(rule, index) }
+    }
+  }
+
+  const allowRules = covering.filter(({ rule }) => rule.action === 'allow')
+  if (allowRules.length === 0) {
+    return undefined
+  }
+  for (const { rule, index } of allowRules) {
+    if (matchesRequest(rule, method, normalized)) {
+      return { allowed: true, rule: ruleName(rule, index) }
+    }
+  }
+  return { allowed: false, rule: 'httpRules:no-matching-allow-rule' }
+}
@@ -0,0 +1,234 @@
+import { isIP } from 'node:net'
+
+/**
+ * IP address and CIDR helpers used by the network filter to evaluate
+ * destination addresses (both IP literals and DNS-resolved addresses), and
+ * by the proxies to read and write IPv6 literals in authorities.
+ */
+
+export interface ParsedIpAddress {
+  version: 4 | 6
+  value: bigint
+}
+
+export interface ParsedCidr {
+  version: 4 | 6
+  network: bigint
+  prefixLength: number
+}
+
+/**
+ * Address ranges that point back into the host or the local network.
+ * Connections to these are blocked by default to prevent sandboxed code from
+ * reaching host-local services or cloud metadata endpoints via DNS rebinding.
+ */
+export const PRIVATE_AND_LINK_LOCAL_CIDRS = [
+  '0.0.0.0/8', // "This" network
+  '10.0.0.0/8', // Private network
+  '100.64.0.0/10', // Carrier-grade NAT
+  '127.0.0.0/8', // Loopback
+  '169.254.0.0/16', // Link-local (includes cloud metadata)
+  '172.16.0.0/12', // Private network
+  '192.168.0.0/16', // Private network
+  '::/128', // Unspecified
+  '::1/128', // Loopback
+  '64:ff9b::/96', // NAT64, which can reach the IPv4 ranges above
+  'fc00::/7', // Unique local
+  'fe80::/10', // Link-local
+] as const
+
+function parseIpv4(address: string): bigint {
+  return address
+    .split('.')
+    .reduce((acc, octet) => (acc << 8n) | BigInt(parseInt(octet, 10)), 0n)
+}
+
+function parseIpv6(address: string): bigint {
+  // Expand an embedded IPv4 tail (e.g. ::ffff:127.0.0.1) into two hex groups
+  let normalized = address
+  const lastColon = normalized.lastIndexOf(':')
+  const tail = normalized.slice(lastColon + 1)
+  if (tail.includes('.')) {
+    const v4 = parseIpv4(tail)
+    normalized =
+      normalized.slice(0, lastColon + 1) +
+      ((v4 >> 16n) & 0xffffn).toString(16) +
+      ':' +
+      (v4 & 0xffffn).toString(16)
+  }
+
+  const [head, rest] = normalized.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = rest ? rest.split(':') : []
+  const missing = 8 - headGroups.length - tailGroups.length
+  const groups =
+    rest === undefined
+      ? headGroups
+      : [...headGroups, ...Array<string>(missing).fill('0'), ...tailGroups]
+
+  return groups.reduce(
+    (acc, group) => (acc << 16n) | BigInt(parseInt(group, 16)),
+    0n,
+  )
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses
+ * (e.g. ::ffff:10.0.0.1) are returned as IPv4 so that they are checked
+ * against IPv4 rules. Returns undefined for anything that isn't an IP address.
+ */
+export function parseIpAddress(address: string): ParsedIpAddress | undefined {
+  // Strip IPv6 zone identifiers (fe80::1%eth0) before validation
+  const withoutZone = address.split('%')[0]!
+  const version = isIP(withoutZone)
+  if (version === 4) {
+    return { version: 4, value: parseIpv4(withoutZone) }
+  }
+  if (version === 6) {
+    const value = parseIpv6(withoutZone.toLowerCase())
+    if (value >> 32n === 0xffffn) {
+      return { version: 4, value: value & 0xffffffffn }
+    }
+    return { version: 6, value }
+  }
+  return undefined
+}
+
+export function isIpAddress(value: string): boolean {
+  return parseIpAddress(value) !== undefined
+}
+
+/**
+ * Parse a CIDR block (e.g. "10.0.0.0/8", "fd00::/8"). A bare address is
+ * treated as a single-host block (/32 or /128).
+ */
+export function parseCidr(cidr: string): ParsedCidr | undefined {
+  const slashIndex = cidr.indexOf('/')
+  const addressPart = slashIndex === -1 ? cidr : cidr.slice(0, slashIndex)
+  const address = parseIpAddress(addressPart)
+  if (!address) {
+    return undefined
+  }
+
+  // Use the literal's own family for the prefix bound so that an IPv4-mapped
+  // IPv6 block can't be given an out-of-range prefix
+  const maxPrefix = isIP(addressPart.split('%')[0]!) === 4 ? 32 : 128
+  let prefixLength = maxPrefix
+  if (slashIndex !== -1) {
+    const prefixPart = cidr.slice(slashIndex + 1)
+    if (!/^\d{1,3}$/.test(prefixPart)) {
+      return undefined
+    }
+    prefixLength = parseInt(prefixPart, 10)
+    if (prefixLength > maxPrefix) {
+      return undefined
+    }
+  }
+
+  // IPv4-mapped IPv6 blocks are normalized to their IPv4 equivalent
+  if (address.version === 4 && maxPrefix === 128) {
+    if (prefixLength < 96) {
+      return undefined
+    }
+    prefixLength -= 96
+  }
+
+  const bits = address.version === 4 ? 32 : 128
+  const hostBits = BigInt(bits - prefixLength)
+  const network = (address.value >> hostBits) << hostBits
+  return { version: address.version, network, prefixLength }
+}
+
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== undefined
+}
+
+export function isAddressInParsedCidr(
+  address: ParsedIpAddress,
+  cidr: ParsedCidr,
+): boolean {
+  if (address.version !== cidr.version) {
+    return false
+  }
+  const bits = address.version === 4 ? 32 : 128
+  const hostBits = BigInt(bits - cidr.prefixLength)
+  return (address.value >> hostBits) << hostBits === cidr.network
+}
+
+/**
+ * Check whether an IP address falls within any of the given CIDR blocks.
+ * Invalid addresses and invalid blocks never match.
+ */
+export function isAddressInCidrs(
+  address: string,
+  cidrs: readonly string[],
+): boolean {
+  const parsedAddress = parseIpAddress(address)
+  if (!parsedAddress) {
+    return false
+  }
+  return cidrs.some(cidr => {
+    const parsedCidr = parseCidr(cidr)
+    return (
+      parsedCidr !== undefined &&
+      isAddressInParsedCidr(parsedAddress, parsedCidr)
+    )
+  })
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise
+ * local to the host's network.
+ */
+export function isPrivateOrLinkLocalAddress(address: string): boolean {
+  return isAddressInCidrs(address, PRIVATE_AND_LINK_LOCAL_CIDRS)
+}
+
+/**
+ * Strip the brackets from an IPv6 literal (as found in URLs and authorities)
+ * and write it in its canonical compressed, lowercase form, so that every
+ * spelling of an address is filtered and reported the same way. Other hosts
+ * are returned unchanged.
+ */
+export function normalizeIpv6Host(host: string): string {
+  const literal =
+    host.startsWith('[') && host.endsWith(']') ? host.slice(1, -1) : host
+  const [address, zone] = literal.split('%')
+  if (isIP(address!) !== 6) {
+    return host
+  }
+  // The URL parser writes IPv6 hosts in their canonical form
+  const canonical = new URL(`http://[${address}]`).hostname.slice(1, -1)
+  return zone === undefined ? canonical : `${canonical}%${zone}`
+}
+
+/**
+ * Write a host for use in a `host:port` authority, bracketing IPv6 literals
+ */
+export function formatHostForAuthority(host: string): string {
+  return isIP(host.split('%')[0]!) === 6 ? `[${host}]` : host
+}
+
+/**
+ * Parse a `host:port` authority such as a CONNECT request target. IPv6
+ * literals must be bracketed (`[2001:db8::1]:443`). Returns undefined if the
+ * authority is malformed or the port is out of range.
+ */
+export function parseAuthority(
+  authority: string,
+): { host: string; port: number } | undefined {
+  const match = authority.match(/^(?:\[([^\]]+)\]|([^:[\]]+)):(\d{1,5})$/)
+  if (!match) {
+    return undefined
+  }
+  const port = parseInt(match[3]!, 10)
+  if (port < 1 || port > 65535) {
+    return undefined
+  }
+  if (match[1] !== undefined) {
+    return isIP(match[1].split('%')[0]!) === 6
+      ? { host: normalizeIpv6Host(match[1]), port }
+      : undefined
+  }
+  return { host: match[2]!, port }
+}
@@ -1,9 +1,7 @@
 import shellquote from 'shell-quote'
 import { logForDebugging } from '../utils/debug.js'
-import { randomBytes } from 'node:crypto'
 import * as fs from 'fs'
-import { spawn, spawnSync } from 'node:child_process'
-import type { ChildProcess } from 'node:child_process'
+import { spawnSync } from 'node:child_process'
 import { tmpdir } from 'node:os'
 import path, { join } from 'node:path'
 import { ripGrep } from '../utils/ripgrep.js'
@@ -13,10 +11,13 @@ import {
   normalizeCaseForComparison,
   DANGEROUS_FILES,
   getDangerousDirectories,
+  type ProxyCredentials,
+  type TlsInterceptionCaFiles,
 } from './sandbox-utils.js'
 import type {
   FsReadRestrictionConfig,
   FsWriteRestrictionConfig,
+  SandboxInvocation,
 } from './sandbox-schemas.js'
 import {
   isReadDenyOnlyConfig,
@@ -28,14 +29,52 @@ import {
   getPreGeneratedBpfPath,
   getApplySeccompBinaryPath,
 } from './generate-seccomp-filter.js'
+import {
+  relayToPort,
+  UnixSocketBridge,
+  type BridgeConnectionHandler,
+} from './unix-socket-bridge.js'
+import {
+  ExposedPortForwarder,
+  getExposedPortSocketPath,
+} from './exposed-port-forwarder.js'
+import {
+  formatHostService,
+  getHostServiceSocketPath,
+  relayToHostService,
+  type HostService,
+  type HostServiceRelayOptions,
+} from './host-service.js'
+import {
+  SandboxBridgeDirectory,
+  type SandboxBridgePaths,
+} from './sandbox-bridge-directory.js'
 
 export interface LinuxNetworkBridgeContext {
+  /**
+   * Private directory holding the proxy sockets in `proxy/` and a directory
+   * for each sandbox
+   */
+  socketDirectory: string
   httpSocketPath: string
   socksSocketPath: string
-  httpBridgeProcess: ChildProcess
-  socksBridgeProcess: ChildProcess
+  httpBridge: UnixSocketBridge
+  socksBridge: UnixSocketBridge
   httpProxyPort: number
   socksProxyPort: number
+  /** Port of the SOCKS proxy's UDP relay, if it has one */
+  socksUdpPort?: number
+  /** Host listeners for the ports sandboxes expose */
+  exposedPorts: ExposedPortForwarder
+  /** Bridge directories of the sandboxes, keyed by invocation id */
+  sandboxes: Map<string, SandboxBridgeDirectory>
+}
+
+/** A proxy for a Linux bridge to carry the sandbox's connections to */
+export interface LinuxBridgeTarget {
+  port: number
+  /** Serves connections in this process; without it they are relayed to `port` */
+  accept?: BridgeConnectionHandler
 }
 
 export interface LinuxSandboxParams {
@@ -43,8 +82,41 @@ export interface LinuxSandboxParams {
   needsNetworkRestriction: boolean
   httpSocketPath?: string
   socksSocketPath?: string
+  /**
+   * Directory holding the bridge sockets. It is hidden in the sandbox except
+   * for the proxy directory, bound read-only instead of the sockets
+   * themselves so bridges restarted on the same paths are reachable from
+   * sandboxes that are already running, and the sandbox's own directories.
+   */
+  bridgeSocketDirectory?: string
+  /** The sandbox's own bridge directories. Requires bridgeSocketDirectory. */
+  sandboxBridge?: SandboxBridgePaths
   httpProxyPort?: number
   socksProxyPort?: number
+  /**
+   * Port of the SOCKS proxy's UDP relay, reached through the sandbox's UDP
+   * bridge socket. Requires sandboxBridge.
+   */
+  socksUdpPort?: number
+  /**
+   * Ports served inside the sandbox to expose to the host through sockets
+   * in its exposed directory. Requires sandboxBridge.
+   */
+  exposePorts?: number[]
+  /**
+   * Host services to serve on the sandbox's loopback, through the bridges
+   * started for them in its host directory. Requires sandboxBridge.
+   */
+  hostServices?: HostService[]
+  /**
+   * Capture the connections of programs that ignore the proxy variables and
+   * hand them to the SOCKS proxy. Requires sandboxBridge.
+   */
+  transparentEgress?: boolean
+  /** Credentials identifying this invocation to the proxies */
+  proxyCredentials?: ProxyCredentials
+  /** CA files to trust when the HTTP proxy intercepts TLS */
+  tlsInterceptionCa?: TlsInterceptionCaFiles
   readConfig?: FsReadRestrictionConfig
   writeConfig?: FsWriteRestrictionConfig
   enableWeakerNestedSandbox?: boolean
@@ -61,6 +133,27 @@ export interface LinuxSandboxParams {
   abortSignal?: AbortSignal
 }
 
+/** Tunnel device routing the connections of a transparent egress sandbox */
+const TRANSPARENT_TUN_DEVICE = 'srt0'
+const TRANSPARENT_TUN_ADDRESS = '198.18.0.1/15'
+
+/**
+ * Address of the DNS server of transparent egress sandboxes. Queries to it
+ * are routed to the SOCKS UDP relay like other datagrams and answered there.
+ */
+export const TRANSPARENT_DNS_ADDRESS = '198.18.0.2'
+
+/**
+ * Runs the command given after it without the capabilities the sandbox
+ * needed to set up its network
+ */
+const DROP_CAPABILITIES_COMMAND = [
+  'setpriv',
+  '--inh-caps=-all',
+  '--ambient-caps=-all',
+  '--',
+]
+
 /** Default max depth for searching dangerous files */
 const DEFAULT_MANDATORY_DENY_SEARCH_DEPTH = 3
 
@@ -284,10 +377,13 @@ export function getLinuxDependencyStatus(seccompConfig?: {
 /**
  * Check sandbox dependencies and return structured result
  */
-export function checkLinuxDependencies(seccompConfig?: {
-  bpfPath?: string
-  applyPath?: string
-}): SandboxDependencyCheck {
+export function checkLinuxDependencies(
+  seccompConfig?: {
+    bpfPath?: string
+    applyPath?: string
+  },
+  transparentEgress = false,
+): SandboxDependencyCheck {
   const errors: string[] = []
   const warnings: string[] = []
 
@@ -303,6 +399,23 @@ export function checkLinuxDependencies(seccompConfig?: {
   if (bwrap.status !== 0) errors.push('bubblewrap (bwrap) not installed')
   if (socat.status !== 0) errors.push('socat not installed')
 
+  // Transparent egress sets up a tunnel device in the sandbox
+  if (transparentEgress) {
+    for (const [command, name] of [
+      ['tun2socks', 'tun2socks'],
+      ['ip', 'ip (iproute2)'],
+      ['setpriv', 'setpriv (util-linux)'],
+    ] as const) {
+      const result = spawnSync('which', [command], {
+        stdio: 'ignore',
+        timeout: 1000,
+      })
+      if (result.status !== 0) {
+        errors.push(`${name} not installed (required for transparentEgress)`)
+      }
+    }
+  }
+
   const hasBpf = getPreGeneratedBpfPath(seccompConfig?.bpfPath) !== null
   const hasApply = getApplySeccompBinaryPath(seccompConfig?.applyPath) !== null
   if (!hasBpf || !hasApply) {
@@ -319,18 +432,29 @@ export function checkLinuxDependencies(seccompConfig?: {
  * Linux network sandboxing uses bwrap --unshare-net which creates a completely isolated
  * network namespace with NO network access. To enable network access, we:
  *
- * 1. Host side: Run socat bridges that listen on Unix sockets and forward to host proxy servers
+ * 1. Host side: Listen on Unix sockets in this process and hand connections to the proxies
  *    - HTTP bridge: Unix socket -> host HTTP proxy (for HTTP/HTTPS traffic)
  *    - SOCKS bridge: Unix socket -> host SOCKS5 proxy (for SSH/git traffic)
+ *    - SOCKS UDP bridge, one per sandbox: a connection per datagram -> host
+ *      SOCKS5 UDP relay
+ *    Proxies running in this process get the connections directly; external
+ *    proxies (`httpProxyPort`/`socksProxyPort`) are reached over TCP.
  *
  * 2. Sandbox side: Bind the Unix sockets into the isolated namespace and run socat listeners
  *    - HTTP listener on port 3128 -> HTTP Unix socket -> host HTTP proxy
  *    - SOCKS listener on port 1080 -> SOCKS Unix socket -> host SOCKS5 proxy
+ *    The proxy sockets are bound read-only. Each sandbox also gets its own
+ *    directory (openSandboxBridge) for the sockets only it uses.
  *
  * 3. Configure environment:
  *    - HTTP_PROXY=http://localhost:3128 for HTTP/HTTPS tools
  *    - GIT_SSH_COMMAND with socat for SSH through SOCKS5
  *
+ * 4. Transparent egress (opt-in): tun2socks in the namespace hands every
+ *    connection that isn't to loopback to the SOCKS listener, and DNS
+ *    queries go to a server address the SOCKS UDP relay answers for. Programs
+ *    that ignore the proxy variables are filtered like the ones that use them.
+ *
  * LIMITATION: Unlike macOS sandbox which can enforce domain-based allowlists at the kernel level,
  * Linux's --unshare-net provides only all-or-nothing network isolation. Domain filtering happens
  * at the host proxy level, not the sandbox boundary. This means network restrictions on Linux
@@ -339,136 +463,184 @@ export function checkLinuxDependencies(seccompConfig?: {
  * DEPENDENCIES: Requires bwrap (bubblewrap) and socat
  */
 export async function initializeLinuxNetworkBridge(
-  httpProxyPort: number,
-  socksProxyPort: number,
+  httpProxy: LinuxBridgeTarget,
+  socksProxy: LinuxBridgeTarget,
+  socksUdpPort?: number,
 ): Promise<LinuxNetworkBridgeContext> {
-  const socketId = randomBytes(8).toString('hex')
-  const httpSocketPath = join(tmpdir(), `claude-http-${socketId}.sock`)
-  const socksSocketPath = join(tmpdir(), `claude-socks-${socketId}.sock`)
-
-  // Start HTTP bridge
-  const httpSocatArgs = [
-    `UNIX-LISTEN:${httpSocketPath},fork,reuseaddr`,
-    `TCP:localhost:${httpProxyPort},keepalive,keepidle=10,keepintvl=5,keepcnt=3`,
-  ]
-
-  logForDebugging(`Starting HTTP bridge: socat ${httpSocatArgs.join(' ')}`)
-
-  const httpBridgeProcess = spawn('socat', httpSocatArgs, {
-    stdio: 'ignore',
-  })
+  const socketDirectory = fs.mkdtempSync(join(tmpdir(), 'claude-bridge-'))
+  const proxyDirectory = getBridgeProxyDirectory(socketDirectory)
+  fs.mkdirSync(proxyDirectory)
+  const httpSocketPath = join(proxyDirectory, 'http.sock')
+  const socksSocketPath = join(proxyDirectory, 'socks.sock')
+
+  // Start the HTTP and SOCKS bridges in this process
+  const httpBridge = new UnixSocketBridge(
+    'HTTP',
+    httpSocketPath,
+    httpProxy.accept ?? relayToPort(httpProxy.port),
+  )
+  const socksBridge = new UnixSocketBridge(
+    'SOCKS',
+    socksSocketPath,
+    socksProxy.accept ?? relayToPort(socksProxy.port),
+  )
 
-  if (!httpBridgeProcess.pid) {
-    throw new Error('Failed to start HTTP bridge process')
+  const context: LinuxNetworkBridgeContext = {
+    socketDirectory,
+    httpSocketPath,
+    socksSocketPath,
+    httpBridge,
+    socksBridge,
+    httpProxyPort: httpProxy.port,
+    socksProxyPort: socksProxy.port,
+    socksUdpPort,
+    exposedPorts: new ExposedPortForwarder(),
+    sandboxes: new Map(),
   }
-
-  // Add error and exit handlers to monitor bridge health
-  httpBridgeProcess.on('error', err => {
-    logForDebugging(`HTTP bridge process error: ${err}`, { level: 'error' })
-  })
-  httpBridgeProcess.on('exit', (code, signal) => {
-    logForDebugging(
-      `HTTP bridge process exited with code ${code}, signal ${signal}`,
-      { level: code === 0 ? 'info' : 'error' },
-    )
-  })
-
-  // Start SOCKS bridge
-  const socksSocatArgs = [
-    `UNIX-LISTEN:${socksSocketPath},fork,reuseaddr`,
-    `TCP:localhost:${socksProxyPort},keepalive,keepidle=10,keepintvl=5,keepcnt=3`,
-  ]
-
-  logForDebugging(`Starting SOCKS bridge: socat ${socksSocatArgs.join(' ')}`)
-
-  const socksBridgeProcess = spawn('socat', socksSocatArgs, {
-    stdio: 'ignore',
-  })
-
-  if (!socksBridgeProcess.pid) {
-    // Clean up HTTP bridge
-    if (httpBridgeProcess.pid) {
-      try {
-        process.kill(httpBridgeProcess.pid, 'SIGTERM')
-      } catch {
-        // Ignore errors
-      }
-    }
-    throw new Error('Failed to start SOCKS bridge process')
+  try {
+    await httpBridge.listen()
+    await socksBridge.listen()
+  } catch (error) {
+    await closeLinuxNetworkBridge(context)
+    throw error
   }
+  return context
+}
 
-  // Add error and exit handlers to monitor bridge health
-  socksBridgeProcess.on('error', err => {
-    logForDebugging(`SOCKS bridge process error: ${err}`, { level: 'error' })
-  })
-  socksBridgeProcess.on('exit', (code, signal) => {
-    logForDebugging(
-      `SOCKS bridge process exited with code ${code}, signal ${signal}`,
-      { level: code === 0 ? 'info' : 'error' },
-    )
-  })
+/** Stop the bridges and exposed-port listeners and remove their sockets */
+export async function closeLinuxNetworkBridge(
+  context: LinuxNetworkBridgeContext,
+): Promise<void> {
+  const sandboxes = [...context.sandboxes.values()]
+  context.sandboxes.clear()
+  await Promise.all([
+    context.httpBridge.close(),
+    context.socksBridge.close(),
+    context.exposedPorts.close(),
+    ...sandboxes.map(sandbox => sandbox.close()),
+  ])
+  fs.rmSync(context.socketDirectory, { recursive: true, force: true })
+}
 
-  // Wait for both sockets to be ready
-  const maxAttempts = 5
-  for (let i = 0; i < maxAttempts; i++) {
-    if (
-      !httpBridgeProcess.pid ||
-      httpBridgeProcess.killed ||
-      !socksBridgeProcess.pid ||
-      socksBridgeProcess.killed
-    ) {
-      throw new Error('Linux bridge process died unexpectedly')
-    }
+/** Directory of the proxy sockets, bound read-only into every sandbox */
+function getBridgeProxyDirectory(socketDirectory: string): string {
+  return join(socketDirectory, 'proxy')
+}
 
-    try {
-      // fs already imported
-      if (fs.existsSync(httpSocketPath) && fs.existsSync(socksSocketPath)) {
-        logForDebugging(`Linux bridges ready after ${i + 1} attempts`)
-        break
-      }
-    } catch (err) {
-      logForDebugging(`Error checking sockets (attempt ${i + 1}): ${err}`, {
-        level: 'error',
-      })
+/**
+ * Create the bridge directory of a sandbox, with bridges relaying its
+ * connections to the host services on the host's loopback, checked and
+ * recorded as `hostServiceRelay` says, and its datagrams to `udpRelay`, and
+ * relay the ports it exposes to it. `onEnd` is called
+ * once the sandbox has exited; the directory is released with
+ * closeSandboxBridge.
+ */
+export async function openSandboxBridge(
+  context: LinuxNetworkBridgeContext,
+  invocation: SandboxInvocation,
+  options: {
+    exposePorts: readonly number[]
+    hostServices: readonly HostService[]
+    hostServiceRelay: HostServiceRelayOptions
+    /** Serves the connection of each datagram to the SOCKS UDP relay */
+    udpRelay?: BridgeConnectionHandler
+  },
+  onEnd: () => void,
+): Promise<SandboxBridgeDirectory> {
+  const sandbox = await SandboxBridgeDirectory.open(
+    context.socketDirectory,
+    invocation,
+    onEnd,
+  )
+  context.sandboxes.set(invocation.id, sandbox)
+  try {
+    if (options.udpRelay && context.socksUdpPort !== undefined) {
+      await sandbox.addBridge(
+        'SOCKS UDP',
+        sandbox.udpSocketPath,
+        options.udpRelay,
+      )
     }
-
-    if (i === maxAttempts - 1) {
-      // Clean up both processes
-      if (httpBridgeProcess.pid) {
-        try {
-          process.kill(httpBridgeProcess.pid, 'SIGTERM')
-        } catch {
-          // Ignore errors
-        }
-      }
-      if (socksBridgeProcess.pid) {
-        try {
-          process.kill(socksBridgeProcess.pid, 'SIGTERM')
-        } catch {
-          // Ignore errors
-        }
-      }
-      throw new Error(
-        `Failed to create bridge sockets after ${maxAttempts} attempts`,
+    for (const service of options.hostServices) {
+      await sandbox.addBridge(
+        `host service ${formatHostService(service)}`,
+        getHostServiceSocketPath(sandbox.hostDirectory, service),
+        relayToHostService(service, invocation, options.hostServiceRelay),
       )
     }
+    await context.exposedPorts.expose(
+      options.exposePorts,
+      sandbox.exposedDirectory,
+    )
+  } catch (error) {
+    await closeSandboxBridge(context, invocation.id)
+    throw error
+  }
+  return sandbox
+}
 
-    await new Promise(resolve => setTimeout(resolve, i * 100))
+/**
+ * Stop relaying to a sandbox and remove its bridge directory. Does nothing
+ * if it was already released.
+ */
+export async function closeSandboxBridge(
+  context: LinuxNetworkBridgeContext,
+  invocationId: string,
+): Promise<void> {
+  const sandbox = context.sandboxes.get(invocationId)
+  if (!sandbox) {
+    return
   }
+  context.sandboxes.delete(invocationId)
+  await Promise.all([
+    context.exposedPorts.release(sandbox.exposedDirectory),
+    sandbox.close(),
+  ])
+}
 
-  return {
-    httpSocketPath,
-    socksSocketPath,
-    httpBridgeProcess,
-    socksBridgeProcess,
-    httpProxyPort,
-    socksProxyPort,
+/**
+ * Listener addresses inside the sandbox for a host service, at the same
+ * address and port as on the host
+ */
+function getHostServiceListeners(service: HostService): string[] {
+  const ipv4 = `TCP-LISTEN:${service.port},fork,reuseaddr,bind=`
+  const ipv6 = `TCP6-LISTEN:${service.port},fork,reuseaddr,bind=[::1],ipv6only=1`
+  switch (service.host) {
+    case 'localhost':
+      return [`${ipv4}127.0.0.1`, ipv6]
+    case '::1':
+      return [ipv6]
+    default:
+      return [`${ipv4}${service.host}`]
   }
 }
 
+/**
+ * SOCKS listener of the sandbox for tun2socks, with the invocation's
+ * credentials so its connections are attributed to the command
+ */
+function getTransparentEgressProxyUrl(credentials?: ProxyCredentials): string {
+  const userinfo = credentials
+    ? `${encodeURIComponent(credentials.username)}:${encodeURIComponent(credentials.password)}@`
+    : ''
+  return `socks5://${userinfo}127.0.0.1:1080`
+}
+
 /**
  * Build the command that runs inside the sandbox.
- * Sets up HTTP proxy on port 3128 and SOCKS proxy on port 1080
+ * Sets up HTTP proxy on port 3128 and SOCKS proxy on port 1080, and holds a
+ * connection to the lifeline socket, if given, until it exits. When a UDP
+ * bridge is given, the SOCKS UDP relay is reachable on the same port as on
+ * the host, so the address in UDP ASSOCIATE replies works inside the sandbox:
+ * each datagram gets its own connection to the bridge socket, on which the
+ * relay writes the reply.
+ *
+ * Exposed ports are served on Unix sockets for the host to connect to, and
+ * allowed host services are served on loopback as they are on the host.
+ *
+ * With a transparent egress proxy URL, everything but loopback is routed to
+ * a tunnel device whose connections tun2socks hands to the SOCKS listener,
+ * and the command runs without the capabilities used to set it up.
  */
 function buildSandboxCommand(
   httpSocketPath: string,
@@ -477,13 +649,64 @@ function buildSandboxCommand(
   seccompFilterPath: string | undefined,
   shell?: string,
   applySeccompPath?: string,
+  socksUdpBridge?: { socketPath: string; port: number },
+  exposedPorts: Array<{ socketPath: string; port: number }> = [],
+  hostServices: Array<{ socketPath: string; service: HostService }> = [],
+  transparentEgressProxy?: string,
+  lifelineSocketPath?: string,
 ): string {
   // Default to bash for backward compatibility
   const shellPath = shell || 'bash'
+  // Listen on ::1 as well, since "localhost" in the proxy variables may
+  // resolve to either loopback address. Without IPv6 in the namespace the
+  // ::1 listeners fail on their own and the IPv4 ones still work.
+  const listeners = [
+    `socat TCP-LISTEN:3128,fork,reuseaddr UNIX-CONNECT:${httpSocketPath}`,
+    `socat TCP6-LISTEN:3128,fork,reuseaddr,bind=[::1],ipv6only=1 UNIX-CONNECT:${httpSocketPath}`,
+    `socat TCP-LISTEN:1080,fork,reuseaddr UNIX-CONNECT:${socksSocketPath}`,
+    `socat TCP6-LISTEN:1080,fork,reuseaddr,bind=[::1],ipv6only=1 UNIX-CONNECT:${socksSocketPath}`,
+  ]
+  if (lifelineSocketPath) {
+    listeners.push(`socat -u UNIX-CONNECT:${lifelineSocketPath} /dev/null`)
+  }
+  if (socksUdpBridge) {
+    // Each datagram is sent on its own connection, which the relay ends
+    // after the reply. The timeout outlasts the relay's wait for a reply.
+    listeners.push(
+      `socat -t 10 UDP-RECVFROM:${socksUdpBridge.port},fork,reuseaddr,bind=127.0.0.1 UNIX-CONNECT:${socksUdpBridge.socketPath}`,
+    )
+  }
+  for (const { socketPath, service } of hostServices) {
+    for (const listener of getHostServiceListeners(service)) {
+      listeners.push(`socat ${listener} UNIX-CONNECT:${socketPath}`)
+    }
+  }
+  for (const { socketPath, port } of exposedPorts) {
+    listeners.push(`socat UNIX-LISTEN:${socketPath},fork TCP:localhost:${port}`)
+  }
+  const setup: string[] = []
+  if (transparentEgressProxy) {
+    setup.push(
+      ...[
+        `ip tuntap add dev ${TRANSPARENT_TUN_DEVICE} mode tun`,
+        `ip addr add ${TRANSPARENT_TUN_ADDRESS} dev ${TRANSPARENT_TUN_DEVICE}`,
+        `ip link set dev ${TRANSPARENT_TUN_DEVICE} up`,
+        `ip route add default dev ${TRANSPARENT_TUN_DEVICE}`,
+      ].map(step => `${step} || exit 1`),
+    )
+    listeners.push(
+      `tun2socks -device ${TRANSPARENT_TUN_DEVICE} -proxy ${shellquote.quote([transparentEgressProxy])} -loglevel error`,
+    )
+  }
+  const dropCapabilities = transparentEgressProxy
+    ? DROP_CAPABILITIES_COMMAND
+    : []
+
+  const jobs = listeners.map((_, i) => `%${i + 1}`).join(' ')
   const socatCommands = [
-    `socat TCP-LISTEN:3128,fork,reuseaddr UNIX-CONNECT:${httpSocketPath} >/dev/null 2>&1 &`,
-    `socat TCP-LISTEN:1080,fork,reuseaddr UNIX-CONNECT:${socksSocketPath} >/dev/null 2>&1 &`,
-    'trap "kill %1 %2 2>/dev/null; exit" EXIT',
+    ...setup,
+    ...listeners.map(listener => `${listener} >/dev/null 2>&1 &`),
+    `trap "kill ${jobs} 2>/dev/null; exit" EXIT`,
   ]
 
   // If seccomp filter is provided, use apply-seccomp to apply it
@@ -508,6 +731,7 @@ function buildSandboxCommand(
     }
 
     const applySeccompCmd = shellquote.quote([
+      ...dropCapabilities,
       applySeccompBinary,
       seccompFilterPath,
       shellPath,
@@ -521,7 +745,9 @@ function buildSandboxCommand(
     // No seccomp filter - run user command directly
     const innerScript = [
       ...socatCommands,
-      `eval ${shellquote.quote([userCommand])}`,
+      transparentEgressProxy
+        ? shellquote.quote([...dropCapabilities, shellPath, '-c', userCommand])
+        : `eval ${shellquote.quote([userCommand])}`,
     ].join('\n')
 
     return `${shellPath} -c ${shellquote.quote([innerScript])}`
@@ -790,8 +1016,16 @@ export async function wrapCommandWithSandboxLinux(
     needsNetworkRestriction,
     httpSocketPath,
     socksSocketPath,
+    bridgeSocketDirectory,
+    sandboxBridge,
     httpProxyPort,
     socksProxyPort,
+    socksUdpPort,
+    exposePorts = [],
+    hostServices = [],
+    transparentEgress = false,
+    proxyCredentials,
+    tlsInterceptionCa,
     readConfig,
     writeConfig,
     enableWeakerNestedSandbox,
@@ -823,7 +1057,22 @@ export async function wrapCommandWithSandboxLinux(
     return command
   }
 
+  // The sandbox's own bridge directories, when it is given network access
+  // through the proxies
+  const sandboxBridgePaths =
+    needsNetworkRestriction &&
+    httpSocketPath &&
+    socksSocketPath &&
+    bridgeSocketDirectory
+      ? sandboxBridge
+      : undefined
+  // Transparent egress keeps its resolver config in the host directory
+  const transparentEgressDirectory = transparentEgress
+    ? sandboxBridgePaths?.hostDirectory
+    : undefined
+
   const bwrapArgs: string[] = ['--new-session', '--die-with-parent']
+  const bridgeBindArgs: string[] = []
   let seccompFilterPath: string | undefined = undefined
 
   try {
@@ -871,6 +1120,11 @@ export async function wrapCommandWithSandboxLinux(
       // Always unshare network namespace to isolate network access
       // This removes all network interfaces, effectively blocking all network
       bwrapArgs.push('--unshare-net')
+      if (transparentEgressDirectory) {
+        // The sandbox sets up its tunnel device with CAP_NET_ADMIN in its own
+        // user namespace; the command runs without it
+        bwrapArgs.push('--unshare-user', '--cap-add', 'CAP_NET_ADMIN')
+      }
 
       // If proxy sockets are provided, bind them into the sandbox to allow
       // filtered network access through the proxy. If not provided, network
@@ -880,19 +1134,33 @@ export async function wrapCommandWithSandboxLinux(
         if (!fs.existsSync(httpSocketPath)) {
           throw new Error(
             `Linux HTTP bridge socket does not exist: ${httpSocketPath}. ` +
-              'The bridge process may have died. Try reinitializing the sandbox.',
+              'The bridge stopped and could not be restarted. Try reinitializing the sandbox.',
           )
         }
         if (!fs.existsSync(socksSocketPath)) {
           throw new Error(
             `Linux SOCKS bridge socket does not exist: ${socksSocketPath}. ` +
-              'The bridge process may have died. Try reinitializing the sandbox.',
+              'The bridge stopped and could not be restarted. Try reinitializing the sandbox.',
           )
         }
 
-        // Bind both sockets into the sandbox
-        bwrapArgs.push('--bind', httpSocketPath, httpSocketPath)
-        bwrapArgs.push('--bind', socksSocketPath, socksSocketPath)
+        // Bind the sockets into the sandbox, after the filesystem mounts so
+        // a read-only root doesn't cover them. The bridge directory itself is
+        // hidden, so the sandbox can't see other sandboxes' directories, and
+        // only the sockets the sandbox serves are writable.
+        if (bridgeSocketDirectory) {
+          const proxyDirectory = getBridgeProxyDirectory(bridgeSocketDirectory)
+          bridgeBindArgs.push('--tmpfs', bridgeSocketDirectory)
+          bridgeBindArgs.push('--ro-bind', proxyDirectory, proxyDirectory)
+          if (sandboxBridgePaths) {
+            const { hostDirectory, exposedDirectory } = sandboxBridgePaths
+            bridgeBindArgs.push('--ro-bind', hostDirectory, hostDirectory)
+            bridgeBindArgs.push('--bind', exposedDirectory, exposedDirectory)
+          }
+        } else {
+          bridgeBindArgs.push('--ro-bind', httpSocketPath, httpSocketPath)
+          bridgeBindArgs.push('--ro-bind', socksSocketPath, socksSocketPath)
+        }
 
         // Add proxy environment variables
         // HTTP_PROXY points to the socat listener inside the sandbox (port 3128)
@@ -900,6 +1168,8 @@ export async function wrapCommandWithSandboxLinux(
         const proxyEnv = generateProxyEnvVars(
           3128, // Internal HTTP listener port
           1080, // Internal SOCKS listener port
+          proxyCredentials,
+          tlsInterceptionCa,
         )
         bwrapArgs.push(
           ...proxyEnv.flatMap((env: string) => {
@@ -940,10 +1210,23 @@ export async function wrapCommandWithSandboxLinux(
       abortSignal,
     )
     bwrapArgs.push(...fsArgs)
+    bwrapArgs.push(...bridgeBindArgs)
 
     // Always bind /dev
     bwrapArgs.push('--dev', '/dev')
 
+    if (transparentEgressDirectory) {
+      // The tunnel device, and a resolver config naming the DNS server that
+      // the SOCKS UDP relay answers for
+      const resolvConfPath = join(transparentEgressDirectory, 'resolv.conf')
+      fs.writeFileSync(
+        resolvConfPath,
+        `nameserver ${TRANSPARENT_DNS_ADDRESS}\n`,
+      )
+      bwrapArgs.push('--dev-bind', '/dev/net/tun', '/dev/net/tun')
+      bwrapArgs.push('--ro-bind', resolvConfPath, '/etc/resolv.conf')
+    }
+
     // ========== PID NAMESPACE ISOLATION ==========
     // IMPORTANT: These must come AFTER filesystem binds for nested bwrap to work
     // By default, always unshare PID namespace and mount fresh /proc.
@@ -982,6 +1265,33 @@ export async function wrapCommandWithSandboxLinux(
         seccompFilterPath,
         shell,
         seccompConfig?.applyPath,
+        sandboxBridgePaths &&
+          socksUdpPort !== undefined &&
+          fs.existsSync(sandboxBridgePaths.udpSocketPath)
+          ? { socketPath: sandboxBridgePaths.udpSocketPath, port: socksUdpPort }
+          : undefined,
+        sandboxBridgePaths
+          ? exposePorts.map(port => ({
+              socketPath: getExposedPortSocketPath(
+                sandboxBridgePaths.exposedDirectory,
+                port,
+              ),
+              port,
+            }))
+          : [],
+        sandboxBridgePaths
+          ? hostServices.map(service => ({
+              socketPath: getHostServiceSocketPath(
+                sandboxBridgePaths.hostDirectory,
+                service,
+              ),
+              service,
+            }))
+          : [],
+        transparentEgressDirectory
+          ? getTransparentEgressProxyUrl(proxyCredentials)
+          : undefined,
+        sandboxBridgePaths?.lifelineSocketPath,
       )
       bwrapArgs.push(sandboxCommand)
     } else if (seccompFilterPath) {
@@ -11,26 +11,45 @@ import {
   globToRegex,
   DANGEROUS_FILES,
   getDangerousDirectories,
+  type ProxyCredentials,
+  type TlsInterceptionCaFiles,
 } from './sandbox-utils.js'
 
 import type {
   FsReadRestrictionConfig,
   FsWriteRestrictionConfig,
+  NetworkViolation,
 } from './sandbox-schemas.js'
 import {
   isReadDenyOnlyConfig,
   isReadAllowOnlyConfig,
 } from './sandbox-schemas.js'
 import type { IgnoreViolationsConfig } from './sandbox-config.js'
+import type { HostService } from './host-service.js'
 
 export interface MacOSSandboxParams {
   command: string
   needsNetworkRestriction: boolean
   httpProxyPort?: number
   socksProxyPort?: number
+  /** Port of the SOCKS proxy's UDP relay, if it has one */
+  socksUdpPort?: number
+  /**
+   * Port of a SOCKS listener serving only this invocation, for tools that
+   * can't send proxy credentials
+   */
+  invocationSocksPort?: number
+  /** Credentials identifying this invocation to the proxies */
+  proxyCredentials?: ProxyCredentials
+  /** CA files to trust when the HTTP proxy intercepts TLS */
+  tlsInterceptionCa?: TlsInterceptionCaFiles
   allowUnixSockets?: string[]
   allowAllUnixSockets?: boolean
   allowLocalBinding?: boolean
+  /** Localhost ports the command may listen on for the host to connect to */
+  exposePorts?: number[]
+  /** Services on the host's loopback the command may connect to */
+  hostServices?: HostService[]
   readConfig: FsReadRestrictionConfig | undefined
   writeConfig: FsWriteRestrictionConfig | undefined
   ignoreViolations?: IgnoreViolationsConfig | undefined
@@ -77,6 +96,8 @@ export interface SandboxViolationEvent {
   command?: string
   encodedCommand?: string
   timestamp: Date
+  /** The blocked connection, for violations reported by the network proxies */
+  network?: NetworkViolation
 }
 
 export type SandboxViolationCallback = (
@@ -469,10 +490,14 @@ function generateSandboxProfile({
   writeConfig,
   httpProxyPort,
   socksProxyPort,
+  socksUdpPort,
+  invocationSocksPort,
   needsNetworkRestriction,
   allowUnixSockets,
   allowAllUnixSockets,
   allowLocalBinding,
+  exposePorts = [],
+  hostServices = [],
   allowPty,
   allowGitConfig = false,
   logTag,
@@ -481,10 +506,14 @@ function generateSandboxProfile({
   writeConfig: FsWriteRestrictionConfig | undefined
   httpProxyPort?: number
   socksProxyPort?: number
+  socksUdpPort?: number
+  invocationSocksPort?: number
   needsNetworkRestriction: boolean
   allowUnixSockets?: string[]
   allowAllUnixSockets?: boolean
   allowLocalBinding?: boolean
+  exposePorts?: number[]
+  hostServices?: HostService[]
   allowPty?: boolean
   allowGitConfig?: boolean
   logTag: string
@@ -644,6 +673,16 @@ function generateSandboxProfile({
       profile.push('(allow network-inbound (local ip "localhost:*"))')
       profile.push('(allow network-outbound (local ip "localhost:*"))')
     }
+    // Exposed ports are served on the host's loopback directly
+    for (const port of exposePorts) {
+      profile.push(`(allow network-bind (local ip "localhost:${port}"))`)
+      profile.push(`(allow network-inbound (local ip "localhost:${port}"))`)
+    }
+    // Seatbelt matches loopback only as "localhost", so a service allowed on
+    // one loopback address is reachable on all of them at its port
+    for (const { port } of hostServices) {
+      profile.push(`(allow network-outbound (remote ip "localhost:${port}"))`)
+    }
     // Unix domain sockets for local IPC (SSH agent, Docker, etc.)
     if (allowAllUnixSockets) {
       // Allow all Unix socket paths
@@ -682,6 +721,21 @@ function generateSandboxProfile({
         `(allow network-outbound (remote ip "localhost:${socksProxyPort}"))`,
       )
     }
+
+    // Allow sending datagrams to the SOCKS proxy's UDP relay, whose address
+    // UDP ASSOCIATE replies name
+    if (socksUdpPort !== undefined) {
+      profile.push(
+        `(allow network-outbound (remote ip "localhost:${socksUdpPort}"))`,
+      )
+    }
+
+    // Allow connecting to the SOCKS listener of this invocation
+    if (invocationSocksPort !== undefined) {
+      profile.push(
+        `(allow network-outbound (remote ip "localhost:${invocationSocksPort}"))`,
+      )
+    }
   }
   profile.push('')
 
@@ -755,9 +809,15 @@ export function wrapCommandWithSandboxMacOS(
     needsNetworkRestriction,
     httpProxyPort,
     socksProxyPort,
+    socksUdpPort,
+    invocationSocksPort,
+    proxyCredentials,
+    tlsInterceptionCa,
     allowUnixSockets,
     allowAllUnixSockets,
     allowLocalBinding,
+    exposePorts,
+    hostServices,
     readConfig,
     writeConfig,
     allowPty,
@@ -791,17 +851,27 @@ export function wrapCommandWithSandboxMacOS(
     writeConfig,
     httpProxyPort,
     socksProxyPort,
+    socksUdpPort,
+    invocationSocksPort,
     needsNetworkRestriction,
     allowUnixSockets,
     allowAllUnixSockets,
     allowLocalBinding,
+    exposePorts,
+    hostServices,
     allowPty,
     allowGitConfig,
     logTag,
   })
 
   // Generate proxy environment variables using shared utility
-  const proxyEnvArgs = generateProxyEnvVars(httpProxyPort, socksProxyPort)
+  const proxyEnvArgs = generateProxyEnvVars(
+    httpProxyPort,
+    socksProxyPort,
+    proxyCredentials,
+    tlsInterceptionCa,
+    invocationSocksPort,
+  )
 
   // Use the user's shell (zsh, bash, etc.) to ensure aliases/snapshots work
   // Resolve the full path to the shell binary
@@ -0,0 +1,117 @@
+import * as fs from 'fs'
+import { logForDebugging } from '../utils/debug.js'
+import type { NetworkAuditEvent, NetworkAuditSink } from './sandbox-schemas.js'
+import type { NetworkAuditLogConfig } from './sandbox-config.js'
+
+/**
+ * Dispatches network audit events to the configured JSONL file, the
+ * configured callback sink and any subscribed listeners.
+ *
+ * The file is appended to through a write stream so that proxied
+ * connections never wait on the disk. The stream is reopened when the
+ * configured path changes or after a write error.
+ */
+export class NetworkAuditLog {
+  private listeners: Set<NetworkAuditSink> = new Set()
+  private file: { path: string; stream: fs.WriteStream } | undefined
+
+  record(event: NetworkAuditEvent, config?: NetworkAuditLogConfig): void {
+    if (config?.path) {
+      this.getStream(config.path).write(JSON.stringify(event) + '\n')
+    }
+
+    const sinks = config?.sink
+      ? [config.sink, ...this.listeners]
+      : [...this.listeners]
+    for (const sink of sinks) {
+      try {
+        sink(event)
+      } catch (error) {
+        logForDebugging(`Network audit sink threw: ${error}`, {
+          level: 'error',
+        })
+      }
+    }
+  }
+
+  /** Flush and close the file, if one is open */
+  async close(): Promise<void> {
+    const file = this.file
+    this.file = undefined
+    if (file) {
+      await new Promise<void>(resolve => file.stream.end(resolve))
+    }
+  }
+
+  subscribe(listener: NetworkAuditSink): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private getStream(path: string): fs.WriteStream {
+    if (this.file?.path === path) {
+      return this.file.stream
+    }
+    this.file?.stream.end()
+    const stream = fs.createWriteStream(path, { flags: 'a', mode: 0o600 })
+    stream.on('error', error => {
+      logForDebugging(`Failed to write network audit log: ${error}`, {
+        level: 'error',
+      })
+      if (this.file?.stream === stream) {
+        this.file = undefined
+      }
+    })
+    this.file = { path, stream }
+    return stream
+  }
+}
+
+/**
+ * Fields of an audit event supplied when the outcome is known.
+ */
+export type NetworkAuditOutcome = Pick<
+  NetworkAuditEvent,
+  | 'decision'
+  | 'rule'
+  | 'mitmRoute'
+  | 'intercepted'
+  | 'bytesUp'
+  | 'bytesDown'
+  | 'error'
+>
+
+export type NetworkAuditReporter = (outcome: NetworkAuditOutcome) => void
+
+/**
+ * Create a one-shot reporter for a single connection or request. The
+ * timestamp is taken now; allowed outcomes also carry the elapsed duration.
+ * Only the first call is forwarded to the sink.
+ */
+export function createNetworkAuditReporter(
+  sink: NetworkAuditSink | undefined,
+  target: Pick<
+    NetworkAuditEvent,
+    'protocol' | 'host' | 'port' | 'method' | 'invocation'
+  >,
+): NetworkAuditReporter {
+  const startedAt = Date.now()
+  let reported = false
+
+  return outcome => {
+    if (!sink || reported) {
+      return
+    }
+    reported = true
+    sink({
+      timestamp: new Date(startedAt).toISOString(),
+      ...target,
+      ...outcome,
+      ...(outcome.decision === 'allow' && {
+        durationMs: Date.now() - startedAt,
+      }),
+    })
+  }
+}
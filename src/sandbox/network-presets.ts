@@ -0,0 +1,32 @@
+/**
+ * Named allowlists for common package registries and code hosts, enabled
+ * with `network.presets`. Each preset covers what the ecosystem's standard
+ * tooling needs to resolve and download packages.
+ */
+export const NETWORK_PRESETS = {
+  npm: ['registry.npmjs.org', 'registry.yarnpkg.com'],
+  pypi: ['pypi.org', 'files.pythonhosted.org'],
+  crates: ['crates.io', 'index.crates.io', 'static.crates.io'],
+  github: ['github.com', '*.github.com', '*.githubusercontent.com', 'ghcr.io'],
+  go: ['proxy.golang.org', 'sum.golang.org'],
+  docker: [
+    'registry-1.docker.io',
+    'auth.docker.io',
+    'index.docker.io',
+    'production.cloudflare.docker.com',
+  ],
+} as const satisfies Record<string, readonly string[]>
+
+export type NetworkPresetName = keyof typeof NETWORK_PRESETS
+
+export const NETWORK_PRESET_NAMES = Object.keys(NETWORK_PRESETS) as [
+  NetworkPresetName,
+  ...NetworkPresetName[],
+]
+
+/** Domain rules of the given presets, in order and without duplicates */
+export function getPresetDomains(
+  presets: readonly NetworkPresetName[],
+): string[] {
+  return [...new Set(presets.flatMap(preset => NETWORK_PRESETS[preset]))]
+}
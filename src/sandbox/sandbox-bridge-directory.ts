@@ -0,0 +1,125 @@
+import * as fs from 'fs'
+import { join } from 'node:path'
+import { logForDebugging } from '../utils/debug.js'
+import type { SandboxInvocation } from './sandbox-schemas.js'
+import {
+  UnixSocketBridge,
+  type BridgeConnectionHandler,
+} from './unix-socket-bridge.js'
+
+/**
+ * Directories of one Linux sandbox in the session's bridge directory. Apart
+ * from the proxy sockets, they are the only part of the bridge directory
+ * visible in the sandbox, so a command can't remove or take over sockets
+ * that other sandboxes use.
+ */
+export interface SandboxBridgePaths {
+  /** Sockets the host serves to the sandbox, bound read-only */
+  hostDirectory: string
+  /** Sockets the sandbox serves to the host, bound writable */
+  exposedDirectory: string
+  /** Socket the sandbox stays connected to while it runs */
+  lifelineSocketPath: string
+  /**
+   * Socket relaying the sandbox's datagrams to the SOCKS UDP relay, served
+   * if the SOCKS proxy has one
+   */
+  udpSocketPath: string
+}
+
+/**
+ * The bridge directory of one wrapped command and the bridges serving it.
+ * The sandbox connects to the lifeline socket when it starts, and the
+ * connection closes when it exits, so the directory is released then. A
+ * wrapped command is meant to be run once.
+ */
+export class SandboxBridgeDirectory implements SandboxBridgePaths {
+  readonly hostDirectory: string
+  readonly exposedDirectory: string
+  readonly lifelineSocketPath: string
+  readonly udpSocketPath: string
+  private readonly lifeline: UnixSocketBridge
+  private hostBridges: UnixSocketBridge[] = []
+  private ended = false
+
+  private constructor(
+    readonly directory: string,
+    readonly invocation: SandboxInvocation,
+    private readonly onEnd: () => void,
+  ) {
+    this.hostDirectory = join(directory, 'host')
+    this.exposedDirectory = join(directory, 'exposed')
+    this.lifelineSocketPath = join(this.hostDirectory, 'sandbox.sock')
+    this.udpSocketPath = join(this.hostDirectory, 'udp.sock')
+    this.lifeline = new UnixSocketBridge(
+      `sandbox ${invocation.id} lifeline`,
+      this.lifelineSocketPath,
+      socket => {
+        // The sandbox never sends anything; the connection ends with it
+        socket.on('error', () => {})
+        socket.once('end', () => socket.destroy())
+        socket.once('close', () => this.end())
+        socket.resume()
+      },
+    )
+  }
+
+  /**
+   * Create the directory in the session's bridge directory and listen on its
+   * lifeline socket. `onEnd` is called once the sandbox has exited.
+   */
+  static async open(
+    parentDirectory: string,
+    invocation: SandboxInvocation,
+    onEnd: () => void,
+  ): Promise<SandboxBridgeDirectory> {
+    // A short name keeps socket paths within the Unix socket path limit
+    const directory = fs.mkdtempSync(join(parentDirectory, 's-'))
+    const sandbox = new SandboxBridgeDirectory(directory, invocation, onEnd)
+    fs.mkdirSync(sandbox.hostDirectory)
+    fs.mkdirSync(sandbox.exposedDirectory)
+    try {
+      await sandbox.lifeline.listen()
+    } catch (error) {
+      await sandbox.close()
+      throw error
+    }
+    return sandbox
+  }
+
+  /** Bridges serving sockets in the host directory */
+  get bridges(): UnixSocketBridge[] {
+    return [...this.hostBridges]
+  }
+
+  /** Serve a socket in the host directory to the sandbox */
+  async addBridge(
+    name: string,
+    socketPath: string,
+    onConnection: BridgeConnectionHandler,
+  ): Promise<UnixSocketBridge> {
+    const bridge = new UnixSocketBridge(name, socketPath, onConnection)
+    await bridge.listen()
+    this.hostBridges.push(bridge)
+    return bridge
+  }
+
+  /** Stop the bridges and remove the directory */
+  async close(): Promise<void> {
+    this.ended = true
+    await Promise.all(
+      [this.lifeline, ...this.hostBridges].map(bridge => bridge.close()),
+    )
+    this.hostBridges = []
+    fs.rmSync(this.directory, { recursive: true, force: true })
+  }
+
+  private end(): void {
+    if (this.ended) {
+      return
+    }
+    this.ended = true
+    logForDebugging(`Sandbox ${this.invocation.id} exited, releasing bridges`)
+    this.onEnd()
+  }
+}
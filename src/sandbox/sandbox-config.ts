@@ -4,71 +4,313 @@
  */
 
 import { z } from 'zod'
+import { isValidDomainPattern } from './domain-pattern.js'
+import { isValidCidr } from './ip-address.js'
+import { isValidHostService } from './host-service.js'
+import { isValidPathPattern } from './http-rule.js'
+import type { NetworkAuditSink } from './sandbox-schemas.js'
+import { NETWORK_PRESET_NAMES } from './network-presets.js'
 
 /**
- * Schema for domain patterns (e.g., "example.com", "*.npmjs.org")
+ * Schema for domain patterns (e.g., "example.com", "*.npmjs.org", "github.com:443", "[2001:db8::1]:443")
  * Validates that domain patterns are safe and don't include overly broad wildcards
  */
-const domainPatternSchema = z.string().refine(
-  val => {
-    // Reject protocols, paths, ports, etc.
-    if (val.includes('://') || val.includes('/') || val.includes(':')) {
-      return false
-    }
-
-    // Allow localhost
-    if (val === 'localhost') return true
-
-    // Allow bare "*" wildcard to mean "allow all domains"
-    if (val === '*') return true
+export const domainPatternSchema = z.string().refine(isValidDomainPattern, {
+  message:
+    'Invalid domain pattern. Must be a valid domain (e.g., "example.com"), wildcard (e.g., "*.example.com" for subdomains, "**.example.com" for the domain and its subdomains), IP address or prefix (e.g., "10.0.0.5", "2001:db8::/32"), or "*" to allow all domains, optionally followed by a port or port range (e.g., "github.com:443", "*.internal.org:8080-8090"). IPv6 addresses must be bracketed when followed by a port (e.g., "[2001:db8::1]:443").',
+})
 
-    // Allow wildcard domains like *.example.com
-    if (val.startsWith('*.')) {
-      const domain = val.slice(2)
-      // After the *. there must be a valid domain with at least one more dot
-      // e.g., *.example.com is valid, *.com is not (too broad)
-      if (
-        !domain.includes('.') ||
-        domain.startsWith('.') ||
-        domain.endsWith('.')
-      ) {
-        return false
-      }
-      // Count dots - must have at least 2 parts after the wildcard (e.g., example.com)
-      const parts = domain.split('.')
-      return parts.length >= 2 && parts.every(p => p.length > 0)
-    }
+/**
+ * Schema for IP ranges in CIDR notation (e.g., "10.0.0.0/8", "fd00::/8")
+ * A bare IP address is treated as a single-host range.
+ */
+const cidrSchema = z.string().refine(isValidCidr, {
+  message:
+    'Invalid CIDR. Must be an IPv4 or IPv6 address with an optional prefix length (e.g., "10.0.0.0/8", "192.168.1.10", "fd00::/8").',
+})
 
-    // Reject any other use of wildcards (e.g., *, *., etc.)
-    if (val.includes('*')) {
-      return false
-    }
+/**
+ * Schema for services on the host's loopback (e.g., "127.0.0.1:5432")
+ */
+const hostServiceSchema = z.string().refine(isValidHostService, {
+  message:
+    'Invalid host service. Must be a loopback address or "localhost" followed by a port (e.g., "127.0.0.1:5432", "localhost:8080", "[::1]:6379").',
+})
 
-    // Regular domains must have at least one dot and only valid characters
-    return val.includes('.') && !val.startsWith('.') && !val.endsWith('.')
-  },
-  {
-    message:
-      'Invalid domain pattern. Must be a valid domain (e.g., "example.com"), wildcard (e.g., "*.example.com"), or "*" to allow all domains.',
-  },
-)
+/**
+ * Schema for URL path patterns (e.g., "/api/v1/read/*", "/packages/**")
+ */
+const pathPatternSchema = z.string().refine(isValidPathPattern, {
+  message:
+    'Invalid path pattern. Must start with "/" and contain no whitespace, "?" or "#". Use "*" for one path segment and "**" for any number of segments (e.g., "/api/v1/read/**").',
+})
 
 /**
  * Schema for filesystem paths
  */
 const filesystemPathSchema = z.string().min(1, 'Path cannot be empty')
 
+/**
+ * Schema for one MITM proxy route
+ * Routes matching domains through a MITM proxy reached via Unix socket or TCP
+ */
+const MitmRouteConfigSchema = z
+  .object({
+    socketPath: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Unix socket path to the MITM proxy'),
+    host: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Host of the MITM proxy, when reached over TCP'),
+    port: z
+      .number()
+      .int()
+      .min(1)
+      .max(65535)
+      .optional()
+      .describe('Port of the MITM proxy, when reached over TCP'),
+    domains: z
+      .array(domainPatternSchema)
+      .min(1)
+      .describe(
+        'Domains to route through the MITM proxy (e.g., ["api.example.com", "*.internal.org"])',
+      ),
+    proxyAuthorization: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Proxy-Authorization header value sent to the MITM proxy (e.g., "Basic dXNlcjpwYXNz")',
+      ),
+    onFailure: z
+      .enum(['fail-closed', 'direct'])
+      .optional()
+      .describe(
+        'When the MITM proxy cannot be reached: reject the connection ("fail-closed", default) or connect without it ("direct")',
+      ),
+  })
+  .refine(
+    route =>
+      route.socketPath !== undefined
+        ? route.host === undefined && route.port === undefined
+        : route.host !== undefined && route.port !== undefined,
+    { message: 'A MITM route needs either socketPath or host and port' },
+  )
+
 /**
  * Schema for MITM proxy configuration
- * Allows routing specific domains through an upstream MITM proxy via Unix socket
+ * A single route, or an ordered list of routes where the first route whose
+ * domains match a host is used
+ */
+const MitmProxyConfigSchema = z.union([
+  MitmRouteConfigSchema,
+  z.array(MitmRouteConfigSchema).min(1),
+])
+
+/**
+ * Schema for a request header set on intercepted requests
+ */
+const InjectedHeaderConfigSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, 'Invalid header name')
+    .describe('Header to add, replacing any value sent by the client'),
+  value: z
+    .string()
+    .describe(
+      'Header value. ${VAR} is replaced with the host environment variable VAR (e.g., "Bearer ${NPM_TOKEN}")',
+    ),
+  domains: z
+    .array(domainPatternSchema)
+    .optional()
+    .describe(
+      'Only set the header for these domains (default: all intercepted domains)',
+    ),
+})
+
+/**
+ * Schema for built-in TLS interception
+ * HTTPS requests to matching domains are decrypted by the HTTP proxy using a
+ * local CA that sandboxed processes are told to trust
  */
-const MitmProxyConfigSchema = z.object({
-  socketPath: z.string().min(1).describe('Unix socket path to the MITM proxy'),
+const TlsInterceptionConfigSchema = z.object({
   domains: z
     .array(domainPatternSchema)
     .min(1)
     .describe(
-      'Domains to route through the MITM proxy (e.g., ["api.example.com", "*.internal.org"])',
+      'Domains whose HTTPS traffic is intercepted (e.g., ["registry.npmjs.org"])',
+    ),
+  headers: z
+    .array(InjectedHeaderConfigSchema)
+    .optional()
+    .describe('Request headers set on intercepted requests'),
+})
+
+/**
+ * Schema for a method and path rule applied to HTTP requests
+ */
+const HttpRuleConfigSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[A-Za-z0-9._-]+$/,
+      'Rule names may only contain letters, digits, ".", "_" and "-"',
+    )
+    .optional()
+    .describe(
+      'Name reported when the rule blocks a request (default: its index)',
+    ),
+  action: z.enum(['allow', 'deny']).describe('Allow or deny matching requests'),
+  domains: z
+    .array(domainPatternSchema)
+    .min(1)
+    .describe('Domains the rule covers (e.g., ["registry.npmjs.org"])'),
+  methods: z
+    .array(z.string().regex(/^[A-Za-z]+$/, 'Invalid HTTP method'))
+    .min(1)
+    .optional()
+    .describe('HTTP methods the rule matches (default: all)'),
+  paths: z
+    .array(pathPatternSchema)
+    .min(1)
+    .optional()
+    .describe('URL path patterns the rule matches (default: all)'),
+})
+
+/**
+ * Schema for a parent proxy that permitted traffic is forwarded through
+ */
+const UpstreamProxyConfigSchema = z.object({
+  protocol: z
+    .enum(['http', 'socks5'])
+    .describe('HTTP CONNECT proxy or SOCKS5 proxy'),
+  host: z.string().min(1).describe('Host name or IP address of the proxy'),
+  port: z.number().int().min(1).max(65535).describe('Port of the proxy'),
+  authEnvVar: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Environment variable holding "user:password" credentials for the proxy',
+    ),
+  bypassDomains: z
+    .array(domainPatternSchema)
+    .optional()
+    .describe(
+      'Domains connected to directly instead of through the proxy (e.g., ["*.corp.example.com", "localhost"])',
+    ),
+})
+
+/**
+ * Schema for the network audit log
+ * Each proxy decision is written as one JSON line to `path` and/or passed to `sink`
+ */
+const NetworkAuditLogConfigSchema = z.object({
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('File to append audit events to, one JSON object per line'),
+  sink: z
+    .custom<NetworkAuditSink>(val => typeof val === 'function', {
+      message: 'sink must be a function',
+    })
+    .optional()
+    .describe('Callback invoked with each audit event'),
+})
+
+/**
+ * Schema for how long an ask-callback decision is remembered
+ */
+const askScopeSchema = z.union([
+  z.enum(['once', 'session']),
+  z.object({ minutes: z.number().positive() }),
+])
+
+/**
+ * Schema for ask-callback behavior
+ */
+const AskPolicyConfigSchema = z.object({
+  timeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Stop waiting for the ask callback after this many milliseconds'),
+  timeoutDecision: z
+    .enum(['allow', 'deny'])
+    .optional()
+    .describe(
+      'Decision applied when the ask callback times out (default: deny)',
+    ),
+  defaultScope: askScopeSchema
+    .optional()
+    .describe(
+      'How long decisions are cached when the callback does not say: "once" (default), "session" or {"minutes": N}',
+    ),
+})
+
+/**
+ * Schema for connection limits enforced by the proxies
+ */
+const NetworkLimitsConfigSchema = z.object({
+  maxBytesPerConnection: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Close a connection once it has transferred this many bytes (upload and download combined)',
+    ),
+  maxBytesPerSession: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Close connections and refuse new ones once all connections together have transferred this many bytes',
+    ),
+  uploadBytesPerSecond: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Upload bandwidth shared by all connections, in bytes per second',
+    ),
+  downloadBytesPerSecond: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Download bandwidth shared by all connections, in bytes per second',
+    ),
+  maxConnectionsPerHost: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Refuse connections to a host that already has this many open'),
+  connectTimeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Give up connecting to a destination after this many milliseconds',
+    ),
+  idleTimeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Close a connection after this many milliseconds without data in either direction',
     ),
 })
 
@@ -78,10 +320,66 @@ const MitmProxyConfigSchema = z.object({
 export const NetworkConfigSchema = z.object({
   allowedDomains: z
     .array(domainPatternSchema)
-    .describe('List of allowed domains (e.g., ["github.com", "*.npmjs.org"])'),
+    .describe(
+      'List of allowed domains (e.g., ["github.com:443", "*.npmjs.org", "**.example.com"])',
+    ),
   deniedDomains: z
     .array(domainPatternSchema)
     .describe('List of denied domains'),
+  presets: z
+    .array(z.enum(NETWORK_PRESET_NAMES))
+    .optional()
+    .describe(
+      `Bundled allowlists added to allowedDomains (${NETWORK_PRESET_NAMES.join(', ')})`,
+    ),
+  allowedDomainsFiles: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      'Files of allowed domains added to allowedDomains, one rule per line or in hosts-file format',
+    ),
+  deniedDomainsFiles: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      'Files of denied domains added to deniedDomains, one rule per line or in hosts-file format (e.g., downloaded blocklists)',
+    ),
+  allowedCidrs: z
+    .array(cidrSchema)
+    .optional()
+    .describe(
+      'IP ranges that may be connected to, either as IP literals or as the resolved address of an allowed domain (e.g., ["10.1.0.0/16"]). Also exempts these ranges from blockPrivateDestinations.',
+    ),
+  deniedCidrs: z
+    .array(cidrSchema)
+    .optional()
+    .describe(
+      'IP ranges that may never be connected to, checked against IP literals and the resolved address of every domain (takes precedence over all allow rules)',
+    ),
+  blockPrivateDestinations: z
+    .boolean()
+    .optional()
+    .describe(
+      'Block connections whose resolved address is loopback, private or link-local unless the address is in allowedCidrs or the host is allowed by a localhost or IP allowedDomains rule (default: true)',
+    ),
+  verifyTlsSni: z
+    .boolean()
+    .optional()
+    .describe(
+      'Reject HTTPS CONNECT tunnels whose TLS SNI names a different host than the one that was allowed (default: true)',
+    ),
+  requireTlsOnPort443: z
+    .boolean()
+    .optional()
+    .describe(
+      'Reject CONNECT tunnels to port 443 that do not start with a TLS ClientHello (default: false)',
+    ),
+  verifyHostHeader: z
+    .boolean()
+    .optional()
+    .describe(
+      'Reject plain HTTP proxy requests whose Host header does not match the request URL (default: true)',
+    ),
   allowUnixSockets: z
     .array(z.string())
     .optional()
@@ -98,6 +396,24 @@ export const NetworkConfigSchema = z.object({
     .boolean()
     .optional()
     .describe('Whether to allow binding to local ports (default: false)'),
+  exposePorts: z
+    .array(z.number().int().min(1).max(65535))
+    .optional()
+    .describe(
+      'Ports the sandboxed command may listen on that are reachable from the host on 127.0.0.1 at the same port, e.g. a dev server. The rest of the sandbox stays unreachable.',
+    ),
+  allowHostServices: z
+    .array(hostServiceSchema)
+    .optional()
+    .describe(
+      'Services on the host loopback the sandboxed command may connect to at the same address and port (e.g., "127.0.0.1:5432"). The rest of the host loopback stays unreachable.',
+    ),
+  transparentEgress: z
+    .boolean()
+    .optional()
+    .describe(
+      'Linux only: filter the connections of programs that ignore the proxy environment variables through the SOCKS proxy, and answer their DNS lookups of hosts the rules allow. Requires tun2socks, ip and setpriv, and the built-in SOCKS proxy (default: false)',
+    ),
   httpProxyPort: z
     .number()
     .int()
@@ -117,7 +433,16 @@ export const NetworkConfigSchema = z.object({
       'Port of an external SOCKS proxy to use instead of starting a local one. When provided, the library will skip starting its own SOCKS proxy and use this port. The external proxy must handle domain filtering.',
     ),
   mitmProxy: MitmProxyConfigSchema.optional().describe(
-    'Optional MITM proxy configuration. Routes matching domains through an upstream proxy via Unix socket while SRT still handles allow/deny filtering.',
+    'Optional MITM proxy configuration: one route or an ordered list of routes. Routes matching domains through a MITM proxy via Unix socket or TCP while SRT still handles allow/deny filtering.',
+  ),
+  httpRules: z
+    .array(HttpRuleConfigSchema)
+    .optional()
+    .describe(
+      'Method and path rules for HTTP requests. Deny rules win; if any allow rule covers a host, its requests must match one. HTTPS requests can only be checked when intercepted.',
+    ),
+  tlsInterception: TlsInterceptionConfigSchema.optional().describe(
+    'Optional built-in TLS interception. Decrypts HTTPS traffic to matching domains with a local CA so request headers (e.g., credentials) can be set outside the sandbox.',
   ),
   unrestrictedNetwork: z
     .boolean()
@@ -125,6 +450,18 @@ export const NetworkConfigSchema = z.object({
     .describe(
       'If true, disable all network restrictions. Filesystem sandboxing remains active.',
     ),
+  upstreamProxy: UpstreamProxyConfigSchema.optional().describe(
+    'Optional parent proxy. Allowed connections are forwarded through it after SRT filtering.',
+  ),
+  askPolicy: AskPolicyConfigSchema.optional().describe(
+    'Optional caching and timeout behavior for the ask callback used for unmatched hosts.',
+  ),
+  auditLog: NetworkAuditLogConfigSchema.optional().describe(
+    'Optional structured audit log of every connection the proxies allow or deny.',
+  ),
+  limits: NetworkLimitsConfigSchema.optional().describe(
+    'Optional byte caps, bandwidth limits, connection limits and timeouts for proxied connections.',
+  ),
 })
 
 /**
@@ -248,6 +585,13 @@ export const SandboxRuntimeConfigSchema = z.object({
 
 // Export inferred types
 export type MitmProxyConfig = z.infer<typeof MitmProxyConfigSchema>
+export type MitmRouteConfig = z.infer<typeof MitmRouteConfigSchema>
+export type HttpRuleConfig = z.infer<typeof HttpRuleConfigSchema>
+export type TlsInterceptionConfig = z.infer<typeof TlsInterceptionConfigSchema>
+export type UpstreamProxyConfig = z.infer<typeof UpstreamProxyConfigSchema>
+export type AskPolicyConfig = z.infer<typeof AskPolicyConfigSchema>
+export type NetworkAuditLogConfig = z.infer<typeof NetworkAuditLogConfigSchema>
+export type NetworkLimitsConfig = z.infer<typeof NetworkLimitsConfigSchema>
 export type NetworkConfig = z.infer<typeof NetworkConfigSchema>
 export type FilesystemConfig = z.infer<typeof FilesystemConfigSchema>
 export type IgnoreViolationsConfig = z.infer<
@@ -256,3 +600,14 @@ export type IgnoreViolationsConfig = z.infer<
 export type RipgrepConfig = z.infer<typeof RipgrepConfigSchema>
 export type SeccompConfig = z.infer<typeof SeccompConfigSchema>
 export type SandboxRuntimeConfig = z.infer<typeof SandboxRuntimeConfigSchema>
+
+/**
+ * Settings for one command passed to wrapWithSandbox. Anything left unset,
+ * including each network setting, comes from the runtime config.
+ */
+export type SandboxCommandConfig = Omit<
+  Partial<SandboxRuntimeConfig>,
+  'network'
+> & {
+  network?: Partial<NetworkConfig>
+}
@@ -0,0 +1,125 @@
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto'
+import type { CompiledDomainRules } from './domain-matcher.js'
+import type { HostService } from './host-service.js'
+import type { SandboxInvocation } from './sandbox-schemas.js'
+import type { ProxyCredentials } from './sandbox-utils.js'
+
+/**
+ * Network rules a command was wrapped with. They add to the global denials
+ * and replace the global allow rules for its connections.
+ */
+export interface InvocationNetworkPolicy extends CompiledDomainRules {
+  allowedCidrs: string[]
+  deniedCidrs: string[]
+}
+
+interface RegisteredInvocation {
+  invocation: SandboxInvocation
+  password: Buffer
+  networkPolicy: InvocationNetworkPolicy | undefined
+  hostServices: readonly HostService[] | undefined
+}
+
+/**
+ * Issues proxy credentials to wrapped commands and maps credentials presented
+ * to the proxies back to the command. The invocation id is the proxy user
+ * name; a random secret is the password, so one sandboxed process cannot
+ * claim to be another invocation just by knowing its id.
+ *
+ * An invocation can be given its own domain and IP range rules, which the
+ * proxies apply to connections made with its credentials instead of the
+ * global ones, and its own host services.
+ *
+ * An invocation is kept until it is released when its command exits, however
+ * many commands run meanwhile, so a long-running command keeps its
+ * credentials.
+ */
+export class SandboxInvocationRegistry {
+  private invocations: Map<string, RegisteredInvocation> = new Map()
+  private networkPoliciesIssued = false
+
+  register(
+    command: string,
+    networkPolicy?: InvocationNetworkPolicy,
+    hostServices?: readonly HostService[],
+  ): {
+    invocation: SandboxInvocation
+    credentials: ProxyCredentials
+  } {
+    const invocation: SandboxInvocation = { id: randomUUID(), command }
+    const password = randomBytes(16).toString('hex')
+
+    this.invocations.set(invocation.id, {
+      invocation,
+      password: Buffer.from(password),
+      networkPolicy,
+      hostServices,
+    })
+    if (networkPolicy) {
+      this.networkPoliciesIssued = true
+    }
+
+    return { invocation, credentials: { username: invocation.id, password } }
+  }
+
+  /**
+   * Forget an invocation whose command exited. Its credentials are no longer
+   * accepted. Returns whether it was registered.
+   */
+  release(invocationId: string): boolean {
+    return this.invocations.delete(invocationId)
+  }
+
+  /**
+   * Look up the invocation that was issued these credentials
+   */
+  lookup(credentials: ProxyCredentials): SandboxInvocation | undefined {
+    const registered = this.invocations.get(credentials.username)
+    if (!registered) {
+      return undefined
+    }
+    const presented = Buffer.from(credentials.password)
+    if (
+      presented.length !== registered.password.length ||
+      !timingSafeEqual(presented, registered.password)
+    ) {
+      return undefined
+    }
+    return registered.invocation
+  }
+
+  /**
+   * Network rules the invocation was registered with, or undefined if it
+   * uses the global ones
+   */
+  getNetworkPolicy(
+    invocation: SandboxInvocation,
+  ): InvocationNetworkPolicy | undefined {
+    return this.invocations.get(invocation.id)?.networkPolicy
+  }
+
+  /**
+   * Host services the invocation was registered with, or undefined if it
+   * uses the global ones
+   */
+  getHostServices(
+    invocation: SandboxInvocation,
+  ): readonly HostService[] | undefined {
+    return this.invocations.get(invocation.id)?.hostServices
+  }
+
+  /**
+   * Whether any invocation has been given its own network rules since the
+   * registry was last cleared. Connections without credentials can't be
+   * told apart from those of such an invocation, or of a process it left
+   * running after it was released, so they must not get the global rules.
+   */
+  hasNetworkPolicies(): boolean {
+    return this.networkPoliciesIssued
+  }
+
+  clear(): void {
+    this.invocations.clear()
+    this.networkPoliciesIssued = false
+  }
+}
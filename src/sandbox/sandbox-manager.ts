@@ -1,23 +1,41 @@
-import { createHttpProxyServer } from './http-proxy.js'
+import {
+  createHttpProxyServer,
+  type DomainFrontingPolicy,
+  type TlsInterception,
+} from './http-proxy.js'
 import { createSocksProxyServer } from './socks-proxy.js'
 import type { SocksProxyWrapper } from './socks-proxy.js'
 import { logForDebugging } from '../utils/debug.js'
 import { cloneDeep } from 'lodash-es'
 import { getPlatform, getWslVersion } from '../utils/platform.js'
-import * as fs from 'fs'
 import { spawnSync } from 'child_process'
-import type { SandboxRuntimeConfig } from './sandbox-config.js'
+import type {
+  NetworkConfig,
+  SandboxCommandConfig,
+  SandboxRuntimeConfig,
+} from './sandbox-config.js'
 import type {
   SandboxAskCallback,
   FsReadRestrictionConfig,
   FsWriteRestrictionConfig,
   NetworkRestrictionConfig,
+  NetworkAuditEvent,
+  NetworkFilterDecision,
+  NetworkRequestContext,
+  MitmRoute,
+  ActiveConnection,
+  SandboxInvocation,
 } from './sandbox-schemas.js'
+import { isReadAllowOnlyConfig } from './sandbox-schemas.js'
 import {
   wrapCommandWithSandboxLinux,
   initializeLinuxNetworkBridge,
+  closeLinuxNetworkBridge,
+  openSandboxBridge,
+  closeSandboxBridge,
   type LinuxNetworkBridgeContext,
   checkLinuxDependencies,
+  TRANSPARENT_DNS_ADDRESS,
   type SandboxDependencyCheck,
 } from './linux-sandbox-utils.js'
 import {
@@ -30,9 +48,43 @@ import {
   containsGlobChars,
   removeTrailingGlobSuffix,
   expandGlobPattern,
+  type ProxyCredentials,
 } from './sandbox-utils.js'
+import { matchesDomainPattern } from './domain-pattern.js'
+import {
+  isAddressInCidrs,
+  isIpAddress,
+  isPrivateOrLinkLocalAddress,
+} from './ip-address.js'
+import { normalizeHostname } from './hostname.js'
+import { DomainMatcher, type CompiledDomainRules } from './domain-matcher.js'
+import { getPresetDomains } from './network-presets.js'
+import { loadDomainListFiles } from './domain-list-file.js'
 import { SandboxViolationStore } from './sandbox-violation-store.js'
+import { NetworkAuditLog } from './network-audit-log.js'
+import { AskDecisionCache } from './ask-decision-cache.js'
+import {
+  SandboxInvocationRegistry,
+  type InvocationNetworkPolicy,
+} from './sandbox-invocation-registry.js'
+import type { UpstreamProxy } from './upstream-proxy.js'
+import { TlsInterceptor } from './tls-interceptor.js'
+import { BridgeSupervisor } from './bridge-supervisor.js'
+import {
+  formatHostService,
+  parseHostServices,
+  type HostService,
+} from './host-service.js'
+import { TransparentDnsResolver } from './transparent-dns.js'
+import { evaluateHttpRules, hasHttpRules } from './http-rule.js'
+import {
+  ConnectionLimiter,
+  type ConnectionTarget,
+} from './connection-limiter.js'
+import type { OutgoingHttpHeaders } from 'node:http'
 import { EOL } from 'node:os'
+import { lookup } from 'node:dns/promises'
+import { createServer as createNetServer, type Server } from 'node:net'
 
 interface HostNetworkManagerContext {
   httpProxyPort: number
@@ -51,12 +103,165 @@ let managerContext: HostNetworkManagerContext | undefined
 let initializationPromise: Promise<HostNetworkManagerContext> | undefined
 let cleanupRegistered = false
 let logMonitorShutdown: (() => void) | undefined
+let tlsInterceptor: TlsInterceptor | undefined
+let domainMatchers: CompiledDomainRules | undefined
+let networkCut = false
 const sandboxViolationStore = new SandboxViolationStore()
+const networkAuditLog = new NetworkAuditLog()
+const askDecisionCache = new AskDecisionCache()
+const sandboxInvocations = new SandboxInvocationRegistry()
+// Invocation of each command returned by wrapWithSandbox until it is released
+const wrappedCommands = new Map<string, string>()
+// SOCKS listeners of macOS commands, by invocation id
+const invocationSocksListeners = new Map<string, Server>()
+const bridgeSupervisor = new BridgeSupervisor()
+const connectionLimiter = new ConnectionLimiter(() => config?.network.limits)
+const transparentDns = new TransparentDnsResolver(isHostResolvable)
 
 // ============================================================================
 // Private Helper Functions (not exported)
 // ============================================================================
 
+/**
+ * Release what was held for a command that exited: its proxy credentials,
+ * the addresses its DNS server gave out, and its Linux bridge directory with
+ * the bridges serving it
+ */
+async function releaseInvocation(invocationId: string): Promise<void> {
+  sandboxInvocations.release(invocationId)
+  transparentDns.release(invocationId)
+  for (const [wrapped, id] of wrappedCommands) {
+    if (id === invocationId) {
+      wrappedCommands.delete(wrapped)
+    }
+  }
+  invocationSocksListeners.get(invocationId)?.close()
+  invocationSocksListeners.delete(invocationId)
+  const linuxBridge = managerContext?.linuxBridge
+  const sandbox = linuxBridge?.sandboxes.get(invocationId)
+  if (!linuxBridge || !sandbox) {
+    return
+  }
+  bridgeSupervisor.remove(sandbox.bridges)
+  await closeSandboxBridge(linuxBridge, invocationId)
+}
+
+/**
+ * Listen on a loopback port whose SOCKS clients are identified by the
+ * invocation's credentials, for tools in its macOS sandbox that can't send
+ * them, such as the `nc` in GIT_SSH_COMMAND. Only its sandbox profile
+ * allows connecting to the port.
+ */
+async function openInvocationSocksListener(
+  socksServer: SocksProxyWrapper,
+  invocation: SandboxInvocation,
+  credentials: ProxyCredentials,
+): Promise<number> {
+  const listener = createNetServer(socket =>
+    socksServer.handleConnection(socket, credentials),
+  )
+  invocationSocksListeners.set(invocation.id, listener)
+  await new Promise<void>((resolve, reject) => {
+    listener.once('error', reject)
+    listener.listen(0, '127.0.0.1', () => {
+      listener.removeListener('error', reject)
+      resolve()
+    })
+  })
+  listener.unref()
+  const address = listener.address()
+  if (!address || typeof address !== 'object') {
+    throw new Error('Failed to get invocation SOCKS listener port')
+  }
+  return address.port
+}
+
+/** The parts of a network config that make up its domain rules */
+type DomainRuleConfig = Partial<
+  Pick<
+    NetworkConfig,
+    | 'allowedDomains'
+    | 'deniedDomains'
+    | 'presets'
+    | 'allowedDomainsFiles'
+    | 'deniedDomainsFiles'
+  >
+>
+
+/**
+ * Compile the domain rules in effect for a network config: its own rules
+ * followed by those of its presets and domain list files. Throws if a list
+ * file can't be read or contains an invalid rule.
+ */
+function compileDomainRules(network: DomainRuleConfig): CompiledDomainRules {
+  return {
+    allowed: new DomainMatcher([
+      ...new Set([
+        ...(network.allowedDomains ?? []),
+        ...getPresetDomains(network.presets ?? []),
+        ...loadDomainListFiles(network.allowedDomainsFiles ?? []),
+      ]),
+    ]),
+    denied: new DomainMatcher([
+      ...new Set([
+        ...(network.deniedDomains ?? []),
+        ...loadDomainListFiles(network.deniedDomainsFiles ?? []),
+      ]),
+    ]),
+  }
+}
+
+const ALLOW_RULE_KEYS = [
+  'allowedDomains',
+  'presets',
+  'allowedDomainsFiles',
+  'allowedCidrs',
+] as const
+const DENY_RULE_KEYS = [
+  'deniedDomains',
+  'deniedDomainsFiles',
+  'deniedCidrs',
+] as const
+
+/**
+ * Compile the network policy of a command wrapped with its own domain or IP
+ * range rules. A command that only denies keeps the global allow rules.
+ * Returns undefined if the command sets no such rules, e.g. only exposed
+ * ports, so that it is filtered like any other command.
+ */
+function compileInvocationPolicy(
+  network: Partial<NetworkConfig> | undefined,
+): InvocationNetworkPolicy | undefined {
+  const sets = (keys: ReadonlyArray<keyof NetworkConfig>) =>
+    keys.some(key => network?.[key] !== undefined)
+  if (!network || (!sets(ALLOW_RULE_KEYS) && !sets(DENY_RULE_KEYS))) {
+    return undefined
+  }
+  const allow = sets(ALLOW_RULE_KEYS) ? network : config?.network
+  return {
+    ...compileDomainRules({
+      allowedDomains: allow?.allowedDomains,
+      presets: allow?.presets,
+      allowedDomainsFiles: allow?.allowedDomainsFiles,
+      deniedDomains: network.deniedDomains,
+      deniedDomainsFiles: network.deniedDomainsFiles,
+    }),
+    allowedCidrs: allow?.allowedCidrs ?? [],
+    deniedCidrs: network.deniedCidrs ?? [],
+  }
+}
+
+/**
+ * Set the config and compile its domain rules, so that filtering a request
+ * doesn't scan every rule. The current config is kept if the domain rules
+ * can't be loaded.
+ */
+function setConfig(newConfig: SandboxRuntimeConfig): void {
+  const compiled = compileDomainRules(newConfig.network)
+  config = newConfig
+  domainMatchers = compiled
+}
+
 function registerCleanup(): void {
   if (cleanupRegistered) {
     return
@@ -73,102 +278,519 @@ function registerCleanup(): void {
   cleanupRegistered = true
 }
 
-function matchesDomainPattern(hostname: string, pattern: string): boolean {
-  // Bare "*" matches everything (allow all)
-  if (pattern === '*') {
-    return true
+async function filterNetworkRequest(
+  port: number,
+  requestedHost: string,
+  context: NetworkRequestContext,
+  sandboxAskCallback?: SandboxAskCallback,
+): Promise<NetworkFilterDecision> {
+  if (!config) {
+    logForDebugging('No config available, denying network request')
+    return { allowed: false, rule: 'no-config' }
+  }
+
+  if (networkCut) {
+    logForDebugging(`Denied while network is cut: ${requestedHost}:${port}`)
+    return { allowed: false, rule: 'kill-switch' }
+  }
+
+  // Rules are matched against the canonical host, so alternate spellings
+  // can't get around them. Hosts without an unambiguous one are refused.
+  const host = normalizeHostname(requestedHost)
+  if (host === undefined) {
+    logForDebugging(`Denied ambiguous hostname: ${requestedHost}:${port}`)
+    return { allowed: false, rule: 'invalid-hostname' }
+  }
+
+  const decision = evaluateNetworkRules(host, port, context.invocation)
+  if (decision) {
+    return decision
   }
 
-  // Support wildcard patterns like *.example.com
-  // This matches any subdomain but not the base domain itself
-  if (pattern.startsWith('*.')) {
-    const baseDomain = pattern.substring(2) // Remove '*.'
-    return hostname.toLowerCase().endsWith('.' + baseDomain.toLowerCase())
+  // No matching rules - ask user or deny
+  if (!sandboxAskCallback) {
+    logForDebugging(`No matching config rule, denying: ${host}:${port}`)
+    return { allowed: false, rule: 'no-matching-rule' }
   }
 
-  // Exact match for non-wildcard patterns
-  return hostname.toLowerCase() === pattern.toLowerCase()
+  logForDebugging(`No matching config rule, asking user: ${host}:${port}`)
+  const askPolicy = config.network.askPolicy
+  const { allowed, source } = await askDecisionCache.decide(
+    { ...context, host, port },
+    sandboxAskCallback,
+    {
+      timeoutMs: askPolicy?.timeoutMs,
+      timeoutDecision: askPolicy?.timeoutDecision === 'allow',
+      defaultScope: askPolicy?.defaultScope ?? 'once',
+      // Answers for a command with its own policy don't apply to others
+      invocationId:
+        context.invocation &&
+        sandboxInvocations.getNetworkPolicy(context.invocation)
+          ? context.invocation.id
+          : undefined,
+    },
+  )
+  if (allowed) {
+    logForDebugging(`User allowed (${source}): ${host}:${port}`)
+  } else {
+    logForDebugging(`User denied (${source}): ${host}:${port}`)
+  }
+  return { allowed, rule: `ask-${source}` }
 }
 
-async function filterNetworkRequest(
-  port: number,
+/**
+ * Check a canonical host against the configured allow and deny rules and
+ * the invocation's own policy. Returns undefined when no rule matches.
+ */
+function evaluateNetworkRules(
   host: string,
-  sandboxAskCallback?: SandboxAskCallback,
-): Promise<boolean> {
-  if (!config) {
-    logForDebugging('No config available, denying network request')
-    return false
+  port: number,
+  invocation: SandboxInvocation | undefined,
+): NetworkFilterDecision | undefined {
+  if (!config || !domainMatchers) {
+    return { allowed: false, rule: 'no-config' }
+  }
+
+  // Commands wrapped with their own network policy are filtered by it. Once
+  // there are any, connections without credentials are refused, since they
+  // could come from such a command trying to escape its policy.
+  const invocationPolicy =
+    invocation && sandboxInvocations.getNetworkPolicy(invocation)
+  if (!invocation && sandboxInvocations.hasNetworkPolicies()) {
+    logForDebugging(`Denied request without credentials: ${host}:${port}`)
+    return { allowed: false, rule: 'invocation-credentials-required' }
+  }
+
+  const hostIsIpAddress = isIpAddress(host)
+
+  // Check denied IP ranges first for IP literal destinations
+  const deniedCidr = hostIsIpAddress
+    ? [
+        ...(config.network.deniedCidrs ?? []),
+        ...(invocationPolicy?.deniedCidrs ?? []),
+      ].find(cidr => isAddressInCidrs(host, [cidr]))
+    : undefined
+  if (deniedCidr) {
+    logForDebugging(`Denied by CIDR rule: ${host}:${port}`)
+    return { allowed: false, rule: `deniedCidrs:${deniedCidr}` }
   }
 
   // Check denied domains first
-  for (const deniedDomain of config.network.deniedDomains) {
-    if (matchesDomainPattern(host, deniedDomain)) {
-      logForDebugging(`Denied by config rule: ${host}:${port}`)
-      return false
-    }
+  const deniedDomain = domainMatchers.denied.match(host, port)
+  if (deniedDomain !== undefined) {
+    logForDebugging(`Denied by config rule: ${host}:${port}`)
+    return { allowed: false, rule: `deniedDomains:${deniedDomain}` }
+  }
+
+  // An invocation's own policy adds to the denied domains and replaces the
+  // allowed domains and IP ranges
+  const invocationDeniedDomain = invocationPolicy?.denied.match(host, port)
+  if (invocationDeniedDomain !== undefined) {
+    logForDebugging(`Denied by invocation rule: ${host}:${port}`)
+    return { allowed: false, rule: `deniedDomains:${invocationDeniedDomain}` }
+  }
+
+  // Check allowed IP ranges for IP literal destinations
+  const allowedCidr = hostIsIpAddress
+    ? (invocationPolicy?.allowedCidrs ?? config.network.allowedCidrs)?.find(
+        cidr => isAddressInCidrs(host, [cidr]),
+      )
+    : undefined
+  if (allowedCidr) {
+    logForDebugging(`Allowed by CIDR rule: ${host}:${port}`)
+    return { allowed: true, rule: `allowedCidrs:${allowedCidr}` }
   }
 
   // Check allowed domains
-  for (const allowedDomain of config.network.allowedDomains) {
-    if (matchesDomainPattern(host, allowedDomain)) {
-      logForDebugging(`Allowed by config rule: ${host}:${port}`)
-      return true
-    }
+  const allowedDomain = (invocationPolicy ?? domainMatchers).allowed.match(
+    host,
+    port,
+  )
+  if (allowedDomain !== undefined) {
+    logForDebugging(`Allowed by config rule: ${host}:${port}`)
+    return { allowed: true, rule: `allowedDomains:${allowedDomain}` }
   }
 
-  // No matching rules - ask user or deny
-  if (!sandboxAskCallback) {
-    logForDebugging(`No matching config rule, denying: ${host}:${port}`)
+  return undefined
+}
+
+/**
+ * Whether a transparent egress sandbox may look a host up: a rule allows it
+ * on some port and none denies it on every port. The port is only known
+ * when the program connects, and the connection is filtered then. Hosts no
+ * rule allows aren't resolved, so lookups can't carry data out.
+ */
+function isHostResolvable(
+  host: string,
+  invocation: SandboxInvocation | undefined,
+): boolean {
+  if (!config || !domainMatchers || networkCut) {
+    return false
+  }
+  if (!invocation && sandboxInvocations.hasNetworkPolicies()) {
+    return false
+  }
+  const invocationPolicy =
+    invocation && sandboxInvocations.getNetworkPolicy(invocation)
+  if (
+    domainMatchers.denied.matchEveryPort(host) !== undefined ||
+    invocationPolicy?.denied.matchEveryPort(host) !== undefined
+  ) {
     return false
   }
+  return (
+    (invocationPolicy ?? domainMatchers).allowed.matchAnyPort(host) !==
+    undefined
+  )
+}
 
-  logForDebugging(`No matching config rule, asking user: ${host}:${port}`)
-  try {
-    const userAllowed = await sandboxAskCallback({ host, port })
-    if (userAllowed) {
-      logForDebugging(`User allowed: ${host}:${port}`)
-      return true
-    } else {
-      logForDebugging(`User denied: ${host}:${port}`)
-      return false
-    }
-  } catch (error) {
-    logForDebugging(`Error in permission callback: ${error}`, {
-      level: 'error',
-    })
+/**
+ * Check a connection from a Linux sandbox to a host service: allowed while
+ * the command's own allowHostServices, or else the global ones, list it and
+ * the network isn't cut
+ */
+function filterHostServiceConnection(
+  service: HostService,
+  invocation: SandboxInvocation,
+): NetworkFilterDecision {
+  if (networkCut) {
+    return { allowed: false, rule: 'kill-switch' }
+  }
+  const spec = formatHostService(service)
+  const allowed =
+    sandboxInvocations.getHostServices(invocation) ??
+    parseHostServices(config?.network.allowHostServices)
+  return allowed.some(candidate => formatHostService(candidate) === spec)
+    ? { allowed: true, rule: `allowHostServices:${spec}` }
+    : { allowed: false, rule: 'no-matching-rule' }
+}
+
+/**
+ * Rule to revoke an open connection by, if the current rules no longer allow
+ * it: a rule now denies it, or no rule allows it any more. Connections the
+ * user allowed are only revoked when a rule denies them.
+ */
+function getRevocationRule(target: ConnectionTarget): string | undefined {
+  if (networkCut) {
+    return 'revoked:kill-switch'
+  }
+  if (target.protocol === 'HOST_SERVICE') {
+    const decision = target.invocation
+      ? filterHostServiceConnection(target, target.invocation)
+      : undefined
+    return decision?.allowed ? undefined : 'revoked:no-matching-rule'
+  }
+  const host = normalizeHostname(target.host)
+  if (host === undefined) {
+    return 'revoked:invalid-hostname'
+  }
+  const decision = evaluateNetworkRules(host, target.port, target.invocation)
+  if (decision) {
+    return decision.allowed ? undefined : `revoked:${decision.rule}`
+  }
+  return target.rule.startsWith('ask-') ? undefined : 'revoked:no-matching-rule'
+}
+
+/**
+ * Close the open connections, including the proxies' UDP destinations, that
+ * the current rules or the kill switch no longer allow
+ */
+function revokeConnections(): void {
+  const revoked = connectionLimiter.revoke(getRevocationRule)
+  if (revoked > 0) {
+    logForDebugging(`Revoked ${revoked} open network connection(s)`)
+  }
+}
+
+/**
+ * Check whether a resolved address may be connected to for a host that
+ * already passed filterNetworkRequest, by the rules of the invocation that
+ * asked for it
+ */
+function isResolvedAddressAllowed(
+  host: string,
+  port: number,
+  address: string,
+  invocation: SandboxInvocation | undefined,
+): boolean {
+  if (!config || !domainMatchers) {
     return false
   }
+
+  const invocationPolicy =
+    invocation && sandboxInvocations.getNetworkPolicy(invocation)
+  const { blockPrivateDestinations = true } = config.network
+  const allowedCidrs =
+    invocationPolicy?.allowedCidrs ?? config.network.allowedCidrs ?? []
+  const deniedCidrs = [
+    ...(config.network.deniedCidrs ?? []),
+    ...(invocationPolicy?.deniedCidrs ?? []),
+  ]
+
+  if (isAddressInCidrs(address, deniedCidrs)) {
+    logForDebugging(`Resolved address ${address} for ${host} denied by CIDR`)
+    return false
+  }
+
+  if (!blockPrivateDestinations || !isPrivateOrLinkLocalAddress(address)) {
+    return true
+  }
+
+  if (isAddressInCidrs(address, allowedCidrs)) {
+    return true
+  }
+
+  // Only "localhost" and IP allow rules (e.g. "10.0.0.5" or "fd00::/8") opt
+  // in to host-local addresses. A domain rule never does, even an exact one,
+  // since whoever controls its DNS could point it at 127.0.0.1 or the cloud
+  // metadata address.
+  const addressAllowed =
+    (invocationPolicy ?? domainMatchers).allowed.matchAddressRule(
+      host,
+      port,
+    ) !== undefined
+  if (!addressAllowed) {
+    logForDebugging(
+      `Resolved address ${address} for ${host} is private or link-local, blocking`,
+    )
+  }
+  return addressAllowed
 }
 
 /**
- * Get the MITM proxy socket path for a given host, if configured.
- * Returns the socket path if the host matches any MITM domain pattern,
- * otherwise returns undefined.
+ * Resolve a host that passed filterNetworkRequest to the address the proxy
+ * should connect to. The host is resolved once and each candidate address is
+ * checked against the CIDR rules; the proxy then connects to the returned
+ * address so a second lookup can't yield a different answer.
+ * Returns undefined if no resolved address is permitted, and rejects if the
+ * host cannot be resolved.
  */
-function getMitmSocketPath(host: string): string | undefined {
-  if (!config?.network.mitmProxy) {
+async function resolveNetworkDestination(
+  host: string,
+  port: number,
+  invocation: SandboxInvocation | undefined,
+): Promise<string | undefined> {
+  const results = await lookup(host, { all: true, verbatim: true })
+  const permitted = results.find(result =>
+    isResolvedAddressAllowed(host, port, result.address, invocation),
+  )
+  if (!permitted) {
+    logForDebugging(`No permitted address for ${host}:${port}`, {
+      level: 'error',
+    })
     return undefined
   }
+  return permitted.address
+}
 
-  const { socketPath, domains } = config.network.mitmProxy
+/**
+ * Get the MITM proxy route for a given host and port, if configured.
+ * Routes are checked in order and the first one with a domain pattern
+ * matching the host is returned; otherwise returns undefined.
+ */
+function getMitmRoute(
+  requestedHost: string,
+  port: number,
+): MitmRoute | undefined {
+  const mitmProxy = config?.network.mitmProxy
+  const host = normalizeHostname(requestedHost)
+  if (!mitmProxy || host === undefined) {
+    return undefined
+  }
 
-  for (const pattern of domains) {
-    if (matchesDomainPattern(host, pattern)) {
+  const routes = Array.isArray(mitmProxy) ? mitmProxy : [mitmProxy]
+  for (const route of routes) {
+    const pattern = route.domains.find(domain =>
+      matchesDomainPattern(host, port, domain),
+    )
+    if (pattern !== undefined) {
       logForDebugging(`Host ${host} matches MITM pattern ${pattern}`)
-      return socketPath
+      return {
+        socketPath: route.socketPath,
+        host: route.host,
+        port: route.port,
+        proxyAuthorization: route.proxyAuthorization,
+        onFailure: route.onFailure ?? 'fail-closed',
+      }
     }
   }
 
   return undefined
 }
 
+function filterHttpRequest(
+  host: string,
+  port: number,
+  method: string,
+  path: string,
+): NetworkFilterDecision | undefined {
+  return evaluateHttpRules(
+    config?.network.httpRules ?? [],
+    host,
+    port,
+    method,
+    path,
+  )
+}
+
+function hasNetworkHttpRules(host: string, port: number): boolean {
+  return hasHttpRules(config?.network.httpRules ?? [], host, port)
+}
+
+/**
+ * The local CA for built-in TLS interception. Created on first use while
+ * interception is configured and the HTTP proxy is ours.
+ */
+function getTlsInterceptor(): TlsInterceptor | undefined {
+  if (!config?.network.tlsInterception || !httpProxyServer) {
+    return undefined
+  }
+  tlsInterceptor ??= new TlsInterceptor()
+  return tlsInterceptor
+}
+
+/**
+ * Replace ${VAR} references with host environment variables. Returns
+ * undefined if any referenced variable is unset.
+ */
+function expandEnvReferences(value: string): string | undefined {
+  let missing: string | undefined
+  const expanded = value.replace(
+    /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g,
+    (_match, name: string) => {
+      const envValue = process.env[name]
+      if (envValue === undefined) {
+        missing ??= name
+        return ''
+      }
+      return envValue
+    },
+  )
+  if (missing !== undefined) {
+    logForDebugging(
+      `Environment variable ${missing} is not set; header not injected`,
+      { level: 'warn' },
+    )
+    return undefined
+  }
+  return expanded
+}
+
+/**
+ * Get the TLS interception for a given host and port, if the host matches a
+ * tlsInterception domain: its certificate and the headers to inject.
+ */
+function getTlsInterception(
+  host: string,
+  port: number,
+): TlsInterception | undefined {
+  const interception = config?.network.tlsInterception
+  if (
+    !interception?.domains.some(pattern =>
+      matchesDomainPattern(host, port, pattern),
+    )
+  ) {
+    return undefined
+  }
+  const interceptor = getTlsInterceptor()
+  if (!interceptor) {
+    return undefined
+  }
+
+  const headers: OutgoingHttpHeaders = {}
+  for (const header of interception.headers ?? []) {
+    if (
+      header.domains &&
+      !header.domains.some(pattern => matchesDomainPattern(host, port, pattern))
+    ) {
+      continue
+    }
+    const value = expandEnvReferences(header.value)
+    if (value !== undefined) {
+      headers[header.name.toLowerCase()] = value
+    }
+  }
+
+  return { secureContext: interceptor.getSecureContext(host), headers }
+}
+
+function getDomainFrontingPolicy(): DomainFrontingPolicy {
+  return {
+    verifyTlsSni: config?.network.verifyTlsSni ?? true,
+    requireTlsOnPort443: config?.network.requireTlsOnPort443 ?? false,
+    verifyHostHeader: config?.network.verifyHostHeader ?? true,
+  }
+}
+
+function recordNetworkAuditEvent(event: NetworkAuditEvent): void {
+  networkAuditLog.record(event, config?.network.auditLog)
+  // Denials are also violations, so they explain failures of the command
+  if (event.decision === 'deny') {
+    sandboxViolationStore.addNetworkViolation(event)
+  }
+}
+
+/**
+ * Parent proxy to forward a permitted connection through, unless the host is
+ * on the bypass list
+ */
+function getUpstreamProxy(
+  host: string,
+  port: number,
+): UpstreamProxy | undefined {
+  const upstream = config?.network.upstreamProxy
+  if (!upstream) {
+    return undefined
+  }
+  if (
+    upstream.bypassDomains?.some(pattern =>
+      matchesDomainPattern(host, port, pattern),
+    )
+  ) {
+    return undefined
+  }
+
+  let auth: ProxyCredentials | undefined
+  if (upstream.authEnvVar) {
+    const value = process.env[upstream.authEnvVar]
+    const separator = value?.indexOf(':') ?? -1
+    if (value && separator !== -1) {
+      auth = {
+        username: value.slice(0, separator),
+        password: value.slice(separator + 1),
+      }
+    } else {
+      logForDebugging(
+        `Upstream proxy credentials not found in ${upstream.authEnvVar} (expected "user:password")`,
+        { level: 'warn' },
+      )
+    }
+  }
+
+  return {
+    protocol: upstream.protocol,
+    host: upstream.host,
+    port: upstream.port,
+    auth,
+  }
+}
+
 async function startHttpProxyServer(
   sandboxAskCallback?: SandboxAskCallback,
 ): Promise<number> {
   httpProxyServer = createHttpProxyServer({
-    filter: (port: number, host: string) =>
-      filterNetworkRequest(port, host, sandboxAskCallback),
-    getMitmSocketPath,
+    filter: (port, host, _socket, context) =>
+      filterNetworkRequest(port, host, context, sandboxAskCallback),
+    getMitmRoute,
+    getTlsInterception,
+    filterHttpRequest,
+    hasHttpRules: hasNetworkHttpRules,
+    getInvocation: credentials => sandboxInvocations.lookup(credentials),
+    resolveDestination: resolveNetworkDestination,
+    getUpstreamProxy,
+    getDomainFrontingPolicy,
+    limiter: connectionLimiter,
+    onAuditEvent: recordNetworkAuditEvent,
   })
 
   return new Promise<number>((resolve, reject) => {
@@ -199,8 +821,21 @@ async function startSocksProxyServer(
   sandboxAskCallback?: SandboxAskCallback,
 ): Promise<number> {
   socksProxyServer = createSocksProxyServer({
-    filter: (port: number, host: string) =>
-      filterNetworkRequest(port, host, sandboxAskCallback),
+    filter: (port, host, context) =>
+      filterNetworkRequest(port, host, context, sandboxAskCallback),
+    getInvocation: credentials => sandboxInvocations.lookup(credentials),
+    resolveDestination: resolveNetworkDestination,
+    getUpstreamProxy,
+    limiter: connectionLimiter,
+    onAuditEvent: recordNetworkAuditEvent,
+    // Transparent egress sandboxes look hosts up through the UDP relay and
+    // connect to the addresses they got
+    getHostForAddress: (address, invocation) =>
+      transparentDns.getHost(address, invocation),
+    dnsServer: {
+      address: TRANSPARENT_DNS_ADDRESS,
+      answer: (query, invocation) => transparentDns.answer(query, invocation),
+    },
   })
 
   return new Promise<number>((resolve, reject) => {
@@ -236,7 +871,7 @@ async function initialize(
   }
 
   // Store config for use by other functions
-  config = runtimeConfig
+  setConfig(runtimeConfig)
 
   // Check dependencies
   const deps = checkDependencies()
@@ -250,7 +885,7 @@ async function initialize(
   if (enableLogMonitor && getPlatform() === 'macos') {
     logMonitorShutdown = startMacOSSandboxLogMonitor(
       sandboxViolationStore.addViolation.bind(sandboxViolationStore),
-      config.ignoreViolations,
+      runtimeConfig.ignoreViolations,
     )
     logForDebugging('Started macOS sandbox log monitor')
   }
@@ -262,7 +897,7 @@ async function initialize(
   initializationPromise = (async () => {
     try {
       // Skip proxy setup if network is unrestricted
-      if (config.network.unrestrictedNetwork) {
+      if (runtimeConfig.network.unrestrictedNetwork) {
         logForDebugging('Network is unrestricted - skipping proxy setup', {
           level: 'warn',
         })
@@ -277,9 +912,9 @@ async function initialize(
 
       // Conditionally start proxy servers based on config
       let httpProxyPort: number
-      if (config.network.httpProxyPort !== undefined) {
+      if (runtimeConfig.network.httpProxyPort !== undefined) {
         // Use external HTTP proxy (don't start a server)
-        httpProxyPort = config.network.httpProxyPort
+        httpProxyPort = runtimeConfig.network.httpProxyPort
         logForDebugging(`Using external HTTP proxy on port ${httpProxyPort}`)
       } else {
         // Start local HTTP proxy
@@ -287,9 +922,9 @@ async function initialize(
       }
 
       let socksProxyPort: number
-      if (config.network.socksProxyPort !== undefined) {
+      if (runtimeConfig.network.socksProxyPort !== undefined) {
         // Use external SOCKS proxy (don't start a server)
-        socksProxyPort = config.network.socksProxyPort
+        socksProxyPort = runtimeConfig.network.socksProxyPort
         logForDebugging(`Using external SOCKS proxy on port ${socksProxyPort}`)
       } else {
         // Start local SOCKS proxy
@@ -299,10 +934,21 @@ async function initialize(
       // Initialize platform-specific infrastructure
       let linuxBridge: LinuxNetworkBridgeContext | undefined
       if (getPlatform() === 'linux') {
+        // Proxies started here take bridged connections directly
+        const httpServer = httpProxyServer
         linuxBridge = await initializeLinuxNetworkBridge(
-          httpProxyPort,
-          socksProxyPort,
+          {
+            port: httpProxyPort,
+            accept:
+              httpServer && (socket => httpServer.emit('connection', socket)),
+          },
+          { port: socksProxyPort, accept: socksProxyServer?.handleConnection },
+          socksProxyServer?.getUdpPort(),
         )
+        bridgeSupervisor.watch([
+          linuxBridge.httpBridge,
+          linuxBridge.socksBridge,
+        ])
       }
 
       const context: HostNetworkManagerContext = {
@@ -371,7 +1017,10 @@ function checkDependencies(ripgrepConfig?: {
 
   const platform = getPlatform()
   if (platform === 'linux') {
-    const linuxDeps = checkLinuxDependencies(config?.seccomp)
+    const linuxDeps = checkLinuxDependencies(
+      config?.seccomp,
+      config?.network?.transparentEgress,
+    )
     errors.push(...linuxDeps.errors)
     warnings.push(...linuxDeps.warnings)
   }
@@ -471,12 +1120,13 @@ function getFsWriteConfig(): FsWriteRestrictionConfig {
 }
 
 function getNetworkRestrictionConfig(): NetworkRestrictionConfig {
-  if (!config) {
+  if (!domainMatchers) {
     return {}
   }
 
-  const allowedHosts = config.network.allowedDomains
-  const deniedHosts = config.network.deniedDomains
+  // Includes the rules of presets and domain list files
+  const allowedHosts = [...domainMatchers.allowed.patterns]
+  const deniedHosts = [...domainMatchers.denied.patterns]
 
   return {
     ...(allowedHosts.length > 0 && { allowedHosts }),
@@ -560,7 +1210,7 @@ async function waitForNetworkInitialization(): Promise<boolean> {
 async function wrapWithSandbox(
   command: string,
   binShell?: string,
-  customConfig?: Partial<SandboxRuntimeConfig>,
+  customConfig?: SandboxCommandConfig,
   abortSignal?: AbortSignal,
 ): Promise<string> {
   const platform = getPlatform()
@@ -641,59 +1291,220 @@ async function wrapWithSandbox(
   // Wait for network initialization only if proxy is actually needed
   if (needsNetworkProxy) {
     await waitForNetworkInitialization()
+    // Restart bridges that died since the last check rather than failing
+    if (managerContext?.linuxBridge) {
+      await bridgeSupervisor.check()
+    }
   }
 
+  // Intercepted HTTPS traffic is signed by the local CA, which the
+  // sandboxed command is told to trust
+  const tlsInterceptionCa = needsNetworkProxy
+    ? getTlsInterceptor()?.caFiles
+    : undefined
+  if (tlsInterceptionCa && isReadAllowOnlyConfig(readConfig)) {
+    readConfig.allowOnly.push(
+      tlsInterceptionCa.certPath,
+      tlsInterceptionCa.bundlePath,
+    )
+  }
+
+  // Ports served by the command that the host can connect to
+  const exposePorts =
+    customConfig?.network?.exposePorts ?? config?.network?.exposePorts ?? []
+
+  // Services on the host's loopback the command can connect to
+  const hostServices = parseHostServices(
+    customConfig?.network?.allowHostServices ??
+      config?.network?.allowHostServices,
+  )
+
+  // Programs ignoring the proxy variables are filtered on Linux through a
+  // tunnel device, whose DNS queries the built-in SOCKS proxy answers
+  const transparentEgress =
+    customConfig?.network?.transparentEgress ??
+    config?.network?.transparentEgress ??
+    false
+  if (
+    platform === 'linux' &&
+    needsNetworkProxy &&
+    transparentEgress &&
+    !socksProxyServer
+  ) {
+    throw new Error(
+      'transparentEgress requires the built-in SOCKS proxy; remove network.socksProxyPort',
+    )
+  }
+  // initialize() checked the tools only if the global config enables it
+  if (
+    platform === 'linux' &&
+    needsNetworkProxy &&
+    transparentEgress &&
+    !config?.network?.transparentEgress
+  ) {
+    const { errors } = checkLinuxDependencies(config?.seccomp, true)
+    if (errors.length > 0) {
+      throw new Error(
+        `Sandbox dependencies not available: ${errors.join(', ')}`,
+      )
+    }
+  }
+
+  // Proxy credentials let the proxies attribute connections to this command,
+  // and apply its own domain and IP range rules and host services if it was
+  // given any. They work until releaseCommand() is called, or on Linux until
+  // the sandbox exits.
+  const ownHostServices = customConfig?.network?.allowHostServices
+  const registered = needsNetworkProxy
+    ? sandboxInvocations.register(
+        command,
+        compileInvocationPolicy(customConfig?.network),
+        ownHostServices && parseHostServices(ownHostServices),
+      )
+    : undefined
+  const proxyCredentials = registered?.credentials
+
   // Check custom config to allow pseudo-terminal (can be applied dynamically)
   const allowPty = customConfig?.allowPty ?? config?.allowPty
 
   switch (platform) {
-    case 'macos':
-      // macOS sandbox profile supports glob patterns directly, no ripgrep needed
-      return wrapCommandWithSandboxMacOS({
-        command,
-        needsNetworkRestriction,
-        // Only pass proxy ports if proxy is running (when there are domains to filter)
-        httpProxyPort: needsNetworkProxy ? getProxyPort() : undefined,
-        socksProxyPort: needsNetworkProxy ? getSocksProxyPort() : undefined,
-        readConfig,
-        writeConfig,
-        allowUnixSockets: getAllowUnixSockets(),
-        allowAllUnixSockets: getAllowAllUnixSockets(),
-        allowLocalBinding: getAllowLocalBinding(),
-        ignoreViolations: getIgnoreViolations(),
-        allowPty,
-        allowGitConfig: getAllowGitConfig(),
-        binShell,
-      })
+    case 'macos': {
+      try {
+        // Tools that can't send the credentials get a SOCKS port of their own
+        const invocationSocksPort =
+          registered && socksProxyServer
+            ? await openInvocationSocksListener(
+                socksProxyServer,
+                registered.invocation,
+                registered.credentials,
+              )
+            : undefined
+        // macOS sandbox profile supports glob patterns directly, no ripgrep needed
+        const wrapped = wrapCommandWithSandboxMacOS({
+          command,
+          needsNetworkRestriction,
+          // Only pass proxy ports if proxy is running (when there are domains to filter)
+          httpProxyPort: needsNetworkProxy ? getProxyPort() : undefined,
+          socksProxyPort: needsNetworkProxy ? getSocksProxyPort() : undefined,
+          socksUdpPort: needsNetworkProxy
+            ? socksProxyServer?.getUdpPort()
+            : undefined,
+          invocationSocksPort,
+          proxyCredentials,
+          tlsInterceptionCa,
+          readConfig,
+          writeConfig,
+          allowUnixSockets: getAllowUnixSockets(),
+          allowAllUnixSockets: getAllowAllUnixSockets(),
+          allowLocalBinding: getAllowLocalBinding(),
+          exposePorts,
+          hostServices,
+          ignoreViolations: getIgnoreViolations(),
+          allowPty,
+          allowGitConfig: getAllowGitConfig(),
+          binShell,
+        })
+        if (registered) {
+          wrappedCommands.set(wrapped, registered.invocation.id)
+        }
+        return wrapped
+      } catch (error) {
+        if (registered) {
+          await releaseInvocation(registered.invocation.id)
+        }
+        throw error
+      }
+    }
 
-    case 'linux':
-      return wrapCommandWithSandboxLinux({
-        command,
-        needsNetworkRestriction,
-        // Only pass socket paths if proxy is running (when there are domains to filter)
-        httpSocketPath: needsNetworkProxy
-          ? getLinuxHttpSocketPath()
-          : undefined,
-        socksSocketPath: needsNetworkProxy
-          ? getLinuxSocksSocketPath()
-          : undefined,
-        httpProxyPort: needsNetworkProxy
-          ? managerContext?.httpProxyPort
-          : undefined,
-        socksProxyPort: needsNetworkProxy
-          ? managerContext?.socksProxyPort
-          : undefined,
-        readConfig,
-        writeConfig,
-        enableWeakerNestedSandbox: getEnableWeakerNestedSandbox(),
-        allowAllUnixSockets: getAllowAllUnixSockets(),
-        binShell,
-        ripgrepConfig: getRipgrepConfig(),
-        mandatoryDenySearchDepth: getMandatoryDenySearchDepth(),
-        allowGitConfig: getAllowGitConfig(),
-        seccompConfig: getSeccompConfig(),
-        abortSignal,
-      })
+    case 'linux': {
+      // The command runs in its own network namespace. It gets its own
+      // bridge directory, through which the host reaches its exposed ports
+      // and it reaches the host services and the SOCKS UDP relay, released
+      // when the command exits.
+      const linuxBridge = managerContext?.linuxBridge
+      const socksServer = socksProxyServer
+      const sandboxBridge =
+        registered && linuxBridge
+          ? await openSandboxBridge(
+              linuxBridge,
+              registered.invocation,
+              {
+                exposePorts,
+                hostServices,
+                hostServiceRelay: {
+                  filter: filterHostServiceConnection,
+                  limiter: connectionLimiter,
+                  onAuditEvent: recordNetworkAuditEvent,
+                },
+                udpRelay:
+                  socksServer &&
+                  (socket =>
+                    socksServer.udpRelay.relayBridged(
+                      socket,
+                      registered.invocation,
+                    )),
+              },
+              () => void releaseInvocation(registered.invocation.id),
+            )
+          : undefined
+      if (sandboxBridge) {
+        bridgeSupervisor.add(sandboxBridge.bridges)
+      }
+      // Its lookups get their own table of addresses until it exits
+      if (registered && transparentEgress) {
+        transparentDns.enable(registered.invocation)
+      }
+      try {
+        const wrapped = await wrapCommandWithSandboxLinux({
+          command,
+          needsNetworkRestriction,
+          // Only pass socket paths if proxy is running (when there are domains to filter)
+          httpSocketPath: needsNetworkProxy
+            ? getLinuxHttpSocketPath()
+            : undefined,
+          socksSocketPath: needsNetworkProxy
+            ? getLinuxSocksSocketPath()
+            : undefined,
+          bridgeSocketDirectory: needsNetworkProxy
+            ? linuxBridge?.socketDirectory
+            : undefined,
+          sandboxBridge,
+          httpProxyPort: needsNetworkProxy
+            ? managerContext?.httpProxyPort
+            : undefined,
+          socksProxyPort: needsNetworkProxy
+            ? managerContext?.socksProxyPort
+            : undefined,
+          socksUdpPort: needsNetworkProxy
+            ? managerContext?.linuxBridge?.socksUdpPort
+            : undefined,
+          exposePorts: needsNetworkProxy ? exposePorts : undefined,
+          hostServices: needsNetworkProxy ? hostServices : undefined,
+          transparentEgress: needsNetworkProxy && transparentEgress,
+          proxyCredentials,
+          tlsInterceptionCa,
+          readConfig,
+          writeConfig,
+          enableWeakerNestedSandbox: getEnableWeakerNestedSandbox(),
+          allowAllUnixSockets: getAllowAllUnixSockets(),
+          binShell,
+          ripgrepConfig: getRipgrepConfig(),
+          mandatoryDenySearchDepth: getMandatoryDenySearchDepth(),
+          allowGitConfig: getAllowGitConfig(),
+          seccompConfig: getSeccompConfig(),
+          abortSignal,
+        })
+        if (registered) {
+          wrappedCommands.set(wrapped, registered.invocation.id)
+        }
+        return wrapped
+      } catch (error) {
+        if (registered) {
+          await releaseInvocation(registered.invocation.id)
+        }
+        throw error
+      }
+    }
 
     default:
       // Unsupported platform - this should not happen since isSandboxingEnabled() checks platform support
@@ -703,6 +1514,18 @@ async function wrapWithSandbox(
   }
 }
 
+/**
+ * Release a command returned by wrapWithSandbox once it has exited: its
+ * proxy credentials stop working and, on Linux, its bridge directory is
+ * removed. On Linux this also happens when the sandbox exits.
+ */
+async function releaseCommand(sandboxedCommand: string): Promise<void> {
+  const invocationId = wrappedCommands.get(sandboxedCommand)
+  if (invocationId !== undefined) {
+    await releaseInvocation(invocationId)
+  }
+}
+
 /**
  * Get the current sandbox configuration
  * @returns The current configuration, or undefined if not initialized
@@ -717,8 +1540,38 @@ function getConfig(): SandboxRuntimeConfig | undefined {
  */
 function updateConfig(newConfig: SandboxRuntimeConfig): void {
   // Deep clone the config to avoid mutations
-  config = cloneDeep(newConfig)
+  setConfig(cloneDeep(newConfig))
   logForDebugging('Sandbox configuration updated')
+  // Connections opened under the old rules must not outlive them
+  revokeConnections()
+}
+
+/**
+ * Connections and requests the proxies are relaying, including allowed UDP
+ * destinations, oldest first
+ */
+function getActiveConnections(): ActiveConnection[] {
+  return connectionLimiter.getActiveConnections()
+}
+
+/**
+ * Kill switch: close every open connection and deny all new ones, with rule
+ * `kill-switch`, until restoreNetwork is called
+ */
+function cutNetwork(): void {
+  networkCut = true
+  logForDebugging('Network cut: closing all connections', { level: 'error' })
+  revokeConnections()
+}
+
+/** Lift the kill switch, filtering connections by the config again */
+function restoreNetwork(): void {
+  networkCut = false
+  logForDebugging('Network restored')
+}
+
+function isNetworkCut(): boolean {
+  return networkCut
 }
 
 async function reset(): Promise<void> {
@@ -729,121 +1582,9 @@ async function reset(): Promise<void> {
   }
 
   if (managerContext?.linuxBridge) {
-    const {
-      httpSocketPath,
-      socksSocketPath,
-      httpBridgeProcess,
-      socksBridgeProcess,
-    } = managerContext.linuxBridge
-
-    // Create array to wait for process exits
-    const exitPromises: Promise<void>[] = []
-
-    // Kill HTTP bridge and wait for it to exit
-    if (httpBridgeProcess.pid && !httpBridgeProcess.killed) {
-      try {
-        process.kill(httpBridgeProcess.pid, 'SIGTERM')
-        logForDebugging('Sent SIGTERM to HTTP bridge process')
-
-        // Wait for process to exit
-        exitPromises.push(
-          new Promise<void>(resolve => {
-            httpBridgeProcess.once('exit', () => {
-              logForDebugging('HTTP bridge process exited')
-              resolve()
-            })
-            // Timeout after 5 seconds
-            setTimeout(() => {
-              if (!httpBridgeProcess.killed) {
-                logForDebugging('HTTP bridge did not exit, forcing SIGKILL', {
-                  level: 'warn',
-                })
-                try {
-                  if (httpBridgeProcess.pid) {
-                    process.kill(httpBridgeProcess.pid, 'SIGKILL')
-                  }
-                } catch {
-                  // Process may have already exited
-                }
-              }
-              resolve()
-            }, 5000)
-          }),
-        )
-      } catch (err) {
-        if ((err as NodeJS.ErrnoException).code !== 'ESRCH') {
-          logForDebugging(`Error killing HTTP bridge: ${err}`, {
-            level: 'error',
-          })
-        }
-      }
-    }
-
-    // Kill SOCKS bridge and wait for it to exit
-    if (socksBridgeProcess.pid && !socksBridgeProcess.killed) {
-      try {
-        process.kill(socksBridgeProcess.pid, 'SIGTERM')
-        logForDebugging('Sent SIGTERM to SOCKS bridge process')
-
-        // Wait for process to exit
-        exitPromises.push(
-          new Promise<void>(resolve => {
-            socksBridgeProcess.once('exit', () => {
-              logForDebugging('SOCKS bridge process exited')
-              resolve()
-            })
-            // Timeout after 5 seconds
-            setTimeout(() => {
-              if (!socksBridgeProcess.killed) {
-                logForDebugging('SOCKS bridge did not exit, forcing SIGKILL', {
-                  level: 'warn',
-                })
-                try {
-                  if (socksBridgeProcess.pid) {
-                    process.kill(socksBridgeProcess.pid, 'SIGKILL')
-                  }
-                } catch {
-                  // Process may have already exited
-                }
-              }
-              resolve()
-            }, 5000)
-          }),
-        )
-      } catch (err) {
-        if ((err as NodeJS.ErrnoException).code !== 'ESRCH') {
-          logForDebugging(`Error killing SOCKS bridge: ${err}`, {
-            level: 'error',
-          })
-        }
-      }
-    }
-
-    // Wait for both processes to exit
-    await Promise.all(exitPromises)
-
-    // Clean up sockets
-    if (httpSocketPath) {
-      try {
-        fs.rmSync(httpSocketPath, { force: true })
-        logForDebugging('Cleaned up HTTP socket')
-      } catch (err) {
-        logForDebugging(`HTTP socket cleanup error: ${err}`, {
-          level: 'error',
-        })
-      }
-    }
-
-    if (socksSocketPath) {
-      try {
-        fs.rmSync(socksSocketPath, { force: true })
-        logForDebugging('Cleaned up SOCKS socket')
-      } catch (err) {
-        logForDebugging(`SOCKS socket cleanup error: ${err}`, {
-          level: 'error',
-        })
-      }
-    }
+    // Stop supervising first so no bridge is restarted while closing
+    await bridgeSupervisor.unwatch()
+    await closeLinuxNetworkBridge(managerContext.linuxBridge)
   }
 
   // Close servers in parallel (only if they exist, i.e., were started by us)
@@ -873,20 +1614,50 @@ async function reset(): Promise<void> {
     closePromises.push(socksClose)
   }
 
-  // Wait for all servers to close
+  // Wait for all servers to close, then flush the audit log they wrote to
   await Promise.all(closePromises)
+  await networkAuditLog.close()
 
   // Clear references
   httpProxyServer = undefined
   socksProxyServer = undefined
   managerContext = undefined
   initializationPromise = undefined
+
+  // Session-scoped ask decisions, invocation credentials and byte counts end
+  // with the session
+  askDecisionCache.clear()
+  sandboxInvocations.clear()
+  wrappedCommands.clear()
+  for (const listener of invocationSocksListeners.values()) {
+    listener.close()
+  }
+  invocationSocksListeners.clear()
+  connectionLimiter.reset()
+  transparentDns.clear()
+  networkCut = false
+
+  // The interception CA is per session
+  tlsInterceptor?.dispose()
+  tlsInterceptor = undefined
 }
 
 function getSandboxViolationStore() {
   return sandboxViolationStore
 }
 
+function getNetworkAuditLog() {
+  return networkAuditLog
+}
+
+function getBridgeSupervisor() {
+  return bridgeSupervisor
+}
+
+function getAskDecisionCache() {
+  return askDecisionCache
+}
+
 function annotateStderrWithSandboxFailures(
   command: string,
   stderr: string,
@@ -982,14 +1753,22 @@ export interface ISandboxManager {
   wrapWithSandbox(
     command: string,
     binShell?: string,
-    customConfig?: Partial<SandboxRuntimeConfig>,
+    customConfig?: SandboxCommandConfig,
     abortSignal?: AbortSignal,
   ): Promise<string>
+  releaseCommand(sandboxedCommand: string): Promise<void>
   getSandboxViolationStore(): SandboxViolationStore
+  getNetworkAuditLog(): NetworkAuditLog
+  getAskDecisionCache(): AskDecisionCache
+  getBridgeSupervisor(): BridgeSupervisor
   annotateStderrWithSandboxFailures(command: string, stderr: string): string
   getLinuxGlobPatternWarnings(): string[]
   getConfig(): SandboxRuntimeConfig | undefined
   updateConfig(newConfig: SandboxRuntimeConfig): void
+  getActiveConnections(): ActiveConnection[]
+  cutNetwork(): void
+  restoreNetwork(): void
+  isNetworkCut(): boolean
   reset(): Promise<void>
 }
 
@@ -1019,10 +1798,18 @@ export const SandboxManager: ISandboxManager = {
   getLinuxSocksSocketPath,
   waitForNetworkInitialization,
   wrapWithSandbox,
+  releaseCommand,
   reset,
   getSandboxViolationStore,
+  getNetworkAuditLog,
+  getAskDecisionCache,
+  getBridgeSupervisor,
   annotateStderrWithSandboxFailures,
   getLinuxGlobPatternWarnings,
   getConfig,
   updateConfig,
+  getActiveConnections,
+  cutNetwork,
+  restoreNetwork,
+  isNetworkCut,
 } as const
@@ -98,6 +98,197 @@ export type NetworkHostPattern = {
   port: number | undefined
 }
 
+/**
+ * How long an ask-callback decision is remembered:
+ * - `'once'` = applies to the pending request (and concurrent requests for the same host:port)
+ * - `'session'` = until the cache is cleared or the manager is reset
+ * - `{minutes}` = for the given number of minutes
+ */
+export type SandboxAskScope = 'once' | 'session' | { minutes: number }
+
+export interface SandboxAskDecision {
+  allowed: boolean
+  /** Defaults to the configured `network.askPolicy.defaultScope` */
+  scope?: SandboxAskScope
+}
+
+/**
+ * How a connection reached the proxy: CONNECT tunnel, plain HTTP request,
+ * SOCKS5 CONNECT, datagrams relayed by SOCKS5 UDP ASSOCIATE, or a Linux
+ * sandbox's bridge to an allowed host service
+ */
+export type NetworkProtocol =
+  | 'CONNECT'
+  | 'HTTP'
+  | 'SOCKS'
+  | 'UDP'
+  | 'HOST_SERVICE'
+
+/**
+ * One call to `SandboxManager.wrapWithSandbox`. Its proxy credentials let the
+ * proxies attribute connections to the command that made them.
+ */
+export interface SandboxInvocation {
+  id: string
+  command: string
+}
+
+/**
+ * MITM proxy that a connection is routed through. Either `socketPath` or
+ * `host` and `port` is set.
+ */
+export interface MitmRoute {
+  socketPath?: string
+  host?: string
+  port?: number
+  /** Proxy-Authorization header value sent to the MITM proxy */
+  proxyAuthorization?: string
+  /** Reject the connection, or connect without the MITM proxy, when it cannot be reached */
+  onFailure: 'fail-closed' | 'direct'
+}
+
+/**
+ * What the proxy knows about a connection beyond its destination
+ */
+export interface NetworkRequestContext {
+  protocol: NetworkProtocol
+  /** HTTP method, for plain HTTP requests */
+  method?: string
+  /** Full request URL, for plain HTTP requests */
+  url?: string
+  /** Sandboxed invocation that made the request, if its proxy credentials were sent */
+  invocation?: SandboxInvocation
+  /** MITM proxy the connection will be routed through, if any */
+  mitmRoute?: MitmRoute
+}
+
+export interface SandboxAskContext
+  extends NetworkHostPattern,
+    NetworkRequestContext {}
+
+/**
+ * Asked about connections that match no allow or deny rule. Concurrent
+ * connections to the same host:port share one call, made with the context of
+ * the first of them.
+ */
 export type SandboxAskCallback = (
-  params: NetworkHostPattern,
-) => Promise<boolean>
+  params: SandboxAskContext,
+) => Promise<boolean | SandboxAskDecision>
+
+/**
+ * Outcome of evaluating a connection against the network policy.
+ * `rule` names what produced the decision, e.g. "allowedDomains:*.github.com",
+ * "deniedCidrs:10.0.0.0/8", "ask-callback" or "no-matching-rule".
+ */
+export interface NetworkFilterDecision {
+  allowed: boolean
+  rule: string
+}
+
+/**
+ * Normalize a filter result. Plain booleans come from filters that do not
+ * name the rule that produced the decision.
+ */
+export function toNetworkFilterDecision(
+  result: boolean | NetworkFilterDecision,
+): NetworkFilterDecision {
+  if (typeof result === 'boolean') {
+    return { allowed: result, rule: result ? 'filter' : 'filter-denied' }
+  }
+  return result
+}
+
+/**
+ * One entry of the network audit log. Denied connections are recorded when
+ * the decision is made; allowed connections are recorded when they close,
+ * with byte counts and duration.
+ */
+export interface NetworkAuditEvent {
+  /** ISO-8601 time the connection or request was received */
+  timestamp: string
+  protocol: NetworkProtocol
+  host: string
+  port: number
+  decision: 'allow' | 'deny'
+  /** Rule that produced the decision (see NetworkFilterDecision) */
+  rule: string
+  /** HTTP method, for plain HTTP requests */
+  method?: string
+  /** Sandboxed invocation that made the connection, if its proxy credentials were sent */
+  invocation?: SandboxInvocation
+  /** MITM proxy the connection was routed through (socket path or host:port), if any */
+  mitmRoute?: string
+  /** Whether the request was decrypted by built-in TLS interception */
+  intercepted?: boolean
+  /** Bytes sent from the sandbox to the destination */
+  bytesUp?: number
+  /** Bytes sent from the destination to the sandbox */
+  bytesDown?: number
+  /** Time from receiving the connection to closing it */
+  durationMs?: number
+  /** Error that ended an allowed connection, if any */
+  error?: string
+}
+
+export type NetworkAuditSink = (event: NetworkAuditEvent) => void
+
+/**
+ * A connection or request the proxies denied, as recorded in the
+ * SandboxViolationStore
+ */
+export type NetworkViolation = Pick<
+  NetworkAuditEvent,
+  'protocol' | 'host' | 'port' | 'rule' | 'method'
+>
+
+/**
+ * A connection or request the proxies are relaying, as listed by
+ * `SandboxManager.getActiveConnections`
+ */
+export interface ActiveConnection {
+  id: string
+  protocol: NetworkProtocol
+  host: string
+  port: number
+  /** Rule that allowed the connection */
+  rule: string
+  /** Sandboxed invocation that made the connection, if its proxy credentials were sent */
+  invocation?: SandboxInvocation
+  /** ISO-8601 time the connection was opened */
+  openedAt: string
+  ageMs: number
+  /** Bytes sent from the sandbox to the destination so far */
+  bytesUp: number
+  /** Bytes sent from the destination to the sandbox so far */
+  bytesDown: number
+}
+
+/**
+ * State of one Linux network bridge socket, as reported by
+ * `SandboxManager.getBridgeSupervisor().getHealth()`
+ */
+export interface BridgeHealth {
+  /** `HTTP`, `SOCKS` or `SOCKS UDP` */
+  name: string
+  socketPath: string
+  healthy: boolean
+  /** Times the bridge was restarted this session */
+  restarts: number
+  /** ISO-8601 time of the last restart, if any */
+  lastRestartAt?: string
+  /** Why the last restart failed, while the bridge is down */
+  lastError?: string
+}
+
+/**
+ * A change in a bridge's health: it was found down, restarted, or could not
+ * be restarted (it is tried again on the next check)
+ */
+export interface BridgeEvent {
+  type: 'down' | 'restarted' | 'restart-failed'
+  /** ISO-8601 time of the event */
+  timestamp: string
+  bridge: string
+  socketPath: string
+  error?: string
+}
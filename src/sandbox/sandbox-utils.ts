@@ -398,12 +398,33 @@ export function getDefaultReadPaths(): string[] {
   ]
 }
 
+/**
+ * Credentials embedded in the proxy URLs given to one sandboxed invocation
+ */
+export interface ProxyCredentials {
+  username: string
+  password: string
+}
+
+/**
+ * Files that make sandboxed tools trust the TLS interception CA
+ */
+export interface TlsInterceptionCaFiles {
+  /** The CA certificate alone (for NODE_EXTRA_CA_CERTS) */
+  certPath: string
+  /** The system trust store plus the CA certificate (for SSL_CERT_FILE and REQUESTS_CA_BUNDLE) */
+  bundlePath: string
+}
+
 /**
  * Generate proxy environment variables for sandboxed processes
  */
 export function generateProxyEnvVars(
   httpProxyPort?: number,
   socksProxyPort?: number,
+  proxyCredentials?: ProxyCredentials,
+  tlsInterceptionCa?: TlsInterceptionCaFiles,
+  invocationSocksPort?: number,
 ): string[] {
   // Respect CLAUDE_TMPDIR if set, otherwise default to /tmp/claude
   const tmpdir = process.env.CLAUDE_TMPDIR || '/tmp/claude'
@@ -425,38 +446,62 @@ export function generateProxyEnvVars(
     '10.0.0.0/8', // Private network
     '172.16.0.0/12', // Private network
     '192.168.0.0/16', // Private network
+    'fe80::/10', // IPv6 link-local
+    'fc00::/7', // IPv6 unique local
   ].join(',')
   envVars.push(`NO_PROXY=${noProxyAddresses}`)
   envVars.push(`no_proxy=${noProxyAddresses}`)
 
+  // Proxy URLs carry the invocation's credentials when it has any
+  const proxyHost = proxyCredentials
+    ? `${encodeURIComponent(proxyCredentials.username)}:${encodeURIComponent(proxyCredentials.password)}@localhost`
+    : 'localhost'
+
+  // Trust the CA that intercepted HTTPS traffic is re-signed with. These
+  // variables replace the default trust store for OpenSSL, Go and Python
+  // requests, so they point at a copy of the system trust store with the CA
+  // appended.
+  if (httpProxyPort && tlsInterceptionCa) {
+    envVars.push(`SSL_CERT_FILE=${tlsInterceptionCa.bundlePath}`)
+    envVars.push(`REQUESTS_CA_BUNDLE=${tlsInterceptionCa.bundlePath}`)
+    envVars.push(`NODE_EXTRA_CA_CERTS=${tlsInterceptionCa.certPath}`)
+  }
+
   if (httpProxyPort) {
-    envVars.push(`HTTP_PROXY=http://localhost:${httpProxyPort}`)
-    envVars.push(`HTTPS_PROXY=http://localhost:${httpProxyPort}`)
+    envVars.push(`HTTP_PROXY=http://${proxyHost}:${httpProxyPort}`)
+    envVars.push(`HTTPS_PROXY=http://${proxyHost}:${httpProxyPort}`)
     // Lowercase versions for compatibility with some tools
-    envVars.push(`http_proxy=http://localhost:${httpProxyPort}`)
-    envVars.push(`https_proxy=http://localhost:${httpProxyPort}`)
+    envVars.push(`http_proxy=http://${proxyHost}:${httpProxyPort}`)
+    envVars.push(`https_proxy=http://${proxyHost}:${httpProxyPort}`)
   }
 
   if (socksProxyPort) {
     // Use socks5h:// for proper DNS resolution through proxy
-    envVars.push(`ALL_PROXY=socks5h://localhost:${socksProxyPort}`)
-    envVars.push(`all_proxy=socks5h://localhost:${socksProxyPort}`)
+    envVars.push(`ALL_PROXY=socks5h://${proxyHost}:${socksProxyPort}`)
+    envVars.push(`all_proxy=socks5h://${proxyHost}:${socksProxyPort}`)
 
     // Configure Git to use SSH through SOCKS proxy (platform-aware)
     if (getPlatform() === 'macos') {
-      // macOS has nc available
+      // macOS has nc available. It can't send proxy credentials, so it uses
+      // the invocation's own SOCKS port when there is one.
       // Note: No outer quotes - bwrap --setenv sets the value directly without shell interpretation
       envVars.push(
-        `GIT_SSH_COMMAND=ssh -o ProxyCommand='nc -X 5 -x localhost:${socksProxyPort} %h %p'`,
+        `GIT_SSH_COMMAND=ssh -o ProxyCommand='nc -X 5 -x localhost:${invocationSocksPort ?? socksProxyPort} %h %p'`,
       )
     }
 
     // FTP proxy support (use socks5h for DNS resolution through proxy)
-    envVars.push(`FTP_PROXY=socks5h://localhost:${socksProxyPort}`)
-    envVars.push(`ftp_proxy=socks5h://localhost:${socksProxyPort}`)
-
-    // rsync proxy support
-    envVars.push(`RSYNC_PROXY=localhost:${socksProxyPort}`)
+    envVars.push(`FTP_PROXY=socks5h://${proxyHost}:${socksProxyPort}`)
+    envVars.push(`ftp_proxy=socks5h://${proxyHost}:${socksProxyPort}`)
+
+    // rsync proxy support. rsync tunnels through HTTP CONNECT and sends
+    // credentials given as user:pass@ with basic auth.
+    const rsyncProxyHost = proxyCredentials
+      ? `${proxyCredentials.username}:${proxyCredentials.password}@localhost`
+      : 'localhost'
+    envVars.push(
+      `RSYNC_PROXY=${rsyncProxyHost}:${httpProxyPort || socksProxyPort}`,
+    )
 
     // Database tools NOTE: Most database clients don't have built-in proxy support
     // You typically need to use SSH tunneling or a SOCKS wrapper like tsocks/proxychains
@@ -464,10 +509,10 @@ export function generateProxyEnvVars(
     // Docker CLI uses HTTP for the API
     // This makes Docker use the HTTP proxy for registry operations
     envVars.push(
-      `DOCKER_HTTP_PROXY=http://localhost:${httpProxyPort || socksProxyPort}`,
+      `DOCKER_HTTP_PROXY=http://${proxyHost}:${httpProxyPort || socksProxyPort}`,
     )
     envVars.push(
-      `DOCKER_HTTPS_PROXY=http://localhost:${httpProxyPort || socksProxyPort}`,
+      `DOCKER_HTTPS_PROXY=http://${proxyHost}:${httpProxyPort || socksProxyPort}`,
     )
 
     // Kubernetes kubectl - uses standard HTTPS_PROXY
@@ -482,6 +527,10 @@ export function generateProxyEnvVars(
       envVars.push(`CLOUDSDK_PROXY_TYPE=https`)
       envVars.push(`CLOUDSDK_PROXY_ADDRESS=localhost`)
       envVars.push(`CLOUDSDK_PROXY_PORT=${httpProxyPort}`)
+      if (proxyCredentials) {
+        envVars.push(`CLOUDSDK_PROXY_USERNAME=${proxyCredentials.username}`)
+        envVars.push(`CLOUDSDK_PROXY_PASSWORD=${proxyCredentials.password}`)
+      }
     }
 
     // Azure CLI - uses HTTPS_PROXY
@@ -491,8 +540,8 @@ export function generateProxyEnvVars(
     // Terraform respects HTTP_PROXY/HTTPS_PROXY which we already set above
 
     // gRPC-based tools - use standard proxy vars
-    envVars.push(`GRPC_PROXY=socks5h://localhost:${socksProxyPort}`)
-    envVars.push(`grpc_proxy=socks5h://localhost:${socksProxyPort}`)
+    envVars.push(`GRPC_PROXY=socks5h://${proxyHost}:${socksProxyPort}`)
+    envVars.push(`grpc_proxy=socks5h://${proxyHost}:${socksProxyPort}`)
   }
 
   // WARNING: Do not set HTTP_PROXY/HTTPS_PROXY to SOCKS URLs when only SOCKS proxy is available
@@ -1,5 +1,35 @@
 import { type SandboxViolationEvent } from './macos-sandbox-utils.js'
 import { encodeSandboxedCommand } from './sandbox-utils.js'
+import { formatHostForAuthority } from './ip-address.js'
+import type { NetworkAuditEvent } from './sandbox-schemas.js'
+
+/**
+ * Say what kind of rule blocked a connection, for the violation line
+ */
+function describeNetworkRule(rule: string): string {
+  if (rule.startsWith('deniedDomains:') || rule.startsWith('deniedCidrs:')) {
+    return 'denylist'
+  }
+  if (rule === 'no-matching-rule') {
+    return 'allowlist'
+  }
+  if (rule.startsWith('ask-')) {
+    return 'user decision'
+  }
+  if (rule.startsWith('httpRules:')) {
+    return 'HTTP rules'
+  }
+  if (rule.startsWith('limits:')) {
+    return 'network limits'
+  }
+  if (rule === 'kill-switch' || rule === 'revoked:kill-switch') {
+    return 'kill switch'
+  }
+  if (rule.startsWith('revoked:')) {
+    return 'config update'
+  }
+  return 'network policy'
+}
 
 /**
  * In-memory tail for sandbox violations
@@ -20,6 +50,25 @@ export class SandboxViolationStore {
     this.notifyListeners()
   }
 
+  /**
+   * Record a connection or request the proxies denied, attributed to the
+   * wrapped command that made it when its proxy credentials were sent
+   */
+  addNetworkViolation(event: NetworkAuditEvent): void {
+    const { protocol, host, port, rule, method, invocation } = event
+    const target = `${formatHostForAuthority(host)}:${port}`
+    const request = method ? `${protocol} ${method}` : protocol
+    this.addViolation({
+      line: `${request} connection to ${target} blocked by ${describeNetworkRule(rule)} (${rule})`,
+      command: invocation?.command,
+      encodedCommand: invocation
+        ? encodeSandboxedCommand(invocation.command)
+        : undefined,
+      timestamp: new Date(event.timestamp),
+      network: { protocol, host, port, rule, method },
+    })
+  }
+
   getViolations(limit?: number): SandboxViolationEvent[] {
     if (limit === undefined) {
       return [...this.violations]
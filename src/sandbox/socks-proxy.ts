@@ -1,15 +1,348 @@
-import type { Server as NetServer } from 'net'
+import type { Socket } from 'net'
+import { connect, createServer as createNetServer } from 'net'
 import type { Socks5Server } from '@pondwader/socks5-server'
 import { createServer } from '@pondwader/socks5-server'
 import { logForDebugging } from '../utils/debug.js'
+import {
+  toNetworkFilterDecision,
+  type NetworkAuditSink,
+  type NetworkFilterDecision,
+  type NetworkRequestContext,
+  type SandboxInvocation,
+} from './sandbox-schemas.js'
+import type { ProxyCredentials } from './sandbox-utils.js'
+import { openUpstreamTunnel, type UpstreamProxy } from './upstream-proxy.js'
+import {
+  createNetworkAuditReporter,
+  type NetworkAuditReporter,
+} from './network-audit-log.js'
+import {
+  ConnectionLease,
+  getClosedConnectionDecision,
+  meteredDestination,
+  type ConnectionLimiter,
+} from './connection-limiter.js'
+import { encodeSocksAddress, SocksUdpRelay } from './socks-udp-relay.js'
+import { normalizeIpv6Host } from './ip-address.js'
 
 export interface SocksProxyServerOptions {
-  filter(port: number, host: string): Promise<boolean> | boolean
+  filter(
+    port: number,
+    host: string,
+    context: NetworkRequestContext,
+  ): Promise<boolean | NetworkFilterDecision> | boolean | NetworkFilterDecision
+
+  /**
+   * Optional function to resolve an allowed host to the address to connect to.
+   * The proxy connects to the returned address instead of resolving the host
+   * again, so the address that was checked is the address that is used.
+   * Returning undefined blocks the connection; rejecting means the host could
+   * not be resolved. The invocation's own address rules apply, if it has any.
+   */
+  resolveDestination?(
+    host: string,
+    port: number,
+    invocation: SandboxInvocation | undefined,
+  ): Promise<string | undefined>
+
+  /**
+   * Optional function returning the parent proxy to forward a permitted
+   * connection through. The host is still checked with resolveDestination
+   * first, but sent to the parent by name, which resolves it again. A host
+   * this machine can't resolve is left to the parent to resolve.
+   */
+  getUpstreamProxy?(host: string, port: number): UpstreamProxy | undefined
+
+  /**
+   * Optional function to identify the sandboxed invocation that sent the
+   * given username/password credentials.
+   */
+  getInvocation?(credentials: ProxyCredentials): SandboxInvocation | undefined
+
+  /**
+   * Optional byte caps, bandwidth limits, connection limits and timeouts.
+   */
+  limiter?: ConnectionLimiter
+
+  /**
+   * Optional function returning the host an IP address destination was
+   * looked up as by the invocation through the sandbox's DNS server.
+   * Connections to the address are filtered and made as connections to that
+   * host.
+   */
+  getHostForAddress?(
+    address: string,
+    invocation: SandboxInvocation | undefined,
+  ): string | undefined
+
+  /**
+   * Optional DNS server for UDP clients: datagrams to `address` port 53 are
+   * answered by `answer` instead of being relayed, and dropped if it
+   * resolves to undefined.
+   */
+  dnsServer?: {
+    address: string
+    answer(
+      query: Buffer,
+      invocation: SandboxInvocation | undefined,
+    ): Promise<Buffer | undefined>
+  }
+
+  /**
+   * Optional sink for audit events, one per connection.
+   */
+  onAuditEvent?: NetworkAuditSink
+}
+
+/**
+ * Stored in `conn.metadata` by the ruleset validator for the connection
+ * handler.
+ */
+interface SocksConnectionAudit {
+  /** Destination host, after mapping an address back to its host */
+  host: string
+  rule: string
+  report: NetworkAuditReporter
+  lease: ConnectionLease | undefined
+  invocation: SandboxInvocation | undefined
+}
+
+/**
+ * Stored in `conn.metadata` for UDP ASSOCIATE requests, whose destinations
+ * are checked per datagram by the UDP relay
+ */
+interface SocksUdpAssociationRequest {
+  invocation: SandboxInvocation | undefined
+}
+
+type SocksConnectionHandler = Socks5Server['connectionHandler']
+type SocksConnection = Parameters<SocksConnectionHandler>[0]
+type SocksSendStatus = Parameters<SocksConnectionHandler>[1]
+
+const SOCKS_VERSION = 0x05
+const SOCKS_AUTH_USERNAME_PASSWORD = 0x02
+
+/**
+ * Whether a SOCKS5 greeting (version, method count, methods) offers
+ * username/password authentication
+ */
+function offersUsernamePasswordAuth(greeting: Buffer): boolean {
+  if (greeting.length < 2 || greeting[0] !== SOCKS_VERSION) {
+    return false
+  }
+  return greeting
+    .subarray(2, 2 + greeting[1]!)
+    .includes(SOCKS_AUTH_USERNAME_PASSWORD)
+}
+
+/**
+ * Map a connection error to the SOCKS5 reply status the client should see.
+ * Mirrors the default connection handler of @pondwader/socks5-server.
+ */
+function statusForConnectError(
+  err: NodeJS.ErrnoException,
+): Parameters<SocksSendStatus>[0] {
+  switch (err.code) {
+    case 'EINVAL':
+    case 'ENOENT':
+    case 'ENOTFOUND':
+    case 'ETIMEDOUT':
+    case 'EADDRNOTAVAIL':
+    case 'EHOSTUNREACH':
+      return 'HOST_UNREACHABLE'
+    case 'ENETUNREACH':
+      return 'NETWORK_UNREACHABLE'
+    case 'ECONNREFUSED':
+      return 'CONNECTION_REFUSED'
+    default:
+      return 'GENERAL_FAILURE'
+  }
+}
+
+/**
+ * Destroy the destination stream when the client goes away and report the
+ * connection once the stream closes. Bytes already exchanged (a parent proxy
+ * handshake) are not counted.
+ */
+function trackSocksStream(
+  conn: SocksConnection,
+  stream: Socket,
+  { rule, report, lease }: SocksConnectionAudit,
+): void {
+  const baselineRead = stream.bytesRead
+  const baselineWritten = stream.bytesWritten
+  let streamError: string | undefined
+  stream.on('error', err => {
+    streamError = err.message
+  })
+  conn.socket.on('close', () => stream.destroy())
+  stream.on('close', () => {
+    report({
+      ...getClosedConnectionDecision(rule, lease),
+      bytesUp: stream.bytesWritten - baselineWritten,
+      bytesDown: stream.bytesRead - baselineRead,
+      error: streamError,
+    })
+  })
+}
+
+/**
+ * Relay between the client and the destination stream through the
+ * connection's limits
+ */
+function relaySocksStream(
+  conn: SocksConnection,
+  stream: Socket,
+  lease: ConnectionLease | undefined,
+): void {
+  lease?.onLimit(() => {
+    stream.destroy()
+    conn.socket.destroy()
+  })
+  conn.socket.pipe(meteredDestination(stream, lease, 'up'))
+  stream.pipe(meteredDestination(conn.socket, lease, 'down'))
+}
+
+/**
+ * Answer a UDP ASSOCIATE request with the relay's address. The association
+ * lasts as long as the control connection.
+ */
+function handleUdpAssociate(
+  conn: SocksConnection,
+  sendStatus: SocksSendStatus,
+  udpRelay: SocksUdpRelay,
+): void {
+  const relayAddress = udpRelay.address
+  // Clients bridged over a Unix socket have no address; their datagrams
+  // come through their sandbox's UDP bridge socket
+  const clientAddress = (conn.socket as Socket).remoteAddress
+  if (!relayAddress) {
+    sendStatus('GENERAL_FAILURE')
+    return
+  }
+  const { invocation } = conn.metadata as SocksUdpAssociationRequest
+  udpRelay.associate(conn.socket, clientAddress, conn.destPort, invocation)
+  // The library's status reply always names 0.0.0.0:0, so reply directly
+  conn.socket.write(
+    Buffer.concat([
+      Buffer.from([SOCKS_VERSION, 0x00, 0x00]),
+      encodeSocksAddress(relayAddress.address, relayAddress.port),
+    ]),
+  )
+  // Nothing is expected on the control connection; keep it flowing
+  conn.socket.resume()
+}
+
+async function handleSocksConnection(
+  options: SocksProxyServerOptions,
+  conn: SocksConnection,
+  sendStatus: SocksSendStatus,
+  udpRelay: SocksUdpRelay,
+): Promise<void> {
+  if (conn.command === 'udp') {
+    handleUdpAssociate(conn, sendStatus, udpRelay)
+    return
+  }
+  if (conn.command !== 'connect') {
+    sendStatus('COMMAND_NOT_SUPPORTED')
+    return
+  }
+
+  const port = conn.destPort
+  const audit = conn.metadata as SocksConnectionAudit
+  const { host: hostname, rule, report, lease } = audit
+
+  // Check the resolved address even when the parent proxy connects, which
+  // may resolve names this machine can't
+  const upstreamProxy = options.getUpstreamProxy?.(hostname, port)
+  let address = hostname
+  if (options.resolveDestination) {
+    let resolved: string | undefined
+    try {
+      resolved = await options.resolveDestination(
+        hostname,
+        port,
+        audit.invocation,
+      )
+    } catch (error) {
+      if (!upstreamProxy) {
+        logForDebugging(`Failed to resolve ${hostname}: ${error}`, {
+          level: 'error',
+        })
+        report({ decision: 'allow', rule, error: `${error}` })
+        sendStatus('HOST_UNREACHABLE')
+        return
+      }
+      logForDebugging(
+        `Failed to resolve ${hostname}, leaving it to the upstream proxy: ${error}`,
+      )
+      resolved = hostname
+    }
+    if (!resolved) {
+      logForDebugging(
+        `Connection blocked to ${hostname}:${port} by address policy`,
+        { level: 'error' },
+      )
+      report({ decision: 'deny', rule: 'address-policy' })
+      sendStatus('CONNECTION_NOT_ALLOWED')
+      return
+    }
+    address = resolved
+  }
+
+  if (upstreamProxy) {
+    logForDebugging(
+      `Routing SOCKS ${hostname}:${port} through upstream proxy ${upstreamProxy.host}:${upstreamProxy.port}`,
+    )
+    let stream: Socket
+    try {
+      stream = await openUpstreamTunnel(upstreamProxy, hostname, port)
+    } catch (error) {
+      logForDebugging(`Upstream proxy tunnel failed: ${error}`, {
+        level: 'error',
+      })
+      report({ decision: 'allow', rule, error: `${error}` })
+      sendStatus('GENERAL_FAILURE')
+      return
+    }
+    trackSocksStream(conn, stream, audit)
+    sendStatus('REQUEST_GRANTED')
+    relaySocksStream(conn, stream, lease)
+    return
+  }
+
+  const stream = connect({ host: address, port })
+  stream.setNoDelay()
+  lease?.watchConnect(stream)
+
+  let streamOpened = false
+  stream.on('error', err => {
+    if (!streamOpened) {
+      logForDebugging(`SOCKS connection to ${hostname}:${port} failed: ${err}`)
+      sendStatus(statusForConnectError(err))
+    }
+  })
+  stream.on('ready', () => {
+    streamOpened = true
+    sendStatus('REQUEST_GRANTED')
+    relaySocksStream(conn, stream, lease)
+  })
+  trackSocksStream(conn, stream, audit)
 }
 
 export interface SocksProxyWrapper {
   server: Socks5Server
+  /** Relays UDP ASSOCIATE datagrams; its destinations hold leases like connections */
+  udpRelay: SocksUdpRelay
+  /**
+   * Serve a client connected other than through the TCP listener, e.g. a
+   * Unix socket bridge. A client on a socket served with credentials is
+   * identified by them, for tools that can't send any.
+   */
+  handleConnection(socket: Socket, credentials?: ProxyCredentials): void
   getPort(): number | undefined
+  /** Port of the UDP ASSOCIATE relay, once listening */
+  getUdpPort(): number | undefined
   listen(port: number, hostname: string): Promise<number>
   close(): Promise<void>
   unref(): void
@@ -18,57 +351,154 @@ export interface SocksProxyWrapper {
 export function createSocksProxyServer(
   options: SocksProxyServerOptions,
 ): SocksProxyWrapper {
-  const socksServer = createServer()
+  const udpRelay = new SocksUdpRelay(options)
+  // Credentials of sockets served on behalf of an invocation
+  const socketCredentials = new WeakMap<object, ProxyCredentials>()
 
-  socksServer.setRulesetValidator(async conn => {
-    try {
-      const hostname = conn.destAddress
-      const port = conn.destPort
+  const validateConnection: Socks5Server['rulesetValidator'] = async conn => {
+    // IPv6 destinations arrive fully expanded, or bracketed when a client
+    // sends them as a domain name
+    const destination = normalizeIpv6Host(conn.destAddress)
+    const port = conn.destPort
+    const credentials =
+      socketCredentials.get(conn.socket) ??
+      (conn.username !== undefined && conn.password !== undefined
+        ? { username: conn.username, password: conn.password }
+        : undefined)
+    const invocation = credentials && options.getInvocation?.(credentials)
+
+    if (conn.command === 'udp') {
+      // The request names the client's own address; destinations are
+      // checked per datagram by the relay
+      const association: SocksUdpAssociationRequest = { invocation }
+      conn.metadata = association
+      return true
+    }
 
+    const hostname =
+      options.getHostForAddress?.(destination, invocation) ?? destination
+    if (hostname !== destination) {
+      logForDebugging(
+        `Connection request to ${destination}:${port} looked up as ${hostname}`,
+      )
+    }
+
+    const report = createNetworkAuditReporter(options.onAuditEvent, {
+      protocol: 'SOCKS',
+      host: hostname,
+      port,
+      invocation,
+    })
+
+    try {
       logForDebugging(`Connection request to ${hostname}:${port}`)
 
-      const allowed = await options.filter(port, hostname)
+      const decision = toNetworkFilterDecision(
+        await options.filter(port, hostname, { protocol: 'SOCKS', invocation }),
+      )
 
-      if (!allowed) {
+      if (!decision.allowed) {
         logForDebugging(`Connection blocked to ${hostname}:${port}`, {
           level: 'error',
         })
+        report({ decision: 'deny', rule: decision.rule })
         return false
       }
 
+      const lease = options.limiter?.acquire({
+        protocol: 'SOCKS',
+        host: hostname,
+        port,
+        rule: decision.rule,
+        invocation,
+      })
+      if (lease && !(lease instanceof ConnectionLease)) {
+        logForDebugging(
+          `Connection to ${hostname}:${port} refused by ${lease.rule}`,
+          { level: 'error' },
+        )
+        report({ decision: 'deny', rule: lease.rule })
+        return false
+      }
+      conn.socket.once('close', () => lease?.release())
+
       logForDebugging(`Connection allowed to ${hostname}:${port}`)
+      const audit: SocksConnectionAudit = {
+        host: hostname,
+        rule: decision.rule,
+        report,
+        lease,
+        invocation,
+      }
+      conn.metadata = audit
       return true
     } catch (error) {
       logForDebugging(`Error validating connection: ${error}`, {
         level: 'error',
       })
+      report({ decision: 'deny', rule: 'filter-error', error: `${error}` })
       return false
     }
-  })
+  }
+
+  // The SOCKS library negotiates the same auth method with every client, so
+  // there are two protocol handlers. Clients given invocation credentials
+  // offer username/password and are asked for them; all other clients keep
+  // using no authentication. The credentials only identify the invocation
+  // and unknown ones are treated like none, as in the HTTP proxy.
+  const createProtocolHandler = (): Socks5Server => {
+    const server = createServer()
+    server.supportedCommands.add('udp')
+    server.setRulesetValidator(validateConnection)
+    server.setConnectionHandler((conn, sendStatus) => {
+      void handleSocksConnection(options, conn, sendStatus, udpRelay)
+    })
+    return server
+  }
+  const socksServer = createProtocolHandler()
+  const credentialServer = createProtocolHandler().setAuthHandler(() => true)
+
+  const acceptConnection = (
+    socket: Socket,
+    credentials?: ProxyCredentials,
+  ): void => {
+    if (credentials) {
+      socketCredentials.set(socket, credentials)
+    }
+    socket.setNoDelay()
+    socket.on('error', err => {
+      logForDebugging(`SOCKS client socket error: ${err.message}`, {
+        level: 'error',
+      })
+    })
+    socket.once('data', (greeting: Buffer) => {
+      socket.pause()
+      socket.unshift(greeting)
+      const server = offersUsernamePasswordAuth(greeting)
+        ? credentialServer
+        : socksServer
+      // The library has no public API for serving a socket it didn't
+      // accept. _handleConnection is left unprivate for injecting streams,
+      // so package.json pins the version it was checked against.
+      server._handleConnection(socket)
+    })
+  }
+  // The library's own listener would hand every client to one handler
+  const netServer = createNetServer(socket => acceptConnection(socket))
 
   return {
     server: socksServer,
+    udpRelay,
+    handleConnection: acceptConnection,
     getPort(): number | undefined {
-      // Access the internal server to get the port
-      // We need to use type assertion here as the server property is private
-      try {
-        const serverInternal = (
-          socksServer as unknown as { server?: NetServer }
-        )?.server
-        if (serverInternal && typeof serverInternal?.address === 'function') {
-          const address = serverInternal.address()
-          if (address && typeof address === 'object' && 'port' in address) {
-            return address.port
-          }
-        }
-      } catch (error) {
-        // Server might not be listening yet or property access failed
-        logForDebugging(`Error getting port: ${error}`, { level: 'error' })
-      }
-      return undefined
+      const address = netServer.address()
+      return address && typeof address === 'object' ? address.port : undefined
     },
-    listen(port: number, hostname: string): Promise<number> {
-      return new Promise((resolve, reject) => {
+    getUdpPort(): number | undefined {
+      return udpRelay.address?.port
+    },
+    async listen(port: number, hostname: string): Promise<number> {
+      const actualPort = await new Promise<number>((resolve, reject) => {
         const listeningCallback = (): void => {
           const actualPort = this.getPort()
           if (actualPort) {
@@ -80,12 +510,19 @@ export function createSocksProxyServer(
             reject(new Error('Failed to get SOCKS proxy server port'))
           }
         }
-        socksServer.listen(port, hostname, listeningCallback)
+        netServer.once('error', reject)
+        netServer.listen(port, hostname, () => {
+          netServer.removeListener('error', reject)
+          listeningCallback()
+        })
       })
+      await udpRelay.listen(hostname)
+      return actualPort
     },
     async close(): Promise<void> {
+      udpRelay.close()
       return new Promise((resolve, reject) => {
-        socksServer.close(error => {
+        netServer.close(error => {
           if (error) {
             // Only reject for actual errors, not for "already closed" states
             // Check for common "already closed" error patterns
@@ -105,17 +542,8 @@ export function createSocksProxyServer(
       })
     },
     unref(): void {
-      // Access the internal server to call unref
-      try {
-        const serverInternal = (
-          socksServer as unknown as { server?: NetServer }
-        )?.server
-        if (serverInternal && typeof serverInternal?.unref === 'function') {
-          serverInternal.unref()
-        }
-      } catch (error) {
-        logForDebugging(`Error calling unref: ${error}`, { level: 'error' })
-      }
+      netServer.unref()
+      udpRelay.unref()
     },
   }
 }
@@ -0,0 +1,728 @@
+import { createSocket, type RemoteInfo, type Socket } from 'node:dgram'
+import { lookup } from 'node:dns/promises'
+import { once } from 'node:events'
+import { isIP, isIPv6 } from 'node:net'
+import type { Duplex } from 'node:stream'
+import { logForDebugging } from '../utils/debug.js'
+import {
+  toNetworkFilterDecision,
+  type SandboxInvocation,
+} from './sandbox-schemas.js'
+import {
+  ConnectionLease,
+  type TransferDirection,
+} from './connection-limiter.js'
+import {
+  createNetworkAuditReporter,
+  type NetworkAuditReporter,
+} from './network-audit-log.js'
+import { normalizeIpv6Host, parseIpAddress } from './ip-address.js'
+import type { SocksProxyServerOptions } from './socks-proxy.js'
+
+/**
+ * SOCKS5 UDP ASSOCIATE relay (RFC 1928 section 7).
+ *
+ * One UDP socket next to the SOCKS server's TCP listener receives the
+ * datagrams of every association. A client's first datagram binds its source
+ * address to the association that announced it in its request. An
+ * association that announced no port is bound only if it is the one
+ * association from the client's IP waiting for a source; datagrams that
+ * could belong to several associations are dropped. Each destination is
+ * checked with the proxy's filter when it is first used; datagrams to denied
+ * destinations are dropped. Replies are only relayed from the addresses
+ * allowed destinations resolved to.
+ *
+ * Clients bridged from a Linux sandbox can't reach the UDP socket; their
+ * datagrams arrive through the sandbox's UDP bridge socket instead, one
+ * connection per datagram, and belong to the oldest association of the
+ * command the bridge socket was created for.
+ *
+ * Allowed destinations hold a lease of the proxy's limiter, so they are
+ * listed as active connections, count against the limits and can be
+ * revoked; the next datagram to a destination a limit or revocation closed
+ * is checked again. Queries to the optional DNS server are answered by the
+ * relay itself.
+ */
+
+export type SocksUdpRelayOptions = Pick<
+  SocksProxyServerOptions,
+  | 'filter'
+  | 'resolveDestination'
+  | 'getUpstreamProxy'
+  | 'onAuditEvent'
+  | 'dnsServer'
+  | 'limiter'
+>
+
+const ATYP_IPV4 = 0x01
+const ATYP_DOMAIN = 0x03
+const ATYP_IPV6 = 0x04
+
+/** Largest UDP payload plus the largest SOCKS5 UDP request header */
+const MAX_BRIDGED_DATAGRAM_LENGTH = 65_535 + 262
+
+/**
+ * How long a bridged datagram waits for its reply. The sandbox's UDP
+ * listener waits longer (see buildSandboxCommand).
+ */
+const BRIDGED_REPLY_TIMEOUT_MS = 5_000
+
+/**
+ * Sends the reply packet to the client of a bridged datagram, or tells it
+ * none will come
+ */
+type UdpReply = (packet?: Buffer) => void
+
+interface UdpDestination {
+  host: string
+  port: number
+  /** Address datagrams are sent to and replies are accepted from */
+  address: string
+  rule: string
+  report: NetworkAuditReporter
+  lease: ConnectionLease | undefined
+  bytesUp: number
+  bytesDown: number
+}
+
+interface UdpAssociation {
+  invocation: SandboxInvocation | undefined
+  /**
+   * IP address of the client's SOCKS control connection, undefined for
+   * clients bridged from a Linux sandbox
+   */
+  clientAddress: string | undefined
+  /** Source port the client announced, or 0 */
+  clientPort: number
+  /** Source address of the client's datagrams, once the first one arrived */
+  client?: { address: string; port: number }
+  /** Filter outcome per host:port, undefined when denied */
+  destinations: Map<string, Promise<UdpDestination | undefined>>
+  /** Allowed destinations by resolved address:port */
+  peers: Map<string, UdpDestination>
+  outbound: Partial<Record<'udp4' | 'udp6', Socket>>
+  /** Bridged datagrams waiting for a reply, by peer address:port, oldest first */
+  exchanges: Map<string, UdpReply[]>
+  closed: boolean
+}
+
+function normalizeAddress(address: string): string {
+  return address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '').toLowerCase()
+}
+
+/**
+ * SOCKS5 address and port: ATYP, address bytes, port
+ */
+export function encodeSocksAddress(address: string, port: number): Buffer {
+  const parsed = parseIpAddress(address)
+  let prefix: Buffer
+  if (parsed) {
+    const length = parsed.version === 4 ? 4 : 16
+    const bytes = Buffer.alloc(length)
+    let value = parsed.value
+    for (let i = length - 1; i >= 0; i--) {
+      bytes[i] = Number(value & 0xffn)
+      value >>= 8n
+    }
+    prefix = Buffer.concat([
+      Buffer.from([parsed.version === 4 ? ATYP_IPV4 : ATYP_IPV6]),
+      bytes,
+    ])
+  } else {
+    const name = Buffer.from(address)
+    prefix = Buffer.concat([Buffer.from([ATYP_DOMAIN, name.length]), name])
+  }
+  const portBytes = Buffer.alloc(2)
+  portBytes.writeUInt16BE(port)
+  return Buffer.concat([prefix, portBytes])
+}
+
+/**
+ * Parse a client datagram: RSV (2), FRAG, ATYP, DST.ADDR, DST.PORT, DATA.
+ * Returns undefined for malformed or fragmented datagrams.
+ */
+function parseUdpRequest(
+  datagram: Buffer,
+): { host: string; port: number; data: Buffer } | undefined {
+  if (datagram.length < 4 || datagram[2] !== 0) {
+    return undefined
+  }
+  let offset = 4
+  let host: string
+  switch (datagram[3]) {
+    case ATYP_IPV4:
+      if (datagram.length < offset + 6) return undefined
+      host = [...datagram.subarray(offset, offset + 4)].join('.')
+      offset += 4
+      break
+    case ATYP_DOMAIN: {
+      const length = datagram[offset]
+      if (length === undefined || datagram.length < offset + 1 + length + 2) {
+        return undefined
+      }
+      host = datagram.subarray(offset + 1, offset + 1 + length).toString()
+      offset += 1 + length
+      break
+    }
+    case ATYP_IPV6: {
+      if (datagram.length < offset + 18) return undefined
+      const groups: string[] = []
+      for (let i = 0; i < 16; i += 2) {
+        groups.push(datagram.readUInt16BE(offset + i).toString(16))
+      }
+      host = normalizeIpv6Host(groups.join(':'))
+      offset += 16
+      break
+    }
+    default:
+      return undefined
+  }
+  return {
+    host,
+    port: datagram.readUInt16BE(offset),
+    data: datagram.subarray(offset + 2),
+  }
+}
+
+/**
+ * Pass a datagram through the lease's limits, or send it right away when
+ * there is no lease. Returns false if it was dropped.
+ */
+function sendMetered(
+  lease: ConnectionLease | undefined,
+  direction: TransferDirection,
+  bytes: number,
+  send: () => void,
+): boolean {
+  if (!lease) {
+    send()
+    return true
+  }
+  return lease.meterDatagram(direction, bytes, send)
+}
+
+/** Stop waiting for a reply to a bridged datagram */
+function removeExchange(association: UdpAssociation, reply: UdpReply): void {
+  for (const [peer, pending] of association.exchanges) {
+    const remaining = pending.filter(candidate => candidate !== reply)
+    if (remaining.length > 0) {
+      association.exchanges.set(peer, remaining)
+    } else {
+      association.exchanges.delete(peer)
+    }
+  }
+}
+
+export class SocksUdpRelay {
+  private socket: Socket | undefined
+  private associations: Set<UdpAssociation> = new Set()
+  private associationsByClient: Map<string, UdpAssociation> = new Map()
+
+  constructor(private readonly options: SocksUdpRelayOptions) {}
+
+  /** Address and port clients send datagrams to, once listening */
+  get address(): { address: string; port: number } | undefined {
+    if (!this.socket) {
+      return undefined
+    }
+    const { address, port } = this.socket.address()
+    return { address, port }
+  }
+
+  async listen(hostname: string): Promise<number> {
+    const socket = createSocket(isIPv6(hostname) ? 'udp6' : 'udp4')
+    socket.on('message', (message, rinfo) =>
+      this.handleClientDatagram(message, rinfo),
+    )
+    socket.on('error', err => {
+      logForDebugging(`SOCKS UDP relay error: ${err.message}`, {
+        level: 'error',
+      })
+    })
+    socket.bind(0, hostname)
+    await once(socket, 'listening')
+    this.socket = socket
+    const { port } = socket.address()
+    logForDebugging(`SOCKS UDP relay listening on ${hostname}:${port}`)
+    return port
+  }
+
+  /**
+   * Start an association for a UDP ASSOCIATE request. It ends when the
+   * control connection closes. Without a client address the client is
+   * bridged from a Linux sandbox and its datagrams come through relayBridged.
+   */
+  associate(
+    control: Duplex,
+    clientAddress: string | undefined,
+    clientPort: number,
+    invocation: SandboxInvocation | undefined,
+  ): void {
+    const association: UdpAssociation = {
+      invocation,
+      clientAddress:
+        clientAddress !== undefined
+          ? normalizeAddress(clientAddress)
+          : undefined,
+      clientPort,
+      destinations: new Map(),
+      peers: new Map(),
+      outbound: {},
+      exchanges: new Map(),
+      closed: false,
+    }
+    this.associations.add(association)
+    control.once('close', () => this.closeAssociation(association))
+  }
+
+  /**
+   * Relay one datagram sent through the UDP bridge socket of a Linux sandbox
+   * started for `invocation`. The sandbox's listener connects once per
+   * datagram and shuts down its side after sending it; the reply, if one
+   * arrives in time, is written back and the connection ended, so each
+   * datagram gets at most one reply.
+   */
+  relayBridged(connection: Duplex, invocation: SandboxInvocation): void {
+    const chunks: Buffer[] = []
+    let length = 0
+    const timer = setTimeout(
+      () => connection.destroy(),
+      BRIDGED_REPLY_TIMEOUT_MS,
+    )
+    timer.unref()
+    connection.on('error', () => connection.destroy())
+    connection.once('close', () => clearTimeout(timer))
+    connection.on('data', (chunk: Buffer) => {
+      length += chunk.length
+      if (length > MAX_BRIDGED_DATAGRAM_LENGTH) {
+        logForDebugging('Dropping oversized bridged UDP datagram')
+        connection.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    connection.once('end', () => {
+      const association = [...this.associations].find(
+        candidate =>
+          candidate.clientAddress === undefined &&
+          candidate.invocation?.id === invocation.id,
+      )
+      if (!association) {
+        logForDebugging(
+          `Dropping bridged UDP datagram of ${invocation.id} without an association`,
+        )
+        connection.destroy()
+        return
+      }
+      let replied = false
+      const reply: UdpReply = packet => {
+        replied = true
+        connection.end(packet)
+      }
+      connection.once('close', () => {
+        if (!replied) {
+          removeExchange(association, reply)
+        }
+      })
+      this.handleDatagram(association, Buffer.concat(chunks), reply)
+    })
+  }
+
+  close(): void {
+    for (const association of this.associations) {
+      this.closeAssociation(association)
+    }
+    this.socket?.close()
+    this.socket = undefined
+  }
+
+  unref(): void {
+    this.socket?.unref()
+  }
+
+  private closeAssociation(association: UdpAssociation): void {
+    if (association.closed) {
+      return
+    }
+    association.closed = true
+    this.associations.delete(association)
+    if (association.client) {
+      this.associationsByClient.delete(
+        `${association.client.address}:${association.client.port}`,
+      )
+    }
+    for (const socket of Object.values(association.outbound)) {
+      socket.close()
+    }
+    for (const destination of association.peers.values()) {
+      destination.lease?.release()
+      destination.report({
+        decision: 'allow',
+        rule: destination.rule,
+        bytesUp: destination.bytesUp,
+        bytesDown: destination.bytesDown,
+      })
+    }
+  }
+
+  /**
+   * Stop relaying to a destination a limit or revocation closed, reporting
+   * it as denied by `rule`. The next datagram to it is checked again.
+   */
+  private closeDestination(
+    association: UdpAssociation,
+    destination: UdpDestination,
+    rule: string,
+  ): void {
+    const { host, port } = destination
+    const peer = `${destination.address}:${port}`
+    if (association.peers.get(peer) !== destination) {
+      return
+    }
+    association.peers.delete(peer)
+    association.destinations.delete(`${host.toLowerCase()}:${port}`)
+    destination.lease?.release()
+    logForDebugging(`UDP datagrams to ${host}:${port} closed by ${rule}`, {
+      level: 'error',
+    })
+    destination.report({
+      decision: 'deny',
+      rule,
+      bytesUp: destination.bytesUp,
+      bytesDown: destination.bytesDown,
+    })
+  }
+
+  /**
+   * The association a client datagram belongs to, binding the source
+   * address to an association on first use: the one that announced the
+   * source port, else the only one from the same IP that announced none.
+   * Bridged clients can't send to the UDP socket, so their associations are
+   * never bound to a source.
+   */
+  private findAssociation(rinfo: RemoteInfo): UdpAssociation | undefined {
+    const address = normalizeAddress(rinfo.address)
+    const key = `${address}:${rinfo.port}`
+    const known = this.associationsByClient.get(key)
+    if (known) {
+      return known
+    }
+
+    const candidates = [...this.associations].filter(
+      association =>
+        !association.client && association.clientAddress === address,
+    )
+    const announced = candidates.find(
+      candidate => candidate.clientPort === rinfo.port,
+    )
+    const unannounced = candidates.filter(
+      candidate => candidate.clientPort === 0,
+    )
+    const association =
+      announced ?? (unannounced.length === 1 ? unannounced[0] : undefined)
+    if (!announced && unannounced.length > 1) {
+      logForDebugging(
+        `UDP datagram from ${key} matches ${unannounced.length} associations that announced no port`,
+      )
+    }
+    if (association) {
+      association.client = { address: rinfo.address, port: rinfo.port }
+      this.associationsByClient.set(key, association)
+    }
+    return association
+  }
+
+  private handleClientDatagram(message: Buffer, rinfo: RemoteInfo): void {
+    const association = this.findAssociation(rinfo)
+    if (!association) {
+      logForDebugging(
+        `Dropping UDP datagram from ${rinfo.address}:${rinfo.port} without an association`,
+      )
+      return
+    }
+    this.handleDatagram(association, message)
+  }
+
+  /**
+   * Relay a client datagram of an association. Replies to bridged
+   * datagrams go to `reply`, others to the client's source address.
+   */
+  private handleDatagram(
+    association: UdpAssociation,
+    message: Buffer,
+    reply?: UdpReply,
+  ): void {
+    const request = parseUdpRequest(message)
+    if (!request) {
+      logForDebugging('Dropping malformed or fragmented UDP datagram')
+      reply?.()
+      return
+    }
+    const { dnsServer } = this.options
+    if (dnsServer?.address === request.host && request.port === 53) {
+      void this.answerDnsQuery(association, request.host, request.data, reply)
+      return
+    }
+    void this.forward(
+      association,
+      request.host,
+      request.port,
+      request.data,
+      reply,
+    )
+  }
+
+  /** Send a reply packet to the client of an association */
+  private sendToClient(association: UdpAssociation, packet: Buffer): void {
+    const { client } = association
+    if (client && this.socket) {
+      this.socket.send(packet, client.port, client.address)
+    }
+  }
+
+  private async answerDnsQuery(
+    association: UdpAssociation,
+    server: string,
+    query: Buffer,
+    reply?: UdpReply,
+  ): Promise<void> {
+    let answer: Buffer | undefined
+    try {
+      answer = await this.options.dnsServer?.answer(
+        query,
+        association.invocation,
+      )
+    } catch (error) {
+      logForDebugging(`Error answering DNS query: ${error}`, {
+        level: 'error',
+      })
+    }
+    if (!answer || association.closed) {
+      reply?.()
+      return
+    }
+    const packet = Buffer.concat([
+      Buffer.from([0, 0, 0]),
+      encodeSocksAddress(server, 53),
+      answer,
+    ])
+    if (reply) {
+      reply(packet)
+    } else {
+      this.sendToClient(association, packet)
+    }
+  }
+
+  private async forward(
+    association: UdpAssociation,
+    host: string,
+    port: number,
+    data: Buffer,
+    reply?: UdpReply,
+  ): Promise<void> {
+    const key = `${host.toLowerCase()}:${port}`
+    let pending = association.destinations.get(key)
+    if (!pending) {
+      pending = this.openDestination(association, host, port)
+      association.destinations.set(key, pending)
+    }
+    const destination = await pending
+    if (!destination || association.closed) {
+      reply?.()
+      return
+    }
+
+    const outbound = this.getOutboundSocket(
+      association,
+      isIPv6(destination.address) ? 'udp6' : 'udp4',
+    )
+    const sent = sendMetered(destination.lease, 'up', data.length, () => {
+      if (association.closed) {
+        reply?.()
+        return
+      }
+      if (reply) {
+        const peer = `${destination.address}:${destination.port}`
+        association.exchanges.set(peer, [
+          ...(association.exchanges.get(peer) ?? []),
+          reply,
+        ])
+      }
+      destination.bytesUp += data.length
+      outbound.send(data, destination.port, destination.address)
+    })
+    if (!sent) {
+      reply?.()
+    }
+  }
+
+  /**
+   * Check a destination against the policy and resolve it. Returns undefined
+   * if datagrams to it must be dropped.
+   */
+  private async openDestination(
+    association: UdpAssociation,
+    host: string,
+    port: number,
+  ): Promise<UdpDestination | undefined> {
+    const { options } = this
+    const report = createNetworkAuditReporter(options.onAuditEvent, {
+      protocol: 'UDP',
+      host,
+      port,
+      invocation: association.invocation,
+    })
+
+    let rule: string
+    try {
+      const decision = toNetworkFilterDecision(
+        await options.filter(port, host, {
+          protocol: 'UDP',
+          invocation: association.invocation,
+        }),
+      )
+      if (!decision.allowed) {
+        logForDebugging(`UDP datagrams blocked to ${host}:${port}`, {
+          level: 'error',
+        })
+        report({ decision: 'deny', rule: decision.rule })
+        return undefined
+      }
+      rule = decision.rule
+    } catch (error) {
+      logForDebugging(`Error validating UDP destination: ${error}`, {
+        level: 'error',
+      })
+      report({ decision: 'deny', rule: 'filter-error', error: `${error}` })
+      return undefined
+    }
+
+    // Parent proxies only carry TCP, and sending around them would bypass them
+    if (options.getUpstreamProxy?.(host, port)) {
+      logForDebugging(
+        `UDP datagrams to ${host}:${port} blocked: an upstream proxy is configured`,
+        { level: 'error' },
+      )
+      report({ decision: 'deny', rule: 'upstream-proxy-udp' })
+      return undefined
+    }
+
+    let address: string | undefined
+    try {
+      address = options.resolveDestination
+        ? await options.resolveDestination(host, port, association.invocation)
+        : isIP(host)
+          ? host
+          : (await lookup(host)).address
+    } catch (error) {
+      logForDebugging(`Failed to resolve ${host}: ${error}`, {
+        level: 'error',
+      })
+      report({ decision: 'allow', rule, error: `${error}` })
+      return undefined
+    }
+    if (!address) {
+      logForDebugging(
+        `UDP datagrams blocked to ${host}:${port} by address policy`,
+        { level: 'error' },
+      )
+      report({ decision: 'deny', rule: 'address-policy' })
+      return undefined
+    }
+
+    const lease = options.limiter?.acquire({
+      protocol: 'UDP',
+      host,
+      port,
+      rule,
+      invocation: association.invocation,
+    })
+    if (lease && !(lease instanceof ConnectionLease)) {
+      logForDebugging(
+        `UDP datagrams to ${host}:${port} refused by ${lease.rule}`,
+        { level: 'error' },
+      )
+      report({ decision: 'deny', rule: lease.rule })
+      // Check again on the next datagram, once the limit may allow it
+      association.destinations.delete(`${host.toLowerCase()}:${port}`)
+      return undefined
+    }
+
+    logForDebugging(`UDP datagrams allowed to ${host}:${port}`)
+    const destination: UdpDestination = {
+      host,
+      port,
+      address: normalizeAddress(address),
+      rule,
+      report,
+      lease,
+      bytesUp: 0,
+      bytesDown: 0,
+    }
+    if (association.closed) {
+      lease?.release()
+      report({ decision: 'allow', rule, bytesUp: 0, bytesDown: 0 })
+      return undefined
+    }
+    association.peers.set(`${destination.address}:${port}`, destination)
+    lease?.onLimit(limitRule =>
+      this.closeDestination(association, destination, limitRule),
+    )
+    return destination
+  }
+
+  private getOutboundSocket(
+    association: UdpAssociation,
+    type: 'udp4' | 'udp6',
+  ): Socket {
+    const existing = association.outbound[type]
+    if (existing) {
+      return existing
+    }
+    const socket = createSocket(type)
+    socket.on('message', (message, rinfo) => {
+      const peer = `${normalizeAddress(rinfo.address)}:${rinfo.port}`
+      const destination = association.peers.get(peer)
+      if (!destination) {
+        return
+      }
+      const packet = Buffer.concat([
+        Buffer.from([0, 0, 0]),
+        encodeSocksAddress(rinfo.address, rinfo.port),
+        message,
+      ])
+      // A bridged reply answers the oldest datagram still waiting for one
+      const pending = association.exchanges.get(peer)
+      const reply = pending?.shift()
+      if (pending?.length === 0) {
+        association.exchanges.delete(peer)
+      }
+      if (!reply && association.clientAddress === undefined) {
+        return
+      }
+      const sent = sendMetered(
+        destination.lease,
+        'down',
+        message.length,
+        () => {
+          destination.bytesDown += message.length
+          if (reply) {
+            reply(packet)
+          } else {
+            this.sendToClient(association, packet)
+          }
+        },
+      )
+      if (!sent) {
+        reply?.()
+      }
+    })
+    socket.on('error', err => {
+      logForDebugging(`SOCKS UDP outbound socket error: ${err.message}`, {
+        level: 'error',
+      })
+    })
+    association.outbound[type] = socket
+    return socket
+  }
+}
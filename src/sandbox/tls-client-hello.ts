@@ -0,0 +1,176 @@
+/**
+ * Minimal TLS ClientHello parser used to read the SNI (server name indication)
+ * from the first bytes a client sends through a CONNECT tunnel.
+ */
+
+export type ClientHelloPeekResult =
+  /** More bytes are needed before a decision can be made */
+  | { status: 'incomplete' }
+  /** The bytes are not a TLS handshake */
+  | { status: 'not-tls' }
+  /** The bytes start a TLS handshake that is not a valid ClientHello or is too large */
+  | { status: 'malformed' }
+  /** A complete ClientHello was parsed; serverName is undefined if no SNI was sent */
+  | { status: 'parsed'; serverName: string | undefined }
+
+const TLS_RECORD_HEADER_LENGTH = 5
+const TLS_CONTENT_TYPE_HANDSHAKE = 0x16
+const TLS_HANDSHAKE_CLIENT_HELLO = 0x01
+const TLS_EXTENSION_SERVER_NAME = 0x0000
+const SNI_NAME_TYPE_HOST_NAME = 0x00
+/** Maximum TLS plaintext record length (2^14) plus the allowed expansion */
+const MAX_TLS_RECORD_LENGTH = 16384 + 2048
+/**
+ * Most bytes, record headers included, read to find the end of a
+ * ClientHello. Real ones are a few kilobytes even with post-quantum key
+ * shares.
+ */
+export const MAX_CLIENT_HELLO_BYTES = 65536
+
+/**
+ * Bounds-checked cursor over a buffer. Reads past the end throw, which the
+ * parser treats as a malformed ClientHello.
+ */
+class Reader {
+  constructor(
+    private readonly buf: Buffer,
+    private offset = 0,
+    private readonly end = buf.length,
+  ) {}
+
+  private take(length: number): number {
+    if (this.offset + length > this.end) {
+      throw new RangeError('Truncated ClientHello')
+    }
+    const start = this.offset
+    this.offset += length
+    return start
+  }
+
+  u8(): number {
+    return this.buf.readUInt8(this.take(1))
+  }
+
+  u16(): number {
+    return this.buf.readUInt16BE(this.take(2))
+  }
+
+  u24(): number {
+    const start = this.take(3)
+    return (this.buf.readUInt8(start) << 16) | this.buf.readUInt16BE(start + 1)
+  }
+
+  skip(length: number): void {
+    this.take(length)
+  }
+
+  /** Return a reader over the next `length` bytes and advance past them */
+  sub(length: number): Reader {
+    const start = this.take(length)
+    return new Reader(this.buf, start, start + length)
+  }
+
+  bytes(length: number): Buffer {
+    const start = this.take(length)
+    return this.buf.subarray(start, start + length)
+  }
+
+  remaining(): number {
+    return this.end - this.offset
+  }
+}
+
+function parseServerNameExtension(ext: Reader): string | undefined {
+  const list = ext.sub(ext.u16())
+  while (list.remaining() > 0) {
+    const nameType = list.u8()
+    const name = list.bytes(list.u16())
+    if (nameType === SNI_NAME_TYPE_HOST_NAME) {
+      return name.toString('ascii')
+    }
+  }
+  return undefined
+}
+
+function parseClientHelloBody(hello: Reader): string | undefined {
+  hello.skip(2) // client_version
+  hello.skip(32) // random
+  hello.skip(hello.u8()) // session_id
+  hello.skip(hello.u16()) // cipher_suites
+  hello.skip(hello.u8()) // compression_methods
+
+  // Extensions are optional in very old clients
+  if (hello.remaining() === 0) {
+    return undefined
+  }
+
+  const extensions = hello.sub(hello.u16())
+  while (extensions.remaining() > 0) {
+    const type = extensions.u16()
+    const ext = extensions.sub(extensions.u16())
+    if (type === TLS_EXTENSION_SERVER_NAME) {
+      return parseServerNameExtension(ext)
+    }
+  }
+  return undefined
+}
+
+/**
+ * Inspect the first bytes of a TLS connection and extract the SNI host name.
+ *
+ * A ClientHello fragmented across several handshake records is reassembled.
+ * Anything that starts like a TLS handshake but doesn't parse, or doesn't
+ * end within MAX_CLIENT_HELLO_BYTES, is malformed.
+ */
+export function peekTlsClientHello(data: Buffer): ClientHelloPeekResult {
+  if (data.length === 0) {
+    return { status: 'incomplete' }
+  }
+  if (data[0] !== TLS_CONTENT_TYPE_HANDSHAKE) {
+    return { status: 'not-tls' }
+  }
+
+  const fragments: Buffer[] = []
+  let handshakeLength = 0
+  let offset = 0
+  for (;;) {
+    if (data.length < offset + TLS_RECORD_HEADER_LENGTH) {
+      return { status: 'incomplete' }
+    }
+    const recordLength = data.readUInt16BE(offset + 3)
+    const recordEnd = offset + TLS_RECORD_HEADER_LENGTH + recordLength
+    if (
+      data[offset] !== TLS_CONTENT_TYPE_HANDSHAKE ||
+      recordLength === 0 ||
+      recordLength > MAX_TLS_RECORD_LENGTH ||
+      recordEnd > MAX_CLIENT_HELLO_BYTES
+    ) {
+      return { status: 'malformed' }
+    }
+    if (data.length < recordEnd) {
+      return { status: 'incomplete' }
+    }
+    fragments.push(data.subarray(offset + TLS_RECORD_HEADER_LENGTH, recordEnd))
+    handshakeLength += recordLength
+    offset = recordEnd
+
+    // The handshake header: message type and 24-bit length
+    if (handshakeLength < 4) {
+      continue
+    }
+    const handshake = Buffer.concat(fragments)
+    if (handshake[0] !== TLS_HANDSHAKE_CLIENT_HELLO) {
+      return { status: 'malformed' }
+    }
+    const helloEnd = 4 + handshake.readUIntBE(1, 3)
+    if (handshakeLength < helloEnd) {
+      continue
+    }
+    try {
+      const hello = new Reader(handshake, 4, helloEnd)
+      return { status: 'parsed', serverName: parseClientHelloBody(hello) }
+    } catch {
+      return { status: 'malformed' }
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  createSecureContext,
+  rootCertificates,
+  type SecureContext,
+} from 'node:tls'
+import type { KeyObject } from 'node:crypto'
+import { logForDebugging } from '../utils/debug.js'
+import {
+  createCertificateAuthority,
+  createLeafCertificate,
+  generateCertificateKey,
+  type CertificateAuthority,
+} from './x509-certificate.js'
+import type { TlsInterceptionCaFiles } from './sandbox-utils.js'
+
+/**
+ * Where distributions keep the system trust store as one PEM bundle, in the
+ * order OpenSSL-based tools and Go look for them
+ */
+const SYSTEM_CA_BUNDLE_PATHS = [
+  '/etc/ssl/certs/ca-certificates.crt', // Debian, Ubuntu, Arch, Gentoo
+  '/etc/pki/tls/certs/ca-bundle.crt', // Fedora, RHEL
+  '/etc/ssl/ca-bundle.pem', // openSUSE
+  '/etc/pki/tls/cacert.pem', // OpenELEC
+  '/etc/ssl/cert.pem', // macOS, Alpine
+]
+
+/**
+ * The trust store that sandboxed tools would use without interception: the
+ * bundle named by the host's SSL_CERT_FILE, else the system bundle, so that
+ * corporate and locally added roots keep working. Falls back to Node's
+ * built-in roots when there is none.
+ */
+export function readSystemCaBundle(
+  candidates: string[] = [
+    ...(process.env.SSL_CERT_FILE ? [process.env.SSL_CERT_FILE] : []),
+    ...SYSTEM_CA_BUNDLE_PATHS,
+  ],
+): string {
+  for (const path of candidates) {
+    try {
+      return readFileSync(path, 'utf8')
+    } catch {
+      // Not on this system
+    }
+  }
+  logForDebugging('No system CA bundle found, using Node built-in roots', {
+    level: 'warn',
+  })
+  return rootCertificates.join('\n')
+}
+
+/**
+ * Local certificate authority for built-in TLS interception. A fresh CA is
+ * created per session and its private key never leaves memory; leaf
+ * certificates are minted on first use per host and share one key.
+ */
+export class TlsInterceptor {
+  readonly caFiles: TlsInterceptionCaFiles
+  private readonly ca: CertificateAuthority
+  private readonly leafKey: KeyObject
+  private readonly directory: string
+  private contexts: Map<string, SecureContext> = new Map()
+  private readonly maxContexts = 1000
+
+  constructor() {
+    this.ca = createCertificateAuthority(
+      `Sandbox Runtime Interception CA ${new Date().toISOString()}`,
+    )
+    this.leafKey = generateCertificateKey()
+
+    this.directory = mkdtempSync(join(tmpdir(), 'srt-tls-'))
+    this.caFiles = {
+      certPath: join(this.directory, 'ca.pem'),
+      bundlePath: join(this.directory, 'ca-bundle.pem'),
+    }
+    writeFileSync(this.caFiles.certPath, this.ca.certPem, { mode: 0o644 })
+    writeFileSync(
+      this.caFiles.bundlePath,
+      `${readSystemCaBundle().trimEnd()}\n${this.ca.certPem}`,
+      { mode: 0o644 },
+    )
+    logForDebugging(`Created TLS interception CA at ${this.caFiles.certPath}`)
+  }
+
+  get caCertificate(): string {
+    return this.ca.certPem
+  }
+
+  /**
+   * TLS server context presenting a certificate for `hostname`
+   */
+  getSecureContext(hostname: string): SecureContext {
+    const key = hostname.toLowerCase()
+    const cached = this.contexts.get(key)
+    if (cached) {
+      return cached
+    }
+
+    const context = createSecureContext({
+      key: this.leafKey.export({ type: 'pkcs8', format: 'pem' }),
+      cert: createLeafCertificate(this.ca, key, this.leafKey),
+    })
+    this.contexts.set(key, context)
+    // Map iteration order is insertion order, so the first key is the oldest
+    if (this.contexts.size > this.maxContexts) {
+      const oldest = this.contexts.keys().next().value
+      if (oldest !== undefined) {
+        this.contexts.delete(oldest)
+      }
+    }
+    return context
+  }
+
+  /**
+   * Remove the CA files
+   */
+  dispose(): void {
+    this.contexts.clear()
+    rmSync(this.directory, { recursive: true, force: true })
+  }
+}
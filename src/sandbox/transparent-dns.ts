@@ -0,0 +1,244 @@
+import { lookup } from 'node:dns/promises'
+import { isIP } from 'node:net'
+import { logForDebugging } from '../utils/debug.js'
+import { normalizeHostname } from './hostname.js'
+import type { SandboxInvocation } from './sandbox-schemas.js'
+
+/**
+ * DNS server of Linux sandboxes in transparent egress mode.
+ *
+ * Programs that ignore the proxy variables look hosts up themselves and
+ * connect to the addresses they get, so the proxies only see IP addresses.
+ * This server answers their queries for hosts the rules may allow, refusing
+ * every other name so lookups can't carry data out, and remembers which host
+ * each address was given out for. Connections to those addresses are then
+ * filtered as connections to the host.
+ *
+ * Each command in transparent egress mode has its own table of addresses,
+ * from when it is enabled until it is released, so an address one command
+ * looked up never changes how another command's connections are filtered.
+ * Queries of other commands aren't answered.
+ *
+ * Only A queries are answered with addresses; the sandbox has no IPv6 route.
+ */
+
+const DNS_HEADER_LENGTH = 12
+const DNS_FLAG_RESPONSE = 0x8000
+const DNS_FLAG_RECURSION_DESIRED = 0x0100
+const DNS_FLAG_RECURSION_AVAILABLE = 0x0080
+const DNS_TYPE_A = 1
+const DNS_CLASS_IN = 1
+const DNS_RCODE_NOERROR = 0
+const DNS_RCODE_SERVFAIL = 2
+const DNS_RCODE_NXDOMAIN = 3
+const DNS_RCODE_NOTIMP = 4
+/** Pointer to the question name, which starts right after the header */
+const DNS_QUESTION_NAME_POINTER = 0xc000 | DNS_HEADER_LENGTH
+const DNS_ANSWER_TTL_SECONDS = 60
+
+interface DnsQuery {
+  id: number
+  flags: number
+  opcode: number
+  name: string
+  type: number
+  class: number
+  /** The question section, copied into the response */
+  question: Buffer
+}
+
+/**
+ * Parse a query with one question. Returns undefined for responses and
+ * messages that don't parse, which are dropped.
+ */
+function parseDnsQuery(message: Buffer): DnsQuery | undefined {
+  if (message.length < DNS_HEADER_LENGTH) {
+    return undefined
+  }
+  const flags = message.readUInt16BE(2)
+  if (flags & DNS_FLAG_RESPONSE || message.readUInt16BE(4) !== 1) {
+    return undefined
+  }
+
+  const labels: string[] = []
+  let offset = DNS_HEADER_LENGTH
+  for (;;) {
+    const length = message[offset]
+    // Compression pointers (0xc0) and reserved label types aren't expected
+    // in a question
+    if (length === undefined || length > 63) {
+      return undefined
+    }
+    offset++
+    if (length === 0) {
+      break
+    }
+    if (offset + length > message.length) {
+      return undefined
+    }
+    labels.push(message.toString('latin1', offset, offset + length))
+    offset += length
+  }
+  if (offset + 4 > message.length) {
+    return undefined
+  }
+
+  return {
+    id: message.readUInt16BE(0),
+    flags,
+    opcode: (flags >> 11) & 0x0f,
+    name: labels.join('.'),
+    type: message.readUInt16BE(offset),
+    class: message.readUInt16BE(offset + 2),
+    question: message.subarray(DNS_HEADER_LENGTH, offset + 4),
+  }
+}
+
+/** Response to a query with the given IPv4 addresses as A records */
+function buildDnsResponse(
+  query: DnsQuery,
+  rcode: number,
+  addresses: string[] = [],
+): Buffer {
+  const header = Buffer.alloc(DNS_HEADER_LENGTH)
+  header.writeUInt16BE(query.id, 0)
+  header.writeUInt16BE(
+    DNS_FLAG_RESPONSE |
+      (query.flags & DNS_FLAG_RECURSION_DESIRED) |
+      DNS_FLAG_RECURSION_AVAILABLE |
+      rcode,
+    2,
+  )
+  header.writeUInt16BE(1, 4)
+  header.writeUInt16BE(addresses.length, 6)
+
+  const answers = addresses.map(address => {
+    const answer = Buffer.alloc(16)
+    answer.writeUInt16BE(DNS_QUESTION_NAME_POINTER, 0)
+    answer.writeUInt16BE(DNS_TYPE_A, 2)
+    answer.writeUInt16BE(DNS_CLASS_IN, 4)
+    answer.writeUInt32BE(DNS_ANSWER_TTL_SECONDS, 6)
+    answer.writeUInt16BE(4, 10)
+    address.split('.').forEach((octet, i) => answer.writeUInt8(+octet, 12 + i))
+    return answer
+  })
+  return Buffer.concat([header, query.question, ...answers])
+}
+
+async function lookupIpv4(host: string): Promise<string[]> {
+  const results = await lookup(host, { all: true, family: 4 })
+  return results.map(result => result.address)
+}
+
+export class TransparentDnsResolver {
+  /**
+   * Host each address was last given out for, least recent first, per
+   * enabled invocation id
+   */
+  private tables: Map<string, Map<string, string>> = new Map()
+
+  constructor(
+    private readonly isResolvable: (
+      host: string,
+      invocation: SandboxInvocation | undefined,
+    ) => boolean,
+    private readonly resolve: (host: string) => Promise<string[]> = lookupIpv4,
+    private readonly maxAddresses = 10_000,
+  ) {}
+
+  /** Answer the queries of a command in transparent egress mode */
+  enable(invocation: SandboxInvocation): void {
+    if (!this.tables.has(invocation.id)) {
+      this.tables.set(invocation.id, new Map())
+    }
+  }
+
+  /** Stop answering a command's queries and forget its addresses */
+  release(invocationId: string): void {
+    this.tables.delete(invocationId)
+  }
+
+  /**
+   * Answer a DNS query sent by a sandboxed command. Resolves to undefined
+   * for messages that aren't queries and for commands that weren't enabled.
+   */
+  async answer(
+    message: Buffer,
+    invocation: SandboxInvocation | undefined,
+  ): Promise<Buffer | undefined> {
+    const hosts = invocation && this.tables.get(invocation.id)
+    if (!hosts) {
+      logForDebugging(
+        'Ignored DNS query of a command without transparent egress',
+      )
+      return undefined
+    }
+    const query = parseDnsQuery(message)
+    if (!query) {
+      return undefined
+    }
+    if (query.opcode !== 0) {
+      return buildDnsResponse(query, DNS_RCODE_NOTIMP)
+    }
+
+    const host = normalizeHostname(query.name)
+    if (host === undefined || !this.isResolvable(host, invocation)) {
+      logForDebugging(`Refused DNS lookup of ${query.name}`, {
+        level: 'error',
+      })
+      return buildDnsResponse(query, DNS_RCODE_NXDOMAIN)
+    }
+    if (query.type !== DNS_TYPE_A || query.class !== DNS_CLASS_IN) {
+      return buildDnsResponse(query, DNS_RCODE_NOERROR)
+    }
+
+    let addresses: string[]
+    try {
+      addresses = (await this.resolve(host)).filter(
+        address => isIP(address) === 4,
+      )
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code
+      logForDebugging(`DNS lookup of ${host} failed: ${error}`)
+      return buildDnsResponse(
+        query,
+        code === 'ENOTFOUND' || code === 'ENODATA'
+          ? DNS_RCODE_NXDOMAIN
+          : DNS_RCODE_SERVFAIL,
+      )
+    }
+
+    for (const address of addresses) {
+      this.record(hosts, address, host)
+    }
+    logForDebugging(`Resolved ${host} to ${addresses.join(', ')}`)
+    return buildDnsResponse(query, DNS_RCODE_NOERROR, addresses)
+  }
+
+  /** The host an address was last given out for to the command */
+  getHost(
+    address: string,
+    invocation: SandboxInvocation | undefined,
+  ): string | undefined {
+    return invocation && this.tables.get(invocation.id)?.get(address)
+  }
+
+  clear(): void {
+    this.tables.clear()
+  }
+
+  private record(
+    hosts: Map<string, string>,
+    address: string,
+    host: string,
+  ): void {
+    hosts.delete(address)
+    hosts.set(address, host)
+    if (hosts.size > this.maxAddresses) {
+      const oldest = hosts.keys().next().value
+      if (oldest !== undefined) {
+        hosts.delete(oldest)
+      }
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import * as fs from 'fs'
+import { once } from 'node:events'
+import { connect, createServer, type Server, type Socket } from 'node:net'
+import { logForDebugging } from '../utils/debug.js'
+
+/**
+ * A socket the Linux sandbox reaches the proxies through, which the
+ * BridgeSupervisor checks and restarts
+ */
+export interface Bridge {
+  readonly name: string
+  readonly socketPath: string
+  /** Whether the bridge is accepting connections on its socket path */
+  isHealthy(): boolean
+  /** Listen on the same socket path again, replacing what is left there */
+  restart(): Promise<void>
+  close(): Promise<void>
+}
+
+/** Serves one connection accepted on a bridge socket */
+export type BridgeConnectionHandler = (socket: Socket) => void
+
+/** Device and inode of a socket file, which identify the socket itself */
+interface SocketIdentity {
+  dev: number
+  ino: number
+}
+
+function getSocketIdentity(socketPath: string): SocketIdentity | undefined {
+  try {
+    const { dev, ino } = fs.statSync(socketPath)
+    return { dev, ino }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Whether the socket at the path is still the one a bridge created, rather
+ * than missing or replaced by another file or socket
+ */
+function isSameSocket(
+  socketPath: string,
+  identity: SocketIdentity | undefined,
+): boolean {
+  const current = getSocketIdentity(socketPath)
+  return (
+    identity !== undefined &&
+    current?.dev === identity.dev &&
+    current.ino === identity.ino
+  )
+}
+
+/**
+ * Connection handler relaying each connection to a TCP port on the host,
+ * for proxies that don't run in this process
+ */
+export function relayToPort(
+  port: number,
+  host = 'localhost',
+): BridgeConnectionHandler {
+  return socket => {
+    const upstream = connect({ host, port })
+    upstream.setKeepAlive(true, 10_000)
+    upstream.on('error', err => {
+      logForDebugging(
+        `Bridge relay to ${host} port ${port} failed: ${err.message}`,
+        { level: 'error' },
+      )
+      socket.destroy()
+    })
+    socket.on('error', () => upstream.destroy())
+    upstream.on('close', () => socket.destroy())
+    socket.on('close', () => upstream.destroy())
+    socket.pipe(upstream)
+    upstream.pipe(socket)
+  }
+}
+
+/**
+ * Listens on a Unix socket that is bound into the Linux sandbox and hands
+ * each connection to a proxy in this process, without a helper process or a
+ * TCP hop. Connections are half-open capable, so a client that shuts down
+ * its side still gets the rest of the response.
+ */
+export class UnixSocketBridge implements Bridge {
+  private server: Server | undefined
+  private identity: SocketIdentity | undefined
+  private connections: Set<Socket> = new Set()
+
+  constructor(
+    readonly name: string,
+    readonly socketPath: string,
+    private readonly onConnection: BridgeConnectionHandler,
+  ) {}
+
+  get listening(): boolean {
+    return this.server?.listening ?? false
+  }
+
+  isHealthy(): boolean {
+    return this.listening && isSameSocket(this.socketPath, this.identity)
+  }
+
+  /**
+   * Start listening. Rejects if the socket can't be created, e.g. because
+   * its path is taken or its directory is not writable.
+   */
+  async listen(): Promise<void> {
+    const server = createServer({ allowHalfOpen: true }, socket => {
+      this.connections.add(socket)
+      socket.once('close', () => this.connections.delete(socket))
+      socket.on('error', err => {
+        logForDebugging(
+          `${this.name} bridge connection error: ${err.message}`,
+          {
+            level: 'error',
+          },
+        )
+      })
+      this.onConnection(socket)
+    })
+    server.on('error', err => {
+      logForDebugging(`${this.name} bridge error: ${err.message}`, {
+        level: 'error',
+      })
+    })
+
+    try {
+      server.listen(this.socketPath)
+      await once(server, 'listening')
+    } catch (error) {
+      server.close()
+      throw new Error(
+        `Failed to start ${this.name} bridge on ${this.socketPath}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+    // Like the proxies, the bridge doesn't keep the process alive
+    server.unref()
+    this.server = server
+    this.identity = getSocketIdentity(this.socketPath)
+    logForDebugging(`${this.name} bridge listening on ${this.socketPath}`)
+  }
+
+  /**
+   * Listen again, e.g. after the socket file was deleted. Open connections
+   * are kept.
+   */
+  async restart(): Promise<void> {
+    // Closing the listener unlinks the socket path right away; connections
+    // stay open until they end
+    this.server?.close()
+    this.server = undefined
+    fs.rmSync(this.socketPath, { force: true })
+    await this.listen()
+  }
+
+  /** Stop listening, drop open connections and remove the socket */
+  async close(): Promise<void> {
+    const server = this.server
+    this.server = undefined
+    for (const socket of this.connections) {
+      socket.destroy()
+    }
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()))
+    }
+    fs.rmSync(this.socketPath, { force: true })
+  }
+}
@@ -0,0 +1,335 @@
+import type { RequestOptions } from 'node:http'
+import type { Socket } from 'node:net'
+import { connect, isIP } from 'node:net'
+import { connect as tlsConnect } from 'node:tls'
+import { once } from 'node:events'
+import type { ProxyCredentials } from './sandbox-utils.js'
+import type { MitmRoute } from './sandbox-schemas.js'
+import { formatHostForAuthority, normalizeIpv6Host } from './ip-address.js'
+
+/**
+ * Parent proxy that permitted traffic is forwarded through
+ */
+export interface UpstreamProxy {
+  protocol: 'http' | 'socks5'
+  host: string
+  port: number
+  auth?: ProxyCredentials
+}
+
+const SOCKS_VERSION = 0x05
+const SOCKS_AUTH_NONE = 0x00
+const SOCKS_AUTH_USERNAME_PASSWORD = 0x02
+const SOCKS_AUTH_NO_ACCEPTABLE_METHODS = 0xff
+const SOCKS_COMMAND_CONNECT = 0x01
+const SOCKS_ADDRESS_IPV4 = 0x01
+const SOCKS_ADDRESS_DOMAIN = 0x03
+const SOCKS_ADDRESS_IPV6 = 0x04
+const MAX_CONNECT_RESPONSE_HEADER_BYTES = 16 * 1024
+/** How long the parent may take to accept the connection and the tunnel */
+export const UPSTREAM_TUNNEL_TIMEOUT_MS = 30_000
+
+/**
+ * Read from the socket until `frameLength` reports a complete frame. Bytes
+ * past the frame are pushed back onto the socket for whoever reads next.
+ */
+function readFrame(
+  socket: Socket,
+  frameLength: (data: Buffer) => number | undefined,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let data = Buffer.alloc(0)
+
+    const cleanup = () => {
+      socket.removeListener('data', onData)
+      socket.removeListener('error', onError)
+      socket.removeListener('close', onClose)
+    }
+    const onData = (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk])
+      let length: number | undefined
+      try {
+        length = frameLength(data)
+      } catch (err) {
+        cleanup()
+        reject(err)
+        return
+      }
+      if (length === undefined || data.length < length) {
+        return
+      }
+      cleanup()
+      socket.pause()
+      if (data.length > length) {
+        socket.unshift(data.subarray(length))
+      }
+      resolve(data.subarray(0, length))
+    }
+    const onError = (err: Error) => {
+      cleanup()
+      reject(err)
+    }
+    const onClose = () => {
+      cleanup()
+      reject(new Error('Upstream proxy closed the connection'))
+    }
+
+    socket.on('data', onData)
+    socket.on('error', onError)
+    socket.on('close', onClose)
+    socket.resume()
+  })
+}
+
+function basicAuthorization(auth: ProxyCredentials): string {
+  return `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`
+}
+
+async function httpConnectHandshake(
+  socket: Socket,
+  proxyAuthorization: string | undefined,
+  host: string,
+  port: number,
+): Promise<void> {
+  const authority = `${formatHostForAuthority(host)}:${port}`
+  socket.write(
+    `CONNECT ${authority} HTTP/1.1\r\n` +
+      `Host: ${authority}\r\n` +
+      (proxyAuthorization
+        ? `Proxy-Authorization: ${proxyAuthorization}\r\n`
+        : '') +
+      '\r\n',
+  )
+
+  const response = await readFrame(socket, data => {
+    const headerEnd = data.indexOf('\r\n\r\n')
+    if (headerEnd !== -1) {
+      return headerEnd + 4
+    }
+    if (data.length > MAX_CONNECT_RESPONSE_HEADER_BYTES) {
+      throw new Error('Upstream proxy sent an oversized CONNECT response')
+    }
+    return undefined
+  })
+
+  const statusLine = response.subarray(0, response.indexOf('\r\n')).toString()
+  if (!/^HTTP\/1\.[01] 2\d\d /.test(statusLine)) {
+    throw new Error(`Upstream proxy refused CONNECT: ${statusLine}`)
+  }
+}
+
+function socksAddress(host: string): Buffer {
+  switch (isIP(host)) {
+    case 4:
+      return Buffer.from([
+        SOCKS_ADDRESS_IPV4,
+        ...host.split('.').map(octet => parseInt(octet, 10)),
+      ])
+    default: {
+      // IPv6 literals are sent as names too; SOCKS5 servers resolve them
+      const name = Buffer.from(host)
+      if (name.length > 255) {
+        throw new Error(`Host name too long for SOCKS5: ${host}`)
+      }
+      return Buffer.concat([
+        Buffer.from([SOCKS_ADDRESS_DOMAIN, name.length]),
+        name,
+      ])
+    }
+  }
+}
+
+/**
+ * Length of a SOCKS5 reply: 4 header bytes, the bound address, 2 port bytes
+ */
+function socksReplyLength(data: Buffer): number | undefined {
+  if (data.length < 5) {
+    return undefined
+  }
+  switch (data[3]) {
+    case SOCKS_ADDRESS_IPV4:
+      return 4 + 4 + 2
+    case SOCKS_ADDRESS_DOMAIN:
+      return 4 + 1 + data[4]! + 2
+    case SOCKS_ADDRESS_IPV6:
+      return 4 + 16 + 2
+    default:
+      throw new Error('Upstream SOCKS proxy sent an invalid reply')
+  }
+}
+
+async function socks5Handshake(
+  socket: Socket,
+  proxy: UpstreamProxy,
+  host: string,
+  port: number,
+): Promise<void> {
+  const methods = proxy.auth
+    ? [SOCKS_AUTH_NONE, SOCKS_AUTH_USERNAME_PASSWORD]
+    : [SOCKS_AUTH_NONE]
+  socket.write(Buffer.from([SOCKS_VERSION, methods.length, ...methods]))
+
+  const [version, method] = await readFrame(socket, () => 2)
+  if (
+    version !== SOCKS_VERSION ||
+    method === SOCKS_AUTH_NO_ACCEPTABLE_METHODS
+  ) {
+    throw new Error('Upstream SOCKS proxy rejected the offered auth methods')
+  }
+  if (method === SOCKS_AUTH_USERNAME_PASSWORD) {
+    if (!proxy.auth) {
+      throw new Error('Upstream SOCKS proxy requires credentials')
+    }
+    const username = Buffer.from(proxy.auth.username)
+    const password = Buffer.from(proxy.auth.password)
+    socket.write(
+      Buffer.concat([
+        Buffer.from([0x01, username.length]),
+        username,
+        Buffer.from([password.length]),
+        password,
+      ]),
+    )
+    const [, status] = await readFrame(socket, () => 2)
+    if (status !== 0x00) {
+      throw new Error('Upstream SOCKS proxy rejected the credentials')
+    }
+  } else if (method !== SOCKS_AUTH_NONE) {
+    throw new Error(`Upstream SOCKS proxy chose unsupported auth ${method}`)
+  }
+
+  const portBytes = Buffer.alloc(2)
+  portBytes.writeUInt16BE(port)
+  socket.write(
+    Buffer.concat([
+      Buffer.from([SOCKS_VERSION, SOCKS_COMMAND_CONNECT, 0x00]),
+      socksAddress(host),
+      portBytes,
+    ]),
+  )
+
+  const reply = await readFrame(socket, socksReplyLength)
+  if (reply[1] !== 0x00) {
+    throw new Error(`Upstream SOCKS proxy refused CONNECT (reply ${reply[1]})`)
+  }
+}
+
+/**
+ * Open a TCP tunnel to host:port through the parent proxy. The returned
+ * socket is paused and carries only the destination's bytes. Rejects if the
+ * parent hasn't opened the tunnel within `timeoutMs`.
+ */
+export async function openUpstreamTunnel(
+  proxy: UpstreamProxy,
+  host: string,
+  port: number,
+  timeoutMs = UPSTREAM_TUNNEL_TIMEOUT_MS,
+): Promise<Socket> {
+  const socket = connect(proxy.port, proxy.host)
+  const timer = setTimeout(() => {
+    socket.destroy(
+      new Error(
+        `Upstream proxy did not open a tunnel to ${host}:${port} within ${timeoutMs} ms`,
+      ),
+    )
+  }, timeoutMs)
+  try {
+    await once(socket, 'connect')
+    if (proxy.protocol === 'http') {
+      await httpConnectHandshake(
+        socket,
+        proxy.auth && basicAuthorization(proxy.auth),
+        host,
+        port,
+      )
+    } else {
+      await socks5Handshake(socket, proxy, host, port)
+    }
+    return socket
+  } catch (err) {
+    socket.destroy()
+    throw err
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Request options that send a plain HTTP(S) request through the parent
+ * proxy. HTTP parents receive plain http:// requests in absolute form, as
+ * proxies expect; everything else goes through a tunnel.
+ */
+export async function getUpstreamRequestOptions(
+  proxy: UpstreamProxy,
+  url: URL,
+  port: number,
+): Promise<RequestOptions> {
+  if (proxy.protocol === 'http' && url.protocol === 'http:') {
+    return {
+      host: proxy.host,
+      port: proxy.port,
+      path: url.href,
+      ...(proxy.auth && {
+        headers: { 'proxy-authorization': basicAuthorization(proxy.auth) },
+      }),
+    }
+  }
+
+  const hostname = normalizeIpv6Host(url.hostname)
+  const tunnel = await openUpstreamTunnel(proxy, hostname, port)
+  return {
+    path: url.pathname + url.search,
+    createConnection: () => {
+      // The request attaches its listeners in this tick, before any data
+      tunnel.resume()
+      return url.protocol === 'https:'
+        ? tlsConnect({
+            socket: tunnel,
+            ...(isIP(hostname) === 0 && { servername: hostname }),
+          })
+        : tunnel
+    },
+  }
+}
+
+/**
+ * Describe a MITM route for logs: its socket path or host:port
+ */
+export function describeMitmRoute(route: MitmRoute): string {
+  return route.socketPath ?? `${route.host}:${route.port}`
+}
+
+/**
+ * Connect to a MITM proxy. Resolves once the connection is established, so
+ * callers can tell an unreachable proxy apart from a failed request.
+ */
+export async function connectToMitmProxy(route: MitmRoute): Promise<Socket> {
+  const socket = route.socketPath
+    ? connect({ path: route.socketPath })
+    : connect(route.port!, route.host!)
+  try {
+    await once(socket, 'connect')
+    return socket
+  } catch (err) {
+    socket.destroy()
+    throw err
+  }
+}
+
+/**
+ * Complete a CONNECT handshake with a MITM proxy over an established
+ * connection. The socket is paused afterwards and carries only the tunnel.
+ */
+export async function openMitmTunnel(
+  socket: Socket,
+  route: MitmRoute,
+  host: string,
+  port: number,
+): Promise<void> {
+  try {
+    await httpConnectHandshake(socket, route.proxyAuthorization, host, port)
+  } catch (err) {
+    socket.destroy()
+    throw err
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Minimal X.509 certificate writer used to mint the local certificate
+ * authority and per-host leaf certificates for TLS interception. Certificates
+ * are DER-encoded by hand and signed with node:crypto, using ECDSA P-256 keys.
+ */
+
+import {
+  createHash,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+  type KeyObject,
+} from 'node:crypto'
+import { isIpAddress, parseIpAddress } from './ip-address.js'
+
+export interface CertificateAuthority {
+  /** PEM-encoded self-signed CA certificate */
+  certPem: string
+  privateKey: KeyObject
+  /** DER-encoded subject name, used as the issuer of leaf certificates */
+  subject: Buffer
+  /** Subject key identifier, referenced by leaf certificates */
+  keyId: Buffer
+}
+
+const OID_EC_SIGNATURE_SHA256 = '1.2.840.10045.4.3.2'
+const OID_COMMON_NAME = '2.5.4.3'
+const OID_ORGANIZATION = '2.5.4.10'
+const OID_SUBJECT_KEY_IDENTIFIER = '2.5.29.14'
+const OID_KEY_USAGE = '2.5.29.15'
+const OID_SUBJECT_ALT_NAME = '2.5.29.17'
+const OID_BASIC_CONSTRAINTS = '2.5.29.19'
+const OID_AUTHORITY_KEY_IDENTIFIER = '2.5.29.35'
+const OID_EXTENDED_KEY_USAGE = '2.5.29.37'
+const OID_SERVER_AUTH = '1.3.6.1.5.5.7.3.1'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Certificates are backdated to tolerate clock skew in the sandbox */
+const BACKDATE_MS = DAY_MS
+const LEAF_VALIDITY_MS = 30 * DAY_MS
+const CA_VALIDITY_MS = 365 * DAY_MS
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length])
+  }
+  const bytes: number[] = []
+  for (let n = length; n > 0; n >>= 8) {
+    bytes.unshift(n & 0xff)
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes])
+}
+
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents)
+  return Buffer.concat([Buffer.from([tag]), derLength(body.length), body])
+}
+
+function sequence(...contents: Buffer[]): Buffer {
+  return der(0x30, ...contents)
+}
+
+/** DER INTEGER from unsigned big-endian bytes */
+function integer(bytes: Buffer): Buffer {
+  let start = 0
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start++
+  }
+  const trimmed = bytes.subarray(start)
+  return trimmed[0]! & 0x80
+    ? der(0x02, Buffer.from([0]), trimmed)
+    : der(0x02, trimmed)
+}
+
+function objectIdentifier(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split('.').map(Number)
+  const bytes = [first! * 40 + second!]
+  for (const arc of rest) {
+    const encoded = [arc & 0x7f]
+    for (let n = arc >> 7; n > 0; n >>= 7) {
+      encoded.unshift((n & 0x7f) | 0x80)
+    }
+    bytes.push(...encoded)
+  }
+  return der(0x06, Buffer.from(bytes))
+}
+
+function bitString(bytes: Buffer, unusedBits = 0): Buffer {
+  return der(0x03, Buffer.from([unusedBits]), bytes)
+}
+
+function time(date: Date): Buffer {
+  const iso = date.toISOString()
+  const digits =
+    iso.slice(0, 4) +
+    iso.slice(5, 7) +
+    iso.slice(8, 10) +
+    iso.slice(11, 13) +
+    iso.slice(14, 16) +
+    iso.slice(17, 19) +
+    'Z'
+  // UTCTime until 2049, GeneralizedTime after (RFC 5280 section 4.1.2.5)
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, Buffer.from(digits.slice(2)))
+    : der(0x18, Buffer.from(digits))
+}
+
+function name(attributes: Array<[oid: string, value: string]>): Buffer {
+  return sequence(
+    ...attributes.map(([oid, value]) =>
+      der(0x31, sequence(objectIdentifier(oid), der(0x0c, Buffer.from(value)))),
+    ),
+  )
+}
+
+function extension(oid: string, critical: boolean, value: Buffer): Buffer {
+  return sequence(
+    objectIdentifier(oid),
+    ...(critical ? [der(0x01, Buffer.from([0xff]))] : []),
+    der(0x04, value),
+  )
+}
+
+function serialNumber(): Buffer {
+  const serial = randomBytes(16)
+  // Positive and non-zero
+  serial[0] = (serial[0]! & 0x7f) | 0x01
+  return integer(serial)
+}
+
+/**
+ * Key identifier: SHA-1 of the subjectPublicKey bits (RFC 5280 method 1)
+ */
+function keyIdentifier(publicKeyInfo: Buffer): Buffer {
+  // An uncompressed P-256 SubjectPublicKeyInfo ends with the 65-byte point
+  return createHash('sha1').update(publicKeyInfo.subarray(-65)).digest()
+}
+
+function toPem(certificate: Buffer): string {
+  const base64 = certificate.toString('base64').replace(/.{64}/g, '$&\n')
+  return `-----BEGIN CERTIFICATE-----\n${base64.replace(/\n$/, '')}\n-----END CERTIFICATE-----\n`
+}
+
+function signCertificate(tbs: Buffer, signingKey: KeyObject): string {
+  const algorithm = sequence(objectIdentifier(OID_EC_SIGNATURE_SHA256))
+  const signature = sign('sha256', tbs, signingKey)
+  return toPem(sequence(tbs, algorithm, bitString(signature)))
+}
+
+function tbsCertificate(params: {
+  issuer: Buffer
+  subject: Buffer
+  notBefore: Date
+  notAfter: Date
+  publicKeyInfo: Buffer
+  extensions: Buffer[]
+}): Buffer {
+  return sequence(
+    der(0xa0, integer(Buffer.from([2]))), // v3
+    serialNumber(),
+    sequence(objectIdentifier(OID_EC_SIGNATURE_SHA256)),
+    params.issuer,
+    sequence(time(params.notBefore), time(params.notAfter)),
+    params.subject,
+    params.publicKeyInfo,
+    der(0xa3, sequence(...params.extensions)),
+  )
+}
+
+export function generateCertificateKey(): KeyObject {
+  return generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey
+}
+
+/**
+ * Create a self-signed certificate authority with a fresh key
+ */
+export function createCertificateAuthority(
+  commonName: string,
+): CertificateAuthority {
+  const privateKey = generateCertificateKey()
+  const publicKeyInfo = publicKeyInfoOf(privateKey)
+  const subject = name([
+    [OID_ORGANIZATION, 'Sandbox Runtime'],
+    [OID_COMMON_NAME, commonName],
+  ])
+  const keyId = keyIdentifier(publicKeyInfo)
+  const now = Date.now()
+
+  const tbs = tbsCertificate({
+    issuer: subject,
+    subject,
+    notBefore: new Date(now - BACKDATE_MS),
+    notAfter: new Date(now + CA_VALIDITY_MS),
+    publicKeyInfo,
+    extensions: [
+      // CA:TRUE, no intermediates
+      extension(
+        OID_BASIC_CONSTRAINTS,
+        true,
+        sequence(der(0x01, Buffer.from([0xff])), integer(Buffer.from([0]))),
+      ),
+      // keyCertSign and cRLSign
+      extension(OID_KEY_USAGE, true, bitString(Buffer.from([0x06]), 1)),
+      extension(OID_SUBJECT_KEY_IDENTIFIER, false, der(0x04, keyId)),
+    ],
+  })
+
+  return {
+    certPem: signCertificate(tbs, privateKey),
+    privateKey,
+    subject,
+    keyId,
+  }
+}
+
+/**
+ * Create a server certificate for `hostname` (a DNS name or IP literal),
+ * signed by the certificate authority
+ */
+export function createLeafCertificate(
+  ca: CertificateAuthority,
+  hostname: string,
+  privateKey: KeyObject,
+): string {
+  const publicKeyInfo = publicKeyInfoOf(privateKey)
+  const altName = isIpAddress(hostname)
+    ? der(0x87, ipAddressBytes(hostname)) // iPAddress
+    : der(0x82, Buffer.from(hostname.toLowerCase())) // dNSName
+  const now = Date.now()
+
+  const tbs = tbsCertificate({
+    issuer: ca.subject,
+    subject: name([[OID_COMMON_NAME, hostname.slice(0, 64)]]),
+    notBefore: new Date(now - BACKDATE_MS),
+    notAfter: new Date(now + LEAF_VALIDITY_MS),
+    publicKeyInfo,
+    extensions: [
+      extension(OID_BASIC_CONSTRAINTS, true, sequence()),
+      // digitalSignature
+      extension(OID_KEY_USAGE, true, bitString(Buffer.from([0x80]), 7)),
+      extension(
+        OID_EXTENDED_KEY_USAGE,
+        false,
+        sequence(objectIdentifier(OID_SERVER_AUTH)),
+      ),
+      extension(OID_SUBJECT_ALT_NAME, false, sequence(altName)),
+      extension(
+        OID_SUBJECT_KEY_IDENTIFIER,
+        false,
+        der(0x04, keyIdentifier(publicKeyInfo)),
+      ),
+      extension(
+        OID_AUTHORITY_KEY_IDENTIFIER,
+        false,
+        sequence(der(0x80, ca.keyId)),
+      ),
+    ],
+  })
+
+  return signCertificate(tbs, ca.privateKey)
+}
+
+function publicKeyInfoOf(privateKey: KeyObject): Buffer {
+  if (privateKey.asymmetricKeyType !== 'ec') {
+    throw new Error('Certificate keys must be EC P-256 keys')
+  }
+  return createPublicKey(privateKey).export({ type: 'spki', format: 'der' })
+}
+
+function ipAddressBytes(address: string): Buffer {
+  const parsed = parseIpAddress(address)!
+  const length = parsed.version === 4 ? 4 : 16
+  const bytes = Buffer.alloc(length)
+  let value = parsed.value
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn)
+    value >>= 8n
+  }
+  return bytes
+}
@@ -272,4 +272,453 @@ describe('Config Validation', () => {
     const result = SandboxRuntimeConfigSchema.safeParse(config)
     expect(result.success).toBe(true)
   })
+
+  test('should accept port-constrained and apex-inclusive domain rules', () => {
+    const validRules = [
+      'github.com:443',
+      '*.internal.org:8080-8090',
+      '**.example.com',
+      '**.example.com:443',
+      '*:443',
+    ]
+
+    for (const domain of validRules) {
+      const config = {
+        network: { allowedDomains: [domain], deniedDomains: [domain] },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      const result = SandboxRuntimeConfigSchema.safeParse(config)
+      expect(result.success).toBe(true)
+    }
+  })
+
+  test('should accept IPv6 literals and IP prefixes as domain rules', () => {
+    for (const domain of [
+      '::1',
+      '[2001:db8::1]:443',
+      '2001:db8::/32',
+      '[fd00::]/8:8080-8090',
+      '10.0.0.0/8',
+    ]) {
+      const config = {
+        network: { allowedDomains: [domain], deniedDomains: [domain] },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+    }
+
+    for (const domain of ['[example.com]:443', '[2001:db8::1]:', '::1:443x']) {
+      const config = {
+        network: { allowedDomains: [domain], deniedDomains: [] },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(false)
+    }
+  })
+
+  test('should accept domain rules that normalize to a canonical host', () => {
+    for (const domain of ['GitHub.com.', '*.bücher.de', '0x7f.1:8080']) {
+      const config = {
+        network: { allowedDomains: [domain], deniedDomains: [domain] },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+    }
+
+    for (const domain of [
+      'github.com..',
+      '.github.com',
+      'a..github.com',
+      'git%2fhub.com',
+      '256.0.0.1',
+    ]) {
+      const config = {
+        network: { allowedDomains: [], deniedDomains: [domain] },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(false)
+    }
+  })
+
+  test('should validate network presets and domain list files', () => {
+    const config = {
+      network: {
+        allowedDomains: [],
+        deniedDomains: [],
+        presets: ['npm', 'pypi', 'crates', 'github', 'go', 'docker'],
+        allowedDomainsFiles: ['./allow.txt'],
+        deniedDomainsFiles: ['~/blocklist.hosts'],
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+
+    for (const network of [
+      { presets: ['maven'] },
+      { allowedDomainsFiles: [''] },
+      { deniedDomainsFiles: 'blocklist.hosts' },
+    ]) {
+      const result = SandboxRuntimeConfigSchema.safeParse({
+        network: { allowedDomains: [], deniedDomains: [], ...network },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      })
+      expect(result.success).toBe(false)
+    }
+  })
+
+  test('should reject invalid port specifications', () => {
+    const invalidRules = [
+      'github.com:',
+      'github.com:0',
+      'github.com:70000',
+      'github.com:443-80',
+      'github.com:https',
+      '**.com:443',
+    ]
+
+    for (const domain of invalidRules) {
+      const config = {
+        network: { allowedDomains: [domain], deniedDomains: [] },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      const result = SandboxRuntimeConfigSchema.safeParse(config)
+      expect(result.success).toBe(false)
+    }
+  })
+
+  test('should validate CIDR rules and private destination switch', () => {
+    const config = {
+      network: {
+        allowedDomains: ['example.com'],
+        deniedDomains: [],
+        allowedCidrs: ['10.1.0.0/16', '192.168.1.10', 'fd00::/8'],
+        deniedCidrs: ['169.254.169.254/32'],
+        blockPrivateDestinations: false,
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+
+    const result = SandboxRuntimeConfigSchema.safeParse(config)
+    expect(result.success).toBe(true)
+  })
+
+  test('should reject invalid CIDR rules', () => {
+    for (const cidr of ['10.0.0.0/33', 'example.com', '10.0.0/8']) {
+      const config = {
+        network: {
+          allowedDomains: [],
+          deniedDomains: [],
+          deniedCidrs: [cidr],
+        },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      const result = SandboxRuntimeConfigSchema.safeParse(config)
+      expect(result.success).toBe(false)
+    }
+  })
+
+  test('should validate audit log path and sink', () => {
+    const sink = () => {}
+    const config = {
+      network: {
+        allowedDomains: [],
+        deniedDomains: [],
+        auditLog: { path: '/tmp/srt-audit.jsonl', sink },
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+
+    const result = SandboxRuntimeConfigSchema.safeParse(config)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.network.auditLog?.sink).toBe(sink)
+    }
+  })
+
+  test('should reject a non-function audit log sink', () => {
+    const config = {
+      network: {
+        allowedDomains: [],
+        deniedDomains: [],
+        auditLog: { sink: 'stdout' },
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+
+    const result = SandboxRuntimeConfigSchema.safeParse(config)
+    expect(result.success).toBe(false)
+  })
+
+  test('should validate ask policy scopes and timeouts', () => {
+    for (const defaultScope of ['once', 'session', { minutes: 15 }]) {
+      const config = {
+        network: {
+          allowedDomains: [],
+          deniedDomains: [],
+          askPolicy: {
+            timeoutMs: 30000,
+            timeoutDecision: 'deny',
+            defaultScope,
+          },
+        },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      const result = SandboxRuntimeConfigSchema.safeParse(config)
+      expect(result.success).toBe(true)
+    }
+  })
+
+  test('should reject invalid ask policy scopes', () => {
+    for (const defaultScope of ['forever', { minutes: 0 }]) {
+      const config = {
+        network: {
+          allowedDomains: [],
+          deniedDomains: [],
+          askPolicy: { defaultScope },
+        },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      const result = SandboxRuntimeConfigSchema.safeParse(config)
+      expect(result.success).toBe(false)
+    }
+  })
+
+  test('should validate upstream proxy configuration', () => {
+    const config = {
+      network: {
+        allowedDomains: ['github.com'],
+        deniedDomains: [],
+        upstreamProxy: {
+          protocol: 'http',
+          host: 'proxy.corp.example.com',
+          port: 3128,
+          authEnvVar: 'CORP_PROXY_AUTH',
+          bypassDomains: ['*.corp.example.com', 'localhost'],
+        },
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+
+    const result = SandboxRuntimeConfigSchema.safeParse(config)
+    expect(result.success).toBe(true)
+  })
+
+  test('should reject unsupported upstream proxy protocols', () => {
+    const config = {
+      network: {
+        allowedDomains: [],
+        deniedDomains: [],
+        upstreamProxy: { protocol: 'socks4', host: 'proxy', port: 1080 },
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+
+    const result = SandboxRuntimeConfigSchema.safeParse(config)
+    expect(result.success).toBe(false)
+  })
+
+  test('should accept a single MITM route or an ordered list of routes', () => {
+    const single = {
+      network: {
+        allowedDomains: [],
+        deniedDomains: [],
+        mitmProxy: { socketPath: '/tmp/mitm.sock', domains: ['*.example.com'] },
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(single).success).toBe(true)
+
+    const routes = {
+      ...single,
+      network: {
+        ...single.network,
+        mitmProxy: [
+          {
+            host: '127.0.0.1',
+            port: 8080,
+            domains: ['api.example.com'],
+            proxyAuthorization: 'Basic dXNlcjpwYXNz',
+            onFailure: 'direct',
+          },
+          { socketPath: '/tmp/mitm.sock', domains: ['*.example.com'] },
+        ],
+      },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(routes).success).toBe(true)
+  })
+
+  test('should reject MITM routes without exactly one target', () => {
+    for (const route of [
+      { domains: ['example.com'] },
+      { host: '127.0.0.1', domains: ['example.com'] },
+      { socketPath: '/tmp/mitm.sock', port: 8080, domains: ['example.com'] },
+      {
+        socketPath: '/tmp/mitm.sock',
+        domains: ['example.com'],
+        onFailure: 'retry',
+      },
+    ]) {
+      const config = {
+        network: { allowedDomains: [], deniedDomains: [], mitmProxy: [route] },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      }
+      expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(false)
+    }
+  })
+
+  test('should validate TLS interception domains and injected headers', () => {
+    const config = {
+      network: {
+        allowedDomains: ['registry.npmjs.org'],
+        deniedDomains: [],
+        tlsInterception: {
+          domains: ['registry.npmjs.org'],
+          headers: [
+            { name: 'Authorization', value: 'Bearer ${NPM_TOKEN}' },
+            {
+              name: 'X-Team',
+              value: 'sandbox',
+              domains: ['registry.npmjs.org'],
+            },
+          ],
+        },
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+
+    const invalidHeader = {
+      ...config,
+      network: {
+        ...config.network,
+        tlsInterception: {
+          domains: ['registry.npmjs.org'],
+          headers: [{ name: 'Bad Header', value: 'x' }],
+        },
+      },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(invalidHeader).success).toBe(
+      false,
+    )
+  })
+
+  test('should validate HTTP method and path rules', () => {
+    const config = {
+      network: {
+        allowedDomains: ['registry.npmjs.org'],
+        deniedDomains: [],
+        httpRules: [
+          {
+            name: 'npm-read',
+            action: 'allow',
+            domains: ['registry.npmjs.org'],
+            methods: ['GET', 'HEAD'],
+          },
+          {
+            action: 'deny',
+            domains: ['registry.npmjs.org'],
+            paths: ['/-/npm/v1/security/**'],
+          },
+        ],
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+
+    for (const rule of [
+      { action: 'allow', domains: ['example.com'], paths: ['api/**'] },
+      { action: 'allow', domains: ['example.com'], methods: ['GET /'] },
+      { name: 'has space', action: 'deny', domains: ['example.com'] },
+      { action: 'allow', domains: [] },
+    ]) {
+      const invalid = {
+        ...config,
+        network: { ...config.network, httpRules: [rule] },
+      }
+      expect(SandboxRuntimeConfigSchema.safeParse(invalid).success).toBe(false)
+    }
+  })
+
+  test('should validate network limits', () => {
+    const config = {
+      network: {
+        allowedDomains: ['registry.npmjs.org'],
+        deniedDomains: [],
+        limits: {
+          maxBytesPerConnection: 100_000_000,
+          maxBytesPerSession: 1_000_000_000,
+          uploadBytesPerSecond: 1_000_000,
+          maxConnectionsPerHost: 16,
+          connectTimeoutMs: 10_000,
+          idleTimeoutMs: 300_000,
+        },
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+
+    for (const limits of [
+      { maxBytesPerConnection: 0 },
+      { idleTimeoutMs: 1.5 },
+      { maxConnectionsPerHost: -1 },
+    ]) {
+      const invalid = { ...config, network: { ...config.network, limits } }
+      expect(SandboxRuntimeConfigSchema.safeParse(invalid).success).toBe(false)
+    }
+  })
+
+  test('should validate exposed ports', () => {
+    const config = {
+      network: {
+        allowedDomains: [],
+        deniedDomains: [],
+        exposePorts: [3000, 5173],
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+
+    for (const exposePorts of [[0], [65536], [80.5]]) {
+      const invalid = { ...config, network: { ...config.network, exposePorts } }
+      expect(SandboxRuntimeConfigSchema.safeParse(invalid).success).toBe(false)
+    }
+  })
+
+  test('should validate host services on loopback only', () => {
+    const config = {
+      network: {
+        allowedDomains: [],
+        deniedDomains: [],
+        allowHostServices: ['127.0.0.1:5432', 'localhost:8080', '[::1]:6379'],
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+
+    for (const service of ['10.0.0.5:5432', 'db.internal:5432', '127.0.0.1']) {
+      const invalid = {
+        ...config,
+        network: { ...config.network, allowHostServices: [service] },
+      }
+      expect(SandboxRuntimeConfigSchema.safeParse(invalid).success).toBe(false)
+    }
+  })
+
+  test('should accept transparent egress', () => {
+    const config = {
+      network: {
+        allowedDomains: ['api.example.com'],
+        deniedDomains: [],
+        transparentEgress: true,
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(config).success).toBe(true)
+
+    const invalid = {
+      ...config,
+      network: { ...config.network, transparentEgress: 'yes' },
+    }
+    expect(SandboxRuntimeConfigSchema.safeParse(invalid).success).toBe(false)
+  })
 })
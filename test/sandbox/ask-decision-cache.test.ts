@@ -0,0 +1,235 @@
+import { describe, it, expect, setSystemTime, afterEach } from 'bun:test'
+import {
+  AskDecisionCache,
+  type AskDecisionOptions,
+} from '../../src/sandbox/ask-decision-cache.js'
+import type {
+  NetworkHostPattern,
+  SandboxAskContext,
+  SandboxAskDecision,
+} from '../../src/sandbox/sandbox-schemas.js'
+
+function ctx(host: string, port: number): SandboxAskContext & { port: number } {
+  return { host, port, protocol: 'CONNECT' }
+}
+
+const onceOptions: AskDecisionOptions = {
+  timeoutDecision: false,
+  defaultScope: 'once',
+}
+
+/**
+ * Ask callback that records its calls and answers when `answer` is called
+ */
+function deferredCallback(): {
+  calls: NetworkHostPattern[]
+  callback: (
+    params: NetworkHostPattern,
+  ) => Promise<boolean | SandboxAskDecision>
+  answer: (result: boolean | SandboxAskDecision) => void
+} {
+  const calls: NetworkHostPattern[] = []
+  const resolvers: Array<(result: boolean | SandboxAskDecision) => void> = []
+  return {
+    calls,
+    callback: params => {
+      calls.push(params)
+      return new Promise(resolve => resolvers.push(resolve))
+    },
+    answer: result => resolvers.shift()?.(result),
+  }
+}
+
+describe('AskDecisionCache', () => {
+  afterEach(() => {
+    setSystemTime()
+  })
+
+  it('coalesces concurrent asks for the same host and port', async () => {
+    const cache = new AskDecisionCache()
+    const { calls, callback, answer } = deferredCallback()
+
+    const asks = Array.from({ length: 5 }, () =>
+      cache.decide(ctx('registry.example.com', 443), callback, onceOptions),
+    )
+    answer(true)
+
+    const outcomes = await Promise.all(asks)
+    expect(calls).toEqual([ctx('registry.example.com', 443)])
+    expect(outcomes.every(o => o.allowed && o.source === 'callback')).toBe(true)
+  })
+
+  it('asks again for a different port', async () => {
+    const cache = new AskDecisionCache()
+    const { calls, callback, answer } = deferredCallback()
+
+    const first = cache.decide(ctx('example.com', 443), callback, onceOptions)
+    const second = cache.decide(ctx('example.com', 80), callback, onceOptions)
+    answer(true)
+    answer(false)
+
+    expect(await first).toEqual({ allowed: true, source: 'callback' })
+    expect(await second).toEqual({ allowed: false, source: 'callback' })
+    expect(calls).toHaveLength(2)
+  })
+
+  it('does not cache decisions scoped to once', async () => {
+    const cache = new AskDecisionCache()
+    let calls = 0
+    const callback = async () => {
+      calls++
+      return true
+    }
+
+    await cache.decide(ctx('example.com', 443), callback, onceOptions)
+    await cache.decide(ctx('example.com', 443), callback, onceOptions)
+
+    expect(calls).toBe(2)
+    expect(cache.getEntries()).toEqual([])
+  })
+
+  it('caches session decisions until cleared', async () => {
+    const cache = new AskDecisionCache()
+    let calls = 0
+    const callback = async (): Promise<SandboxAskDecision> => {
+      calls++
+      return { allowed: false, scope: 'session' }
+    }
+
+    await cache.decide(ctx('Example.com', 443), callback, onceOptions)
+    const second = await cache.decide(
+      ctx('example.com', 443),
+      callback,
+      onceOptions,
+    )
+
+    expect(calls).toBe(1)
+    expect(second).toEqual({ allowed: false, source: 'cache' })
+    expect(cache.getEntries()).toMatchObject([
+      {
+        host: 'example.com',
+        port: 443,
+        allowed: false,
+        expiresAt: undefined,
+      },
+    ])
+
+    cache.clear('example.com', 443)
+    expect(cache.getEntries()).toEqual([])
+    await cache.decide(ctx('example.com', 443), callback, onceOptions)
+    expect(calls).toBe(2)
+  })
+
+  it('keeps decisions asked for an invocation apart', async () => {
+    const cache = new AskDecisionCache()
+    const { calls, callback, answer } = deferredCallback()
+    const sessionOptions: AskDecisionOptions = {
+      timeoutDecision: false,
+      defaultScope: 'session',
+    }
+
+    const global = cache.decide(
+      ctx('example.com', 443),
+      callback,
+      sessionOptions,
+    )
+    const scoped = cache.decide(ctx('example.com', 443), callback, {
+      ...sessionOptions,
+      invocationId: 'npm-test',
+    })
+    expect(calls).toHaveLength(2)
+    answer(true)
+    answer(false)
+
+    expect(await global).toEqual({ allowed: true, source: 'callback' })
+    expect(await scoped).toEqual({ allowed: false, source: 'callback' })
+    expect(
+      await cache.decide(ctx('example.com', 443), callback, {
+        ...sessionOptions,
+        invocationId: 'npm-test',
+      }),
+    ).toEqual({ allowed: false, source: 'cache' })
+    const other = cache.decide(ctx('example.com', 443), callback, {
+      ...sessionOptions,
+      invocationId: 'npm-install',
+    })
+    answer(true)
+    expect(await other).toEqual({ allowed: true, source: 'callback' })
+    expect(calls).toHaveLength(3)
+    expect(cache.getEntries()).toContainEqual(
+      expect.objectContaining({
+        host: 'example.com',
+        invocationId: 'npm-test',
+      }),
+    )
+  })
+
+  it('applies the default scope to plain boolean answers', async () => {
+    const cache = new AskDecisionCache()
+    await cache.decide(ctx('example.com', 443), async () => true, {
+      ...onceOptions,
+      defaultScope: 'session',
+    })
+
+    expect(cache.getEntries()).toHaveLength(1)
+  })
+
+  it('expires decisions scoped to a number of minutes', async () => {
+    const cache = new AskDecisionCache()
+    setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    await cache.decide(
+      ctx('example.com', 443),
+      async () => ({ allowed: true, scope: { minutes: 5 } }),
+      onceOptions,
+    )
+
+    setSystemTime(new Date('2026-01-01T00:04:59Z'))
+    expect(cache.getEntries()).toHaveLength(1)
+
+    setSystemTime(new Date('2026-01-01T00:05:00Z'))
+    expect(cache.getEntries()).toEqual([])
+  })
+
+  it('applies the timeout decision when the callback is too slow', async () => {
+    const cache = new AskDecisionCache()
+    const { callback } = deferredCallback()
+
+    const outcome = await cache.decide(ctx('example.com', 443), callback, {
+      timeoutMs: 20,
+      timeoutDecision: true,
+      defaultScope: 'session',
+    })
+
+    expect(outcome).toEqual({ allowed: true, source: 'timeout' })
+    expect(cache.getEntries()).toEqual([])
+  })
+
+  it('denies without caching when the callback throws', async () => {
+    const cache = new AskDecisionCache()
+    const outcome = await cache.decide(
+      ctx('example.com', 443),
+      async () => {
+        throw new Error('prompt failed')
+      },
+      { ...onceOptions, defaultScope: 'session' },
+    )
+
+    expect(outcome).toEqual({ allowed: false, source: 'error' })
+    expect(cache.getEntries()).toEqual([])
+  })
+
+  it('does not cache answers to asks started before a clear', async () => {
+    const cache = new AskDecisionCache()
+    const { callback, answer } = deferredCallback()
+
+    const pending = cache.decide(ctx('example.com', 443), callback, {
+      ...onceOptions,
+      defaultScope: 'session',
+    })
+    cache.clear()
+    answer(true)
+
+    expect(await pending).toEqual({ allowed: true, source: 'callback' })
+    expect(cache.getEntries()).toEqual([])
+  })
+})
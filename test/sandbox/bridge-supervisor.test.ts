@@ -0,0 +1,155 @@
+import { describe, test, expect } from 'bun:test'
+import { BridgeSupervisor } from '../../src/sandbox/bridge-supervisor.js'
+import type { BridgeEvent } from '../../src/sandbox/sandbox-schemas.js'
+import type { Bridge } from '../../src/sandbox/unix-socket-bridge.js'
+
+/** Bridge whose health is set by the test; restarts fail while `broken` */
+class FakeBridge implements Bridge {
+  healthy = true
+  broken = false
+  restarts = 0
+
+  constructor(
+    readonly name: string,
+    readonly socketPath: string,
+  ) {}
+
+  isHealthy(): boolean {
+    return this.healthy
+  }
+
+  async restart(): Promise<void> {
+    if (this.broken) {
+      throw new Error('address in use')
+    }
+    this.restarts++
+    this.healthy = true
+  }
+
+  async close(): Promise<void> {
+    this.healthy = false
+  }
+}
+
+function supervise(...bridges: Bridge[]): {
+  supervisor: BridgeSupervisor
+  events: BridgeEvent[]
+} {
+  // Long interval: the tests check explicitly
+  const supervisor = new BridgeSupervisor(60_000)
+  const events: BridgeEvent[] = []
+  supervisor.subscribe(event => events.push(event))
+  supervisor.watch(bridges)
+  return { supervisor, events }
+}
+
+describe('BridgeSupervisor', () => {
+  test('restarts a bridge that is down and reports it', async () => {
+    const http = new FakeBridge('HTTP', '/tmp/bridge/http.sock')
+    const socks = new FakeBridge('SOCKS', '/tmp/bridge/socks.sock')
+    const { supervisor, events } = supervise(http, socks)
+
+    socks.healthy = false
+    expect(await supervisor.check()).toBe(true)
+
+    expect(http.restarts).toBe(0)
+    expect(socks.restarts).toBe(1)
+    expect(events.map(event => [event.type, event.bridge])).toEqual([
+      ['down', 'SOCKS'],
+      ['restarted', 'SOCKS'],
+    ])
+    const [, socksHealth] = supervisor.getHealth()
+    expect(socksHealth).toMatchObject({
+      name: 'SOCKS',
+      socketPath: '/tmp/bridge/socks.sock',
+      healthy: true,
+      restarts: 1,
+    })
+    expect(socksHealth?.lastRestartAt).toBeString()
+    await supervisor.unwatch()
+  })
+
+  test('keeps retrying a bridge that fails to restart', async () => {
+    const http = new FakeBridge('HTTP', '/tmp/bridge/http.sock')
+    const { supervisor, events } = supervise(http)
+
+    http.healthy = false
+    http.broken = true
+    expect(await supervisor.check()).toBe(false)
+    expect(await supervisor.check()).toBe(false)
+    expect(supervisor.getHealth()[0]).toMatchObject({
+      healthy: false,
+      restarts: 0,
+      lastError: 'address in use',
+    })
+
+    http.broken = false
+    expect(await supervisor.check()).toBe(true)
+    expect(supervisor.getHealth()[0]?.lastError).toBeUndefined()
+    // Down is reported once per outage
+    expect(events.map(event => event.type)).toEqual([
+      'down',
+      'restart-failed',
+      'restart-failed',
+      'restarted',
+    ])
+    await supervisor.unwatch()
+  })
+
+  test('shares one check between concurrent callers', async () => {
+    const http = new FakeBridge('HTTP', '/tmp/bridge/http.sock')
+    const { supervisor } = supervise(http)
+
+    http.healthy = false
+    await Promise.all([supervisor.check(), supervisor.check()])
+    expect(http.restarts).toBe(1)
+    await supervisor.unwatch()
+  })
+
+  test('supervises bridges added later in the session', async () => {
+    const http = new FakeBridge('HTTP', '/tmp/bridge/http.sock')
+    const { supervisor } = supervise(http)
+    const service = new FakeBridge(
+      'host service 127.0.0.1:5432',
+      '/tmp/bridge/host-127.0.0.1-5432.sock',
+    )
+    supervisor.add([service])
+
+    service.healthy = false
+    expect(await supervisor.check()).toBe(true)
+    expect(service.restarts).toBe(1)
+    expect(supervisor.getHealth().map(health => health.name)).toEqual([
+      'HTTP',
+      'host service 127.0.0.1:5432',
+    ])
+    await supervisor.unwatch()
+  })
+
+  test('stops supervising bridges that were removed', async () => {
+    const http = new FakeBridge('HTTP', '/tmp/bridge/http.sock')
+    const { supervisor } = supervise(http)
+    const service = new FakeBridge(
+      'host service 127.0.0.1:5432',
+      '/tmp/bridge/s-1/host/host-127.0.0.1-5432.sock',
+    )
+    supervisor.add([service])
+    supervisor.remove([service])
+
+    await service.close()
+    expect(await supervisor.check()).toBe(true)
+    expect(service.restarts).toBe(0)
+    expect(supervisor.getHealth().map(health => health.name)).toEqual(['HTTP'])
+    await supervisor.unwatch()
+  })
+
+  test('forgets the bridges when unwatched', async () => {
+    const http = new FakeBridge('HTTP', '/tmp/bridge/http.sock')
+    const { supervisor } = supervise(http)
+
+    await supervisor.unwatch()
+    http.healthy = false
+    expect(await supervisor.check()).toBe(true)
+    expect(http.restarts).toBe(0)
+    expect(supervisor.getHealth()).toEqual([])
+  })
+})
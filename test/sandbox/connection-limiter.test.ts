@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'bun:test'
+import { PassThrough } from 'node:stream'
+import {
+  ConnectionLease,
+  ConnectionLimiter,
+  getClosedConnectionDecision,
+  type ConnectionTarget,
+} from '../../src/sandbox/connection-limiter.js'
+import type { NetworkLimitsConfig } from '../../src/sandbox/sandbox-config.js'
+
+function target(host: string): ConnectionTarget {
+  return {
+    protocol: 'CONNECT',
+    host,
+    port: 443,
+    rule: `allowedDomains:${host}`,
+  }
+}
+
+function acquireLease(
+  limiter: ConnectionLimiter,
+  host: string,
+): ConnectionLease {
+  const lease = limiter.acquire(target(host))
+  if (!(lease instanceof ConnectionLease)) {
+    throw new Error(`Connection refused by ${lease.rule}`)
+  }
+  return lease
+}
+
+/**
+ * Write chunks through a meter and collect what comes out
+ */
+async function meterChunks(
+  lease: ConnectionLease,
+  chunks: string[],
+): Promise<string> {
+  const meter = lease.meter('up')
+  const sink = new PassThrough()
+  meter.pipe(sink)
+  let output = ''
+  sink.on('data', chunk => (output += chunk))
+  for (const chunk of chunks) {
+    meter.write(chunk)
+  }
+  meter.end()
+  await new Promise(resolve => sink.on('end', resolve))
+  return output
+}
+
+describe('ConnectionLimiter', () => {
+  it('limits concurrent connections per host', () => {
+    const limiter = new ConnectionLimiter(() => ({ maxConnectionsPerHost: 1 }))
+    const first = acquireLease(limiter, 'Example.com')
+
+    expect(limiter.acquire(target('example.com'))).toEqual({
+      allowed: false,
+      rule: 'limits:maxConnectionsPerHost',
+    })
+    expect(limiter.acquire(target('other.com'))).toBeInstanceOf(ConnectionLease)
+
+    first.release()
+    first.release()
+    expect(limiter.getOpenConnections().get('example.com')).toBeUndefined()
+    expect(limiter.acquire(target('example.com'))).toBeInstanceOf(
+      ConnectionLease,
+    )
+  })
+
+  it('closes a connection that exceeds its byte cap and drops the rest', async () => {
+    const limiter = new ConnectionLimiter(() => ({ maxBytesPerConnection: 8 }))
+    const lease = acquireLease(limiter, 'example.com')
+    const hits: string[] = []
+    lease.onLimit(rule => hits.push(rule))
+
+    const output = await meterChunks(lease, ['1234', '5678', '9', '0'])
+    expect(output).toBe('12345678')
+    expect(hits).toEqual(['limits:maxBytesPerConnection'])
+    expect(getClosedConnectionDecision('allowedDomains:x', lease)).toEqual({
+      decision: 'deny',
+      rule: 'limits:maxBytesPerConnection',
+    })
+  })
+
+  it('drops datagrams once they exceed the byte cap', () => {
+    const limiter = new ConnectionLimiter(() => ({ maxBytesPerConnection: 8 }))
+    const lease = acquireLease(limiter, 'example.com')
+    const sent: number[] = []
+    const hits: string[] = []
+    lease.onLimit(rule => hits.push(rule))
+
+    expect(lease.meterDatagram('up', 5, () => sent.push(5))).toBe(true)
+    expect(lease.meterDatagram('down', 5, () => sent.push(6))).toBe(false)
+    expect(lease.meterDatagram('up', 1, () => sent.push(1))).toBe(false)
+    expect(sent).toEqual([5])
+    expect(hits).toEqual(['limits:maxBytesPerConnection'])
+    expect(lease.describe()).toMatchObject({ bytesUp: 5, bytesDown: 0 })
+  })
+
+  it('shares the session byte cap between connections until reset', async () => {
+    const limiter = new ConnectionLimiter(() => ({ maxBytesPerSession: 6 }))
+    const first = acquireLease(limiter, 'a.example.com')
+    const second = acquireLease(limiter, 'b.example.com')
+
+    expect(await meterChunks(first, ['1234'])).toBe('1234')
+    expect(await meterChunks(second, ['12', '34'])).toBe('12')
+    expect(second.exceeded).toBe('limits:maxBytesPerSession')
+    expect(first.exceeded).toBeUndefined()
+
+    expect(limiter.acquire(target('c.example.com'))).toEqual({
+      allowed: false,
+      rule: 'limits:maxBytesPerSession',
+    })
+    limiter.reset()
+    expect(limiter.acquire(target('c.example.com'))).toBeInstanceOf(
+      ConnectionLease,
+    )
+  })
+
+  it('closes connections that stay idle', async () => {
+    const limiter = new ConnectionLimiter(() => ({ idleTimeoutMs: 30 }))
+    const lease = acquireLease(limiter, 'example.com')
+    const hit = new Promise(resolve => lease.onLimit(resolve))
+
+    expect(await hit).toBe('limits:idleTimeoutMs')
+    expect(
+      getClosedConnectionDecision('allowedDomains:x', lease).decision,
+    ).toBe('deny')
+  })
+
+  it('paces transfers to the bandwidth limit', async () => {
+    const limits: NetworkLimitsConfig = { uploadBytesPerSecond: 1000 }
+    const limiter = new ConnectionLimiter(() => limits)
+    const lease = acquireLease(limiter, 'example.com')
+
+    const startedAt = Date.now()
+    const output = await meterChunks(lease, ['x'.repeat(100), 'y'.repeat(100)])
+    expect(output).toHaveLength(200)
+    // The second chunk waits for the first 100 bytes to drain at 1000 B/s
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90)
+  })
+
+  it('reports allowed connections with the rule that allowed them', () => {
+    const limiter = new ConnectionLimiter(() => undefined)
+    const lease = acquireLease(limiter, 'example.com')
+    expect(getClosedConnectionDecision('allowedDomains:x', lease)).toEqual({
+      decision: 'allow',
+      rule: 'allowedDomains:x',
+    })
+    expect(getClosedConnectionDecision('filter', undefined)).toEqual({
+      decision: 'allow',
+      rule: 'filter',
+    })
+  })
+
+  it('lists open connections with their bytes in each direction', async () => {
+    const limiter = new ConnectionLimiter(() => undefined)
+    const lease = acquireLease(limiter, 'example.com')
+    acquireLease(limiter, 'other.com').release()
+
+    await meterChunks(lease, ['1234'])
+    const [connection, ...rest] = limiter.getActiveConnections()
+    expect(rest).toEqual([])
+    expect(connection).toMatchObject({
+      id: lease.id,
+      protocol: 'CONNECT',
+      host: 'example.com',
+      port: 443,
+      rule: 'allowedDomains:example.com',
+      bytesUp: 4,
+      bytesDown: 0,
+    })
+    expect(connection!.ageMs).toBeGreaterThanOrEqual(0)
+    expect(Date.parse(connection!.openedAt)).not.toBeNaN()
+  })
+
+  it('revokes the connections the callback names a rule for', () => {
+    const limiter = new ConnectionLimiter(() => undefined)
+    const kept = acquireLease(limiter, 'example.com')
+    const revoked = acquireLease(limiter, 'evil.example')
+    const hits: string[] = []
+    revoked.onLimit(rule => hits.push(rule))
+
+    const count = limiter.revoke(({ host }) =>
+      host === 'evil.example' ? 'revoked:no-matching-rule' : undefined,
+    )
+    expect(count).toBe(1)
+    expect(hits).toEqual(['revoked:no-matching-rule'])
+    expect(kept.exceeded).toBeUndefined()
+    expect(getClosedConnectionDecision('allowedDomains:x', revoked)).toEqual({
+      decision: 'deny',
+      rule: 'revoked:no-matching-rule',
+    })
+
+    // A connection is only revoked once, and handlers added after the fact
+    // are still told to close it
+    expect(limiter.revoke(() => 'revoked:kill-switch')).toBe(1)
+    const late: string[] = []
+    revoked.onLimit(rule => late.push(rule))
+    expect(late).toEqual(['revoked:no-matching-rule'])
+  })
+})
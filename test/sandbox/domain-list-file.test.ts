@@ -0,0 +1,75 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  loadDomainListFiles,
+  parseDomainList,
+} from '../../src/sandbox/domain-list-file.js'
+
+describe('parseDomainList', () => {
+  test('reads one rule per line, skipping comments and blank lines', () => {
+    const content = [
+      '# Build dependencies',
+      'registry.npmjs.org',
+      '',
+      '  *.example.com:443  # trailing comment',
+      '**.example.org',
+    ].join('\n')
+    expect(parseDomainList(content, 'list.txt')).toEqual([
+      'registry.npmjs.org',
+      '*.example.com:443',
+      '**.example.org',
+    ])
+  })
+
+  test('reads hosts-file lines, skipping local names', () => {
+    const content = [
+      '127.0.0.1 localhost',
+      '::1 localhost ip6-localhost ip6-loopback',
+      '0.0.0.0 0.0.0.0',
+      '0.0.0.0 ads.example.com',
+      '0.0.0.0\ttracker.example.com metrics.example.com',
+    ].join('\r\n')
+    expect(parseDomainList(content, 'hosts')).toEqual([
+      'ads.example.com',
+      'tracker.example.com',
+      'metrics.example.com',
+    ])
+  })
+
+  test('rejects invalid rules and lines with the line number', () => {
+    expect(() => parseDomainList('ok.example.com\n*.com', 'list.txt')).toThrow(
+      'Invalid domain rule "*.com" in domain list list.txt:2',
+    )
+    expect(() =>
+      parseDomainList('a.example.com b.example.com', 'list'),
+    ).toThrow('Invalid line in domain list list:1')
+  })
+})
+
+describe('loadDomainListFiles', () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'domain-list-test-'))
+    writeFileSync(join(dir, 'allow.txt'), 'a.example.com\n')
+    writeFileSync(join(dir, 'hosts'), '0.0.0.0 b.example.com\n')
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('concatenates the rules of the files in order', () => {
+    expect(
+      loadDomainListFiles([join(dir, 'allow.txt'), join(dir, 'hosts')]),
+    ).toEqual(['a.example.com', 'b.example.com'])
+  })
+
+  test('fails on files that cannot be read', () => {
+    expect(() => loadDomainListFiles([join(dir, 'missing.txt')])).toThrow(
+      'Cannot read domain list',
+    )
+  })
+})
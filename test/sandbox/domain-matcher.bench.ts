@@ -0,0 +1,38 @@
+/**
+ * Compares DomainMatcher with a linear scan of matchesDomainPattern on a
+ * large deny list. Run with `bun test/sandbox/domain-matcher.bench.ts`.
+ */
+import { DomainMatcher } from '../../src/sandbox/domain-matcher.js'
+import { matchesDomainPattern } from '../../src/sandbox/domain-pattern.js'
+
+const RULE_COUNT = 50_000
+const LOOKUPS = 2_000
+
+const patterns = Array.from({ length: RULE_COUNT }, (_, i) =>
+  i % 3 === 0 ? `*.blocked-${i}.example` : `tracker-${i}.example.com`,
+)
+const hosts = Array.from({ length: LOOKUPS }, (_, i) =>
+  i % 2 === 0 ? `cdn.blocked-${i * 3}.example` : `allowed-${i}.example.org`,
+)
+
+function measure(name: string, lookup: (host: string) => unknown): void {
+  const startedAt = performance.now()
+  for (const host of hosts) {
+    lookup(host)
+  }
+  const elapsed = performance.now() - startedAt
+  console.log(
+    `${name}: ${((elapsed * 1000) / LOOKUPS).toFixed(1)}µs per lookup`,
+  )
+}
+
+const compileStartedAt = performance.now()
+const matcher = new DomainMatcher(patterns)
+console.log(
+  `compile ${RULE_COUNT} rules: ${(performance.now() - compileStartedAt).toFixed(0)}ms`,
+)
+
+measure('DomainMatcher', host => matcher.match(host, 443))
+measure('linear scan', host =>
+  patterns.find(pattern => matchesDomainPattern(host, 443, pattern)),
+)
@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'bun:test'
+import { DomainMatcher } from '../../src/sandbox/domain-matcher.js'
+import { matchesDomainPattern } from '../../src/sandbox/domain-pattern.js'
+
+/** The linear scan the matcher replaces */
+function scan(patterns: string[], host: string, port: number) {
+  return patterns.find(pattern => matchesDomainPattern(host, port, pattern))
+}
+
+/** Deterministic pseudo-random numbers (mulberry32) */
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const LABELS = ['a', 'b', 'api', 'example', 'github', 'com', 'org', 'io']
+const HOST_RULE_PREFIXES = ['', '*.', '**.']
+const PORT_SPECS = ['', ':443', ':80', ':8000-9000']
+const OTHER_RULES = [
+  '*',
+  '*:443',
+  '127.0.0.1',
+  '10.0.0.0/8:22',
+  '[::1]:8080',
+  'intranet',
+  'not a rule',
+]
+const OTHER_HOSTS = [
+  '127.0.0.1',
+  '0x7f.1',
+  '10.1.2.3',
+  '::1',
+  'intranet',
+  'github.com.',
+  'a..com',
+]
+
+describe('DomainMatcher', () => {
+  test('returns the first matching rule in list order', () => {
+    const matcher = new DomainMatcher([
+      '*.example.com:443',
+      'api.example.com',
+      '**.example.com',
+      '*',
+    ])
+    expect(matcher.match('api.example.com', 443)).toBe('*.example.com:443')
+    expect(matcher.match('api.example.com', 80)).toBe('api.example.com')
+    expect(matcher.match('example.com', 80)).toBe('**.example.com')
+    expect(matcher.match('example.org', 80)).toBe('*')
+  })
+
+  test('matches canonical hosts and rejects ambiguous ones', () => {
+    const matcher = new DomainMatcher(['GitHub.com.', '127.0.0.0/8'])
+    expect(matcher.match('github.com.', 443)).toBe('GitHub.com.')
+    expect(matcher.match('git%68ub.com', 443)).toBe('GitHub.com.')
+    expect(matcher.match('2130706433', 443)).toBe('127.0.0.0/8')
+    expect(matcher.match('github.com..', 443)).toBeUndefined()
+  })
+
+  test('does not match subdomain wildcards against the apex', () => {
+    const matcher = new DomainMatcher(['*.example.com'])
+    expect(matcher.match('example.com', 443)).toBeUndefined()
+    expect(matcher.match('a.b.example.com', 443)).toBe('*.example.com')
+    expect(matcher.match('badexample.com', 443)).toBeUndefined()
+  })
+
+  test('matches hosts on some port or on every port', () => {
+    const matcher = new DomainMatcher([
+      'db.example.com:5432',
+      '*:25',
+      '**.example.com',
+    ])
+    expect(matcher.matchAnyPort('db.example.com')).toBe('db.example.com:5432')
+    expect(matcher.matchEveryPort('db.example.com')).toBe('**.example.com')
+    expect(matcher.matchAnyPort('example.org')).toBe('*:25')
+    expect(matcher.matchEveryPort('example.org')).toBeUndefined()
+  })
+
+  test('matches only localhost and IP rules as address rules', () => {
+    const matcher = new DomainMatcher([
+      '*',
+      '**.internal.example',
+      'db.internal.example:5432',
+      'localhost:3000',
+      '10.0.0.0/8',
+    ])
+    expect(
+      matcher.matchAddressRule('db.internal.example', 5432),
+    ).toBeUndefined()
+    expect(matcher.matchAddressRule('internal.example', 443)).toBeUndefined()
+    expect(matcher.matchAddressRule('localhost', 3000)).toBe('localhost:3000')
+    expect(matcher.matchAddressRule('localhost', 80)).toBeUndefined()
+    expect(matcher.matchAddressRule('10.1.2.3', 443)).toBe('10.0.0.0/8')
+    expect(matcher.matchAddressRule('example.com', 443)).toBeUndefined()
+  })
+
+  test('makes the same decisions as scanning the rules in order', () => {
+    const random = createRandom(42)
+    const pick = <T>(items: T[]): T =>
+      items[Math.floor(random() * items.length)]!
+    const randomDomain = () =>
+      Array.from({ length: 1 + Math.floor(random() * 3) }, () =>
+        pick(LABELS),
+      ).join('.')
+
+    for (let round = 0; round < 50; round++) {
+      const patterns = Array.from({ length: 20 }, () =>
+        random() < 0.2
+          ? pick(OTHER_RULES)
+          : pick(HOST_RULE_PREFIXES) + randomDomain() + pick(PORT_SPECS),
+      )
+      const matcher = new DomainMatcher(patterns)
+
+      for (let i = 0; i < 100; i++) {
+        const host = random() < 0.1 ? pick(OTHER_HOSTS) : randomDomain()
+        const port = pick([22, 80, 443, 8080, 8500])
+        expect(matcher.match(host, port)).toBe(scan(patterns, host, port))
+      }
+    }
+  })
+})
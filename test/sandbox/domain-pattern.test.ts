@@ -0,0 +1,214 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  parseDomainPattern,
+  matchesDomainPattern,
+} from '../../src/sandbox/domain-pattern.js'
+
+describe('parseDomainPattern', () => {
+  test('parses host-only rules', () => {
+    expect(parseDomainPattern('*')).toEqual({
+      kind: 'any',
+      host: '',
+      ports: undefined,
+    })
+    expect(parseDomainPattern('GitHub.com')).toEqual({
+      kind: 'exact',
+      host: 'github.com',
+      ports: undefined,
+    })
+    expect(parseDomainPattern('*.example.com')).toEqual({
+      kind: 'subdomains',
+      host: 'example.com',
+      ports: undefined,
+    })
+    expect(parseDomainPattern('**.example.com')).toEqual({
+      kind: 'apexAndSubdomains',
+      host: 'example.com',
+      ports: undefined,
+    })
+  })
+
+  test('parses single ports and port ranges', () => {
+    expect(parseDomainPattern('github.com:443')?.ports).toEqual({
+      from: 443,
+      to: 443,
+    })
+    expect(parseDomainPattern('*.internal.org:8080-8090')?.ports).toEqual({
+      from: 8080,
+      to: 8090,
+    })
+    expect(parseDomainPattern('*:443')).toEqual({
+      kind: 'any',
+      host: '',
+      ports: { from: 443, to: 443 },
+    })
+  })
+
+  test('parses rules in canonical form', () => {
+    expect(parseDomainPattern('GitHub.com.:443')).toEqual({
+      kind: 'exact',
+      host: 'github.com',
+      ports: { from: 443, to: 443 },
+    })
+    expect(parseDomainPattern('*.BÜCHER.de')).toEqual({
+      kind: 'subdomains',
+      host: 'xn--bcher-kva.de',
+      ports: undefined,
+    })
+    expect(parseDomainPattern('0x7f.1')).toMatchObject({
+      kind: 'ipRange',
+      host: '127.0.0.1',
+    })
+    for (const rule of [
+      'github.com..',
+      '*.a..com',
+      'xn--abc.com',
+      '1.2.3.256',
+    ]) {
+      expect(parseDomainPattern(rule)).toBeUndefined()
+    }
+  })
+
+  test('parses IP literal and prefix rules', () => {
+    expect(parseDomainPattern('10.0.0.5')).toMatchObject({
+      kind: 'ipRange',
+      host: '10.0.0.5',
+      ports: undefined,
+    })
+    expect(parseDomainPattern('2001:DB8::/32')).toMatchObject({
+      kind: 'ipRange',
+      host: '2001:db8::/32',
+      ports: undefined,
+    })
+    expect(parseDomainPattern('[2001:db8::1]:443')).toMatchObject({
+      kind: 'ipRange',
+      host: '2001:db8::1',
+      ports: { from: 443, to: 443 },
+    })
+    expect(parseDomainPattern('[fd00::]/8:8000-8100')).toMatchObject({
+      kind: 'ipRange',
+      host: 'fd00::/8',
+      ports: { from: 8000, to: 8100 },
+    })
+  })
+
+  test('rejects invalid rules', () => {
+    const invalid = [
+      'https://example.com',
+      'example.com/path',
+      'example.com:',
+      'example.com:0',
+      'example.com:65536',
+      'example.com:90-80',
+      'example.com:http',
+      'example.com:443:443',
+      '*.com',
+      '**.com',
+      '***.example.com',
+      '*example.com',
+      'not-a-domain',
+      '[2001:db8::1]:',
+      '[2001:db8::1]443',
+      '[10.0.0.5]:443',
+      '[example.com]:443',
+      '2001:db8::/129',
+      '10.0.0.0/33',
+      'example.com/8',
+    ]
+    for (const pattern of invalid) {
+      expect(parseDomainPattern(pattern)).toBeUndefined()
+    }
+  })
+})
+
+describe('matchesDomainPattern', () => {
+  test('subdomain wildcard does not match the apex', () => {
+    expect(matchesDomainPattern('api.example.com', 443, '*.example.com')).toBe(
+      true,
+    )
+    expect(matchesDomainPattern('example.com', 443, '*.example.com')).toBe(
+      false,
+    )
+  })
+
+  test('apex-inclusive wildcard matches the apex and subdomains', () => {
+    expect(matchesDomainPattern('example.com', 443, '**.example.com')).toBe(
+      true,
+    )
+    expect(matchesDomainPattern('a.b.example.com', 80, '**.example.com')).toBe(
+      true,
+    )
+    expect(matchesDomainPattern('badexample.com', 443, '**.example.com')).toBe(
+      false,
+    )
+  })
+
+  test('port constraints restrict matches', () => {
+    expect(matchesDomainPattern('github.com', 443, 'github.com:443')).toBe(true)
+    expect(matchesDomainPattern('github.com', 22, 'github.com:443')).toBe(false)
+    expect(
+      matchesDomainPattern(
+        'svc.internal.org',
+        8085,
+        '*.internal.org:8080-8090',
+      ),
+    ).toBe(true)
+    expect(
+      matchesDomainPattern(
+        'svc.internal.org',
+        8091,
+        '*.internal.org:8080-8090',
+      ),
+    ).toBe(false)
+    expect(matchesDomainPattern('anything.test', 443, '*:443')).toBe(true)
+    expect(matchesDomainPattern('anything.test', 80, '*:443')).toBe(false)
+  })
+
+  test('IP rules match any spelling of the address', () => {
+    expect(matchesDomainPattern('2001:0db8:0:0::1', 443, '2001:db8::1')).toBe(
+      true,
+    )
+    expect(
+      matchesDomainPattern('[2001:db8::1]', 443, '[2001:DB8::1]:443'),
+    ).toBe(true)
+    expect(matchesDomainPattern('2001:db8::1', 80, '[2001:db8::1]:443')).toBe(
+      false,
+    )
+    expect(matchesDomainPattern('2001:db8:5::1', 22, '2001:db8::/32')).toBe(
+      true,
+    )
+    expect(matchesDomainPattern('2001:db9::1', 22, '2001:db8::/32')).toBe(false)
+    expect(matchesDomainPattern('::ffff:10.0.0.5', 80, '10.0.0.0/8')).toBe(true)
+    expect(matchesDomainPattern('10.example.com', 80, '10.0.0.0/8')).toBe(false)
+  })
+
+  test('matching is case-insensitive', () => {
+    expect(matchesDomainPattern('API.GitHub.com', 443, '*.github.COM')).toBe(
+      true,
+    )
+  })
+
+  test('hosts and rules are compared in canonical form', () => {
+    expect(matchesDomainPattern('github.com.', 443, 'github.com')).toBe(true)
+    expect(matchesDomainPattern('git%68ub.com', 443, 'github.com')).toBe(true)
+    expect(matchesDomainPattern('api.github.com.', 443, '*.github.com')).toBe(
+      true,
+    )
+    expect(matchesDomainPattern('bücher.de', 443, 'xn--bcher-kva.de')).toBe(
+      true,
+    )
+    expect(matchesDomainPattern('xn--bcher-kva.de', 443, 'BÜCHER.de.')).toBe(
+      true,
+    )
+    expect(matchesDomainPattern('0x7f.1', 80, '127.0.0.1')).toBe(true)
+    expect(matchesDomainPattern('2130706433', 80, '127.0.0.0/8')).toBe(true)
+    expect(matchesDomainPattern('127.1', 80, '0x7f.0.0.1')).toBe(true)
+  })
+
+  test('ambiguous hosts match no rule', () => {
+    expect(matchesDomainPattern('github.com..', 443, 'github.com')).toBe(false)
+    expect(matchesDomainPattern('a..github.com', 443, '*.github.com')).toBe(
+      false,
+    )
+  })
+})
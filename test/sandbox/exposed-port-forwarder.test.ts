@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs'
+import { once } from 'node:events'
+import { connect, createServer, type AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  ExposedPortForwarder,
+  getExposedPortSocketPath,
+} from '../../src/sandbox/exposed-port-forwarder.js'
+
+/** A port that was free a moment ago */
+async function freePort(): Promise<number> {
+  const server = createServer()
+  server.listen(0, '127.0.0.1')
+  await once(server, 'listening')
+  const { port } = server.address() as AddressInfo
+  await new Promise(resolve => server.close(resolve))
+  return port
+}
+
+/** Send `payload` to the host port and collect everything that comes back */
+async function exchange(port: number, payload: string): Promise<string> {
+  const socket = connect({ host: '127.0.0.1', port })
+  await once(socket, 'connect')
+  let received = ''
+  socket.on('data', chunk => (received += chunk))
+  socket.end(payload)
+  await once(socket, 'close')
+  return received
+}
+
+describe('ExposedPortForwarder', () => {
+  let dir: string
+  let forwarder: ExposedPortForwarder
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'srt-expose-test-'))
+    forwarder = new ExposedPortForwarder()
+  })
+
+  afterEach(async () => {
+    await forwarder.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('relays host connections to the socket the sandbox serves', async () => {
+    const port = await freePort()
+    // Stands in for the listener inside the sandbox
+    const sandboxSide = createServer({ allowHalfOpen: true }, socket => {
+      let data = ''
+      socket.on('data', chunk => (data += chunk))
+      socket.on('end', () => socket.end(data.toUpperCase()))
+    })
+    sandboxSide.listen(getExposedPortSocketPath(dir, port))
+    await once(sandboxSide, 'listening')
+
+    try {
+      await forwarder.expose([port], dir)
+      expect(forwarder.ports).toEqual([port])
+      expect(await exchange(port, 'hello')).toBe('HELLO')
+    } finally {
+      sandboxSide.close()
+    }
+  })
+
+  test('closes connections while no sandbox serves the port', async () => {
+    const port = await freePort()
+    await forwarder.expose([port], dir)
+    expect(await exchange(port, 'hello')).toBe('')
+  })
+
+  test('relays to the latest sandbox exposing the port until all are released', async () => {
+    const port = await freePort()
+    const servers = ['first', 'second'].map(name => {
+      const sandboxDir = join(dir, name)
+      mkdirSync(sandboxDir)
+      const server = createServer(socket => socket.end(name))
+      server.listen(getExposedPortSocketPath(sandboxDir, port))
+      return { sandboxDir, server }
+    })
+    await Promise.all(servers.map(({ server }) => once(server, 'listening')))
+
+    try {
+      await forwarder.expose([port], servers[0]!.sandboxDir)
+      await forwarder.expose([port], servers[1]!.sandboxDir)
+      expect(await exchange(port, '')).toBe('second')
+
+      await forwarder.release(servers[1]!.sandboxDir)
+      expect(await exchange(port, '')).toBe('first')
+
+      await forwarder.release(servers[0]!.sandboxDir)
+      expect(forwarder.ports).toEqual([])
+    } finally {
+      servers.forEach(({ server }) => server.close())
+    }
+  })
+
+  test('frees the port on the host once no sandbox exposes it', async () => {
+    const port = await freePort()
+    await forwarder.expose([port], dir)
+    await forwarder.release(dir)
+
+    const server = createServer()
+    server.listen(port, '127.0.0.1')
+    await once(server, 'listening')
+    server.close()
+  })
+
+  test('listens on each port once', async () => {
+    const port = await freePort()
+    await forwarder.expose([port], dir)
+    await forwarder.expose([port, port], dir)
+    expect(forwarder.ports).toEqual([port])
+  })
+
+  test('rejects ports that are taken on the host', async () => {
+    const taken = createServer()
+    taken.listen(0, '127.0.0.1')
+    await once(taken, 'listening')
+    const { port } = taken.address() as AddressInfo
+
+    try {
+      await expect(forwarder.expose([port], dir)).rejects.toThrow(
+        `Cannot expose port ${port}`,
+      )
+      expect(forwarder.ports).toEqual([])
+    } finally {
+      taken.close()
+    }
+  })
+})
@@ -0,0 +1,224 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { once } from 'node:events'
+import {
+  connect,
+  createServer,
+  type AddressInfo,
+  type Server,
+  type Socket,
+} from 'node:net'
+import { ConnectionLimiter } from '../../src/sandbox/connection-limiter.js'
+import {
+  formatHostService,
+  getHostServiceSocketPath,
+  parseHostService,
+  relayToHostService,
+  type HostService,
+  type HostServiceRelayOptions,
+} from '../../src/sandbox/host-service.js'
+import type { NetworkAuditEvent } from '../../src/sandbox/sandbox-schemas.js'
+
+describe('parseHostService', () => {
+  test('accepts loopback addresses and localhost with a port', () => {
+    expect(parseHostService('127.0.0.1:5432')).toEqual({
+      host: '127.0.0.1',
+      port: 5432,
+    })
+    expect(parseHostService('127.0.0.2:80')).toEqual({
+      host: '127.0.0.2',
+      port: 80,
+    })
+    expect(parseHostService('LocalHost:8080')).toEqual({
+      host: 'localhost',
+      port: 8080,
+    })
+    expect(parseHostService('[0:0::1]:6379')).toEqual({
+      host: '::1',
+      port: 6379,
+    })
+  })
+
+  test('rejects other hosts and missing or invalid ports', () => {
+    for (const spec of [
+      '10.0.0.5:5432',
+      '0.0.0.0:5432',
+      'db.internal:5432',
+      '[::ffff:127.0.0.1]:5432',
+      '127.0.0.1',
+      '127.0.0.1:0',
+      '127.0.0.1:70000',
+      '::1:6379',
+    ]) {
+      expect(parseHostService(spec)).toBeUndefined()
+    }
+  })
+})
+
+describe('host service helpers', () => {
+  test('format services as authorities', () => {
+    expect(formatHostService({ host: '127.0.0.1', port: 5432 })).toBe(
+      '127.0.0.1:5432',
+    )
+    expect(formatHostService({ host: '::1', port: 6379 })).toBe('[::1]:6379')
+  })
+
+  test('name sockets without characters socat reads as separators', () => {
+    expect(
+      getHostServiceSocketPath('/tmp/bridge', { host: '::1', port: 6379 }),
+    ).toBe('/tmp/bridge/host-__1-6379.sock')
+    expect(
+      getHostServiceSocketPath('/tmp/bridge', {
+        host: '127.0.0.1',
+        port: 5432,
+      }),
+    ).toBe('/tmp/bridge/host-127.0.0.1-5432.sock')
+  })
+})
+
+describe('relayToHostService', () => {
+  const invocation = { id: 'npm-test', command: 'npm test' }
+  let service: HostService
+  let echoServer: Server
+
+  beforeAll(async () => {
+    echoServer = createServer(socket => socket.pipe(socket))
+    echoServer.listen(0, '127.0.0.1')
+    await once(echoServer, 'listening')
+    service = {
+      host: '127.0.0.1',
+      port: (echoServer.address() as AddressInfo).port,
+    }
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => echoServer.close(resolve))
+  })
+
+  /**
+   * Serve the relay as a sandbox's bridge would and connect to it. Resolves
+   * with what came back once the connection closed.
+   */
+  async function connectThroughBridge(
+    options: HostServiceRelayOptions,
+    send: (socket: Socket) => void,
+  ): Promise<string> {
+    const bridge = createServer(
+      relayToHostService(service, invocation, options),
+    )
+    bridge.listen(0, '127.0.0.1')
+    await once(bridge, 'listening')
+    const socket = connect((bridge.address() as AddressInfo).port, '127.0.0.1')
+    let received = ''
+    socket.on('data', chunk => (received += chunk))
+    socket.on('error', () => {})
+    send(socket)
+    await once(socket, 'close')
+    await new Promise(resolve => bridge.close(resolve))
+    return received
+  }
+
+  test('relays allowed connections and records them when they close', async () => {
+    const events: NetworkAuditEvent[] = []
+    const received = await connectThroughBridge(
+      {
+        filter: () => ({ allowed: true, rule: 'allowHostServices:test' }),
+        onAuditEvent: event => events.push(event),
+      },
+      socket => {
+        socket.write('ping')
+        socket.once('data', () => socket.end())
+      },
+    )
+
+    expect(received).toBe('ping')
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(events).toEqual([
+      expect.objectContaining({
+        protocol: 'HOST_SERVICE',
+        host: '127.0.0.1',
+        port: service.port,
+        decision: 'allow',
+        rule: 'allowHostServices:test',
+        invocation,
+        bytesUp: 4,
+        bytesDown: 4,
+      }),
+    ])
+  })
+
+  test('closes connections the filter denies', async () => {
+    const events: NetworkAuditEvent[] = []
+    const received = await connectThroughBridge(
+      {
+        filter: () => ({ allowed: false, rule: 'kill-switch' }),
+        onAuditEvent: event => events.push(event),
+      },
+      socket => socket.write('ping'),
+    )
+
+    expect(received).toBe('')
+    expect(events).toEqual([
+      expect.objectContaining({
+        protocol: 'HOST_SERVICE',
+        decision: 'deny',
+        rule: 'kill-switch',
+      }),
+    ])
+  })
+
+  test('holds a lease that revoking closes the connection with', async () => {
+    const events: NetworkAuditEvent[] = []
+    const limiter = new ConnectionLimiter(() => undefined)
+    const received = await connectThroughBridge(
+      {
+        filter: () => ({ allowed: true, rule: 'allowHostServices:test' }),
+        limiter,
+        onAuditEvent: event => events.push(event),
+      },
+      socket => {
+        socket.write('ping')
+        socket.once('data', () => {
+          expect(limiter.getActiveConnections()).toEqual([
+            expect.objectContaining({
+              protocol: 'HOST_SERVICE',
+              port: service.port,
+              invocation,
+            }),
+          ])
+          limiter.revoke(() => 'revoked:kill-switch')
+        })
+      },
+    )
+
+    expect(received).toBe('ping')
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(limiter.getActiveConnections()).toEqual([])
+    expect(events).toEqual([
+      expect.objectContaining({
+        protocol: 'HOST_SERVICE',
+        decision: 'deny',
+        rule: 'revoked:kill-switch',
+      }),
+    ])
+  })
+
+  test('refuses connections over the limits', async () => {
+    const events: NetworkAuditEvent[] = []
+    const received = await connectThroughBridge(
+      {
+        filter: () => ({ allowed: true, rule: 'allowHostServices:test' }),
+        limiter: new ConnectionLimiter(() => ({ maxConnectionsPerHost: 0 })),
+        onAuditEvent: event => events.push(event),
+      },
+      socket => socket.write('ping'),
+    )
+
+    expect(received).toBe('')
+    expect(events).toEqual([
+      expect.objectContaining({
+        decision: 'deny',
+        rule: 'limits:maxConnectionsPerHost',
+      }),
+    ])
+  })
+})
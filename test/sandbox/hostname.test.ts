@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'bun:test'
+import { normalizeHostname } from '../../src/sandbox/hostname.js'
+
+describe('normalizeHostname', () => {
+  test('lowercases and strips a trailing dot', () => {
+    expect(normalizeHostname('GitHub.com')).toBe('github.com')
+    expect(normalizeHostname('github.com.')).toBe('github.com')
+    expect(normalizeHostname('localhost')).toBe('localhost')
+  })
+
+  test('converts internationalized names to ASCII', () => {
+    expect(normalizeHostname('BÜCHER.de')).toBe('xn--bcher-kva.de')
+    expect(normalizeHostname('xn--bcher-kva.de')).toBe('xn--bcher-kva.de')
+  })
+
+  test('decodes percent-encoding', () => {
+    expect(normalizeHostname('git%68ub.com')).toBe('github.com')
+    expect(normalizeHostname('%47ithub.com.')).toBe('github.com')
+  })
+
+  test('decodes alternate IPv4 notations', () => {
+    expect(normalizeHostname('127.0.0.1')).toBe('127.0.0.1')
+    expect(normalizeHostname('0x7f.1')).toBe('127.0.0.1')
+    expect(normalizeHostname('2130706433')).toBe('127.0.0.1')
+    expect(normalizeHostname('0177.0.0.1')).toBe('127.0.0.1')
+    expect(normalizeHostname('0x7F000001.')).toBe('127.0.0.1')
+  })
+
+  test('canonicalizes IPv6 literals', () => {
+    expect(normalizeHostname('[0:0::1]')).toBe('::1')
+    expect(normalizeHostname('2001:DB8:0::1')).toBe('2001:db8::1')
+  })
+
+  test('rejects ambiguous hosts', () => {
+    for (const host of [
+      '',
+      '.',
+      'github.com..',
+      '.github.com',
+      'a..github.com',
+      'a%2e.github.com',
+      'github.com/x',
+      'github.com:443',
+      'user@github.com',
+      'git hub.com',
+      'xn--abc',
+      '256.0.0.1',
+      'example.123',
+      '[github.com]',
+      '2001:db8::zz',
+    ]) {
+      expect(normalizeHostname(host)).toBeUndefined()
+    }
+  })
+})
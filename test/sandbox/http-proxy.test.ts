@@ -0,0 +1,1482 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import * as http from 'node:http'
+import * as net from 'node:net'
+import * as tls from 'node:tls'
+import * as https from 'node:https'
+import { once } from 'node:events'
+import { createHash } from 'node:crypto'
+import type { AddressInfo } from 'node:net'
+import { createHttpProxyServer } from '../../src/sandbox/http-proxy.js'
+import { TlsInterceptor } from '../../src/sandbox/tls-interceptor.js'
+import { ConnectionLimiter } from '../../src/sandbox/connection-limiter.js'
+import {
+  createCertificateAuthority,
+  createLeafCertificate,
+  generateCertificateKey,
+} from '../../src/sandbox/x509-certificate.js'
+import type {
+  NetworkAuditEvent,
+  NetworkRequestContext,
+} from '../../src/sandbox/sandbox-schemas.js'
+import type {
+  HttpProxyServerOptions,
+  DomainFrontingPolicy,
+} from '../../src/sandbox/http-proxy.js'
+
+/**
+ * Start a proxy server on an ephemeral port
+ */
+async function startProxy(
+  options: HttpProxyServerOptions,
+): Promise<{ server: http.Server; port: number }> {
+  const server = createHttpProxyServer(options)
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return { server, port: (server.address() as AddressInfo).port }
+}
+
+/**
+ * Send a plain HTTP request through the proxy (absolute-form request target)
+ */
+function proxyGet(
+  proxyPort: number,
+  url: string,
+): Promise<{
+  statusCode: number
+  headers: http.IncomingHttpHeaders
+  body: string
+}> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        host: '127.0.0.1',
+        port: proxyPort,
+        path: url,
+        method: 'GET',
+        headers: { host: new URL(url).host },
+      },
+      res => {
+        let body = ''
+        res.on('data', chunk => (body += chunk))
+        res.on('end', () =>
+          resolve({ statusCode: res.statusCode!, headers: res.headers, body }),
+        )
+      },
+    )
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+describe('HTTP proxy destination resolution', () => {
+  let upstream: http.Server
+  let upstreamPort: number
+
+  beforeAll(async () => {
+    upstream = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' })
+      res.end(`upstream saw host ${req.headers.host}`)
+    })
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve))
+    upstreamPort = (upstream.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => upstream.close(resolve))
+  })
+
+  it('connects to the pinned address returned by resolveDestination', async () => {
+    const resolved: string[] = []
+    const { server, port } = await startProxy({
+      filter: () => true,
+      resolveDestination: async host => {
+        resolved.push(host)
+        return '127.0.0.1'
+      },
+    })
+
+    try {
+      const res = await proxyGet(port, `http://pinned.invalid:${upstreamPort}/`)
+      expect(res.statusCode).toBe(200)
+      expect(res.body).toBe(`upstream saw host pinned.invalid:${upstreamPort}`)
+      expect(resolved).toEqual(['pinned.invalid'])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('blocks the request when no resolved address is permitted', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      resolveDestination: async () => undefined,
+    })
+
+    try {
+      const res = await proxyGet(port, `http://127.0.0.1:${upstreamPort}/`)
+      expect(res.statusCode).toBe(403)
+      expect(res.headers['x-proxy-error']).toBe('blocked-by-address-policy')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('returns 502 when the host cannot be resolved', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      resolveDestination: async () => {
+        throw new Error('ENOTFOUND')
+      },
+    })
+
+    try {
+      const res = await proxyGet(
+        port,
+        `http://missing.invalid:${upstreamPort}/`,
+      )
+      expect(res.statusCode).toBe(502)
+    } finally {
+      server.close()
+    }
+  })
+})
+
+/**
+ * Capture the first bytes a real TLS client sends (its ClientHello)
+ */
+async function captureClientHello(servername: string): Promise<Buffer> {
+  const server = net.createServer()
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  try {
+    return await new Promise<Buffer>(resolve => {
+      server.once('connection', socket => {
+        socket.once('data', chunk => {
+          resolve(chunk)
+          socket.destroy()
+        })
+      })
+      tls.connect({ host: '127.0.0.1', port, servername }).on('error', () => {})
+    })
+  } finally {
+    server.close()
+  }
+}
+
+/**
+ * Re-frame a single-record ClientHello as handshake records of at most
+ * `size` bytes each
+ */
+function fragmentClientHello(hello: Buffer, size: number): Buffer {
+  const header = hello.subarray(0, 5)
+  const body = hello.subarray(5)
+  const records: Buffer[] = []
+  for (let offset = 0; offset < body.length; offset += size) {
+    const fragment = body.subarray(offset, offset + size)
+    const recordHeader = Buffer.from(header)
+    recordHeader.writeUInt16BE(fragment.length, 3)
+    records.push(recordHeader, fragment)
+  }
+  return Buffer.concat(records)
+}
+
+/**
+ * Open a CONNECT tunnel through the proxy, send `payload`, and report whether
+ * the upstream echo server sent it back before the tunnel closed.
+ */
+function tunnelEcho(
+  proxyPort: number,
+  target: string,
+  payload: Buffer,
+): Promise<{ statusLine: string; echoed: boolean }> {
+  return new Promise(resolve => {
+    const socket = net.connect(proxyPort, '127.0.0.1', () => {
+      socket.write(`CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n\r\n`)
+    })
+
+    let statusLine = ''
+    let received = Buffer.alloc(0)
+    let headerDone = false
+    socket.on('data', chunk => {
+      received = Buffer.concat([received, chunk])
+      if (!headerDone) {
+        const headerEnd = received.indexOf('\r\n\r\n')
+        if (headerEnd === -1) return
+        headerDone = true
+        statusLine = received.subarray(0, received.indexOf('\r\n')).toString()
+        received = received.subarray(headerEnd + 4)
+        if (statusLine.includes(' 200 ')) {
+          socket.write(payload)
+        } else {
+          socket.destroy()
+          resolve({ statusLine, echoed: false })
+          return
+        }
+      }
+      if (received.length >= payload.length) {
+        socket.destroy()
+        resolve({ statusLine, echoed: received.equals(payload) })
+      }
+    })
+    socket.on('close', () => resolve({ statusLine, echoed: false }))
+    socket.on('error', () => resolve({ statusLine, echoed: false }))
+  })
+}
+
+describe('HTTP proxy domain-fronting protection', () => {
+  let echoServer: net.Server
+  let echoPort: number
+
+  const strictPolicy: DomainFrontingPolicy = {
+    verifyTlsSni: true,
+    requireTlsOnPort443: false,
+    verifyHostHeader: true,
+  }
+
+  beforeAll(async () => {
+    echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise<void>(resolve =>
+      echoServer.listen(0, '127.0.0.1', resolve),
+    )
+    echoPort = (echoServer.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => echoServer.close(resolve))
+  })
+
+  it('relays a tunnel whose SNI matches the CONNECT host', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      resolveDestination: async () => '127.0.0.1',
+      getDomainFrontingPolicy: () => strictPolicy,
+    })
+
+    try {
+      const hello = await captureClientHello('allowed.test')
+      const res = await tunnelEcho(port, `allowed.test:${echoPort}`, hello)
+      expect(res.statusLine).toContain(' 200 ')
+      expect(res.echoed).toBe(true)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('closes a tunnel whose SNI names a different host', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      resolveDestination: async () => '127.0.0.1',
+      getDomainFrontingPolicy: () => strictPolicy,
+    })
+
+    try {
+      const hello = await captureClientHello('fronted.test')
+      const res = await tunnelEcho(port, `allowed.test:${echoPort}`, hello)
+      expect(res.statusLine).toContain(' 200 ')
+      expect(res.echoed).toBe(false)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('checks the SNI of a ClientHello split across records', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      resolveDestination: async () => '127.0.0.1',
+      getDomainFrontingPolicy: () => strictPolicy,
+    })
+
+    try {
+      const fronted = fragmentClientHello(
+        await captureClientHello('fronted.test'),
+        64,
+      )
+      const res = await tunnelEcho(port, `allowed.test:${echoPort}`, fronted)
+      expect(res.echoed).toBe(false)
+
+      const allowed = fragmentClientHello(
+        await captureClientHello('allowed.test'),
+        64,
+      )
+      const ok = await tunnelEcho(port, `allowed.test:${echoPort}`, allowed)
+      expect(ok.echoed).toBe(true)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('closes a tunnel whose TLS handshake is malformed', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => true,
+      resolveDestination: async () => '127.0.0.1',
+      getDomainFrontingPolicy: () => strictPolicy,
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      // A handshake record holding something other than a ClientHello
+      const res = await tunnelEcho(
+        port,
+        `allowed.test:${echoPort}`,
+        Buffer.from([0x16, 0x03, 0x01, 0x00, 0x04, 0x02, 0x00, 0x00, 0x00]),
+      )
+      expect(res.echoed).toBe(false)
+      expect(events.map(event => event.rule)).toContain(
+        'tls-client-hello-malformed',
+      )
+    } finally {
+      server.close()
+    }
+  })
+
+  it('relays non-TLS bytes unless TLS is required on port 443', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      resolveDestination: async () => '127.0.0.1',
+      getDomainFrontingPolicy: () => ({
+        ...strictPolicy,
+        requireTlsOnPort443: true,
+      }),
+    })
+
+    try {
+      const res = await tunnelEcho(
+        port,
+        `allowed.test:${echoPort}`,
+        Buffer.from('SSH-2.0-test\r\n'),
+      )
+      expect(res.echoed).toBe(true)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('rejects plain HTTP requests whose Host header does not match the URL', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getDomainFrontingPolicy: () => strictPolicy,
+    })
+
+    try {
+      const res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        http
+          .request({
+            host: '127.0.0.1',
+            port,
+            path: 'http://allowed.test/',
+            headers: { host: 'fronted.test' },
+          })
+          .on('response', resolve)
+          .on('error', reject)
+          .end()
+      })
+      res.resume()
+      expect(res.statusCode).toBe(403)
+      expect(res.headers['x-proxy-error']).toBe('host-header-mismatch')
+    } finally {
+      server.close()
+    }
+  })
+})
+
+describe('HTTP proxy audit events', () => {
+  let upstream: http.Server
+  let upstreamPort: number
+
+  beforeAll(async () => {
+    upstream = http.createServer((req, res) => {
+      req.resume()
+      req.on('end', () => res.end('hello'))
+    })
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve))
+    upstreamPort = (upstream.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => upstream.close(resolve))
+  })
+
+  it('records allowed plain HTTP requests with the matched rule and byte counts', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => ({ allowed: true, rule: 'allowedDomains:127.0.0.1' }),
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const res = await proxyGet(port, `http://127.0.0.1:${upstreamPort}/`)
+      expect(res.body).toBe('hello')
+      // The event is recorded when the response closes
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({
+        protocol: 'HTTP',
+        host: '127.0.0.1',
+        port: upstreamPort,
+        method: 'GET',
+        decision: 'allow',
+        rule: 'allowedDomains:127.0.0.1',
+        bytesUp: 0,
+        bytesDown: 5,
+      })
+      expect(events[0]!.durationMs).toBeGreaterThanOrEqual(0)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('records denied CONNECT requests with the rule that denied them', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => ({ allowed: false, rule: 'deniedDomains:blocked.test' }),
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const res = await tunnelEcho(port, 'blocked.test:443', Buffer.from('x'))
+      expect(res.statusLine).toContain(' 403 ')
+      expect(events).toEqual([
+        {
+          timestamp: expect.any(String),
+          protocol: 'CONNECT',
+          host: 'blocked.test',
+          port: 443,
+          decision: 'deny',
+          rule: 'deniedDomains:blocked.test',
+        },
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('records tunnel byte counts when the tunnel closes', async () => {
+    const echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise<void>(resolve =>
+      echoServer.listen(0, '127.0.0.1', resolve),
+    )
+    const echoPort = (echoServer.address() as AddressInfo).port
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => true,
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const payload = Buffer.from('ping-pong')
+      const res = await tunnelEcho(port, `127.0.0.1:${echoPort}`, payload)
+      expect(res.echoed).toBe(true)
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({
+        protocol: 'CONNECT',
+        decision: 'allow',
+        rule: 'filter',
+        bytesUp: payload.length,
+        bytesDown: payload.length,
+      })
+    } finally {
+      server.close()
+      echoServer.close()
+    }
+  })
+})
+
+describe('HTTP proxy method and path rules', () => {
+  let upstream: http.Server
+  let upstreamPort: number
+
+  beforeAll(async () => {
+    upstream = http.createServer((req, res) => res.end(`ok ${req.url}`))
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve))
+    upstreamPort = (upstream.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => upstream.close(resolve))
+  })
+
+  it('forwards plain HTTP requests allowed by a rule and blocks the rest', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => ({ allowed: true, rule: 'allowedDomains:127.0.0.1' }),
+      filterHttpRequest: (_host, _port, _method, path) =>
+        path.startsWith('/public/')
+          ? { allowed: true, rule: 'httpRules:public' }
+          : { allowed: false, rule: 'httpRules:no-matching-allow-rule' },
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const allowed = await proxyGet(
+        port,
+        `http://127.0.0.1:${upstreamPort}/public/a`,
+      )
+      expect(allowed.body).toBe('ok /public/a')
+
+      const blocked = await proxyGet(
+        port,
+        `http://127.0.0.1:${upstreamPort}/private`,
+      )
+      expect(blocked.statusCode).toBe(403)
+      expect(blocked.headers['x-proxy-error']).toBe('blocked-by-http-rule')
+      expect(blocked.headers['x-proxy-rule']).toBe(
+        'httpRules:no-matching-allow-rule',
+      )
+
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events.map(event => [event.decision, event.rule])).toEqual([
+        ['allow', 'httpRules:public'],
+        ['deny', 'httpRules:no-matching-allow-rule'],
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('refuses tunnels to covered hosts that are not intercepted', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => true,
+      hasHttpRules: host => host === 'registry.example.com',
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const res = await tunnelEcho(
+        port,
+        'registry.example.com:443',
+        Buffer.from('x'),
+      )
+      expect(res.statusLine).toContain(' 403 ')
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          protocol: 'CONNECT',
+          decision: 'deny',
+          rule: 'httpRules:requires-interception',
+        }),
+      )
+    } finally {
+      server.close()
+    }
+  })
+})
+
+describe('HTTP proxy limits', () => {
+  let echoServer: net.Server
+  let echoPort: number
+
+  beforeAll(async () => {
+    echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise<void>(resolve =>
+      echoServer.listen(0, '127.0.0.1', resolve),
+    )
+    echoPort = (echoServer.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => echoServer.close(resolve))
+  })
+
+  it('closes tunnels that exceed the per-connection byte cap', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => true,
+      limiter: new ConnectionLimiter(() => ({ maxBytesPerConnection: 4 })),
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const res = await tunnelEcho(
+        port,
+        `127.0.0.1:${echoPort}`,
+        Buffer.from('more than four bytes'),
+      )
+      expect(res.statusLine).toContain(' 200 ')
+      expect(res.echoed).toBe(false)
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toEqual([
+        expect.objectContaining({
+          protocol: 'CONNECT',
+          decision: 'deny',
+          rule: 'limits:maxBytesPerConnection',
+        }),
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('refuses connections beyond the per-host limit', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => true,
+      limiter: new ConnectionLimiter(() => ({ maxConnectionsPerHost: 1 })),
+      onAuditEvent: event => events.push(event),
+    })
+
+    // Hold one tunnel open
+    const held = net.connect(port, '127.0.0.1')
+    try {
+      await once(held, 'connect')
+      held.write(`CONNECT 127.0.0.1:${echoPort} HTTP/1.1\r\n\r\n`)
+      const [response] = (await once(held, 'data')) as [Buffer]
+      expect(response.toString()).toStartWith('HTTP/1.1 200 ')
+
+      const tunnel = await tunnelEcho(
+        port,
+        `127.0.0.1:${echoPort}`,
+        Buffer.from('x'),
+      )
+      expect(tunnel.statusLine).toContain(' 429 ')
+
+      const res = await proxyGet(port, `http://127.0.0.1:${echoPort}/`)
+      expect(res.statusCode).toBe(429)
+      expect(res.headers['x-proxy-error']).toBe('blocked-by-limit')
+      expect(res.headers['x-proxy-rule']).toBe('limits:maxConnectionsPerHost')
+      expect(events.map(event => [event.decision, event.rule])).toEqual([
+        ['deny', 'limits:maxConnectionsPerHost'],
+        ['deny', 'limits:maxConnectionsPerHost'],
+      ])
+    } finally {
+      held.destroy()
+      server.close()
+    }
+  })
+  it('lists open tunnels and closes the ones that are revoked', async () => {
+    const events: NetworkAuditEvent[] = []
+    const limiter = new ConnectionLimiter(() => undefined)
+    const { server, port } = await startProxy({
+      filter: () => ({ allowed: true, rule: 'allowedDomains:127.0.0.1' }),
+      limiter,
+      onAuditEvent: event => events.push(event),
+    })
+
+    const held = net.connect(port, '127.0.0.1')
+    try {
+      await once(held, 'connect')
+      held.write(`CONNECT 127.0.0.1:${echoPort} HTTP/1.1\r\n\r\n`)
+      await once(held, 'data')
+      held.write('ping')
+      await once(held, 'data')
+
+      expect(limiter.getActiveConnections()).toEqual([
+        expect.objectContaining({
+          protocol: 'CONNECT',
+          host: '127.0.0.1',
+          port: echoPort,
+          rule: 'allowedDomains:127.0.0.1',
+          bytesUp: 4,
+          bytesDown: 4,
+        }),
+      ])
+
+      const closed = once(held, 'close')
+      expect(limiter.revoke(() => 'revoked:no-matching-rule')).toBe(1)
+      await closed
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(limiter.getActiveConnections()).toEqual([])
+      expect(events.map(event => [event.decision, event.rule])).toEqual([
+        ['deny', 'revoked:no-matching-rule'],
+      ])
+    } finally {
+      held.destroy()
+      server.close()
+    }
+  })
+})
+
+describe('HTTP proxy request context', () => {
+  let upstream: http.Server
+  let upstreamPort: number
+  let upstreamHeaders: http.IncomingHttpHeaders | undefined
+
+  beforeAll(async () => {
+    upstream = http.createServer((req, res) => {
+      upstreamHeaders = req.headers
+      res.end('ok')
+    })
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve))
+    upstreamPort = (upstream.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => upstream.close(resolve))
+  })
+
+  const authorization = `Basic ${Buffer.from('inv-1:secret').toString('base64')}`
+  const getInvocation = ({
+    username,
+    password,
+  }: {
+    username: string
+    password: string
+  }) =>
+    username === 'inv-1' && password === 'secret'
+      ? { id: 'inv-1', command: 'curl example' }
+      : undefined
+
+  it('passes method, URL and invocation for plain HTTP requests', async () => {
+    const contexts: NetworkRequestContext[] = []
+    const { server, port } = await startProxy({
+      filter: (_port, _host, _socket, context) => {
+        contexts.push(context)
+        return true
+      },
+      getInvocation,
+    })
+
+    try {
+      const target = `http://127.0.0.1:${upstreamPort}/install.sh?v=1`
+      const res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        http
+          .request({
+            host: '127.0.0.1',
+            port,
+            path: target,
+            method: 'POST',
+            headers: {
+              host: `127.0.0.1:${upstreamPort}`,
+              'proxy-authorization': authorization,
+            },
+          })
+          .on('response', resolve)
+          .on('error', reject)
+          .end()
+      })
+      res.resume()
+
+      expect(res.statusCode).toBe(200)
+      expect(contexts).toEqual([
+        {
+          protocol: 'HTTP',
+          method: 'POST',
+          url: target,
+          invocation: { id: 'inv-1', command: 'curl example' },
+          mitmRoute: undefined,
+        },
+      ])
+      // The proxy credentials are not forwarded to the destination
+      expect(upstreamHeaders?.['proxy-authorization']).toBeUndefined()
+    } finally {
+      server.close()
+    }
+  })
+
+  it('passes the protocol and invocation for CONNECT tunnels', async () => {
+    const contexts: NetworkRequestContext[] = []
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: (_port, _host, _socket, context) => {
+        contexts.push(context)
+        return false
+      },
+      getInvocation,
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const statusLine = await new Promise<string>(resolve => {
+        const socket = net.connect(port, '127.0.0.1', () => {
+          socket.write(
+            'CONNECT blocked.test:443 HTTP/1.1\r\n' +
+              'Host: blocked.test:443\r\n' +
+              `Proxy-Authorization: ${authorization}\r\n\r\n`,
+          )
+        })
+        socket.once('data', chunk => {
+          resolve(chunk.toString().split('\r\n')[0]!)
+          socket.destroy()
+        })
+      })
+
+      expect(statusLine).toContain(' 403 ')
+      expect(contexts).toEqual([
+        {
+          protocol: 'CONNECT',
+          invocation: { id: 'inv-1', command: 'curl example' },
+          mitmRoute: undefined,
+        },
+      ])
+      // The denial is attributed to the invocation in the audit log
+      expect(events[0]?.invocation).toEqual({
+        id: 'inv-1',
+        command: 'curl example',
+      })
+    } finally {
+      server.close()
+    }
+  })
+})
+
+/**
+ * Minimal MITM proxy stand-in: answers plain HTTP requests itself and accepts
+ * CONNECT by echoing the tunnel, recording what it received.
+ */
+async function startMitmStandIn(): Promise<{
+  server: http.Server
+  port: number
+  requests: Array<{ method?: string; url?: string; authorization?: string }>
+}> {
+  const requests: Array<{
+    method?: string
+    url?: string
+    authorization?: string
+  }> = []
+  const server = http.createServer((req, res) => {
+    requests.push({
+      method: req.method,
+      url: req.url,
+      authorization: req.headers['proxy-authorization'],
+    })
+    res.end('from-mitm')
+  })
+  server.on('connect', (req, socket: net.Socket) => {
+    requests.push({
+      method: req.method,
+      url: req.url,
+      authorization: req.headers['proxy-authorization'],
+    })
+    socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+    socket.pipe(socket)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return { server, port: (server.address() as AddressInfo).port, requests }
+}
+
+describe('HTTP proxy MITM routes', () => {
+  let upstream: http.Server
+  let upstreamPort: number
+  let unusedPort: number
+
+  beforeAll(async () => {
+    upstream = http.createServer((_req, res) => res.end('from-origin'))
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve))
+    upstreamPort = (upstream.address() as AddressInfo).port
+
+    // A port with nothing listening on it
+    const placeholder = net.createServer()
+    await new Promise<void>(resolve =>
+      placeholder.listen(0, '127.0.0.1', resolve),
+    )
+    unusedPort = (placeholder.address() as AddressInfo).port
+    await new Promise(resolve => placeholder.close(resolve))
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => upstream.close(resolve))
+  })
+
+  it('sends plain HTTP requests to a TCP MITM route with its Proxy-Authorization', async () => {
+    const mitm = await startMitmStandIn()
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getMitmRoute: () => ({
+        host: '127.0.0.1',
+        port: mitm.port,
+        proxyAuthorization: 'Basic bWl0bTpzZWNyZXQ=',
+        onFailure: 'fail-closed',
+      }),
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const target = `http://127.0.0.1:${upstreamPort}/path`
+      const res = await proxyGet(port, target)
+      expect(res.body).toBe('from-mitm')
+      expect(mitm.requests).toEqual([
+        {
+          method: 'GET',
+          url: target,
+          authorization: 'Basic bWl0bTpzZWNyZXQ=',
+        },
+      ])
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events[0]).toMatchObject({
+        decision: 'allow',
+        mitmRoute: `127.0.0.1:${mitm.port}`,
+      })
+    } finally {
+      server.close()
+      mitm.server.close()
+    }
+  })
+
+  it('tunnels CONNECT requests through a TCP MITM route', async () => {
+    const mitm = await startMitmStandIn()
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getMitmRoute: () => ({
+        host: '127.0.0.1',
+        port: mitm.port,
+        proxyAuthorization: 'Basic bWl0bTpzZWNyZXQ=',
+        onFailure: 'fail-closed',
+      }),
+    })
+
+    try {
+      const res = await tunnelEcho(
+        port,
+        'intercepted.test:8443',
+        Buffer.from('hello'),
+      )
+      expect(res.echoed).toBe(true)
+      expect(mitm.requests).toEqual([
+        {
+          method: 'CONNECT',
+          url: 'intercepted.test:8443',
+          authorization: 'Basic bWl0bTpzZWNyZXQ=',
+        },
+      ])
+    } finally {
+      server.close()
+      mitm.server.close()
+    }
+  })
+
+  it('fails closed when the MITM proxy is unreachable', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getMitmRoute: () => ({
+        host: '127.0.0.1',
+        port: unusedPort,
+        onFailure: 'fail-closed',
+      }),
+    })
+
+    try {
+      const res = await proxyGet(port, `http://127.0.0.1:${upstreamPort}/`)
+      expect(res.statusCode).toBe(502)
+
+      const tunnel = await tunnelEcho(
+        port,
+        `127.0.0.1:${upstreamPort}`,
+        Buffer.from('x'),
+      )
+      expect(tunnel.statusLine).toContain(' 502 ')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('connects directly when an unreachable route allows it', async () => {
+    const echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise<void>(resolve =>
+      echoServer.listen(0, '127.0.0.1', resolve),
+    )
+    const echoPort = (echoServer.address() as AddressInfo).port
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getMitmRoute: () => ({
+        socketPath: '/nonexistent/mitm.sock',
+        onFailure: 'direct',
+      }),
+    })
+
+    try {
+      const res = await proxyGet(port, `http://127.0.0.1:${upstreamPort}/`)
+      expect(res.body).toBe('from-origin')
+
+      const tunnel = await tunnelEcho(
+        port,
+        `127.0.0.1:${echoPort}`,
+        Buffer.from('direct'),
+      )
+      expect(tunnel.echoed).toBe(true)
+    } finally {
+      server.close()
+      echoServer.close()
+    }
+  })
+})
+
+/**
+ * Send one request through an intercepted CONNECT tunnel, trusting only `ca`
+ */
+async function interceptedRequest(
+  proxyPort: number,
+  target: string,
+  ca: string,
+  headers: http.OutgoingHttpHeaders,
+): Promise<{ statusCode: number; body: string }> {
+  const socket = net.connect(proxyPort, '127.0.0.1')
+  await once(socket, 'connect')
+  socket.write(`CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n\r\n`)
+  const [response] = (await once(socket, 'data')) as [Buffer]
+  expect(response.toString()).toStartWith('HTTP/1.1 200 ')
+
+  const tlsSocket = tls.connect({ socket, ca })
+  await once(tlsSocket, 'secureConnect')
+  try {
+    return await new Promise((resolve, reject) => {
+      http
+        .request(
+          { createConnection: () => tlsSocket, path: '/data', headers },
+          res => {
+            let body = ''
+            res.on('data', chunk => (body += chunk))
+            res.on('end', () => resolve({ statusCode: res.statusCode!, body }))
+          },
+        )
+        .on('error', reject)
+        .end()
+    })
+  } finally {
+    tlsSocket.destroy()
+  }
+}
+
+describe('HTTP proxy TLS interception', () => {
+  let origin: https.Server
+  let originPort: number
+  let interceptor: TlsInterceptor
+  let originalAgentCa: https.AgentOptions['ca']
+
+  beforeAll(async () => {
+    // HTTPS origin with a certificate from its own CA, trusted by the proxy
+    const originCa = createCertificateAuthority('Origin CA')
+    const originKey = generateCertificateKey()
+    origin = https.createServer(
+      {
+        key: originKey.export({ type: 'pkcs8', format: 'pem' }),
+        cert: createLeafCertificate(originCa, '127.0.0.1', originKey),
+      },
+      (req, res) => {
+        res.end(
+          JSON.stringify({
+            url: req.url,
+            authorization: req.headers.authorization,
+          }),
+        )
+      },
+    )
+    await new Promise<void>(resolve => origin.listen(0, '127.0.0.1', resolve))
+    originPort = (origin.address() as AddressInfo).port
+    originalAgentCa = https.globalAgent.options.ca
+    https.globalAgent.options.ca = originCa.certPem
+
+    interceptor = new TlsInterceptor()
+  })
+
+  afterAll(async () => {
+    https.globalAgent.options.ca = originalAgentCa
+    interceptor.dispose()
+    await new Promise(resolve => origin.close(resolve))
+  })
+
+  it('decrypts the tunnel with a certificate from the local CA and injects headers', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => ({ allowed: true, rule: 'allowedDomains:127.0.0.1' }),
+      getTlsInterception: host => ({
+        secureContext: interceptor.getSecureContext(host),
+        headers: { authorization: 'Bearer host-secret' },
+      }),
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const res = await interceptedRequest(
+        port,
+        `127.0.0.1:${originPort}`,
+        interceptor.caCertificate,
+        { authorization: 'Bearer from-sandbox' },
+      )
+      expect(res.statusCode).toBe(200)
+      expect(JSON.parse(res.body)).toEqual({
+        url: '/data',
+        authorization: 'Bearer host-secret',
+      })
+
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          protocol: 'HTTP',
+          method: 'GET',
+          decision: 'allow',
+          rule: 'allowedDomains:127.0.0.1',
+          intercepted: true,
+        }),
+      )
+    } finally {
+      server.close()
+    }
+  })
+
+  it('rejects decrypted requests whose Host header names another host', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getTlsInterception: host => ({
+        secureContext: interceptor.getSecureContext(host),
+        headers: {},
+      }),
+      getDomainFrontingPolicy: () => ({
+        verifyTlsSni: true,
+        requireTlsOnPort443: false,
+        verifyHostHeader: true,
+      }),
+    })
+
+    try {
+      const res = await interceptedRequest(
+        port,
+        `127.0.0.1:${originPort}`,
+        interceptor.caCertificate,
+        { host: 'other.example.com' },
+      )
+      expect(res.statusCode).toBe(403)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('applies method and path rules to decrypted requests', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getTlsInterception: host => ({
+        secureContext: interceptor.getSecureContext(host),
+        headers: {},
+      }),
+      filterHttpRequest: (_host, _port, method, path) => ({
+        allowed: false,
+        rule: `httpRules:${method} ${path}`,
+      }),
+      hasHttpRules: () => true,
+    })
+
+    try {
+      const res = await interceptedRequest(
+        port,
+        `127.0.0.1:${originPort}`,
+        interceptor.caCertificate,
+        {},
+      )
+      expect(res.statusCode).toBe(403)
+      expect(res.body).toBe(
+        'Request blocked by network rule httpRules:GET /data',
+      )
+    } finally {
+      server.close()
+    }
+  })
+
+  it('leaves tunnels to hosts without an interception untouched', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getTlsInterception: () => undefined,
+    })
+
+    try {
+      // The origin's own certificate is presented, so the local CA fails
+      await expect(
+        interceptedRequest(
+          port,
+          `127.0.0.1:${originPort}`,
+          interceptor.caCertificate,
+          {},
+        ),
+      ).rejects.toThrow()
+    } finally {
+      server.close()
+    }
+  })
+})
+
+/**
+ * Start a WebSocket server that completes the handshake and echoes every
+ * byte it receives. Frames are not decoded; the bytes are echoed as is.
+ */
+async function startWebSocketEchoServer(): Promise<{
+  server: http.Server
+  port: number
+  upgrades: Array<{ url?: string; authorization?: string }>
+}> {
+  const upgrades: Array<{ url?: string; authorization?: string }> = []
+  const server = http.createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' })
+    res.end('upgrade required')
+  })
+  server.on('upgrade', (req, socket: net.Socket, head: Buffer) => {
+    upgrades.push({
+      url: req.url,
+      authorization: req.headers['proxy-authorization'],
+    })
+    if (req.url?.endsWith('/decline')) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nContent-Length: 8\r\n\r\ndeclined')
+      return
+    }
+    const accept = createHash('sha1')
+      .update(
+        `${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`,
+      )
+      .digest('base64')
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+        'Upgrade: websocket\r\n' +
+        'Connection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n` +
+        '\r\n',
+    )
+    if (head.length > 0) {
+      socket.write(head)
+    }
+    socket.pipe(socket)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return { server, port: (server.address() as AddressInfo).port, upgrades }
+}
+
+/**
+ * Send a WebSocket handshake through the proxy, followed in the same write by
+ * `payload`. Resolves with the response head and what follows it once
+ * `expectedBytes` bytes arrived after the head or the connection closed.
+ */
+async function proxyWebSocket(
+  proxyPort: number,
+  url: string,
+  payload: string,
+  expectedBytes: number,
+): Promise<{ head: string; data: string }> {
+  const socket = net.connect(proxyPort, '127.0.0.1')
+  await once(socket, 'connect')
+  socket.write(
+    `GET ${url} HTTP/1.1\r\n` +
+      `Host: ${new URL(url).host}\r\n` +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\n' +
+      'Sec-WebSocket-Version: 13\r\n' +
+      '\r\n' +
+      payload,
+  )
+
+  let received = ''
+  const split = () => {
+    const end = received.indexOf('\r\n\r\n')
+    return end === -1
+      ? undefined
+      : { head: received.slice(0, end), data: received.slice(end + 4) }
+  }
+  return new Promise(resolve => {
+    const finish = () => {
+      socket.destroy()
+      resolve(split() ?? { head: received, data: '' })
+    }
+    socket.on('data', chunk => {
+      received += chunk
+      const parts = split()
+      if (parts && parts.data.length >= expectedBytes && expectedBytes > 0) {
+        finish()
+      }
+    })
+    socket.on('close', finish)
+    socket.on('error', finish)
+  })
+}
+
+describe('HTTP proxy WebSocket upgrades', () => {
+  let echo: Awaited<ReturnType<typeof startWebSocketEchoServer>>
+
+  beforeAll(async () => {
+    echo = await startWebSocketEchoServer()
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => echo.server.close(resolve))
+  })
+
+  it('relays an allowed WebSocket connection in both directions', async () => {
+    const events: NetworkAuditEvent[] = []
+    const contexts: NetworkRequestContext[] = []
+    const { server, port } = await startProxy({
+      filter: (_port, _host, _socket, context) => {
+        contexts.push(context)
+        return { allowed: true, rule: 'allowedDomains:127.0.0.1' }
+      },
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const res = await proxyWebSocket(
+        port,
+        `http://127.0.0.1:${echo.port}/chat`,
+        'ping',
+        4,
+      )
+      expect(res.head).toStartWith('HTTP/1.1 101 Switching Protocols')
+      expect(res.head).toContain(
+        'Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=',
+      )
+      expect(res.data).toBe('ping')
+      expect(contexts[0]).toMatchObject({
+        protocol: 'HTTP',
+        method: 'GET',
+        url: `http://127.0.0.1:${echo.port}/chat`,
+      })
+
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toEqual([
+        expect.objectContaining({
+          protocol: 'HTTP',
+          host: '127.0.0.1',
+          port: echo.port,
+          decision: 'allow',
+          rule: 'allowedDomains:127.0.0.1',
+          bytesUp: 4,
+          bytesDown: 4,
+        }),
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('refuses upgrades to denied hosts without contacting them', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { server, port } = await startProxy({
+      filter: () => ({ allowed: false, rule: 'no-matching-rule' }),
+      onAuditEvent: event => events.push(event),
+    })
+    const upgradesBefore = echo.upgrades.length
+
+    try {
+      const res = await proxyWebSocket(
+        port,
+        `http://127.0.0.1:${echo.port}/chat`,
+        '',
+        0,
+      )
+      expect(res.head).toStartWith('HTTP/1.1 403 Forbidden')
+      expect(res.head).toContain('X-Proxy-Error: blocked-by-allowlist')
+      expect(echo.upgrades.length).toBe(upgradesBefore)
+      expect(events).toEqual([
+        expect.objectContaining({ decision: 'deny', rule: 'no-matching-rule' }),
+      ])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('relays the response when the destination declines to upgrade', async () => {
+    const { server, port } = await startProxy({ filter: () => true })
+
+    try {
+      const res = await proxyWebSocket(
+        port,
+        `http://127.0.0.1:${echo.port}/decline`,
+        '',
+        0,
+      )
+      expect(res.head).toStartWith('HTTP/1.1 403 Forbidden')
+      expect(res.head).toContain('Connection: close')
+      expect(res.data).toBe('declined')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('sends upgrades through a MITM route in absolute form', async () => {
+    const { server, port } = await startProxy({
+      filter: () => true,
+      getMitmRoute: () => ({
+        host: '127.0.0.1',
+        port: echo.port,
+        proxyAuthorization: 'Basic bWl0bTpzZWNyZXQ=',
+        onFailure: 'fail-closed',
+      }),
+    })
+
+    try {
+      const res = await proxyWebSocket(
+        port,
+        'http://ws.example.com/chat',
+        'ping',
+        4,
+      )
+      expect(res.head).toStartWith('HTTP/1.1 101 Switching Protocols')
+      expect(res.data).toBe('ping')
+      expect(echo.upgrades.at(-1)).toEqual({
+        url: 'http://ws.example.com/chat',
+        authorization: 'Basic bWl0bTpzZWNyZXQ=',
+      })
+    } finally {
+      server.close()
+    }
+  })
+})
+
+describe('HTTP proxy IPv6 destinations', () => {
+  let echoServer: net.Server
+  let echoPort: number
+  let upstream: http.Server
+  let upstreamPort: number
+
+  beforeAll(async () => {
+    echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise<void>(resolve => echoServer.listen(0, '::1', resolve))
+    echoPort = (echoServer.address() as AddressInfo).port
+
+    upstream = http.createServer((req, res) =>
+      res.end(`host ${req.headers.host}`),
+    )
+    await new Promise<void>(resolve => upstream.listen(0, '::1', resolve))
+    upstreamPort = (upstream.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => echoServer.close(resolve))
+    await new Promise(resolve => upstream.close(resolve))
+  })
+
+  it('parses bracketed IPv6 CONNECT targets', async () => {
+    const hosts: string[] = []
+    const { server, port } = await startProxy({
+      filter: (_port, host) => {
+        hosts.push(host)
+        return true
+      },
+    })
+
+    try {
+      const res = await tunnelEcho(
+        port,
+        `[0:0:0:0:0:0:0:1]:${echoPort}`,
+        Buffer.from('hello'),
+      )
+      expect(res.echoed).toBe(true)
+      expect(hosts).toEqual(['::1'])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('rejects unbracketed IPv6 CONNECT targets', async () => {
+    const { server, port } = await startProxy({ filter: () => true })
+
+    try {
+      const res = await tunnelEcho(port, `::1:${echoPort}`, Buffer.from('x'))
+      expect(res.statusLine).toBe('HTTP/1.1 400 Bad Request')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('filters plain HTTP requests to IPv6 literals without brackets', async () => {
+    const hosts: string[] = []
+    const { server, port } = await startProxy({
+      filter: (_port, host) => {
+        hosts.push(host)
+        return true
+      },
+    })
+
+    try {
+      const res = await proxyGet(port, `http://[::1]:${upstreamPort}/`)
+      expect(res.body).toBe(`host [::1]:${upstreamPort}`)
+      expect(hosts).toEqual(['::1'])
+    } finally {
+      server.close()
+    }
+  })
+})
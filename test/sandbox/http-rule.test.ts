@@ -0,0 +1,157 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  evaluateHttpRules,
+  hasHttpRules,
+  isValidPathPattern,
+  matchesPathPattern,
+  normalizeRequestPath,
+} from '../../src/sandbox/http-rule.js'
+import type { HttpRuleConfig } from '../../src/sandbox/sandbox-config.js'
+
+describe('matchesPathPattern', () => {
+  test('matches one segment with * and any depth with **', () => {
+    expect(matchesPathPattern('/api/v1/read/x', '/api/v1/read/*')).toBe(true)
+    expect(matchesPathPattern('/api/v1/read/x/y', '/api/v1/read/*')).toBe(false)
+    expect(matchesPathPattern('/api/v1/read/x/y', '/api/v1/read/**')).toBe(true)
+    expect(matchesPathPattern('/api/v1/write/x', '/api/v1/read/**')).toBe(false)
+  })
+
+  test('matches partial segments and literal characters', () => {
+    expect(matchesPathPattern('/pkg/-/pkg-1.0.0.tgz', '/pkg/-/*.tgz')).toBe(
+      true,
+    )
+    expect(matchesPathPattern('/pkg/-/pkg-1.0.0Xtgz', '/pkg/-/*.tgz')).toBe(
+      false,
+    )
+    expect(matchesPathPattern('/exact', '/exact')).toBe(true)
+    expect(matchesPathPattern('/exact/more', '/exact')).toBe(false)
+  })
+
+  test('validates patterns', () => {
+    expect(isValidPathPattern('/api/**')).toBe(true)
+    expect(isValidPathPattern('api/**')).toBe(false)
+    expect(isValidPathPattern('/api?x=1')).toBe(false)
+    expect(isValidPathPattern('/api path')).toBe(false)
+  })
+})
+
+describe('normalizeRequestPath', () => {
+  test('decodes unreserved escapes and uppercases the rest', () => {
+    expect(normalizeRequestPath('/%61dmin/%7euser')).toBe('/admin/~user')
+    expect(normalizeRequestPath('/@scope%2fpkg')).toBe('/@scope%2Fpkg')
+    expect(normalizeRequestPath('/a%20b')).toBe('/a%20b')
+  })
+
+  test('removes dot segments, including escaped ones', () => {
+    expect(normalizeRequestPath('/api/v1/../../admin')).toBe('/admin')
+    expect(normalizeRequestPath('/api/%2e%2E/admin/./x')).toBe('/admin/x')
+    expect(normalizeRequestPath('/a/b/..')).toBe('/a/')
+    expect(normalizeRequestPath('/..')).toBe('/')
+  })
+})
+
+describe('evaluateHttpRules', () => {
+  const rules: HttpRuleConfig[] = [
+    {
+      name: 'npm-read',
+      action: 'allow',
+      domains: ['registry.npmjs.org'],
+      methods: ['GET', 'HEAD'],
+    },
+    {
+      action: 'deny',
+      domains: ['registry.npmjs.org'],
+      paths: ['/-/npm/v1/security/**'],
+    },
+    {
+      name: 'no-deletes',
+      action: 'deny',
+      domains: ['*.internal.example.com'],
+      methods: ['DELETE'],
+    },
+  ]
+
+  test('allows requests matching an allow rule', () => {
+    expect(
+      evaluateHttpRules(rules, 'registry.npmjs.org', 443, 'get', '/lodash'),
+    ).toEqual({ allowed: true, rule: 'httpRules:npm-read' })
+  })
+
+  test('checks deny rules before allow rules', () => {
+    expect(
+      evaluateHttpRules(
+        rules,
+        'registry.npmjs.org',
+        443,
+        'GET',
+        '/-/npm/v1/security/audits',
+      ),
+    ).toEqual({ allowed: false, rule: 'httpRules:1' })
+  })
+
+  test('blocks requests matching no allow rule of a covered host', () => {
+    expect(
+      evaluateHttpRules(rules, 'registry.npmjs.org', 443, 'PUT', '/lodash'),
+    ).toEqual({ allowed: false, rule: 'httpRules:no-matching-allow-rule' })
+  })
+
+  test('leaves hosts covered only by deny rules to the domain rules', () => {
+    expect(
+      evaluateHttpRules(rules, 'db.internal.example.com', 80, 'GET', '/rows'),
+    ).toBeUndefined()
+    expect(
+      evaluateHttpRules(rules, 'db.internal.example.com', 80, 'DELETE', '/'),
+    ).toEqual({ allowed: false, rule: 'httpRules:no-deletes' })
+  })
+
+  test('ignores hosts no rule covers', () => {
+    expect(
+      evaluateHttpRules(rules, 'github.com', 443, 'DELETE', '/'),
+    ).toBeUndefined()
+    expect(hasHttpRules(rules, 'github.com', 443)).toBe(false)
+    expect(hasHttpRules(rules, 'registry.npmjs.org', 443)).toBe(true)
+  })
+
+  test('matches deny rules against the normalized path', () => {
+    const adminRules: HttpRuleConfig[] = [
+      { action: 'deny', domains: ['api.example.com'], paths: ['/admin/**'] },
+    ]
+    for (const path of [
+      '/%61dmin/users',
+      '/public/../admin/users',
+      '/admin%2Fusers',
+      '/admin%5cusers',
+    ]) {
+      expect(
+        evaluateHttpRules(adminRules, 'api.example.com', 443, 'GET', path),
+      ).toEqual({ allowed: false, rule: 'httpRules:0' })
+    }
+    expect(
+      evaluateHttpRules(adminRules, 'api.example.com', 443, 'GET', '/users'),
+    ).toBeUndefined()
+  })
+
+  test('refuses escaped separators that would form dot segments', () => {
+    const readRules: HttpRuleConfig[] = [
+      { action: 'allow', domains: ['api.example.com'], paths: ['/read/*'] },
+    ]
+    expect(
+      evaluateHttpRules(
+        readRules,
+        'api.example.com',
+        443,
+        'GET',
+        '/read/..%2Fadmin',
+      ),
+    ).toEqual({ allowed: false, rule: 'httpRules:ambiguous-path' })
+    expect(
+      evaluateHttpRules(
+        readRules,
+        'api.example.com',
+        443,
+        'GET',
+        '/read/group%2Frepo',
+      ),
+    ).toEqual({ allowed: true, rule: 'httpRules:0' })
+  })
+})
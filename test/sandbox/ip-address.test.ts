@@ -0,0 +1,127 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  parseCidr,
+  isAddressInCidrs,
+  isPrivateOrLinkLocalAddress,
+  normalizeIpv6Host,
+  parseAuthority,
+} from '../../src/sandbox/ip-address.js'
+
+describe('parseCidr', () => {
+  test('accepts IPv4 and IPv6 blocks and bare addresses', () => {
+    expect(parseCidr('10.0.0.0/8')?.prefixLength).toBe(8)
+    expect(parseCidr('192.168.1.10')?.prefixLength).toBe(32)
+    expect(parseCidr('fd00::/8')?.prefixLength).toBe(8)
+    expect(parseCidr('::1')?.prefixLength).toBe(128)
+  })
+
+  test('normalizes IPv4-mapped IPv6 blocks to IPv4', () => {
+    expect(parseCidr('::ffff:10.0.0.0/104')).toEqual(parseCidr('10.0.0.0/8'))
+  })
+
+  test('rejects invalid blocks', () => {
+    for (const cidr of [
+      'example.com',
+      '10.0.0.0/33',
+      '10.0.0.0/',
+      '10.0.0.0/-1',
+      'fd00::/129',
+      '256.0.0.1',
+    ]) {
+      expect(parseCidr(cidr)).toBeUndefined()
+    }
+  })
+})
+
+describe('isAddressInCidrs', () => {
+  test('matches addresses within a block', () => {
+    expect(isAddressInCidrs('10.1.2.3', ['10.0.0.0/8'])).toBe(true)
+    expect(isAddressInCidrs('11.1.2.3', ['10.0.0.0/8'])).toBe(false)
+    expect(isAddressInCidrs('2001:db8::5', ['2001:db8::/32'])).toBe(true)
+    expect(isAddressInCidrs('2001:db9::5', ['2001:db8::/32'])).toBe(false)
+  })
+
+  test('checks IPv4-mapped IPv6 addresses against IPv4 rules', () => {
+    expect(isAddressInCidrs('::ffff:10.1.2.3', ['10.0.0.0/8'])).toBe(true)
+    expect(isAddressInCidrs('::ffff:a01:203', ['10.0.0.0/8'])).toBe(true)
+  })
+
+  test('never matches non-addresses', () => {
+    expect(isAddressInCidrs('example.com', ['0.0.0.0/0'])).toBe(false)
+  })
+})
+
+describe('isPrivateOrLinkLocalAddress', () => {
+  test('flags loopback, private, link-local and metadata addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.0.0.5',
+      '172.20.1.1',
+      '192.168.0.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fe80::1',
+      'fd12:3456::1',
+      '::ffff:127.0.0.1',
+      '64:ff9b::a9fe:a9fe',
+    ]) {
+      expect(isPrivateOrLinkLocalAddress(address)).toBe(true)
+    }
+  })
+
+  test('does not flag public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111']) {
+      expect(isPrivateOrLinkLocalAddress(address)).toBe(false)
+    }
+  })
+})
+
+describe('parseAuthority', () => {
+  test('parses hostnames, IPv4 and bracketed IPv6 authorities', () => {
+    expect(parseAuthority('example.com:443')).toEqual({
+      host: 'example.com',
+      port: 443,
+    })
+    expect(parseAuthority('10.0.0.1:8080')).toEqual({
+      host: '10.0.0.1',
+      port: 8080,
+    })
+    expect(parseAuthority('[2001:DB8:0:0::1]:443')).toEqual({
+      host: '2001:db8::1',
+      port: 443,
+    })
+  })
+
+  test('rejects malformed authorities', () => {
+    for (const authority of [
+      'example.com',
+      'example.com:',
+      'example.com:0',
+      'example.com:65536',
+      'example.com:443abc',
+      '2001:db8::1:443',
+      '[2001:db8::1]',
+      '[example.com]:443',
+      '[10.0.0.1]:443',
+    ]) {
+      expect(parseAuthority(authority)).toBeUndefined()
+    }
+  })
+})
+
+describe('normalizeIpv6Host', () => {
+  test('strips brackets and writes IPv6 literals in canonical form', () => {
+    expect(normalizeIpv6Host('[::1]')).toBe('::1')
+    expect(normalizeIpv6Host('2001:0DB8:0000:0000:0000:0000:0000:0001')).toBe(
+      '2001:db8::1',
+    )
+    expect(normalizeIpv6Host('fe80::1%eth0')).toBe('fe80::1%eth0')
+  })
+
+  test('leaves other hosts unchanged', () => {
+    expect(normalizeIpv6Host('example.com')).toBe('example.com')
+    expect(normalizeIpv6Host('10.0.0.1')).toBe('10.0.0.1')
+  })
+})
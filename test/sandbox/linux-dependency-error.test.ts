@@ -6,6 +6,7 @@ let mockBwrapInstalled = true
 let mockSocatInstalled = true
 let mockBpfPath: string | null = null
 let mockApplyPath: string | null = null
+let mockMissingTools: string[] = []
 
 // Mock spawnSync to control bwrap/socat detection
 // The real code does: spawnSync('which', ['bwrap']) and checks status === 0
@@ -19,6 +20,9 @@ void mock.module('node:child_process', () => ({
     if (cmd === 'which' && args[0] === 'socat') {
       return { status: mockSocatInstalled ? 0 : 1 }
     }
+    if (cmd === 'which' && ['tun2socks', 'ip', 'setpriv'].includes(args[0]!)) {
+      return { status: mockMissingTools.includes(args[0]!) ? 1 : 0 }
+    }
     // Fall through to real spawnSync for other calls
     return childProcess.spawnSync(cmd, args)
   },
@@ -44,6 +48,7 @@ describe('checkLinuxDependencies', () => {
     mockSocatInstalled = true
     mockBpfPath = '/path/to/filter.bpf'
     mockApplyPath = '/path/to/apply-seccomp'
+    mockMissingTools = []
   })
 
   test('returns no errors or warnings when all dependencies present', () => {
@@ -103,6 +108,16 @@ describe('checkLinuxDependencies', () => {
     expect(result.warnings.length).toBe(1)
   })
 
+  test('checks the transparent egress tools only when asked to', () => {
+    mockMissingTools = ['tun2socks', 'setpriv']
+
+    expect(checkLinuxDependencies().errors).toEqual([])
+    expect(checkLinuxDependencies(undefined, true).errors).toEqual([
+      'tun2socks not installed (required for transparentEgress)',
+      'setpriv (util-linux) not installed (required for transparentEgress)',
+    ])
+  })
+
   // This verifies the config parameter is actually passed through
   test('uses custom seccomp paths when provided', () => {
     // Default paths return null (not found)
@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  NetworkAuditLog,
+  createNetworkAuditReporter,
+} from '../../src/sandbox/network-audit-log.js'
+import type { NetworkAuditEvent } from '../../src/sandbox/sandbox-schemas.js'
+
+const event: NetworkAuditEvent = {
+  timestamp: '2026-01-01T00:00:00.000Z',
+  protocol: 'CONNECT',
+  host: 'example.com',
+  port: 443,
+  decision: 'deny',
+  rule: 'no-matching-rule',
+}
+
+describe('NetworkAuditLog', () => {
+  let tempDir: string | undefined
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true })
+      tempDir = undefined
+    }
+  })
+
+  it('appends one JSON line per event to the configured file', async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'srt-audit-'))
+    const logPath = path.join(tempDir, 'audit.jsonl')
+    fs.writeFileSync(logPath, JSON.stringify(event) + '\n')
+    const log = new NetworkAuditLog()
+
+    log.record({ ...event, decision: 'allow' }, { path: logPath })
+    log.record(event, { path: logPath })
+    await log.close()
+
+    const lines = fs.readFileSync(logPath, 'utf8').trim().split('\n')
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      event,
+      { ...event, decision: 'allow' },
+      event,
+    ])
+  })
+
+  it('switches files when the configured path changes', async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'srt-audit-'))
+    const first = path.join(tempDir, 'first.jsonl')
+    const second = path.join(tempDir, 'second.jsonl')
+    const log = new NetworkAuditLog()
+
+    log.record(event, { path: first })
+    log.record({ ...event, decision: 'allow' }, { path: second })
+    await log.close()
+
+    expect(JSON.parse(fs.readFileSync(first, 'utf8'))).toEqual(event)
+    expect(JSON.parse(fs.readFileSync(second, 'utf8'))).toEqual({
+      ...event,
+      decision: 'allow',
+    })
+  })
+
+  it('keeps recording after the file cannot be opened', async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'srt-audit-'))
+    const logPath = path.join(tempDir, 'missing', 'audit.jsonl')
+    const log = new NetworkAuditLog()
+    const received: NetworkAuditEvent[] = []
+    log.subscribe(e => received.push(e))
+
+    log.record(event, { path: logPath })
+    await new Promise(resolve => setTimeout(resolve, 50))
+    fs.mkdirSync(path.dirname(logPath))
+    log.record(event, { path: logPath })
+    await log.close()
+
+    expect(received).toEqual([event, event])
+    expect(fs.readFileSync(logPath, 'utf8').trim().split('\n')).toHaveLength(1)
+  })
+
+  it('delivers events to the configured sink and subscribers', () => {
+    const log = new NetworkAuditLog()
+    const fromSink: NetworkAuditEvent[] = []
+    const fromListener: NetworkAuditEvent[] = []
+    const unsubscribe = log.subscribe(e => fromListener.push(e))
+
+    log.record(event, { sink: e => fromSink.push(e) })
+    unsubscribe()
+    log.record(event, { sink: e => fromSink.push(e) })
+
+    expect(fromSink).toHaveLength(2)
+    expect(fromListener).toEqual([event])
+  })
+
+  it('keeps delivering when a sink throws', () => {
+    const log = new NetworkAuditLog()
+    const received: NetworkAuditEvent[] = []
+    log.subscribe(e => received.push(e))
+
+    log.record(event, {
+      sink: () => {
+        throw new Error('sink failure')
+      },
+    })
+
+    expect(received).toEqual([event])
+  })
+})
+
+describe('createNetworkAuditReporter', () => {
+  it('reports only the first outcome', () => {
+    const received: NetworkAuditEvent[] = []
+    const report = createNetworkAuditReporter(e => received.push(e), {
+      protocol: 'HTTP',
+      host: 'example.com',
+      port: 80,
+      method: 'GET',
+    })
+
+    report({ decision: 'deny', rule: 'deniedDomains:example.com' })
+    report({ decision: 'allow', rule: 'allowedDomains:example.com' })
+
+    expect(received).toHaveLength(1)
+    expect(received[0]).toMatchObject({
+      protocol: 'HTTP',
+      host: 'example.com',
+      port: 80,
+      method: 'GET',
+      decision: 'deny',
+      rule: 'deniedDomains:example.com',
+    })
+    expect(received[0]!.durationMs).toBeUndefined()
+  })
+
+  it('adds the duration to allowed outcomes', () => {
+    const received: NetworkAuditEvent[] = []
+    const report = createNetworkAuditReporter(e => received.push(e), {
+      protocol: 'SOCKS',
+      host: 'example.com',
+      port: 22,
+    })
+
+    report({ decision: 'allow', rule: 'allowedDomains:example.com' })
+
+    expect(received[0]!.durationMs).toBeGreaterThanOrEqual(0)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll, mock } from 'bun:test'
+import type { LookupAllOptions } from 'node:dns'
+import * as dns from 'node:dns/promises'
+import { connect, createServer, type AddressInfo, type Server } from 'node:net'
+
+// Names the proxies resolve, as an attacker controlling their DNS would answer
+const RESOLVED: Record<string, string> = {
+  'example.com': '127.0.0.1',
+  'metadata.example.com': '169.254.169.254',
+  'nat64.example.com': '64:ff9b::a9fe:a9fe',
+  localhost: '127.0.0.1',
+}
+
+void mock.module('node:dns/promises', () => ({
+  ...dns,
+  lookup: async (host: string, options: LookupAllOptions) => {
+    const address = RESOLVED[host]
+    if (address === undefined) {
+      return dns.lookup(host, options)
+    }
+    return [{ address, family: address.includes(':') ? 6 : 4 }]
+  },
+}))
+
+// Dynamic import AFTER mocking - this is required for mocks to take effect
+const { SandboxManager } = await import('../../src/sandbox/sandbox-manager.js')
+
+/**
+ * Send a CONNECT request through the HTTP proxy and return the status code
+ */
+function connectStatus(
+  proxyPort: number,
+  host: string,
+  port: number,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(proxyPort, '127.0.0.1', () => {
+      socket.write(`CONNECT ${host}:${port} HTTP/1.1\r\nHost: ${host}\r\n\r\n`)
+    })
+    socket.once('data', chunk => {
+      socket.destroy()
+      resolve(Number(chunk.toString().split(' ')[1]))
+    })
+    socket.on('error', reject)
+  })
+}
+
+describe('Private destinations', () => {
+  let server: Server
+  let port: number
+
+  beforeAll(async () => {
+    server = createServer(socket => socket.end())
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    port = (server.address() as AddressInfo).port
+
+    await SandboxManager.initialize({
+      network: {
+        allowedDomains: [
+          'example.com',
+          'metadata.example.com',
+          'nat64.example.com',
+          'localhost',
+        ],
+        deniedDomains: [],
+      },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    })
+  })
+
+  afterAll(async () => {
+    await SandboxManager.reset()
+    server.close()
+  })
+
+  it('blocks allowlisted domains that resolve to loopback or metadata addresses', async () => {
+    const proxyPort = SandboxManager.getProxyPort()!
+    expect(await connectStatus(proxyPort, 'example.com', port)).toBe(403)
+    expect(await connectStatus(proxyPort, 'metadata.example.com', 80)).toBe(403)
+    expect(await connectStatus(proxyPort, 'nat64.example.com', 80)).toBe(403)
+  })
+
+  it('lets an allowed localhost rule reach loopback addresses', async () => {
+    const proxyPort = SandboxManager.getProxyPort()!
+    expect(await connectStatus(proxyPort, 'localhost', port)).toBe(200)
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { existsSync, mkdtempSync, rmSync } from 'node:fs'
+import { once } from 'node:events'
+import { connect } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { SandboxBridgeDirectory } from '../../src/sandbox/sandbox-bridge-directory.js'
+
+const invocation = { id: 'npm-test', command: 'npm test' }
+
+describe('SandboxBridgeDirectory', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'srt-sandbox-bridge-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('creates its directories in the bridge directory', async () => {
+    const sandbox = await SandboxBridgeDirectory.open(dir, invocation, () => {})
+    try {
+      expect(sandbox.directory.startsWith(join(dir, 's-'))).toBe(true)
+      expect(existsSync(sandbox.hostDirectory)).toBe(true)
+      expect(existsSync(sandbox.exposedDirectory)).toBe(true)
+      expect(existsSync(sandbox.lifelineSocketPath)).toBe(true)
+    } finally {
+      await sandbox.close()
+    }
+    expect(existsSync(sandbox.directory)).toBe(false)
+  })
+
+  test('ends once the lifeline connection of the sandbox closes', async () => {
+    let ended = 0
+    const sandbox = await SandboxBridgeDirectory.open(
+      dir,
+      invocation,
+      () => ended++,
+    )
+    try {
+      const lifeline = connect(sandbox.lifelineSocketPath)
+      await once(lifeline, 'connect')
+      expect(ended).toBe(0)
+
+      lifeline.end()
+      await once(lifeline, 'close')
+      await new Promise(resolve => setTimeout(resolve, 20))
+      expect(ended).toBe(1)
+    } finally {
+      await sandbox.close()
+    }
+    expect(ended).toBe(1)
+  })
+
+  test('does not end when closed by the host', async () => {
+    let ended = 0
+    const sandbox = await SandboxBridgeDirectory.open(
+      dir,
+      invocation,
+      () => ended++,
+    )
+    const lifeline = connect(sandbox.lifelineSocketPath)
+    await once(lifeline, 'connect')
+    const closed = once(lifeline, 'close')
+    await sandbox.close()
+    await closed
+
+    expect(ended).toBe(0)
+  })
+})
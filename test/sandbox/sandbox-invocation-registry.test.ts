@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'bun:test'
+import { SandboxInvocationRegistry } from '../../src/sandbox/sandbox-invocation-registry.js'
+import { DomainMatcher } from '../../src/sandbox/domain-matcher.js'
+
+describe('SandboxInvocationRegistry', () => {
+  it('maps issued credentials back to the invocation', () => {
+    const registry = new SandboxInvocationRegistry()
+    const { invocation, credentials } = registry.register('npm install')
+
+    expect(invocation.command).toBe('npm install')
+    expect(credentials.username).toBe(invocation.id)
+    expect(registry.lookup(credentials)).toEqual(invocation)
+  })
+
+  it('rejects a known id with the wrong password', () => {
+    const registry = new SandboxInvocationRegistry()
+    const { credentials } = registry.register('npm install')
+
+    expect(
+      registry.lookup({ username: credentials.username, password: 'guess' }),
+    ).toBeUndefined()
+  })
+
+  it('keeps the network policy an invocation was registered with', () => {
+    const registry = new SandboxInvocationRegistry()
+    const { invocation: global } = registry.register('ls')
+    expect(registry.getNetworkPolicy(global)).toBeUndefined()
+    expect(registry.hasNetworkPolicies()).toBe(false)
+
+    const policy = {
+      allowed: new DomainMatcher(['registry.npmjs.org']),
+      denied: new DomainMatcher([]),
+      allowedCidrs: [],
+      deniedCidrs: ['10.0.0.0/8'],
+    }
+    const { invocation } = registry.register('npm install', policy)
+    expect(registry.getNetworkPolicy(invocation)).toBe(policy)
+    expect(registry.hasNetworkPolicies()).toBe(true)
+
+    registry.clear()
+    expect(registry.getNetworkPolicy(invocation)).toBeUndefined()
+    expect(registry.hasNetworkPolicies()).toBe(false)
+  })
+
+  it('keeps the host services an invocation was registered with', () => {
+    const registry = new SandboxInvocationRegistry()
+    const { invocation: global } = registry.register('ls')
+    const services = [{ host: '127.0.0.1', port: 5432 }]
+    const { invocation } = registry.register('psql', undefined, services)
+
+    expect(registry.getHostServices(global)).toBeUndefined()
+    expect(registry.getHostServices(invocation)).toEqual(services)
+    expect(registry.hasNetworkPolicies()).toBe(false)
+  })
+
+  it('keeps invocations until they are released', () => {
+    const registry = new SandboxInvocationRegistry()
+    const { invocation, credentials } = registry.register('npm run dev')
+    for (let i = 0; i < 1500; i++) {
+      registry.register(`command ${i}`)
+    }
+
+    expect(registry.lookup(credentials)).toEqual(invocation)
+    expect(registry.release(invocation.id)).toBe(true)
+    expect(registry.lookup(credentials)).toBeUndefined()
+    expect(registry.release(invocation.id)).toBe(false)
+  })
+
+  it('forgets invocations when cleared', () => {
+    const registry = new SandboxInvocationRegistry()
+    const { credentials } = registry.register('npm install')
+    registry.clear()
+
+    expect(registry.lookup(credentials)).toBeUndefined()
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'bun:test'
+import { SandboxViolationStore } from '../../src/sandbox/sandbox-violation-store.js'
+import type { NetworkAuditEvent } from '../../src/sandbox/sandbox-schemas.js'
+
+function deniedEvent(overrides: Partial<NetworkAuditEvent>): NetworkAuditEvent {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    protocol: 'CONNECT',
+    host: 'evil.example',
+    port: 443,
+    decision: 'deny',
+    rule: 'no-matching-rule',
+    ...overrides,
+  }
+}
+
+describe('SandboxViolationStore network violations', () => {
+  it('records denials attributed to the command that made them', () => {
+    const store = new SandboxViolationStore()
+    store.addNetworkViolation(
+      deniedEvent({ invocation: { id: 'inv-1', command: 'npm test' } }),
+    )
+
+    const [violation] = store.getViolationsForCommand('npm test')
+    expect(violation?.line).toBe(
+      'CONNECT connection to evil.example:443 blocked by allowlist (no-matching-rule)',
+    )
+    expect(violation?.command).toBe('npm test')
+    expect(violation?.timestamp).toEqual(new Date('2026-01-01T00:00:00.000Z'))
+    expect(violation?.network).toEqual({
+      protocol: 'CONNECT',
+      host: 'evil.example',
+      port: 443,
+      rule: 'no-matching-rule',
+      method: undefined,
+    })
+    expect(store.getViolationsForCommand('npm install')).toEqual([])
+  })
+
+  it('names the kind of rule and the request', () => {
+    const store = new SandboxViolationStore()
+    store.addNetworkViolation(
+      deniedEvent({
+        protocol: 'HTTP',
+        method: 'DELETE',
+        host: '2001:db8::1',
+        port: 80,
+        rule: 'deniedDomains:2001:db8::/32',
+      }),
+    )
+    store.addNetworkViolation(
+      deniedEvent({ protocol: 'SOCKS', rule: 'limits:maxBytesPerConnection' }),
+    )
+    store.addNetworkViolation(
+      deniedEvent({ protocol: 'SOCKS', rule: 'revoked:no-matching-rule' }),
+    )
+
+    expect(store.getViolations().map(v => v.line)).toEqual([
+      'HTTP DELETE connection to [2001:db8::1]:80 blocked by denylist (deniedDomains:2001:db8::/32)',
+      'SOCKS connection to evil.example:443 blocked by network limits (limits:maxBytesPerConnection)',
+      'SOCKS connection to evil.example:443 blocked by config update (revoked:no-matching-rule)',
+    ])
+    // Denials without proxy credentials are kept but not attributed
+    expect(store.getViolations()[0]?.command).toBeUndefined()
+  })
+})
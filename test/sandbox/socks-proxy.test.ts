@@ -0,0 +1,655 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import * as net from 'node:net'
+import * as dgram from 'node:dgram'
+import { once } from 'node:events'
+import * as fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { AddressInfo } from 'node:net'
+import {
+  createSocksProxyServer,
+  type SocksProxyServerOptions,
+  type SocksProxyWrapper,
+} from '../../src/sandbox/socks-proxy.js'
+import { ConnectionLimiter } from '../../src/sandbox/connection-limiter.js'
+import type {
+  NetworkAuditEvent,
+  NetworkRequestContext,
+} from '../../src/sandbox/sandbox-schemas.js'
+
+async function startProxy(
+  options: SocksProxyServerOptions,
+): Promise<{ proxy: SocksProxyWrapper; port: number }> {
+  const proxy = createSocksProxyServer(options)
+  const port = await proxy.listen(0, '127.0.0.1')
+  return { proxy, port }
+}
+
+/**
+ * Read exactly `length` bytes from a socket
+ */
+function readBytes(socket: net.Socket, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let buffered = Buffer.alloc(0)
+    const onData = (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk])
+      if (buffered.length >= length) {
+        socket.removeListener('data', onData)
+        socket.removeListener('close', onClose)
+        if (buffered.length > length) {
+          socket.unshift(buffered.subarray(length))
+        }
+        resolve(buffered.subarray(0, length))
+      }
+    }
+    const onClose = () => reject(new Error('socket closed'))
+    socket.on('data', onData)
+    socket.once('close', onClose)
+  })
+}
+
+/**
+ * Minimal SOCKS5 client: negotiate (optionally with username/password),
+ * CONNECT to 127.0.0.1:port, send `payload` and return the reply status
+ * and whatever the destination echoed back.
+ */
+async function socksEcho(
+  proxyPort: number,
+  destPort: number,
+  payload: string,
+  credentials?: { username: string; password: string },
+): Promise<{ status: number; echoed: string }> {
+  const socket = net.connect(proxyPort, '127.0.0.1')
+  await new Promise(resolve => socket.once('connect', resolve))
+
+  try {
+    socket.write(Buffer.from(credentials ? [5, 2, 0, 2] : [5, 1, 0]))
+    const [, method] = await readBytes(socket, 2)
+    if (method === 2 && credentials) {
+      socket.write(
+        Buffer.concat([
+          Buffer.from([1, credentials.username.length]),
+          Buffer.from(credentials.username),
+          Buffer.from([credentials.password.length]),
+          Buffer.from(credentials.password),
+        ]),
+      )
+      await readBytes(socket, 2)
+    }
+
+    const portBytes = Buffer.alloc(2)
+    portBytes.writeUInt16BE(destPort)
+    socket.write(
+      Buffer.concat([Buffer.from([5, 1, 0, 1, 127, 0, 0, 1]), portBytes]),
+    )
+    const reply = await readBytes(socket, 10)
+    if (reply[1] !== 0) {
+      return { status: reply[1]!, echoed: '' }
+    }
+
+    socket.write(payload)
+    const echoed = await readBytes(socket, payload.length)
+    return { status: 0, echoed: echoed.toString() }
+  } finally {
+    socket.destroy()
+  }
+}
+
+describe('SOCKS proxy request context', () => {
+  let echoServer: net.Server
+  let echoPort: number
+
+  beforeAll(async () => {
+    echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise<void>(resolve =>
+      echoServer.listen(0, '127.0.0.1', resolve),
+    )
+    echoPort = (echoServer.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => echoServer.close(resolve))
+  })
+
+  it('relays clients that do not authenticate', async () => {
+    const contexts: NetworkRequestContext[] = []
+    const { proxy, port } = await startProxy({
+      filter: (_port, _host, context) => {
+        contexts.push(context)
+        return true
+      },
+    })
+
+    try {
+      const res = await socksEcho(port, echoPort, 'hello')
+      expect(res).toEqual({ status: 0, echoed: 'hello' })
+      expect(contexts).toEqual([{ protocol: 'SOCKS', invocation: undefined }])
+    } finally {
+      await proxy.close()
+    }
+  })
+
+  it('identifies the invocation from username/password credentials', async () => {
+    const contexts: NetworkRequestContext[] = []
+    const { proxy, port } = await startProxy({
+      filter: (_port, _host, context) => {
+        contexts.push(context)
+        return true
+      },
+      getInvocation: ({ username, password }) =>
+        username === 'inv-1' && password === 'secret'
+          ? { id: 'inv-1', command: 'npm install' }
+          : undefined,
+    })
+
+    try {
+      const res = await socksEcho(port, echoPort, 'hello', {
+        username: 'inv-1',
+        password: 'secret',
+      })
+      expect(res).toEqual({ status: 0, echoed: 'hello' })
+      expect(contexts[0]?.invocation).toEqual({
+        id: 'inv-1',
+        command: 'npm install',
+      })
+    } finally {
+      await proxy.close()
+    }
+  })
+
+  it('identifies clients that cannot authenticate by the socket they use', async () => {
+    const events: NetworkAuditEvent[] = []
+    const invocation = { id: 'inv-1', command: 'git fetch' }
+    const credentials = { username: 'inv-1', password: 'secret' }
+    const { proxy } = await startProxy({
+      // Like the proxies once a command has its own policy
+      filter: (_port, _host, context) => context.invocation !== undefined,
+      getInvocation: ({ username, password }) =>
+        username === credentials.username && password === credentials.password
+          ? invocation
+          : undefined,
+      onAuditEvent: event => events.push(event),
+    })
+    // A listener of the command's own, as the `nc` in GIT_SSH_COMMAND uses
+    const listener = net.createServer(socket =>
+      proxy.handleConnection(socket, credentials),
+    )
+    await new Promise<void>(resolve => listener.listen(0, '127.0.0.1', resolve))
+    const listenerPort = (listener.address() as AddressInfo).port
+
+    try {
+      // Like `nc -X 5`, the client offers no authentication
+      const res = await socksEcho(listenerPort, echoPort, 'hello')
+      expect(res).toEqual({ status: 0, echoed: 'hello' })
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toEqual([
+        expect.objectContaining({ decision: 'allow', invocation }),
+      ])
+    } finally {
+      await new Promise(resolve => listener.close(resolve))
+      await proxy.close()
+    }
+  })
+
+  it('denies connections the filter rejects', async () => {
+    const { proxy, port } = await startProxy({ filter: () => false })
+
+    try {
+      const res = await socksEcho(port, echoPort, 'hello')
+      // 0x02 = connection not allowed by ruleset
+      expect(res.status).toBe(2)
+    } finally {
+      await proxy.close()
+    }
+  })
+
+  it('filters connections to looked-up addresses as their host', async () => {
+    const hosts: string[] = []
+    const events: NetworkAuditEvent[] = []
+    const invocation = { id: 'inv-1', command: 'go test' }
+    const { proxy, port } = await startProxy({
+      filter: (_port, host) => {
+        hosts.push(host)
+        return { allowed: true, rule: 'allowedDomains:echo.test' }
+      },
+      getInvocation: ({ username }) =>
+        username === invocation.id ? invocation : undefined,
+      // Only the command that looked the address up gets its host
+      getHostForAddress: (address, caller) =>
+        address === '127.0.0.1' && caller === invocation
+          ? 'echo.test'
+          : undefined,
+      resolveDestination: async () => '127.0.0.1',
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      const res = await socksEcho(port, echoPort, 'hello', {
+        username: invocation.id,
+        password: 'secret',
+      })
+      expect(res).toEqual({ status: 0, echoed: 'hello' })
+      expect(hosts).toEqual(['echo.test'])
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toEqual([
+        expect.objectContaining({ host: 'echo.test', decision: 'allow' }),
+      ])
+    } finally {
+      await proxy.close()
+    }
+  })
+
+  it('closes connections that exceed the per-connection byte cap', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { proxy, port } = await startProxy({
+      filter: () => true,
+      limiter: new ConnectionLimiter(() => ({ maxBytesPerConnection: 4 })),
+      onAuditEvent: event => events.push(event),
+    })
+
+    try {
+      await expect(
+        socksEcho(port, echoPort, 'more than four bytes'),
+      ).rejects.toThrow('socket closed')
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toEqual([
+        expect.objectContaining({
+          protocol: 'SOCKS',
+          decision: 'deny',
+          rule: 'limits:maxBytesPerConnection',
+        }),
+      ])
+    } finally {
+      await proxy.close()
+    }
+  })
+})
+
+/**
+ * Open a UDP association, announcing the client's source port if given:
+ * returns the control connection and the relay port
+ */
+async function udpAssociate(
+  proxyPort: number,
+  clientPort = 0,
+): Promise<{ control: net.Socket; relayPort: number }> {
+  const control = net.connect(proxyPort, '127.0.0.1')
+  await once(control, 'connect')
+  control.write(Buffer.from([5, 1, 0]))
+  await readBytes(control, 2)
+  const request = Buffer.from([5, 3, 0, 1, 0, 0, 0, 0, 0, 0])
+  request.writeUInt16BE(clientPort, 8)
+  control.write(request)
+  const reply = await readBytes(control, 10)
+  expect(reply[1]).toBe(0)
+  expect([...reply.subarray(4, 8)]).toEqual([127, 0, 0, 1])
+  return { control, relayPort: reply.readUInt16BE(8) }
+}
+
+/**
+ * SOCKS5 UDP request header for 127.0.0.1:port followed by the payload
+ */
+function udpDatagram(destPort: number, payload: string): Buffer {
+  const header = Buffer.from([0, 0, 0, 1, 127, 0, 0, 1, 0, 0])
+  header.writeUInt16BE(destPort, 8)
+  return Buffer.concat([header, Buffer.from(payload)])
+}
+
+describe('SOCKS proxy UDP ASSOCIATE', () => {
+  let echoServer: dgram.Socket
+  let echoPort: number
+
+  beforeAll(async () => {
+    echoServer = dgram.createSocket('udp4')
+    echoServer.on('message', (message, rinfo) =>
+      echoServer.send(message, rinfo.port, rinfo.address),
+    )
+    echoServer.bind(0, '127.0.0.1')
+    await once(echoServer, 'listening')
+    echoPort = echoServer.address().port
+  })
+
+  afterAll(() => {
+    echoServer.close()
+  })
+
+  it('relays datagrams to allowed destinations and back', async () => {
+    const events: NetworkAuditEvent[] = []
+    const contexts: NetworkRequestContext[] = []
+    const { proxy, port } = await startProxy({
+      filter: (_port, _host, context) => {
+        contexts.push(context)
+        return { allowed: true, rule: 'allowedDomains:127.0.0.1' }
+      },
+      onAuditEvent: event => events.push(event),
+    })
+    const client = dgram.createSocket('udp4')
+
+    try {
+      const { control, relayPort } = await udpAssociate(port)
+      expect(relayPort).toBe(proxy.getUdpPort()!)
+
+      client.send(udpDatagram(echoPort, 'ping'), relayPort, '127.0.0.1')
+      const [reply] = (await once(client, 'message')) as [Buffer]
+      // RSV, FRAG, ATYP IPv4, the echo server's address and port, data
+      expect([...reply.subarray(0, 8)]).toEqual([0, 0, 0, 1, 127, 0, 0, 1])
+      expect(reply.readUInt16BE(8)).toBe(echoPort)
+      expect(reply.subarray(10).toString()).toBe('ping')
+      expect(contexts).toEqual([{ protocol: 'UDP', invocation: undefined }])
+
+      control.destroy()
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toEqual([
+        expect.objectContaining({
+          protocol: 'UDP',
+          host: '127.0.0.1',
+          port: echoPort,
+          decision: 'allow',
+          rule: 'allowedDomains:127.0.0.1',
+          bytesUp: 4,
+          bytesDown: 4,
+        }),
+      ])
+    } finally {
+      client.close()
+      await proxy.close()
+    }
+  })
+
+  it('drops datagrams to denied destinations', async () => {
+    const events: NetworkAuditEvent[] = []
+    let filterCalls = 0
+    const { proxy, port } = await startProxy({
+      filter: () => {
+        filterCalls++
+        return { allowed: false, rule: 'no-matching-rule' }
+      },
+      onAuditEvent: event => events.push(event),
+    })
+    const client = dgram.createSocket('udp4')
+    const received: Buffer[] = []
+    client.on('message', message => received.push(message))
+
+    try {
+      const { control, relayPort } = await udpAssociate(port)
+      client.send(udpDatagram(echoPort, 'one'), relayPort, '127.0.0.1')
+      client.send(udpDatagram(echoPort, 'two'), relayPort, '127.0.0.1')
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(received).toEqual([])
+      expect(filterCalls).toBe(1)
+      expect(events).toEqual([
+        expect.objectContaining({
+          protocol: 'UDP',
+          port: echoPort,
+          decision: 'deny',
+          rule: 'no-matching-rule',
+        }),
+      ])
+      control.destroy()
+    } finally {
+      client.close()
+      await proxy.close()
+    }
+  })
+
+  it('binds datagrams to the association that announced their source port', async () => {
+    const events: NetworkAuditEvent[] = []
+    const { proxy, port } = await startProxy({
+      filter: () => true,
+      onAuditEvent: event => events.push(event),
+    })
+    const client = dgram.createSocket('udp4')
+    client.bind(0, '127.0.0.1')
+    await once(client, 'listening')
+
+    try {
+      const unannounced = await udpAssociate(port)
+      const announced = await udpAssociate(port, client.address().port)
+      client.send(
+        udpDatagram(echoPort, 'ping'),
+        announced.relayPort,
+        '127.0.0.1',
+      )
+      await once(client, 'message')
+
+      // Only the announcing association relayed, so only it reports
+      announced.control.destroy()
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toHaveLength(1)
+      unannounced.control.destroy()
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(events).toHaveLength(1)
+    } finally {
+      client.close()
+      await proxy.close()
+    }
+  })
+
+  it('drops datagrams that could belong to several associations', async () => {
+    let filterCalls = 0
+    const { proxy, port } = await startProxy({
+      filter: () => {
+        filterCalls++
+        return true
+      },
+    })
+    const client = dgram.createSocket('udp4')
+    const received: Buffer[] = []
+    client.on('message', message => received.push(message))
+
+    try {
+      const first = await udpAssociate(port)
+      const second = await udpAssociate(port)
+      client.send(udpDatagram(echoPort, 'ping'), first.relayPort, '127.0.0.1')
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(received).toEqual([])
+      expect(filterCalls).toBe(0)
+      first.control.destroy()
+      second.control.destroy()
+    } finally {
+      client.close()
+      await proxy.close()
+    }
+  })
+
+  it('holds a lease per destination that can be revoked', async () => {
+    const events: NetworkAuditEvent[] = []
+    let filterCalls = 0
+    const limiter = new ConnectionLimiter(() => undefined)
+    const { proxy, port } = await startProxy({
+      filter: () => {
+        filterCalls++
+        return { allowed: true, rule: 'allowedDomains:127.0.0.1' }
+      },
+      onAuditEvent: event => events.push(event),
+      limiter,
+    })
+    const client = dgram.createSocket('udp4')
+
+    try {
+      const { control, relayPort } = await udpAssociate(port)
+      client.send(udpDatagram(echoPort, 'ping'), relayPort, '127.0.0.1')
+      await once(client, 'message')
+      expect(limiter.getActiveConnections()).toEqual([
+        expect.objectContaining({
+          protocol: 'UDP',
+          host: '127.0.0.1',
+          port: echoPort,
+          rule: 'allowedDomains:127.0.0.1',
+          bytesUp: 4,
+          bytesDown: 4,
+        }),
+      ])
+
+      expect(limiter.revoke(() => 'revoked:no-matching-rule')).toBe(1)
+      expect(limiter.getActiveConnections()).toEqual([])
+      expect(events).toEqual([
+        expect.objectContaining({
+          protocol: 'UDP',
+          decision: 'deny',
+          rule: 'revoked:no-matching-rule',
+        }),
+      ])
+
+      // The next datagram is checked again
+      client.send(udpDatagram(echoPort, 'pong'), relayPort, '127.0.0.1')
+      await once(client, 'message')
+      expect(filterCalls).toBe(2)
+      expect(limiter.getActiveConnections()).toHaveLength(1)
+      control.destroy()
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(limiter.getActiveConnections()).toEqual([])
+    } finally {
+      client.close()
+      await proxy.close()
+    }
+  })
+
+  it('answers queries to the DNS server instead of relaying them', async () => {
+    let filterCalls = 0
+    const { proxy, port } = await startProxy({
+      filter: () => {
+        filterCalls++
+        return true
+      },
+      dnsServer: {
+        address: '127.0.0.1',
+        answer: async query => Buffer.from(`answer to ${query}`),
+      },
+    })
+    const client = dgram.createSocket('udp4')
+
+    try {
+      const { control, relayPort } = await udpAssociate(port)
+      client.send(udpDatagram(53, 'query'), relayPort, '127.0.0.1')
+      const [reply] = (await once(client, 'message')) as [Buffer]
+      expect([...reply.subarray(0, 8)]).toEqual([0, 0, 0, 1, 127, 0, 0, 1])
+      expect(reply.readUInt16BE(8)).toBe(53)
+      expect(reply.subarray(10).toString()).toBe('answer to query')
+      expect(filterCalls).toBe(0)
+      control.destroy()
+    } finally {
+      client.close()
+      await proxy.close()
+    }
+  })
+})
+
+describe('SOCKS proxy UDP ASSOCIATE through a Linux bridge', () => {
+  const invocation = { id: 'inv-1', command: 'dig example.com' }
+  let directory: string
+  let echoServer: dgram.Socket
+  let echoPort: number
+
+  beforeAll(async () => {
+    directory = fs.mkdtempSync(join(tmpdir(), 'socks-udp-bridge-'))
+    echoServer = dgram.createSocket('udp4')
+    echoServer.on('message', (message, rinfo) =>
+      echoServer.send(message, rinfo.port, rinfo.address),
+    )
+    echoServer.bind(0, '127.0.0.1')
+    await once(echoServer, 'listening')
+    echoPort = echoServer.address().port
+  })
+
+  afterAll(() => {
+    echoServer.close()
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  /**
+   * Serve the proxy and the sandbox's UDP bridge on Unix sockets, like the
+   * Linux bridge directory does
+   */
+  async function startBridgedProxy(): Promise<{
+    proxy: SocksProxyWrapper
+    socksPath: string
+    udpPath: string
+    close: () => Promise<void>
+  }> {
+    const { proxy } = await startProxy({
+      filter: () => true,
+      getInvocation: ({ username }) =>
+        username === invocation.id ? invocation : undefined,
+    })
+    const socksPath = join(directory, 'socks.sock')
+    const udpPath = join(directory, 'udp.sock')
+    const servers = [
+      net.createServer(socket => proxy.handleConnection(socket)),
+      net.createServer({ allowHalfOpen: true }, socket =>
+        proxy.udpRelay.relayBridged(socket, invocation),
+      ),
+    ]
+    await Promise.all(
+      servers.map((server, i) => {
+        server.listen(i === 0 ? socksPath : udpPath)
+        return once(server, 'listening')
+      }),
+    )
+    return {
+      proxy,
+      socksPath,
+      udpPath,
+      close: async () => {
+        await Promise.all(
+          servers.map(server => new Promise(resolve => server.close(resolve))),
+        )
+        await proxy.close()
+      },
+    }
+  }
+
+  /** Send one datagram over its own connection and read the reply, if any */
+  async function sendBridged(udpPath: string, datagram: Buffer) {
+    const connection = net.connect(udpPath)
+    await once(connection, 'connect')
+    const chunks: Buffer[] = []
+    connection.on('data', chunk => chunks.push(chunk))
+    connection.end(datagram)
+    await once(connection, 'close')
+    return Buffer.concat(chunks)
+  }
+
+  it("relays a sandbox's datagrams for its association and back", async () => {
+    const { socksPath, udpPath, close } = await startBridgedProxy()
+    const control = net.connect(socksPath)
+
+    try {
+      await once(control, 'connect')
+      control.write(Buffer.from([5, 1, 2]))
+      await readBytes(control, 2)
+      control.write(
+        Buffer.concat([
+          Buffer.from([1, invocation.id.length]),
+          Buffer.from(invocation.id),
+          Buffer.from([6]),
+          Buffer.from('secret'),
+        ]),
+      )
+      await readBytes(control, 2)
+      control.write(Buffer.from([5, 3, 0, 1, 0, 0, 0, 0, 0, 0]))
+      expect((await readBytes(control, 10))[1]).toBe(0)
+
+      const reply = await sendBridged(udpPath, udpDatagram(echoPort, 'ping'))
+      expect([...reply.subarray(0, 8)]).toEqual([0, 0, 0, 1, 127, 0, 0, 1])
+      expect(reply.readUInt16BE(8)).toBe(echoPort)
+      expect(reply.subarray(10).toString()).toBe('ping')
+    } finally {
+      control.destroy()
+      await close()
+    }
+  })
+
+  it("drops datagrams when the sandbox's command has no association", async () => {
+    const { udpPath, close } = await startBridgedProxy()
+
+    try {
+      const reply = await sendBridged(udpPath, udpDatagram(echoPort, 'ping'))
+      expect(reply.length).toBe(0)
+    } finally {
+      await close()
+    }
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'bun:test'
+import * as net from 'node:net'
+import * as tls from 'node:tls'
+import type { AddressInfo } from 'node:net'
+import {
+  MAX_CLIENT_HELLO_BYTES,
+  peekTlsClientHello,
+} from '../../src/sandbox/tls-client-hello.js'
+
+/**
+ * Capture the first bytes a real TLS client sends (its ClientHello)
+ */
+async function captureClientHello(servername?: string): Promise<Buffer> {
+  const server = net.createServer()
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  try {
+    return await new Promise<Buffer>(resolve => {
+      server.once('connection', socket => {
+        socket.once('data', chunk => {
+          resolve(chunk)
+          socket.destroy()
+        })
+      })
+      tls.connect({ host: '127.0.0.1', port, servername }).on('error', () => {})
+    })
+  } finally {
+    server.close()
+  }
+}
+
+/**
+ * Re-frame a single-record ClientHello as handshake records of at most
+ * `size` bytes each
+ */
+function fragmentClientHello(hello: Buffer, size: number): Buffer {
+  const header = hello.subarray(0, 5)
+  const body = hello.subarray(5)
+  const records: Buffer[] = []
+  for (let offset = 0; offset < body.length; offset += size) {
+    const fragment = body.subarray(offset, offset + size)
+    const recordHeader = Buffer.from(header)
+    recordHeader.writeUInt16BE(fragment.length, 3)
+    records.push(recordHeader, fragment)
+  }
+  return Buffer.concat(records)
+}
+
+describe('peekTlsClientHello', () => {
+  it('extracts the SNI from a real ClientHello', async () => {
+    const hello = await captureClientHello('api.example.com')
+    expect(peekTlsClientHello(hello)).toEqual({
+      status: 'parsed',
+      serverName: 'api.example.com',
+    })
+  })
+
+  it('reports a ClientHello without SNI', async () => {
+    // Node omits SNI when servername is an empty string
+    const hello = await captureClientHello('')
+    expect(peekTlsClientHello(hello)).toEqual({
+      status: 'parsed',
+      serverName: undefined,
+    })
+  })
+
+  it('asks for more bytes when the record is truncated', async () => {
+    const hello = await captureClientHello('api.example.com')
+    expect(peekTlsClientHello(hello.subarray(0, 3))).toEqual({
+      status: 'incomplete',
+    })
+    expect(peekTlsClientHello(hello.subarray(0, hello.length - 1))).toEqual({
+      status: 'incomplete',
+    })
+  })
+
+  it('rejects non-TLS bytes', () => {
+    expect(
+      peekTlsClientHello(Buffer.from('GET / HTTP/1.1\r\n\r\n')).status,
+    ).toBe('not-tls')
+    expect(peekTlsClientHello(Buffer.from('SSH-2.0-OpenSSH\r\n')).status).toBe(
+      'not-tls',
+    )
+  })
+
+  it('reassembles a ClientHello split across records', async () => {
+    const hello = fragmentClientHello(
+      await captureClientHello('api.example.com'),
+      3,
+    )
+    expect(peekTlsClientHello(hello)).toEqual({
+      status: 'parsed',
+      serverName: 'api.example.com',
+    })
+    // Cut inside a record header and inside a record
+    expect(peekTlsClientHello(hello.subarray(0, 10)).status).toBe('incomplete')
+    expect(peekTlsClientHello(hello.subarray(0, 12)).status).toBe('incomplete')
+  })
+
+  it('reports malformed handshake records', () => {
+    // Handshake record claiming a ClientHello longer than the record itself
+    // and followed by a non-handshake record
+    const wrongFollowUp = Buffer.from([
+      0x16, 0x03, 0x01, 0x00, 0x05, 0x01, 0x00, 0xff, 0xff, 0x03, 0x17, 0x03,
+      0x03, 0x00, 0x01, 0x00,
+    ])
+    expect(peekTlsClientHello(wrongFollowUp).status).toBe('malformed')
+
+    // A complete ClientHello whose body is truncated
+    const truncated = Buffer.from([
+      0x16, 0x03, 0x01, 0x00, 0x06, 0x01, 0x00, 0x00, 0x02, 0x03, 0x03,
+    ])
+    expect(peekTlsClientHello(truncated).status).toBe('malformed')
+
+    // A handshake message other than ClientHello
+    const serverHello = Buffer.from([
+      0x16, 0x03, 0x01, 0x00, 0x04, 0x02, 0x00, 0x00, 0x00,
+    ])
+    expect(peekTlsClientHello(serverHello).status).toBe('malformed')
+
+    // An empty record
+    expect(
+      peekTlsClientHello(Buffer.from([0x16, 0x03, 0x01, 0x00, 0x00])).status,
+    ).toBe('malformed')
+  })
+
+  it('gives up on a ClientHello that does not end within the size limit', () => {
+    // Claims the largest handshake length and is sent in 1-byte records
+    const records: Buffer[] = [
+      Buffer.from([0x16, 0x03, 0x01, 0x00, 0x04, 0x01, 0xff, 0xff, 0xff]),
+    ]
+    for (let size = 9; size <= MAX_CLIENT_HELLO_BYTES; size += 6) {
+      records.push(Buffer.from([0x16, 0x03, 0x01, 0x00, 0x01, 0x00]))
+    }
+    expect(peekTlsClientHello(Buffer.concat(records)).status).toBe('malformed')
+  })
+})
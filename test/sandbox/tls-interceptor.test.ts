@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { rootCertificates } from 'node:tls'
+import {
+  readSystemCaBundle,
+  TlsInterceptor,
+} from '../../src/sandbox/tls-interceptor.js'
+
+describe('readSystemCaBundle', () => {
+  let tempDir: string | undefined
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true })
+      tempDir = undefined
+    }
+  })
+
+  it('reads the first bundle that exists', () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'srt-ca-'))
+    const corporate = path.join(tempDir, 'corporate.pem')
+    fs.writeFileSync(corporate, '-----BEGIN CERTIFICATE-----\ncorp\n')
+
+    expect(
+      readSystemCaBundle([path.join(tempDir, 'missing.pem'), corporate]),
+    ).toBe('-----BEGIN CERTIFICATE-----\ncorp\n')
+  })
+
+  it("falls back to Node's built-in roots", () => {
+    expect(readSystemCaBundle([])).toBe(rootCertificates.join('\n'))
+  })
+})
+
+describe('TlsInterceptor', () => {
+  it('appends its CA to the system trust store', () => {
+    const interceptor = new TlsInterceptor()
+    try {
+      const bundle = fs.readFileSync(interceptor.caFiles.bundlePath, 'utf8')
+      expect(bundle.startsWith(readSystemCaBundle().trimEnd())).toBe(true)
+      expect(bundle.endsWith(interceptor.caCertificate)).toBe(true)
+    } finally {
+      interceptor.dispose()
+    }
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, test, expect } from 'bun:test'
+import { TransparentDnsResolver } from '../../src/sandbox/transparent-dns.js'
+import type { SandboxInvocation } from '../../src/sandbox/sandbox-schemas.js'
+
+const TYPE_A = 1
+const TYPE_AAAA = 28
+
+/** A recursive query for one name, as a stub resolver sends it */
+function dnsQuery(name: string, type = TYPE_A, id = 0x1234): Buffer {
+  const header = Buffer.from([0, 0, 0x01, 0x00, 0, 1, 0, 0, 0, 0, 0, 0])
+  header.writeUInt16BE(id, 0)
+  const labels = name
+    .split('.')
+    .map(label =>
+      Buffer.concat([Buffer.from([label.length]), Buffer.from(label)]),
+    )
+  const footer = Buffer.alloc(5)
+  footer.writeUInt16BE(type, 1)
+  footer.writeUInt16BE(1, 3)
+  return Buffer.concat([header, ...labels, footer])
+}
+
+/** Response code and A record addresses of a response */
+function readResponse(response: Buffer): {
+  id: number
+  rcode: number
+  addresses: string[]
+} {
+  const answerCount = response.readUInt16BE(6)
+  let offset = 12
+  while (response[offset] !== 0) {
+    offset += response[offset]! + 1
+  }
+  offset += 5
+  const addresses: string[] = []
+  for (let i = 0; i < answerCount; i++) {
+    addresses.push([...response.subarray(offset + 12, offset + 16)].join('.'))
+    offset += 16
+  }
+  return {
+    id: response.readUInt16BE(0),
+    rcode: response.readUInt16BE(2) & 0x0f,
+    addresses,
+  }
+}
+
+const invocation: SandboxInvocation = { id: 'inv-1', command: 'go test' }
+
+/** Resolver answering `invocation` for the allowed hosts */
+function createResolver(allowed: string[]) {
+  const lookups: string[] = []
+  const checks: Array<SandboxInvocation | undefined> = []
+  const resolver = new TransparentDnsResolver(
+    (host, invocation) => {
+      checks.push(invocation)
+      return allowed.includes(host)
+    },
+    async host => {
+      lookups.push(host)
+      if (host === 'missing.example.com') {
+        throw Object.assign(new Error('not found'), { code: 'ENOTFOUND' })
+      }
+      return ['203.0.113.10', '2001:db8::1', '203.0.113.11']
+    },
+  )
+  resolver.enable(invocation)
+  return { resolver, lookups, checks }
+}
+
+describe('TransparentDnsResolver', () => {
+  test('answers allowed hosts and remembers the addresses given out', async () => {
+    const { resolver, checks } = createResolver(['api.example.com'])
+
+    const response = await resolver.answer(
+      dnsQuery('API.example.com'),
+      invocation,
+    )
+    expect(readResponse(response!)).toEqual({
+      id: 0x1234,
+      rcode: 0,
+      addresses: ['203.0.113.10', '203.0.113.11'],
+    })
+    expect(checks).toEqual([invocation])
+    expect(resolver.getHost('203.0.113.11', invocation)).toBe('api.example.com')
+    expect(resolver.getHost('198.51.100.1', invocation)).toBeUndefined()
+  })
+
+  test('refuses hosts the rules do not allow without looking them up', async () => {
+    const { resolver, lookups } = createResolver(['api.example.com'])
+
+    const response = await resolver.answer(
+      dnsQuery('c2VjcmV0.attacker.example'),
+      invocation,
+    )
+    expect(readResponse(response!).rcode).toBe(3)
+    expect(lookups).toEqual([])
+  })
+
+  test('answers other record types of allowed hosts with no records', async () => {
+    const { resolver, lookups } = createResolver(['api.example.com'])
+
+    const response = await resolver.answer(
+      dnsQuery('api.example.com', TYPE_AAAA),
+      invocation,
+    )
+    expect(readResponse(response!)).toMatchObject({ rcode: 0, addresses: [] })
+    expect(lookups).toEqual([])
+  })
+
+  test('reports hosts that do not exist', async () => {
+    const { resolver } = createResolver(['missing.example.com'])
+
+    const response = await resolver.answer(
+      dnsQuery('missing.example.com'),
+      invocation,
+    )
+    expect(readResponse(response!).rcode).toBe(3)
+  })
+
+  test('ignores responses and malformed messages', async () => {
+    const { resolver } = createResolver(['api.example.com'])
+    const response = dnsQuery('api.example.com')
+    response[2]! |= 0x80
+
+    expect(await resolver.answer(response, invocation)).toBeUndefined()
+    expect(
+      await resolver.answer(
+        dnsQuery('api.example.com').subarray(0, 20),
+        invocation,
+      ),
+    ).toBeUndefined()
+  })
+
+  test('forgets the oldest addresses beyond its capacity', async () => {
+    let next = 0
+    const resolver = new TransparentDnsResolver(
+      () => true,
+      async () => [`203.0.113.${++next}`],
+      2,
+    )
+    resolver.enable(invocation)
+    for (const host of ['a.example.com', 'b.example.com', 'c.example.com']) {
+      await resolver.answer(dnsQuery(host), invocation)
+    }
+    expect(resolver.getHost('203.0.113.1', invocation)).toBeUndefined()
+    expect(resolver.getHost('203.0.113.3', invocation)).toBe('c.example.com')
+
+    resolver.clear()
+    expect(resolver.getHost('203.0.113.3', invocation)).toBeUndefined()
+  })
+
+  test('keeps the addresses each command looked up apart', async () => {
+    const { resolver } = createResolver(['api.example.com'])
+    const other: SandboxInvocation = { id: 'inv-2', command: 'curl' }
+    resolver.enable(other)
+
+    await resolver.answer(dnsQuery('api.example.com'), invocation)
+    expect(resolver.getHost('203.0.113.10', invocation)).toBe('api.example.com')
+    expect(resolver.getHost('203.0.113.10', other)).toBeUndefined()
+    expect(resolver.getHost('203.0.113.10', undefined)).toBeUndefined()
+
+    resolver.release(invocation.id)
+    expect(resolver.getHost('203.0.113.10', invocation)).toBeUndefined()
+  })
+
+  test('does not answer commands without transparent egress', async () => {
+    const { resolver, lookups } = createResolver(['api.example.com'])
+
+    expect(
+      await resolver.answer(dnsQuery('api.example.com'), undefined),
+    ).toBeUndefined()
+    expect(
+      await resolver.answer(dnsQuery('api.example.com'), {
+        id: 'inv-2',
+        command: 'curl',
+      }),
+    ).toBeUndefined()
+    resolver.release(invocation.id)
+    expect(
+      await resolver.answer(dnsQuery('api.example.com'), invocation),
+    ).toBeUndefined()
+    expect(lookups).toEqual([])
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { existsSync, mkdtempSync, rmSync, unlinkSync } from 'node:fs'
+import { once } from 'node:events'
+import { createServer as createHttpServer, request } from 'node:http'
+import { connect, createServer, type AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  relayToPort,
+  UnixSocketBridge,
+} from '../../src/sandbox/unix-socket-bridge.js'
+
+/**
+ * Send `payload` over the bridge socket, shut down the sending side and
+ * collect everything that comes back
+ */
+async function exchange(socketPath: string, payload: string): Promise<string> {
+  const socket = connect(socketPath)
+  await once(socket, 'connect')
+  let received = ''
+  socket.on('data', chunk => (received += chunk))
+  socket.end(payload)
+  await once(socket, 'close')
+  return received
+}
+
+describe('UnixSocketBridge', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'srt-bridge-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('hands connections to an in-process HTTP server', async () => {
+    const server = createHttpServer((_req, res) => res.end('from proxy'))
+    const bridge = new UnixSocketBridge(
+      'HTTP',
+      join(dir, 'http.sock'),
+      socket => server.emit('connection', socket),
+    )
+    await bridge.listen()
+
+    try {
+      const body = await new Promise<string>((resolve, reject) => {
+        const req = request(
+          { socketPath: bridge.socketPath, path: 'http://example.com/' },
+          res => {
+            let data = ''
+            res.on('data', chunk => (data += chunk))
+            res.on('end', () => resolve(data))
+          },
+        )
+        req.on('error', reject)
+        req.end()
+      })
+      expect(body).toBe('from proxy')
+    } finally {
+      await bridge.close()
+      server.close()
+    }
+  })
+
+  test('relays to a TCP port and keeps half-closed connections open', async () => {
+    // Replies only after the client has finished sending
+    const upstream = createServer({ allowHalfOpen: true }, socket => {
+      let data = ''
+      socket.on('data', chunk => (data += chunk))
+      socket.on('end', () => socket.end(data.toUpperCase()))
+    })
+    upstream.listen(0, '127.0.0.1')
+    await once(upstream, 'listening')
+    const { port } = upstream.address() as AddressInfo
+
+    const bridge = new UnixSocketBridge(
+      'SOCKS',
+      join(dir, 'socks.sock'),
+      relayToPort(port),
+    )
+    await bridge.listen()
+
+    try {
+      expect(await exchange(bridge.socketPath, 'ping')).toBe('PING')
+    } finally {
+      await bridge.close()
+      upstream.close()
+    }
+  })
+
+  test('fails to listen with an error naming the bridge', async () => {
+    const bridge = new UnixSocketBridge(
+      'HTTP',
+      join(dir, 'missing', 'http.sock'),
+      socket => socket.destroy(),
+    )
+    await expect(bridge.listen()).rejects.toThrow(/Failed to start HTTP bridge/)
+    expect(bridge.listening).toBe(false)
+  })
+
+  test('drops open connections and removes the socket on close', async () => {
+    const bridge = new UnixSocketBridge('HTTP', join(dir, 'http.sock'), () => {
+      // Hold the connection open
+    })
+    await bridge.listen()
+    expect(bridge.listening).toBe(true)
+
+    const client = connect(bridge.socketPath)
+    await once(client, 'connect')
+    const closed = once(client, 'close')
+    await bridge.close()
+    await closed
+
+    expect(bridge.listening).toBe(false)
+    expect(existsSync(bridge.socketPath)).toBe(false)
+  })
+
+  test('is unhealthy once its socket is replaced on the same path', async () => {
+    const bridge = new UnixSocketBridge('HTTP', join(dir, 'http.sock'), () => {
+      // Never used
+    })
+    await bridge.listen()
+    const impostor = createServer()
+    try {
+      unlinkSync(bridge.socketPath)
+      impostor.listen(bridge.socketPath)
+      await once(impostor, 'listening')
+
+      expect(existsSync(bridge.socketPath)).toBe(true)
+      expect(bridge.isHealthy()).toBe(false)
+    } finally {
+      impostor.close()
+      await bridge.close()
+    }
+  })
+
+  test('restarts on the same path and keeps open connections', async () => {
+    const server = createServer({ allowHalfOpen: true }, socket =>
+      socket.pipe(socket),
+    )
+    const bridge = new UnixSocketBridge(
+      'SOCKS',
+      join(dir, 'socks.sock'),
+      socket => server.emit('connection', socket),
+    )
+    await bridge.listen()
+
+    const open = connect(bridge.socketPath)
+    await once(open, 'connect')
+    try {
+      // The socket file is deleted from under the bridge
+      unlinkSync(bridge.socketPath)
+      expect(bridge.isHealthy()).toBe(false)
+
+      await bridge.restart()
+      expect(bridge.isHealthy()).toBe(true)
+      expect(await exchange(bridge.socketPath, 'new')).toBe('new')
+
+      open.write('old')
+      const [echoed] = (await once(open, 'data')) as [Buffer]
+      expect(echoed.toString()).toBe('old')
+    } finally {
+      open.destroy()
+      await bridge.close()
+    }
+  })
+})
@@ -1,6 +1,9 @@
 import { describe, it, expect, afterEach, beforeEach } from 'vitest'
-import { SandboxManager } from '../../src/index.js'
+import { NETWORK_PRESETS, SandboxManager } from '../../src/index.js'
 import { connect } from 'net'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
 import { spawnSync } from 'child_process'
 import { getPlatform } from '../../src/utils/platform.js'
 
@@ -79,6 +82,51 @@ describe('SandboxManager.updateConfig', () => {
     expect(config?.network.allowedDomains).not.toContain('example.com')
   })
 
+  it('should merge presets and domain list files into the network restriction config', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'update-config-lists-'))
+    try {
+      writeFileSync(join(dir, 'allow.txt'), 'internal.example.com\n')
+      writeFileSync(join(dir, 'deny.hosts'), '0.0.0.0 ads.example.com\n')
+
+      SandboxManager.updateConfig({
+        network: {
+          allowedDomains: ['example.com'],
+          deniedDomains: [],
+          presets: ['npm'],
+          allowedDomainsFiles: [join(dir, 'allow.txt')],
+          deniedDomainsFiles: [join(dir, 'deny.hosts')],
+        },
+        filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+      })
+
+      expect(SandboxManager.getNetworkRestrictionConfig()).toEqual({
+        allowedHosts: [
+          'example.com',
+          ...NETWORK_PRESETS.npm,
+          'internal.example.com',
+        ],
+        deniedHosts: ['ads.example.com'],
+      })
+
+      // A list that can't be loaded leaves the current config in place
+      expect(() =>
+        SandboxManager.updateConfig({
+          network: {
+            allowedDomains: [],
+            deniedDomains: [],
+            deniedDomainsFiles: [join(dir, 'missing.txt')],
+          },
+          filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+        }),
+      ).toThrow('Cannot read domain list')
+      expect(SandboxManager.getNetworkRestrictionConfig().deniedHosts).toEqual([
+        'ads.example.com',
+      ])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
   it('should update network restriction config dynamically', async () => {
     // Initialize with no allowed domains
     await SandboxManager.initialize({
@@ -0,0 +1,379 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import * as http from 'node:http'
+import * as net from 'node:net'
+import { once } from 'node:events'
+import type { AddressInfo } from 'node:net'
+import { createServer as createSocksServer } from '@pondwader/socks5-server'
+import { openUpstreamTunnel } from '../../src/sandbox/upstream-proxy.js'
+import { createHttpProxyServer } from '../../src/sandbox/http-proxy.js'
+import { createSocksProxyServer } from '../../src/sandbox/socks-proxy.js'
+
+const auth = { username: 'corp-user', password: 'corp-pass' }
+const expectedAuthorization = `Basic ${Buffer.from('corp-user:corp-pass').toString('base64')}`
+
+async function listen(server: net.Server): Promise<number> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return (server.address() as AddressInfo).port
+}
+
+/**
+ * Write `payload` to the socket and collect the same number of bytes back
+ */
+function echo(socket: net.Socket, payload: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let received = ''
+    socket.on('data', chunk => {
+      received += chunk
+      if (received.length >= payload.length) {
+        resolve(received)
+      }
+    })
+    socket.on('error', reject)
+    socket.resume()
+    socket.write(payload)
+  })
+}
+
+describe('upstream proxy chaining', () => {
+  let echoServer: net.Server
+  let echoPort: number
+  let webServer: http.Server
+  let webPort: number
+
+  // Stand-in corporate HTTP proxy: requires basic auth, records what it saw
+  let parent: http.Server
+  let parentPort: number
+  const parentConnects: string[] = []
+  const parentRequests: string[] = []
+
+  beforeAll(async () => {
+    echoServer = net.createServer(socket => socket.pipe(socket))
+    echoPort = await listen(echoServer)
+
+    webServer = http.createServer((_req, res) => res.end('from origin'))
+    webPort = await listen(webServer)
+
+    parent = http.createServer((req, res) => {
+      if (req.headers['proxy-authorization'] !== expectedAuthorization) {
+        res.writeHead(407).end()
+        return
+      }
+      parentRequests.push(req.url!)
+      const target = new URL(req.url!)
+      http
+        .get(
+          {
+            host: '127.0.0.1',
+            port: target.port,
+            path: target.pathname,
+          },
+          upstreamRes => upstreamRes.pipe(res),
+        )
+        .on('error', () => res.writeHead(502).end())
+    })
+    parent.on('connect', (req, socket, head) => {
+      if (req.headers['proxy-authorization'] !== expectedAuthorization) {
+        socket.end('HTTP/1.1 407 Proxy Authentication Required\r\n\r\n')
+        return
+      }
+      parentConnects.push(req.url!)
+      const port = parseInt(req.url!.split(':')[1]!, 10)
+      const upstream = net.connect(port, '127.0.0.1', () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+        upstream.write(head)
+        upstream.pipe(socket)
+        socket.pipe(upstream)
+      })
+      upstream.on('error', () => socket.destroy())
+    })
+    parentPort = await listen(parent)
+  })
+
+  afterAll(async () => {
+    await Promise.all(
+      [echoServer, webServer, parent].map(
+        server => new Promise(resolve => server.close(resolve)),
+      ),
+    )
+  })
+
+  it('tunnels through an HTTP CONNECT parent with basic auth', async () => {
+    const socket = await openUpstreamTunnel(
+      { protocol: 'http', host: '127.0.0.1', port: parentPort, auth },
+      'echo.internal',
+      echoPort,
+    )
+    try {
+      expect(await echo(socket, 'through parent')).toBe('through parent')
+      expect(parentConnects).toContain(`echo.internal:${echoPort}`)
+    } finally {
+      socket.destroy()
+    }
+  })
+
+  it('rejects when the HTTP parent refuses the tunnel', async () => {
+    await expect(
+      openUpstreamTunnel(
+        { protocol: 'http', host: '127.0.0.1', port: parentPort },
+        'echo.internal',
+        echoPort,
+      ),
+    ).rejects.toThrow('407')
+  })
+
+  it('tunnels through a SOCKS5 parent with username/password auth', async () => {
+    const socksParent = createSocksServer({ auth })
+    const socksPort = await new Promise<number>(resolve => {
+      socksParent.listen(0, '127.0.0.1', () =>
+        resolve(
+          (
+            (
+              socksParent as unknown as { server: net.Server }
+            ).server.address() as AddressInfo
+          ).port,
+        ),
+      )
+    })
+
+    try {
+      const socket = await openUpstreamTunnel(
+        { protocol: 'socks5', host: '127.0.0.1', port: socksPort, auth },
+        '127.0.0.1',
+        echoPort,
+      )
+      try {
+        expect(await echo(socket, 'via socks')).toBe('via socks')
+      } finally {
+        socket.destroy()
+      }
+
+      await expect(
+        openUpstreamTunnel(
+          { protocol: 'socks5', host: '127.0.0.1', port: socksPort },
+          '127.0.0.1',
+          echoPort,
+        ),
+      ).rejects.toThrow()
+    } finally {
+      await new Promise(resolve => socksParent.close(resolve))
+    }
+  })
+
+  it('gives up on a parent that never opens the tunnel', async () => {
+    const silentParent = net.createServer(() => {
+      // Accept the connection and never answer
+    })
+    const silentPort = await listen(silentParent)
+
+    try {
+      await expect(
+        openUpstreamTunnel(
+          { protocol: 'http', host: '127.0.0.1', port: silentPort },
+          'echo.internal',
+          echoPort,
+          50,
+        ),
+      ).rejects.toThrow('did not open a tunnel')
+    } finally {
+      silentParent.close()
+    }
+  })
+
+  it('checks the resolved address before routing to the parent', async () => {
+    const connectsBefore = parentConnects.length
+    const server = createHttpProxyServer({
+      filter: () => true,
+      // The host resolves only to blocked addresses
+      resolveDestination: async () => undefined,
+      getUpstreamProxy: () => ({
+        protocol: 'http',
+        host: '127.0.0.1',
+        port: parentPort,
+        auth,
+      }),
+    })
+    const port = await listen(server)
+
+    try {
+      const socket = net.connect(port, '127.0.0.1')
+      const statusLine = await new Promise<string>(resolve => {
+        socket.write(
+          `CONNECT metadata.internal:80 HTTP/1.1\r\n` +
+            `Host: metadata.internal:80\r\n\r\n`,
+        )
+        socket.once('data', chunk =>
+          resolve(chunk.toString().split('\r\n')[0]!),
+        )
+      })
+      socket.destroy()
+
+      expect(statusLine).toContain(' 403 ')
+      expect(parentConnects.length).toBe(connectsBefore)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('leaves hosts this machine cannot resolve to the parent', async () => {
+    const server = createHttpProxyServer({
+      filter: () => true,
+      resolveDestination: async () => {
+        throw new Error('getaddrinfo ENOTFOUND')
+      },
+      getUpstreamProxy: () => ({
+        protocol: 'http',
+        host: '127.0.0.1',
+        port: parentPort,
+        auth,
+      }),
+    })
+    const port = await listen(server)
+
+    try {
+      const socket = net.connect(port, '127.0.0.1')
+      const statusLine = await new Promise<string>(resolve => {
+        socket.write(
+          `CONNECT corp-only.internal:${echoPort} HTTP/1.1\r\n` +
+            `Host: corp-only.internal:${echoPort}\r\n\r\n`,
+        )
+        socket.once('data', chunk =>
+          resolve(chunk.toString().split('\r\n')[0]!),
+        )
+      })
+      expect(statusLine).toContain(' 200 ')
+      expect(await echo(socket, 'tunneled')).toBe('tunneled')
+      socket.destroy()
+
+      const target = `http://corp-only.internal:${webPort}/page`
+      const body = await new Promise<string>((resolve, reject) => {
+        http
+          .get({ host: '127.0.0.1', port, path: target }, res => {
+            let data = ''
+            res.on('data', chunk => (data += chunk))
+            res.on('end', () => resolve(data))
+          })
+          .on('error', reject)
+      })
+      expect(body).toBe('from origin')
+      expect(parentRequests).toContain(target)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('leaves hosts this machine cannot resolve to the parent over SOCKS', async () => {
+    const proxy = createSocksProxyServer({
+      filter: () => true,
+      resolveDestination: async () => {
+        throw new Error('getaddrinfo ENOTFOUND')
+      },
+      getUpstreamProxy: () => ({
+        protocol: 'http',
+        host: '127.0.0.1',
+        port: parentPort,
+        auth,
+      }),
+    })
+    const port = await proxy.listen(0, '127.0.0.1')
+
+    try {
+      const host = Buffer.from('corp-only.internal')
+      const socket = net.connect(port, '127.0.0.1')
+      socket.write(Buffer.from([5, 1, 0]))
+      await once(socket, 'data')
+      socket.write(
+        Buffer.concat([
+          Buffer.from([5, 1, 0, 3, host.length]),
+          host,
+          Buffer.from([echoPort >> 8, echoPort & 0xff]),
+        ]),
+      )
+      const [reply] = (await once(socket, 'data')) as [Buffer]
+      expect(reply[1]).toBe(0)
+      expect(await echo(socket, 'tunneled')).toBe('tunneled')
+      expect(parentConnects).toContain(`corp-only.internal:${echoPort}`)
+      socket.destroy()
+    } finally {
+      await proxy.close()
+    }
+  })
+
+  it('forwards permitted plain HTTP requests to the parent in absolute form', async () => {
+    let resolveCalls = 0
+    const server = createHttpProxyServer({
+      filter: () => true,
+      resolveDestination: async () => {
+        resolveCalls++
+        return '127.0.0.1'
+      },
+      getUpstreamProxy: () => ({
+        protocol: 'http',
+        host: '127.0.0.1',
+        port: parentPort,
+        auth,
+      }),
+    })
+    const port = await listen(server)
+
+    try {
+      const target = `http://origin.internal:${webPort}/page`
+      const body = await new Promise<string>((resolve, reject) => {
+        http
+          .get(
+            {
+              host: '127.0.0.1',
+              port,
+              path: target,
+              headers: { host: `origin.internal:${webPort}` },
+            },
+            res => {
+              let data = ''
+              res.on('data', chunk => (data += chunk))
+              res.on('end', () => resolve(data))
+            },
+          )
+          .on('error', reject)
+      })
+
+      expect(body).toBe('from origin')
+      expect(parentRequests).toContain(target)
+      // Checked locally, but sent to the parent by name
+      expect(resolveCalls).toBe(1)
+    } finally {
+      server.close()
+    }
+  })
+
+  it('tunnels permitted CONNECT requests through the parent', async () => {
+    const server = createHttpProxyServer({
+      filter: () => true,
+      getUpstreamProxy: () => ({
+        protocol: 'http',
+        host: '127.0.0.1',
+        port: parentPort,
+        auth,
+      }),
+    })
+    const port = await listen(server)
+
+    try {
+      const socket = net.connect(port, '127.0.0.1')
+      const statusLine = await new Promise<string>(resolve => {
+        socket.write(
+          `CONNECT tunnel.internal:${echoPort} HTTP/1.1\r\n` +
+            `Host: tunnel.internal:${echoPort}\r\n\r\n`,
+        )
+        socket.once('data', chunk =>
+          resolve(chunk.toString().split('\r\n')[0]!),
+        )
+      })
+
+      expect(statusLine).toContain(' 200 ')
+      expect(await echo(socket, 'tunneled')).toBe('tunneled')
+      expect(parentConnects).toContain(`tunnel.internal:${echoPort}`)
+      socket.destroy()
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
 import { SandboxManager } from '../../src/sandbox/sandbox-manager.js'
-import type { SandboxRuntimeConfig } from '../../src/sandbox/sandbox-config.js'
+import type {
+  SandboxCommandConfig,
+  SandboxRuntimeConfig,
+} from '../../src/sandbox/sandbox-config.js'
 import { getPlatform } from '../../src/utils/platform.js'
+import { connect, createServer, type AddressInfo } from 'node:net'
 import { wrapCommandWithSandboxLinux } from '../../src/sandbox/linux-sandbox-utils.js'
 import { wrapCommandWithSandboxMacOS } from '../../src/sandbox/macos-sandbox-utils.js'
 
@@ -22,6 +26,76 @@ function createTestConfig(): SandboxRuntimeConfig {
   }
 }
 
+/**
+ * Proxy credentials issued to a wrapped command, read from its proxy URLs,
+ * which are shell-quoted on Linux
+ */
+function getProxyCredentials(wrapped: string): string {
+  const match = wrapped.match(
+    /http\\?:\/\/([0-9a-f-]{36})\\?:([0-9a-f]{32})\\?@localhost/,
+  )
+  if (!match) {
+    throw new Error('Wrapped command has no proxy credentials')
+  }
+  return `${match[1]}:${match[2]}`
+}
+
+/**
+ * Send a CONNECT request to the HTTP proxy and return the response status
+ */
+function connectThroughProxy(
+  host: string,
+  credentials?: string,
+): Promise<number> {
+  const authorization = credentials
+    ? `Proxy-Authorization: Basic ${Buffer.from(credentials).toString('base64')}\r\n`
+    : ''
+  return new Promise((resolve, reject) => {
+    const socket = connect(SandboxManager.getProxyPort()!, '127.0.0.1', () => {
+      socket.write(
+        `CONNECT ${host}:443 HTTP/1.1\r\nHost: ${host}:443\r\n${authorization}\r\n`,
+      )
+    })
+    socket.once('data', chunk => {
+      socket.destroy()
+      resolve(parseInt(chunk.toString().split(' ')[1]!, 10))
+    })
+    socket.once('error', reject)
+  })
+}
+
+/**
+ * Connect through a SOCKS5 proxy without authentication, like `nc -X 5`,
+ * and return the reply status
+ */
+function socksConnectStatus(
+  proxyPort: number,
+  host: string,
+  port: number,
+): Promise<number> {
+  const address = Buffer.from(host.split('.').map(Number))
+  const portBytes = Buffer.alloc(2)
+  portBytes.writeUInt16BE(port)
+  return new Promise((resolve, reject) => {
+    const socket = connect(proxyPort, '127.0.0.1', () => {
+      socket.write(Buffer.from([5, 1, 0]))
+    })
+    let greeted = false
+    socket.on('data', chunk => {
+      if (!greeted) {
+        greeted = true
+        socket.write(
+          Buffer.concat([Buffer.from([5, 1, 0, 1]), address, portBytes]),
+        )
+        return
+      }
+      socket.destroy()
+      resolve(chunk[1]!)
+    })
+    socket.once('error', reject)
+  })
+}
+
 function skipIfUnsupportedPlatform(): boolean {
   const platform = getPlatform()
   return platform !== 'linux' && platform !== 'macos'
@@ -117,6 +191,166 @@ describe('wrapWithSandbox customConfig', () => {
       // Note: This is implementation-specific and may need adjustment
     })
 
+    it("enforces each command's allowedDomains at the proxy", async () => {
+      if (skipIfUnsupportedPlatform()) {
+        return
+      }
+
+      const install = getProxyCredentials(
+        await SandboxManager.wrapWithSandbox('npm install', undefined, {
+          network: {
+            allowedDomains: ['registry.npmjs.org'],
+            deniedDomains: [],
+          },
+        }),
+      )
+      const test = getProxyCredentials(
+        await SandboxManager.wrapWithSandbox('npm test', undefined, {
+          network: { allowedDomains: [], deniedDomains: [] },
+        }),
+      )
+
+      // Allowed requests get past the filter, even if the connection fails
+      expect(await connectThroughProxy('registry.npmjs.org', install)).not.toBe(
+        403,
+      )
+      expect(await connectThroughProxy('example.com', install)).toBe(403)
+      expect(await connectThroughProxy('registry.npmjs.org', test)).toBe(403)
+      expect(await connectThroughProxy('example.com', test)).toBe(403)
+      // Dropping the credentials does not fall back to the global policy
+      expect(await connectThroughProxy('example.com')).toBe(403)
+    })
+
+    it("enforces each command's IP range rules at the proxy", async () => {
+      if (skipIfUnsupportedPlatform()) {
+        return
+      }
+
+      const local = getProxyCredentials(
+        await SandboxManager.wrapWithSandbox('npm run dev', undefined, {
+          network: {
+            allowedDomains: [],
+            deniedDomains: [],
+            allowedCidrs: ['127.0.0.0/8'],
+            deniedCidrs: ['127.0.0.2/32'],
+          },
+        }),
+      )
+      const other = getProxyCredentials(
+        await SandboxManager.wrapWithSandbox('npm test', undefined, {
+          network: { allowedDomains: ['example.com'], deniedDomains: [] },
+        }),
+      )
+
+      expect(await connectThroughProxy('127.0.0.1', local)).not.toBe(403)
+      expect(await connectThroughProxy('127.0.0.2', local)).toBe(403)
+      expect(await connectThroughProxy('127.0.0.1', other)).toBe(403)
+    })
+
+    it('keeps the global rules for a command that only exposes ports', async () => {
+      if (skipIfUnsupportedPlatform()) {
+        return
+      }
+
+      const commandConfig: SandboxCommandConfig = {
+        network: { exposePorts: [3000] },
+      }
+      const credentials = getProxyCredentials(
+        await SandboxManager.wrapWithSandbox(
+          'npm run dev',
+          undefined,
+          commandConfig,
+        ),
+      )
+
+      expect(await connectThroughProxy('example.com', credentials)).not.toBe(
+        403,
+      )
+      expect(await connectThroughProxy('registry.npmjs.org', credentials)).toBe(
+        403,
+      )
+    })
+
+    it('lets ssh and rsync identify the command once policies are in use', async () => {
+      if (skipIfUnsupportedPlatform()) {
+        return
+      }
+
+      const server = createServer(socket => socket.end())
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const serverPort = (server.address() as AddressInfo).port
+
+      try {
+        const wrapped = await SandboxManager.wrapWithSandbox(
+          'git fetch',
+          undefined,
+          {
+            network: {
+              allowedDomains: [],
+              deniedDomains: [],
+              allowedCidrs: ['127.0.0.1/32'],
+            },
+          },
+        )
+        // Shell quoting on Linux escapes ':' with backslashes
+        const env = wrapped.replace(/\\/g, '')
+
+        // rsync sends the credentials to the HTTP proxy
+        expect(env).toMatch(
+          new RegExp(
+            `RSYNC_PROXY[= ]${getProxyCredentials(wrapped)}@localhost:\\d+`,
+          ),
+        )
+
+        // nc in GIT_SSH_COMMAND can't, so it uses the command's own port
+        if (getPlatform() === 'macos') {
+          const sshProxyPort = Number(
+            env.match(/nc -X 5 -x localhost:(\d+)/)![1],
+          )
+          expect(sshProxyPort).not.toBe(SandboxManager.getSocksProxyPort())
+          expect(
+            await socksConnectStatus(sshProxyPort, '127.0.0.1', serverPort),
+          ).toBe(0)
+          // 0x02 = connection not allowed by ruleset
+          expect(
+            await socksConnectStatus(
+              SandboxManager.getSocksProxyPort()!,
+              '127.0.0.1',
+              serverPort,
+            ),
+          ).toBe(2)
+        }
+      } finally {
+        await new Promise(resolve => server.close(resolve))
+      }
+    })
+
+    it("stops accepting a command's credentials once it is released", async () => {
+      if (skipIfUnsupportedPlatform()) {
+        return
+      }
+
+      const wrapped = await SandboxManager.wrapWithSandbox(
+        'npm ci',
+        undefined,
+        {
+          network: {
+            allowedDomains: ['registry.npmjs.org'],
+            deniedDomains: [],
+          },
+        },
+      )
+      const credentials = getProxyCredentials(wrapped)
+      expect(
+        await connectThroughProxy('registry.npmjs.org', credentials),
+      ).not.toBe(403)
+
+      await SandboxManager.releaseCommand(wrapped)
+      expect(await connectThroughProxy('registry.npmjs.org', credentials)).toBe(
+        403,
+      )
+    })
+
     it('uses main config network when customConfig.network is undefined', async () => {
       if (skipIfUnsupportedPlatform()) {
         return
@@ -499,6 +733,363 @@ describe('restriction pattern semantics', () => {
       }
     })
 
+    it("binds the proxy sockets read-only and only the sandbox's own directories", async () => {
+      if (getPlatform() !== 'linux') {
+        return
+      }
+
+      const fs = await import('fs')
+      const os = await import('os')
+      const path = await import('path')
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-bridge-'))
+      const proxyDirectory = path.join(root, 'proxy')
+      const hostDirectory = path.join(root, 's-1', 'host')
+      const exposedDirectory = path.join(root, 's-1', 'exposed')
+      fs.mkdirSync(proxyDirectory)
+      fs.mkdirSync(hostDirectory, { recursive: true })
+      fs.mkdirSync(exposedDirectory)
+      fs.writeFileSync(path.join(proxyDirectory, 'http.sock'), '')
+      fs.writeFileSync(path.join(proxyDirectory, 'socks.sock'), '')
+
+      try {
+        const result = await wrapCommandWithSandboxLinux({
+          command,
+          needsNetworkRestriction: true,
+          httpSocketPath: path.join(proxyDirectory, 'http.sock'),
+          socksSocketPath: path.join(proxyDirectory, 'socks.sock'),
+          bridgeSocketDirectory: root,
+          sandboxBridge: {
+            hostDirectory,
+            exposedDirectory,
+            lifelineSocketPath: path.join(hostDirectory, 'sandbox.sock'),
+            udpSocketPath: path.join(hostDirectory, 'udp.sock'),
+          },
+          readConfig: { denyOnly: [] },
+          writeConfig: { allowOnly: ['/tmp'], denyWithinAllow: [] },
+        })
+
+        expect(result).toContain(`--tmpfs ${root}`)
+        expect(result).toContain(
+          `--ro-bind ${proxyDirectory} ${proxyDirectory}`,
+        )
+        expect(result).toContain(`--ro-bind ${hostDirectory} ${hostDirectory}`)
+        expect(result).toContain(
+          `--bind ${exposedDirectory} ${exposedDirectory}`,
+        )
+        expect(result).not.toContain(`--bind ${root} `)
+        expect(result).toContain(
+          `socat -u UNIX-CONNECT:${hostDirectory}/sandbox.sock /dev/null`,
+        )
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true })
+      }
+    })
+
+    it("serves exposed ports on sockets in the sandbox's exposed directory on Linux", async () => {
+      if (getPlatform() !== 'linux') {
+        return
+      }
+
+      const fs = await import('fs')
+      const os = await import('os')
+      const path = await import('path')
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-bridge-'))
+      const proxyDirectory = path.join(root, 'proxy')
+      const hostDirectory = path.join(root, 's-1', 'host')
+      const exposedDirectory = path.join(root, 's-1', 'exposed')
+      fs.mkdirSync(proxyDirectory)
+      fs.mkdirSync(hostDirectory, { recursive: true })
+      fs.mkdirSync(exposedDirectory)
+      fs.writeFileSync(path.join(proxyDirectory, 'http.sock'), '')
+      fs.writeFileSync(path.join(proxyDirectory, 'socks.sock'), '')
+
+      try {
+        const result = await wrapCommandWithSandboxLinux({
+          command,
+          needsNetworkRestriction: true,
+          httpSocketPath: path.join(proxyDirectory, 'http.sock'),
+          socksSocketPath: path.join(proxyDirectory, 'socks.sock'),
+          bridgeSocketDirectory: root,
+          sandboxBridge: {
+            hostDirectory,
+            exposedDirectory,
+            lifelineSocketPath: path.join(hostDirectory, 'sandbox.sock'),
+            udpSocketPath: path.join(hostDirectory, 'udp.sock'),
+          },
+          exposePorts: [3000, 8080],
+        })
+
+        for (const port of [3000, 8080]) {
+          expect(result).toContain(
+            `socat UNIX-LISTEN:${exposedDirectory}/expose-${port}.sock,fork TCP:localhost:${port}`,
+          )
+        }
+        expect(result).not.toContain('unlink-early')
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true })
+      }
+    })
+
+    it("serves host services from the sandbox's host directory on Linux", async () => {
+      if (getPlatform() !== 'linux') {
+        return
+      }
+
+      const fs = await import('fs')
+      const os = await import('os')
+      const path = await import('path')
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-bridge-'))
+      const proxyDirectory = path.join(root, 'proxy')
+      const hostDirectory = path.join(root, 's-1', 'host')
+      fs.mkdirSync(proxyDirectory)
+      fs.mkdirSync(hostDirectory, { recursive: true })
+      fs.writeFileSync(path.join(proxyDirectory, 'http.sock'), '')
+      fs.writeFileSync(path.join(proxyDirectory, 'socks.sock'), '')
+
+      try {
+        const result = await wrapCommandWithSandboxLinux({
+          command,
+          needsNetworkRestriction: true,
+          httpSocketPath: path.join(proxyDirectory, 'http.sock'),
+          socksSocketPath: path.join(proxyDirectory, 'socks.sock'),
+          bridgeSocketDirectory: root,
+          sandboxBridge: {
+            hostDirectory,
+            exposedDirectory: path.join(root, 's-1', 'exposed'),
+            lifelineSocketPath: path.join(hostDirectory, 'sandbox.sock'),
+            udpSocketPath: path.join(hostDirectory, 'udp.sock'),
+          },
+          hostServices: [
+            { host: '127.0.0.2', port: 5432 },
+            { host: 'localhost', port: 8080 },
+            { host: '::1', port: 6379 },
+          ],
+        })
+
+        expect(result).toContain(
+          `socat TCP-LISTEN:5432,fork,reuseaddr,bind=127.0.0.2 UNIX-CONNECT:${hostDirectory}/host-127.0.0.2-5432.sock`,
+        )
+        expect(result).toContain(
+          `socat TCP-LISTEN:8080,fork,reuseaddr,bind=127.0.0.1 UNIX-CONNECT:${hostDirectory}/host-localhost-8080.sock`,
+        )
+        expect(result).toContain(
+          `socat TCP6-LISTEN:8080,fork,reuseaddr,bind=[::1],ipv6only=1 UNIX-CONNECT:${hostDirectory}/host-localhost-8080.sock`,
+        )
+        expect(result).toContain(
+          `socat TCP6-LISTEN:6379,fork,reuseaddr,bind=[::1],ipv6only=1 UNIX-CONNECT:${hostDirectory}/host-__1-6379.sock`,
+        )
+        expect(result).not.toContain('TCP-LISTEN:6379')
+        expect(result).not.toContain(`${proxyDirectory}/host-`)
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true })
+      }
+    })
+
+    it("relays UDP through the sandbox's own bridge socket on Linux", async () => {
+      if (getPlatform() !== 'linux') {
+        return
+      }
+
+      const fs = await import('fs')
+      const os = await import('os')
+      const path = await import('path')
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-bridge-'))
+      const proxyDirectory = path.join(root, 'proxy')
+      const hostDirectory = path.join(root, 's-1', 'host')
+      const udpSocketPath = path.join(hostDirectory, 'udp.sock')
+      fs.mkdirSync(proxyDirectory)
+      fs.mkdirSync(hostDirectory, { recursive: true })
+      fs.writeFileSync(path.join(proxyDirectory, 'http.sock'), '')
+      fs.writeFileSync(path.join(proxyDirectory, 'socks.sock'), '')
+
+      const wrap = () =>
+        wrapCommandWithSandboxLinux({
+          command,
+          needsNetworkRestriction: true,
+          httpSocketPath: path.join(proxyDirectory, 'http.sock'),
+          socksSocketPath: path.join(proxyDirectory, 'socks.sock'),
+          bridgeSocketDirectory: root,
+          sandboxBridge: {
+            hostDirectory,
+            exposedDirectory: path.join(root, 's-1', 'exposed'),
+            lifelineSocketPath: path.join(hostDirectory, 'sandbox.sock'),
+            udpSocketPath,
+          },
+          socksUdpPort: 40000,
+        })
+
+      try {
+        expect(await wrap()).not.toContain('UDP-RECVFROM')
+
+        fs.writeFileSync(udpSocketPath, '')
+        const result = await wrap()
+        expect(result).toContain(
+          `socat -t 10 UDP-RECVFROM:40000,fork,reuseaddr,bind=127.0.0.1 UNIX-CONNECT:${udpSocketPath}`,
+        )
+        expect(result).not.toContain(proxyDirectory + '/socks-udp.sock')
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true })
+      }
+    })
+
+    it('routes the sandbox through a tunnel device with transparent egress on Linux', async () => {
+      if (getPlatform() !== 'linux') {
+        return
+      }
+
+      const fs = await import('fs')
+      const os = await import('os')
+      const path = await import('path')
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-bridge-'))
+      const proxyDirectory = path.join(root, 'proxy')
+      const hostDirectory = path.join(root, 's-1', 'host')
+      fs.mkdirSync(proxyDirectory)
+      fs.mkdirSync(hostDirectory, { recursive: true })
+      fs.writeFileSync(path.join(proxyDirectory, 'http.sock'), '')
+      fs.writeFileSync(path.join(proxyDirectory, 'socks.sock'), '')
+
+      const wrap = (transparentEgress: boolean) =>
+        wrapCommandWithSandboxLinux({
+          command,
+          needsNetworkRestriction: true,
+          httpSocketPath: path.join(proxyDirectory, 'http.sock'),
+          socksSocketPath: path.join(proxyDirectory, 'socks.sock'),
+          bridgeSocketDirectory: root,
+          sandboxBridge: {
+            hostDirectory,
+            exposedDirectory: path.join(root, 's-1', 'exposed'),
+            lifelineSocketPath: path.join(hostDirectory, 'sandbox.sock'),
+            udpSocketPath: path.join(hostDirectory, 'udp.sock'),
+          },
+          transparentEgress,
+        })
+
+      try {
+        const plain = await wrap(false)
+        expect(plain).not.toContain('CAP_NET_ADMIN')
+        expect(plain).not.toContain('tun2socks')
+        expect(plain).not.toContain('setpriv')
+        expect(plain).not.toContain('/etc/resolv.conf')
+
+        const result = await wrap(true)
+        expect(result).toContain('--unshare-user --cap-add CAP_NET_ADMIN')
+        for (const step of [
+          'ip tuntap add dev srt0 mode tun || exit 1',
+          'ip addr add 198.18.0.1/15 dev srt0 || exit 1',
+          'ip link set dev srt0 up || exit 1',
+          'ip route add default dev srt0 || exit 1',
+        ]) {
+          expect(result).toContain(step)
+        }
+        // The inner script quotes ':' and '=' with backslashes
+        const script = result.replace(/\\/g, '')
+        expect(script).toContain(
+          'tun2socks -device srt0 -proxy socks5://127.0.0.1:1080',
+        )
+        // The command runs without the capabilities that set up the device
+        const dropCapabilities = script.indexOf(
+          'setpriv --inh-caps=-all --ambient-caps=-all -- ',
+        )
+        expect(dropCapabilities).toBeGreaterThan(-1)
+        expect(script.indexOf('echo hello')).toBeGreaterThan(dropCapabilities)
+        expect(result).toContain('--dev-bind /dev/net/tun /dev/net/tun')
+        expect(result).toContain(
+          `--ro-bind ${hostDirectory}/resolv.conf /etc/resolv.conf`,
+        )
+        expect(
+          fs.readFileSync(path.join(hostDirectory, 'resolv.conf'), 'utf8'),
+        ).toBe('nameserver 198.18.0.2\n')
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true })
+      }
+    })
+
+    it('lets the command listen on exposed ports only in the macOS profile', () => {
+      // The profile is generated the same way on any platform
+      const wrapped = wrapCommandWithSandboxMacOS({
+        command,
+        needsNetworkRestriction: true,
+        readConfig: undefined,
+        writeConfig: undefined,
+        httpProxyPort: 3128,
+        socksProxyPort: 1080,
+        exposePorts: [3000],
+      })
+      // The profile is passed as a double-quoted shell word
+      const result = wrapped.replace(/\\"/g, '"')
+
+      expect(result).toContain(
+        '(allow network-bind (local ip "localhost:3000"))',
+      )
+      expect(result).toContain(
+        '(allow network-inbound (local ip "localhost:3000"))',
+      )
+      expect(result).not.toContain('(local ip "localhost:*")')
+      expect(result).not.toContain('localhost:3001')
+    })
+
+    it('lets the command connect only to host services in the macOS profile', () => {
+      const wrapped = wrapCommandWithSandboxMacOS({
+        command,
+        needsNetworkRestriction: true,
+        readConfig: undefined,
+        writeConfig: undefined,
+        httpProxyPort: 3128,
+        socksProxyPort: 1080,
+        hostServices: [
+          { host: '127.0.0.1', port: 5432 },
+          { host: '::1', port: 6379 },
+        ],
+      })
+      const result = wrapped.replace(/\\"/g, '"')
+
+      for (const port of [5432, 6379]) {
+        expect(result).toContain(
+          `(allow network-outbound (remote ip "localhost:${port}"))`,
+        )
+        expect(result).not.toContain(`(local ip "localhost:${port}")`)
+      }
+      expect(result).not.toContain('(remote ip "localhost:*")')
+    })
+
+    it('lets the command send to the SOCKS UDP relay in the macOS profile', () => {
+      const wrapped = wrapCommandWithSandboxMacOS({
+        command,
+        needsNetworkRestriction: true,
+        readConfig: undefined,
+        writeConfig: undefined,
+        httpProxyPort: 3128,
+        socksProxyPort: 1080,
+        socksUdpPort: 40000,
+      })
+      const result = wrapped.replace(/\\"/g, '"')
+
+      expect(result).toContain(
+        '(allow network-outbound (remote ip "localhost:40000"))',
+      )
+      expect(result).not.toContain('(local ip "localhost:40000")')
+    })
+
+    it("lets ssh connect to the command's own SOCKS port in the macOS profile", () => {
+      const wrapped = wrapCommandWithSandboxMacOS({
+        command,
+        needsNetworkRestriction: true,
+        httpProxyPort: 3128,
+        socksProxyPort: 1080,
+        invocationSocksPort: 40001,
+        readConfig: undefined,
+        writeConfig: undefined,
+      })
+      const result = wrapped.replace(/\\"/g, '"')
+
+      expect(result).toContain(
+        '(allow network-outbound (remote ip "localhost:40001"))',
+      )
+      if (getPlatform() === 'macos') {
+        expect(result).toContain('nc -X 5 -x localhost:40001 %h %p')
+      }
+    })
+
     it('needsNetworkRestriction true with proxy allows filtered network on macOS', () => {
       if (getPlatform() !== 'macos') {
         return
@@ -520,6 +1111,31 @@ describe('restriction pattern semantics', () => {
       expect(result).toContain('HTTP_PROXY')
       expect(result).toContain('HTTPS_PROXY')
     })
+
+    it('points CA variables at the TLS interception CA on macOS', () => {
+      if (getPlatform() !== 'macos') {
+        return
+      }
+
+      const result = wrapCommandWithSandboxMacOS({
+        command,
+        needsNetworkRestriction: true,
+        httpProxyPort: 3128,
+        socksProxyPort: 1080,
+        tlsInterceptionCa: {
+          certPath: '/tmp/srt-tls-test/ca.pem',
+          bundlePath: '/tmp/srt-tls-test/ca-bundle.pem',
+        },
+        readConfig: { denyOnly: [] },
+        writeConfig: { allowOnly: ['/tmp'], denyWithinAllow: [] },
+      })
+
+      expect(result).toContain('SSL_CERT_FILE=/tmp/srt-tls-test/ca-bundle.pem')
+      expect(result).toContain(
+        'REQUESTS_CA_BUNDLE=/tmp/srt-tls-test/ca-bundle.pem',
+      )
+      expect(result).toContain('NODE_EXTRA_CA_CERTS=/tmp/srt-tls-test/ca.pem')
+    })
   })
 })
 
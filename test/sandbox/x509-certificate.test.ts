@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'bun:test'
+import { X509Certificate } from 'node:crypto'
+import {
+  createCertificateAuthority,
+  createLeafCertificate,
+  generateCertificateKey,
+} from '../../src/sandbox/x509-certificate.js'
+
+describe('x509 certificates', () => {
+  const ca = createCertificateAuthority('Test CA')
+  const caCert = new X509Certificate(ca.certPem)
+  const leafKey = generateCertificateKey()
+
+  it('creates a self-signed CA certificate', () => {
+    expect(caCert.ca).toBe(true)
+    expect(caCert.subject).toContain('CN=Test CA')
+    expect(caCert.checkIssued(caCert)).toBe(true)
+    expect(caCert.verify(caCert.publicKey)).toBe(true)
+  })
+
+  it('creates leaf certificates for host names signed by the CA', () => {
+    const leaf = new X509Certificate(
+      createLeafCertificate(ca, 'Registry.NPMjs.org', leafKey),
+    )
+    expect(leaf.ca).toBe(false)
+    expect(leaf.subjectAltName).toBe('DNS:registry.npmjs.org')
+    expect(leaf.checkHost('registry.npmjs.org')).toBe('registry.npmjs.org')
+    expect(leaf.checkIssued(caCert)).toBe(true)
+    expect(leaf.verify(caCert.publicKey)).toBe(true)
+    expect(new Date(leaf.validFrom).getTime()).toBeLessThan(Date.now())
+    expect(new Date(leaf.validTo).getTime()).toBeGreaterThan(Date.now())
+  })
+
+  it('creates leaf certificates for IP literals', () => {
+    const v4 = new X509Certificate(
+      createLeafCertificate(ca, '10.1.2.3', leafKey),
+    )
+    expect(v4.checkIP('10.1.2.3')).toBe('10.1.2.3')
+
+    const v6 = new X509Certificate(
+      createLeafCertificate(ca, 'fd00::1', leafKey),
+    )
+    expect(v6.checkIP('fd00::1')).toBe('fd00::1')
+  })
+
+  it('issues a distinct serial number per certificate', () => {
+    const first = new X509Certificate(
+      createLeafCertificate(ca, 'example.com', leafKey),
+    )
+    const second = new X509Certificate(
+      createLeafCertificate(ca, 'example.com', leafKey),
+    )
+    expect(first.serialNumber).not.toBe(second.serialNumber)
+  })
+})